@@ -1,5 +1,9 @@
 import type { Preview } from '@storybook/nextjs';
 import '../src/app/globals.css';
+import { worker } from '../src/shared/lib/msw/browser';
+import { type MockErrorScenario, setMockErrorScenario } from '../src/shared/lib/msw/scenarios';
+
+let workerStarted: Promise<unknown> | null = null;
 
 const preview: Preview = {
   parameters: {
@@ -17,6 +21,16 @@ const preview: Preview = {
       test: 'todo',
     },
   },
+
+  // API 요청은 MSW 핸들러(가짜 DB)로 처리
+  // 스토리에서 parameters.mswScenario로 에러 상황을 켤 수 있음 (예: 'GATHERING_FULL')
+  loaders: [
+    async ({ parameters }) => {
+      workerStarted ??= worker.start({ onUnhandledRequest: 'bypass', quiet: true });
+      await workerStarted;
+      setMockErrorScenario((parameters.mswScenario as MockErrorScenario | undefined) ?? null);
+    },
+  ],
 };
 
 export default preview;
@@ -3,4 +3,8 @@ beforeEach(() => {
   // localStorage와 쿠키 초기화
   cy.clearLocalStorage();
   cy.clearCookies();
+
+  // 인메모리 백엔드(pnpm e2e:memory)로 실행 중이면 시드 데이터로 초기화
+  // 원격 백엔드에서는 404가 반환되므로 무시
+  cy.request({ method: 'POST', url: '/api/memory-backend/__reset', failOnStatusCode: false });
 });
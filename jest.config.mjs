@@ -13,8 +13,8 @@ const customJestConfig = {
   // 각 테스트 실행 전에 실행할 파일을 지정합니다.
   setupFilesAfterEnv: ['<rootDir>/jest.setup.msw.js', '<rootDir>/jest.setup.js'],
 
-  // 'jest-environment-jsdom'을 사용하도록 설정합니다.
-  testEnvironment: 'jest-environment-jsdom',
+  // jsdom에 Node.js fetch API를 더한 환경을 사용합니다. (MSW 응답 처리용)
+  testEnvironment: '<rootDir>/jest.environment.js',
 
   // TypeScript 경로 별칭(@/components/*)을 Jest가 이해하도록 설정합니다.
   moduleNameMapper: {
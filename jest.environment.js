@@ -0,0 +1,23 @@
+// jsdom 환경에 Node.js의 fetch API(Response, Request 등)를 노출하는 테스트 환경
+// MSW가 XMLHttpRequest 응답을 만들 때 실제 Response 구현(arrayBuffer 등)이 필요함
+// (File, Blob, FormData는 jsdom 구현을 그대로 사용)
+const { TestEnvironment } = require('jest-environment-jsdom');
+
+class JsdomWithFetchEnvironment extends TestEnvironment {
+  constructor(...args) {
+    super(...args);
+
+    this.global.fetch = fetch;
+    this.global.Headers = Headers;
+    this.global.Request = Request;
+    this.global.Response = Response;
+    this.global.ReadableStream = ReadableStream;
+    this.global.TransformStream = TransformStream;
+    this.global.WritableStream = WritableStream;
+    this.global.TextEncoder = TextEncoder;
+    this.global.TextDecoder = TextDecoder;
+    this.global.BroadcastChannel = BroadcastChannel;
+  }
+}
+
+module.exports = JsdomWithFetchEnvironment;
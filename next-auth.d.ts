@@ -7,8 +7,10 @@ declare module 'next-auth' {
       id?: string;
       image?: string;
       accessToken?: string;
+      accessTokenExpires?: number;
       companyName?: string;
     };
+    error?: 'AccessTokenExpired';
   }
   interface User extends DefaultUser {
     token?: string; // authorize()가 리턴하는 raw token
@@ -18,6 +20,8 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT extends DefaultJWT {
     accessToken?: string; // jwt callback에 저장할 필드
+    accessTokenExpires?: number; // 백엔드 토큰 만료 시각(ms)
+    error?: 'AccessTokenExpired';
     expires?: number;
     id?: number;
     image?: string;
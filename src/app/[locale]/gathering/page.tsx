@@ -9,7 +9,13 @@ import { HydrationProvider, QUERY_KEYS } from '@/shared/api';
 import { createQueryClient } from '@/shared/api/query/client';
 import { generateGatheringMetadata } from '@/shared/lib';
 import { DoubleHeartIcon } from '@/shared/ui/icon';
+import {
+  GatheringCalendar,
+  GatheringViewToggle,
+  parseGatheringViewMode,
+} from '@/widgets/GatheringCalendar';
 import { GatheringList } from '@/widgets/GatheringList/ui/GatheringList';
+import { GatheringMap } from '@/widgets/GatheringMap';
 import { dehydrate } from '@tanstack/react-query';
 
 interface GatheringPageProps {
@@ -35,6 +41,7 @@ export default async function GatheringPage({ params, searchParams }: GatheringP
 
   // URL 파라미터를 기반으로 필터 생성
   const filters = parseGatheringFiltersFromSearchParams(searchParamsObj);
+  const viewMode = parseGatheringViewMode(searchParamsObj.view);
 
   const [initialGatherings, t] = await Promise.all([
     getGatherings({
@@ -71,14 +78,24 @@ export default async function GatheringPage({ params, searchParams }: GatheringP
       </div>
 
       <FilterSection />
+      <GatheringViewToggle viewMode={viewMode} />
 
-      {/* GatheringList만 hydration 적용 */}
-      <HydrationProvider dehydratedState={dehydratedState}>
-        <GatheringList
-          initialGatherings={initialGatherings}
-          initialFilters={filters}
+      {viewMode === 'list' ? (
+        // GatheringList만 hydration 적용
+        <HydrationProvider dehydratedState={dehydratedState}>
+          <GatheringList
+            initialGatherings={initialGatherings}
+            initialFilters={filters}
+          />
+        </HydrationProvider>
+      ) : viewMode === 'map' ? (
+        <GatheringMap filters={filters} />
+      ) : (
+        <GatheringCalendar
+          filters={filters}
+          mode={viewMode}
         />
-      </HydrationProvider>
+      )}
     </div>
   );
 }
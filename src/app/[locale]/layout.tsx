@@ -4,7 +4,10 @@ import { NextIntlClientProvider } from 'next-intl';
 import type { Locale } from 'next-intl';
 import { getMessages } from 'next-intl/server';
 import Script from 'next/script';
+import { SessionExpiryWatcher } from '@/features/signin/ui/SessionExpiryWatcher';
 import { routing } from '@/i18n';
+import { ApiDebugPanel } from '@/shared/ui/apiDebugPanel';
+import { OfflineQueueIndicator } from '@/shared/ui/offlineQueue';
 import { ScrollToTopButton } from '@/shared/ui/scrollToTopButton';
 import { Header } from '@/widgets/Header/ui/Header';
 import Providers from '../providers';
@@ -56,18 +59,22 @@ export default async function LocaleLayout({ children, params }: LocaleLayoutPro
       />
 
       <div className="flex min-h-screen flex-col antialiased">
-        <Providers>
-          <NextIntlClientProvider
-            messages={messages}
-            locale={locale}
-          >
+        {/* QueryClient의 에러 메시지 번역을 위해 NextIntlClientProvider가 Providers를 감쌈 */}
+        <NextIntlClientProvider
+          messages={messages}
+          locale={locale}
+        >
+          <Providers>
             <Header />
             <main className="tablet:mt-15 web:max-w-web web:px-0 tablet:px-tablet-padding px-mobile-padding mt-14 flex w-full flex-1 justify-center self-center overflow-auto">
               {children}
             </main>
             <ScrollToTopButton />
-          </NextIntlClientProvider>
-        </Providers>
+            <OfflineQueueIndicator />
+            <ApiDebugPanel />
+            <SessionExpiryWatcher />
+          </Providers>
+        </NextIntlClientProvider>
       </div>
     </Fragment>
   );
@@ -1,13 +1,33 @@
-'use client';
-
 import { Suspense } from 'react';
+import { getGatherings } from '@/entities/gathering/api';
 import { GatheringsCreatedContent } from '@/entities/gathering/ui';
+import { getUser } from '@/entities/user/api/service';
+import { HydrationProvider, QUERY_KEYS } from '@/shared/api';
+import { getServerQueryClient } from '@/shared/api/query/serverClient';
 import { PageContentSkeleton } from '@/widgets/MyPageSkeleton';
+import { dehydrate } from '@tanstack/react-query';
+
+export default async function GatheringsCreated() {
+  const queryClient = getServerQueryClient();
+
+  // 내가 만든 모임은 회원 id가 있어야 조회 가능
+  const user = await queryClient
+    .fetchQuery({ queryKey: QUERY_KEYS.AUTH.USER.BASE, queryFn: getUser })
+    .catch(() => undefined);
+
+  if (user?.id) {
+    const filters = { createdBy: user.id };
+    await queryClient.prefetchQuery({
+      queryKey: QUERY_KEYS.gathering.list(filters),
+      queryFn: () => getGatherings(filters),
+    });
+  }
 
-export default function GatheringsCreated() {
   return (
-    <Suspense fallback={<PageContentSkeleton />}>
-      <GatheringsCreatedContent />
-    </Suspense>
+    <HydrationProvider dehydratedState={dehydrate(queryClient)}>
+      <Suspense fallback={<PageContentSkeleton />}>
+        <GatheringsCreatedContent />
+      </Suspense>
+    </HydrationProvider>
   );
 }
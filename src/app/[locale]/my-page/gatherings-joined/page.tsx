@@ -1,13 +1,59 @@
-'use client';
-
 import { Suspense } from 'react';
+import {
+  getCalendarFeed,
+  getGatheringsJoined,
+  isCalendarFeedTokenSupported,
+  issueCalendarFeed,
+} from '@/entities/gathering/api';
 import { GatheringsJoinedContent } from '@/entities/gathering/ui';
+import { CalendarFeedSubscription } from '@/features/my-page/ui';
+import { WaitlistedGatherings } from '@/features/waitlist/ui';
+import { HydrationProvider, QUERY_KEYS } from '@/shared/api';
+import {
+  createCalendarFeedToken,
+  getCalendarFeedTokenExpiry,
+} from '@/shared/api/calendarFeedToken';
+import { getServerQueryClient } from '@/shared/api/query/serverClient';
+import { getServerAccessToken } from '@/shared/api/serverAuth';
 import { PageContentSkeleton } from '@/widgets/MyPageSkeleton';
+import { dehydrate } from '@tanstack/react-query';
+
+// 캘린더 앱 구독 주소에 넣을 토큰
+// 인메모리 백엔드는 서버에 저장된 토큰(없으면 발급)을, 원격 백엔드는 액세스 토큰을 감싼 토큰과 만료 시각을 사용
+const getCalendarFeedSubscription = async (accessToken: string) => {
+  if (isCalendarFeedTokenSupported()) {
+    const feed = await getCalendarFeed({ accessToken });
+    const { token } = feed.token ? feed : await issueCalendarFeed({ accessToken });
+    return token ? { feedToken: token, reissuable: true } : undefined;
+  }
+
+  return {
+    feedToken: await createCalendarFeedToken(accessToken),
+    expiresAt: getCalendarFeedTokenExpiry(accessToken),
+  };
+};
+
+export default async function GatheringsJoined() {
+  const queryClient = getServerQueryClient();
+  const [accessToken] = await Promise.all([
+    getServerAccessToken(),
+    queryClient.prefetchQuery({
+      queryKey: QUERY_KEYS.gathering.joined(),
+      queryFn: () => getGatheringsJoined(),
+    }),
+  ]);
+  // 캘린더 앱 구독용 토큰 (로그인 세션이 없거나 토큰을 불러오지 못하면 구독 안내를 숨김)
+  const feedSubscription = accessToken
+    ? await getCalendarFeedSubscription(accessToken).catch(() => undefined)
+    : undefined;
 
-export default function GatheringsJoined() {
   return (
-    <Suspense fallback={<PageContentSkeleton />}>
-      <GatheringsJoinedContent />
-    </Suspense>
+    <HydrationProvider dehydratedState={dehydrate(queryClient)}>
+      {feedSubscription && <CalendarFeedSubscription {...feedSubscription} />}
+      <WaitlistedGatherings />
+      <Suspense fallback={<PageContentSkeleton />}>
+        <GatheringsJoinedContent />
+      </Suspense>
+    </HydrationProvider>
   );
 }
@@ -1,22 +1,36 @@
-'use client';
-
 import { Suspense } from 'react';
-import { useTranslations } from 'next-intl';
+import { getTranslations } from 'next-intl/server';
+import { getUser } from '@/entities/user/api/service';
 import { ProfileSection } from '@/entities/user/ui/ProfileSection';
 import { MyPageTab } from '@/features/my-page/ui/MyPageTab';
+import { HydrationProvider, QUERY_KEYS } from '@/shared/api';
+import { getServerQueryClient } from '@/shared/api/query/serverClient';
 import { ProfileSkeleton } from '@/widgets/MyPageSkeleton';
+import { dehydrate } from '@tanstack/react-query';
+
+// 사용자별 데이터를 서버에서 prefetch하므로 정적 생성하지 않음
+export const dynamic = 'force-dynamic';
+
+export default async function MyPageLayout({ children }: { children: React.ReactNode }) {
+  const t = await getTranslations('pages.myPage');
 
-export default function MyPageLayout({ children }: { children: React.ReactNode }) {
-  const t = useTranslations('pages.myPage');
+  // 서버에서 회원 정보를 미리 불러와 프로필 영역에 hydration
+  const queryClient = getServerQueryClient();
+  await queryClient.prefetchQuery({
+    queryKey: QUERY_KEYS.AUTH.USER.BASE,
+    queryFn: getUser,
+  });
 
   return (
     <div className="flex flex-1 flex-col gap-4">
       <p className="mt-5 text-2xl font-bold">{t('title')}</p>
 
-      {/* 프로필 정보 */}
-      <Suspense fallback={<ProfileSkeleton />}>
-        <ProfileSection />
-      </Suspense>
+      {/* 프로필 정보 (prefetch 실패 시 클라이언트에서 다시 요청) */}
+      <HydrationProvider dehydratedState={dehydrate(queryClient)}>
+        <Suspense fallback={<ProfileSkeleton />}>
+          <ProfileSection />
+        </Suspense>
+      </HydrationProvider>
       <div className="border-t-2 border-t-gray-100" />
 
       <MyPageTab />
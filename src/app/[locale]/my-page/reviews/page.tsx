@@ -1,13 +1,43 @@
-'use client';
-
 import { Suspense } from 'react';
+import { getGatheringsJoined } from '@/entities/gathering/api';
+import { getReviewList } from '@/entities/review/api/services';
 import { ReviewsContent } from '@/entities/review/ui/ReviewsContent';
+import { getUser } from '@/entities/user/api/service';
+import { HydrationProvider, QUERY_KEYS } from '@/shared/api';
+import { getServerQueryClient } from '@/shared/api/query/serverClient';
 import { ReviewsSkeleton } from '@/widgets/MyPageSkeleton';
+import { dehydrate } from '@tanstack/react-query';
+
+export default async function Reviews() {
+  const queryClient = getServerQueryClient();
+
+  // 작성 가능한 리뷰 탭: 이용 완료 & 리뷰 미작성 모임
+  const writableParams = { completed: true, reviewed: false };
+
+  const [user] = await Promise.all([
+    queryClient
+      .fetchQuery({ queryKey: QUERY_KEYS.AUTH.USER.BASE, queryFn: getUser })
+      .catch(() => undefined),
+    queryClient.prefetchQuery({
+      queryKey: QUERY_KEYS.gathering.joined(writableParams),
+      queryFn: () => getGatheringsJoined(writableParams),
+    }),
+  ]);
+
+  // 작성한 리뷰 탭
+  if (user?.id) {
+    const reviewParams = { userId: user.id };
+    await queryClient.prefetchQuery({
+      queryKey: QUERY_KEYS.review.list(reviewParams),
+      queryFn: () => getReviewList(reviewParams),
+    });
+  }
 
-export default function Reviews() {
   return (
-    <Suspense fallback={<ReviewsSkeleton />}>
-      <ReviewsContent />
-    </Suspense>
+    <HydrationProvider dehydratedState={dehydrate(queryClient)}>
+      <Suspense fallback={<ReviewsSkeleton />}>
+        <ReviewsContent />
+      </Suspense>
+    </HydrationProvider>
   );
 }
@@ -65,6 +65,7 @@ export default async function ReviewsPage({ params, searchParams }: ReviewsPageP
           <OptionsFiltersGroup
             sortValue={sortOptions}
             defaultSort="createdAt"
+            searchScope="reviews"
           />
         </div>
         <div className="mt-8 min-h-[28rem]">
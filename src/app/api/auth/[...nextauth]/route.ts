@@ -2,7 +2,10 @@ import NextAuth from 'next-auth';
 // import { decode as jwtDecode, encode as jwtEncode } from 'next-auth/jwt';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { signinApi, signoutApi } from '@/entities/auth/api/services';
-import { API_CONFIG, API_ENDPOINTS } from '@/shared/config';
+import { userSchema } from '@/entities/user/model';
+import { httpClient, validateResponse } from '@/shared/api';
+import { API_ENDPOINTS } from '@/shared/config';
+import { decodeTokenExpiry, isTokenExpired } from '@/shared/lib/auth/tokenExpiry';
 import * as Sentry from '@sentry/nextjs';
 
 const handler = NextAuth({
@@ -62,36 +65,41 @@ const handler = NextAuth({
       }
       if (user?.token) {
         token.accessToken = user.token;
+        token.accessTokenExpires = decodeTokenExpiry(user.token) ?? undefined;
+        delete token.error;
 
         try {
-          const userInfoResponse = await fetch(API_CONFIG.BASE_URL() + API_ENDPOINTS.AUTH.USER, {
+          // httpClient를 거쳐 선택된 백엔드(원격/인메모리)에서 사용자 정보를 가져옴
+          const data = await httpClient.get(API_ENDPOINTS.AUTH.USER, {
             headers: { Authorization: `Bearer ${user.token}` },
           });
-
-          if (!userInfoResponse.ok) {
-            console.error('Failed to fetch user info:', userInfoResponse.status);
-            return token;
-          }
-
-          const userInfo = await userInfoResponse.json();
+          const userInfo = validateResponse(userSchema, data, API_ENDPOINTS.AUTH.USER);
           if (process.env.NODE_ENV === 'development') {
             console.log('USER INFO', userInfo);
           }
           token.name = userInfo.name;
           token.id = userInfo.id;
-          token.image = userInfo.image;
+          token.image = userInfo.image ?? undefined;
           token.companyName = userInfo.companyName;
         } catch (error) {
           console.error('Error fetching user info:', error);
         }
       }
 
+      // 백엔드 토큰이 만료되면 더 이상 사용하지 않고 만료 상태를 세션에 전달
+      if (token.accessToken && isTokenExpired(token.accessTokenExpires)) {
+        delete token.accessToken;
+        token.error = 'AccessTokenExpired';
+      }
+
       return token;
     },
     async session({ session, token }) {
       // 클라이언트 useSession() 시 session.user.accessToken으로 꺼낼 수 있음
       session.user.id = token.id?.toString();
       session.user.accessToken = token.accessToken;
+      session.user.accessTokenExpires = token.accessTokenExpires;
+      session.error = token.error;
       session.user.name = token.name;
       session.user.image = token.image;
       session.user.companyName = token.companyName;
@@ -0,0 +1,78 @@
+import { hasLocale } from 'next-intl';
+import { getTranslations } from 'next-intl/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalendarFeedGatherings,
+  getGatheringsJoined,
+  isCalendarFeedTokenSupported,
+} from '@/entities/gathering/api';
+import { gatheringToIcsEvent } from '@/entities/gathering/model/calendarEvent';
+import { routing } from '@/i18n/routing';
+import { ApiError } from '@/shared/api/apiError';
+import { readCalendarFeedToken } from '@/shared/api/calendarFeedToken';
+import { getServerAccessToken } from '@/shared/api/serverAuth';
+import { ERROR_CODES, HTTP_STATUS } from '@/shared/config';
+import { createIcsCalendar } from '@/shared/lib/ics';
+
+// 구독 토큰이나 로그인 세션으로 참여한 모임 조회 (인증할 수 없으면 undefined)
+// 인메모리 백엔드는 서버에 저장된 구독 토큰으로, 원격 백엔드는 구독 토큰에 담긴 액세스 토큰으로 조회
+const getFeedGatherings = async (feedToken: string | null) => {
+  const params = { sortBy: 'dateTime' } as const;
+  if (feedToken && isCalendarFeedTokenSupported()) {
+    return getCalendarFeedGatherings(feedToken, params);
+  }
+
+  const accessToken = feedToken
+    ? await readCalendarFeedToken(feedToken)
+    : await getServerAccessToken();
+  return accessToken ? getGatheringsJoined(params, { accessToken }) : undefined;
+};
+
+// 참여한 모임 캘린더 구독 (GET /api/calendar/feed?token=...&locale=ko)
+// 캘린더 앱은 쿠키 없이 주기적으로 요청하므로 token 쿼리로 인증하고, 없으면 로그인 세션을 사용
+export const GET = async (request: NextRequest) => {
+  const { searchParams, origin } = request.nextUrl;
+
+  const requestedLocale = searchParams.get('locale');
+  const locale = hasLocale(routing.locales, requestedLocale)
+    ? requestedLocale
+    : routing.defaultLocale;
+  const t = await getTranslations({ locale, namespace: 'pages.gathering.calendarExport' });
+
+  try {
+    const gatherings = await getFeedGatherings(searchParams.get('token'));
+    if (!gatherings) {
+      return NextResponse.json(
+        {
+          code: ERROR_CODES.UNAUTHORIZED,
+          message: '캘린더 구독 주소가 만료되었거나 올바르지 않습니다',
+        },
+        { status: HTTP_STATUS.UNAUTHORIZED },
+      );
+    }
+
+    const events = gatherings.map((gathering) =>
+      gatheringToIcsEvent(gathering, {
+        origin,
+        locale,
+        alarmDescription: t('alarm', { name: gathering.name }),
+      }),
+    );
+
+    return new NextResponse(createIcsCalendar(events, { name: t('feedName') }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="gatherings.ics"',
+        'Cache-Control': 'private, max-age=0, must-revalidate',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { code: error.code, message: error.message },
+        { status: error.status },
+      );
+    }
+    throw error;
+  }
+};
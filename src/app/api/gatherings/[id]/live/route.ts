@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  formatGatheringLiveMessage,
+  isGatheringLiveAvailable,
+  subscribeGatheringLive,
+} from '@/shared/api/live';
+import { ERROR_CODES, HTTP_STATUS } from '@/shared/config';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// 프록시/로드밸런서가 유휴 연결을 끊지 않도록 주기적으로 보내는 주석 메시지 간격
+const HEARTBEAT_INTERVAL = 1000 * 25;
+// 연결이 끊겼을 때 브라우저(EventSource)가 다시 연결하기까지 기다리는 시간
+const RECONNECT_DELAY = 1000 * 5;
+
+export const dynamic = 'force-dynamic';
+
+// 모임 참여 인원/취소 상태 실시간 스트림 (GET /api/gatherings/:id/live, Server-Sent Events)
+// 같은 서버 프로세스의 로컬 발행자(publishGatheringLiveEvent)가 보낸 변경을 전달
+export const GET = async (request: NextRequest, { params }: RouteParams) => {
+  // 원격 백엔드는 변경을 발행하지 않으므로 하트비트만 보내는 연결을 열지 않음
+  if (!isGatheringLiveAvailable()) {
+    return NextResponse.json(
+      { code: ERROR_CODES.NOT_FOUND, message: '실시간 업데이트를 지원하지 않는 백엔드입니다' },
+      { status: HTTP_STATUS.NOT_FOUND },
+    );
+  }
+
+  const { id } = await params;
+  const gatheringId = Number(id);
+
+  if (!Number.isInteger(gatheringId) || gatheringId <= 0) {
+    return NextResponse.json(
+      { code: ERROR_CODES.VALIDATION_ERROR, message: '올바르지 않은 모임 id입니다' },
+      { status: HTTP_STATUS.BAD_REQUEST },
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // 브라우저 연결 종료(abort)와 런타임의 스트림 취소(cancel) 중 먼저 온 쪽에서 한 번만 정리
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (message: string) => {
+        if (!closed) controller.enqueue(encoder.encode(message));
+      };
+
+      send(`retry: ${RECONNECT_DELAY}\n\n`);
+      const unsubscribe = subscribeGatheringLive(gatheringId, (event) =>
+        send(formatGatheringLiveMessage(event)),
+      );
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      // 브라우저가 연결을 끊으면 구독 해제 후 스트림 종료 (이미 취소된 스트림은 닫을 수 없음)
+      request.signal.addEventListener('abort', () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+};
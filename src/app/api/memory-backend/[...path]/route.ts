@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMemoryRequest, resetMemoryDb } from '@/shared/api/backend/memory';
+import { API_CONFIG, ERROR_CODES, HTTP_STATUS } from '@/shared/config';
+
+interface RouteParams {
+  params: Promise<{ path: string[] }>;
+}
+
+// 브라우저에서 보낸 요청을 인메모리 서버로 전달 (NEXT_PUBLIC_API_BACKEND=memory일 때만 동작)
+const handler = async (request: NextRequest, { params }: RouteParams) => {
+  if (API_CONFIG.BACKEND !== 'memory') {
+    return NextResponse.json(
+      { code: ERROR_CODES.NOT_FOUND, message: '인메모리 백엔드가 비활성화되어 있습니다' },
+      { status: HTTP_STATUS.NOT_FOUND },
+    );
+  }
+
+  const { path } = await params;
+  const pathname = `/${path.join('/')}`;
+
+  // E2E 테스트 간 상태 격리를 위해 시드 데이터로 초기화
+  if (request.method === 'POST' && pathname === '/__reset') {
+    resetMemoryDb();
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const contentType = request.headers.get('content-type') ?? '';
+  let body: unknown;
+  if (contentType.includes('multipart/form-data')) {
+    body = await request.formData();
+  } else if (contentType.includes('application/json')) {
+    body = await request.json().catch(() => undefined);
+  }
+
+  const response = await handleMemoryRequest({
+    method: request.method,
+    path: pathname,
+    query: request.nextUrl.searchParams,
+    body,
+    authorization: request.headers.get('authorization'),
+  });
+
+  if (response.body === undefined) return new NextResponse(null, { status: response.status });
+  return NextResponse.json(response.body, { status: response.status });
+};
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
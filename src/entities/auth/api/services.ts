@@ -1,15 +1,20 @@
-import { httpClient } from '@/shared/api';
+import { httpClient, validateResponse } from '@/shared/api';
 import { API_ENDPOINTS } from '@/shared/config';
+import { signinResponseSchema, signoutResponseSchema, signupResponseSchema } from '../model/schema';
 import { SigninPayload, SigninResponse, SignupPayload, SignupResponse } from '../model/types';
 
-export const signupApi = async (payload: SignupPayload) =>
-  await httpClient.post<SignupResponse>(API_ENDPOINTS.AUTH.SIGNUP, payload);
+export const signupApi = async (payload: SignupPayload): Promise<SignupResponse> => {
+  const data = await httpClient.post(API_ENDPOINTS.AUTH.SIGNUP, payload);
+  return validateResponse(signupResponseSchema, data, API_ENDPOINTS.AUTH.SIGNUP);
+};
 
 export const signinApi = async (payload: SigninPayload): Promise<SigninResponse> => {
   const { email, password } = payload;
-  return await httpClient.post(API_ENDPOINTS.AUTH.SIGNIN, { email, password });
+  const data = await httpClient.post(API_ENDPOINTS.AUTH.SIGNIN, { email, password });
+  return validateResponse(signinResponseSchema, data, API_ENDPOINTS.AUTH.SIGNIN);
 };
 
 export const signoutApi = async () => {
-  return await httpClient.post(API_ENDPOINTS.AUTH.SIGNOUT);
+  const data = await httpClient.post(API_ENDPOINTS.AUTH.SIGNOUT);
+  return validateResponse(signoutResponseSchema, data, API_ENDPOINTS.AUTH.SIGNOUT);
 };
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import type { SigninResponse, SignoutResponse, SignupResponse } from './types';
+
+// (POST /auths/signup)
+export const signupResponseSchema = z.object({
+  message: z.string(),
+}) satisfies z.ZodType<SignupResponse>;
+
+// (POST /auths/signin)
+export const signinResponseSchema = z.object({
+  token: z.string(),
+}) satisfies z.ZodType<SigninResponse>;
+
+// (POST /auths/signout)
+export const signoutResponseSchema = z.object({
+  message: z.string(),
+}) satisfies z.ZodType<SignoutResponse>;
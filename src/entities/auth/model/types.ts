@@ -6,7 +6,6 @@ export type SignupPayload = {
 };
 
 export type SignupResponse = {
-  status: number;
   message: string;
 };
 export type SigninPayload = {
@@ -16,5 +15,8 @@ export type SigninPayload = {
 
 export type SigninResponse = {
   token: string;
-  ok: boolean;
+};
+
+export type SignoutResponse = {
+  message: string;
 };
@@ -15,8 +15,8 @@ export const useGetFavoritesGathering = ({
 }: UseGetFavoritesGatheringProps) => {
   return useInfiniteQuery({
     queryKey: QUERY_KEYS.favorites.list({ type, favoriteIds }),
-    queryFn: ({ pageParam }) => {
-      return fetchFavoritesData({ ids: favoriteIds, type, pageParam });
+    queryFn: ({ pageParam, signal }) => {
+      return fetchFavoritesData({ ids: favoriteIds, type, pageParam, signal });
     },
     enabled: enabled && favoriteIds.length > 0,
     initialPageParam: 0,
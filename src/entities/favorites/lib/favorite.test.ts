@@ -46,12 +46,28 @@ describe('fetchFavoritesData - 로컬 ID 배열 → 쉼표 문자열 → Gatheri
 
     await fetchFavoritesData(baseParams);
 
-    expect(mockGetGatherings).toHaveBeenCalledWith({
-      id: '10,20,30',
-      type: 'MEET',
-      limit: 10,
-      offset: 0,
+    expect(mockGetGatherings).toHaveBeenCalledWith(
+      {
+        id: '10,20,30',
+        type: 'MEET',
+        limit: 10,
+        offset: 0,
+      },
+      { signal: undefined },
+    );
+  });
+
+  it('취소된 요청은 빈 목록으로 바꾸지 않고 에러를 그대로 던진다', async () => {
+    const controller = new AbortController();
+    const cancelError = new Error('canceled');
+    mockGetGatherings.mockImplementationOnce(() => {
+      controller.abort();
+      return Promise.reject(cancelError);
     });
+
+    await expect(fetchFavoritesData({ ...baseParams, signal: controller.signal })).rejects.toBe(
+      cancelError,
+    );
   });
 
   it('응답이 LIMIT(10개)이면 nextOffset을 반환한다', async () => {
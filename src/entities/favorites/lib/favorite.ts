@@ -6,10 +6,16 @@ interface FetchFavoritesDataProps {
   ids: number[];
   type: string;
   pageParam: number;
+  signal?: AbortSignal;
 }
 
 const LIMIT = 10;
-export const fetchFavoritesData = async ({ ids, type, pageParam = 0 }: FetchFavoritesDataProps) => {
+export const fetchFavoritesData = async ({
+  ids,
+  type,
+  pageParam = 0,
+  signal,
+}: FetchFavoritesDataProps) => {
   if (ids.length === 0) {
     return { items: [], nextOffset: undefined };
   }
@@ -17,11 +23,14 @@ export const fetchFavoritesData = async ({ ids, type, pageParam = 0 }: FetchFavo
   try {
     const favoriteIds = ids.join(',');
     const filters = parseGatheringFiltersFromSearchParams({ id: favoriteIds, type });
-    const data: Gathering[] = await getGatherings({
-      ...filters,
-      limit: LIMIT,
-      offset: pageParam,
-    });
+    const data: Gathering[] = await getGatherings(
+      {
+        ...filters,
+        limit: LIMIT,
+        offset: pageParam,
+      },
+      { signal },
+    );
 
     const hasNextPage = data?.length === LIMIT;
     const nextOffset = hasNextPage ? pageParam + (data?.length ?? 0) : undefined;
@@ -31,6 +40,8 @@ export const fetchFavoritesData = async ({ ids, type, pageParam = 0 }: FetchFavo
       nextOffset,
     };
   } catch (error) {
+    // 취소된 요청은 빈 목록으로 바꾸지 않고 React Query에 그대로 전달
+    if (signal?.aborted) throw error;
     console.error('fetchFavoritesData error:', error);
     return { items: [], nextOffset: undefined };
   }
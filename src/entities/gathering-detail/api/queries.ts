@@ -1,18 +1,34 @@
 import { useTranslations } from 'next-intl';
-import { QUERY_KEYS } from '@/shared/api';
-import { QueryClient, useMutation, useQueryClient, useSuspenseQuery } from '@tanstack/react-query';
+import { QUERY_KEYS, isApiErrorWithCode } from '@/shared/api';
+import {
+  QueryClient,
+  type UseSuspenseQueryOptions,
+  useMutation,
+  useQueryClient,
+  useSuspenseQuery,
+} from '@tanstack/react-query';
 import toast from 'react-hot-toast';
+import { GATHERING_STALE_ERROR_CODES } from '../model/errorCodes';
 import { GatheringDetail } from '../model/types';
 import { getGatheringById } from './services';
 import { cancelGathering, joinGathering, leaveGathering } from './services';
 
-export const useGetGatheringDetail = (id: number) => {
+interface GetGatheringDetailOptions {
+  // 실시간 업데이트용 폴링 간격 (useLiveGatheringDetail 참고)
+  refetchInterval?: UseSuspenseQueryOptions<GatheringDetail>['refetchInterval'];
+}
+
+export const useGetGatheringDetail = (
+  id: number,
+  { refetchInterval }: GetGatheringDetailOptions = {},
+) => {
   return useSuspenseQuery<GatheringDetail>({
     queryKey: QUERY_KEYS.gathering.detail(id),
 
-    queryFn: () => getGatheringById(id),
+    queryFn: ({ signal }) => getGatheringById(id, { signal }),
 
     staleTime: 1000 * 60 * 3, // 3분
+    refetchInterval,
   });
 };
 
@@ -32,6 +48,20 @@ const invalidateGatheringAndRelatedQueries = (queryClient: QueryClient, gatherin
   });
 };
 
+// 참여/참여 취소 실패 시 모임 상태가 바뀐 경우(정원 초과, 마감 등) 최신 정보로 갱신
+// 개별 onError를 지정하면 전역 onError가 무시되므로 전역 에러 토스트도 함께 호출
+const handleGatheringMutationError = (
+  queryClient: QueryClient,
+  error: Error,
+  gatheringId: number,
+  context: unknown,
+) => {
+  if (isApiErrorWithCode(error, GATHERING_STALE_ERROR_CODES)) {
+    invalidateGatheringAndRelatedQueries(queryClient, gatheringId);
+  }
+  queryClient.getDefaultOptions().mutations?.onError?.(error, gatheringId, context);
+};
+
 // 모임 참여
 export const useJoinGathering = () => {
   const t = useTranslations('pages.gathering.detail');
@@ -44,6 +74,8 @@ export const useJoinGathering = () => {
       toast.success(t('joinSuccess'));
       invalidateGatheringAndRelatedQueries(queryClient, gatheringId);
     },
+    onError: (error, gatheringId, context) =>
+      handleGatheringMutationError(queryClient, error, gatheringId, context),
   });
 };
 
@@ -57,6 +89,8 @@ export const useLeaveGathering = () => {
       toast.success(t('cancelJoin'));
       invalidateGatheringAndRelatedQueries(queryClient, gatheringId);
     },
+    onError: (error, gatheringId, context) =>
+      handleGatheringMutationError(queryClient, error, gatheringId, context),
   });
 };
 
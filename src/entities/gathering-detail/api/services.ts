@@ -1,9 +1,22 @@
-import { httpClient } from '@/shared/api';
-import { API_ENDPOINTS } from '@/shared/config/api';
-import { GatheringDetail } from '../model/types';
+import { type RequestOptions, httpClient, validateResponse } from '@/shared/api';
+import { API_CONFIG, API_ENDPOINTS } from '@/shared/config/api';
+import {
+  gatheringDetailSchema,
+  waitlistStatusListSchema,
+  waitlistStatusSchema,
+} from '../model/schema';
+import { GatheringDetail, WaitlistStatus } from '../model/types';
 
-export const getGatheringById = async (id: number): Promise<GatheringDetail> => {
-  return await httpClient.get<GatheringDetail>(API_ENDPOINTS.GATHERINGS.DETAIL(id));
+// 참여/참여 취소는 오프라인 큐에서 서로 상쇄됨
+const gatheringOfflineKey = (gatheringId: number) => `gathering:${gatheringId}`;
+
+export const getGatheringById = async (
+  id: number,
+  { signal }: RequestOptions = {},
+): Promise<GatheringDetail> => {
+  const url = API_ENDPOINTS.GATHERINGS.DETAIL(id);
+  const data = await httpClient.get(url, { signal });
+  return validateResponse(gatheringDetailSchema, data, url);
 };
 
 // 모임 참여 join
@@ -13,6 +26,11 @@ export const joinGathering = async (gatheringId: number): Promise<void> => {
     {},
     {
       authRequired: true,
+      offlineQueue: {
+        resourceKey: gatheringOfflineKey(gatheringId),
+        action: 'join',
+        cancels: ['leave'],
+      },
     },
   );
 };
@@ -21,6 +39,11 @@ export const joinGathering = async (gatheringId: number): Promise<void> => {
 export const leaveGathering = async (gatheringId: number): Promise<void> => {
   await httpClient.delete<void>(API_ENDPOINTS.GATHERINGS.LEAVE(gatheringId), {
     authRequired: true,
+    offlineQueue: {
+      resourceKey: gatheringOfflineKey(gatheringId),
+      action: 'leave',
+      cancels: ['join'],
+    },
   });
 };
 
@@ -31,6 +54,46 @@ export const cancelGathering = async (gatheringId: number): Promise<void> => {
     {},
     {
       authRequired: true,
+      offlineQueue: {
+        resourceKey: gatheringOfflineKey(gatheringId),
+        action: 'cancel',
+      },
     },
   );
 };
+
+// 대기열은 인메모리 백엔드에서만 서버에 저장 (원격 API에서는 신청한 브라우저에만 저장)
+export const isGatheringWaitlistSupported = () => API_CONFIG.BACKEND === 'memory';
+
+// 내 대기 상태 조회
+export const getWaitlistStatus = async (
+  gatheringId: number,
+  { signal }: RequestOptions = {},
+): Promise<WaitlistStatus> => {
+  const url = API_ENDPOINTS.GATHERINGS.WAITLIST(gatheringId);
+  const data = await httpClient.get(url, { authRequired: true, signal });
+  return validateResponse(waitlistStatusSchema, data, url);
+};
+
+// 대기 신청 (이미 대기 중이면 순번 유지)
+export const joinWaitlist = async (gatheringId: number): Promise<WaitlistStatus> => {
+  const url = API_ENDPOINTS.GATHERINGS.WAITLIST(gatheringId);
+  const data = await httpClient.post(url, {}, { authRequired: true });
+  return validateResponse(waitlistStatusSchema, data, url);
+};
+
+// 대기 취소
+export const leaveWaitlist = async (gatheringId: number): Promise<WaitlistStatus> => {
+  const url = API_ENDPOINTS.GATHERINGS.WAITLIST(gatheringId);
+  const data = await httpClient.delete(url, { authRequired: true });
+  return validateResponse(waitlistStatusSchema, data, url);
+};
+
+// 내가 대기 중인 모임의 대기 상태 목록 (대기 신청한 순서)
+export const getMyWaitlist = async ({ signal }: RequestOptions = {}): Promise<WaitlistStatus[]> => {
+  const data = await httpClient.get(API_ENDPOINTS.GATHERINGS.WAITLISTED, {
+    authRequired: true,
+    signal,
+  });
+  return validateResponse(waitlistStatusListSchema, data, API_ENDPOINTS.GATHERINGS.WAITLISTED);
+};
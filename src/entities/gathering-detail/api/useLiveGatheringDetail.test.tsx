@@ -0,0 +1,49 @@
+import { type ReactNode, Suspense } from 'react';
+import { QUERY_KEYS } from '@/shared/api';
+import {
+  addMockParticipant,
+  createMockGathering,
+  createMockUser,
+  resetMockDb,
+} from '@/shared/lib/msw/db';
+import { createTestQueryClient } from '@/shared/lib/test/testUtils';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useLiveGatheringDetail } from './useLiveGatheringDetail';
+
+describe('useLiveGatheringDetail', () => {
+  const queryClient = createTestQueryClient();
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <Suspense fallback={null}>{children}</Suspense>
+    </QueryClientProvider>
+  );
+
+  beforeEach(() => {
+    queryClient.clear();
+    resetMockDb(() => {
+      createMockUser({ id: 1 });
+      createMockUser({ id: 2 });
+      createMockGathering({ id: 1 }, [1]);
+    });
+  });
+
+  it('모임 상세를 백오프 간격으로 폴링한다', async () => {
+    const { result } = renderHook(() => useLiveGatheringDetail(1), { wrapper });
+    await waitFor(() => expect(result.current).not.toBeNull());
+
+    const query = queryClient.getQueryCache().find({ queryKey: QUERY_KEYS.gathering.detail(1) });
+    expect(typeof query?.observers[0].options.refetchInterval).toBe('function');
+  });
+
+  it('다시 불러온 참여 인원이 바뀌면 참여자 목록도 다시 불러온다', async () => {
+    const { result } = renderHook(() => useLiveGatheringDetail(1), { wrapper });
+    await waitFor(() => expect(result.current?.participants).toHaveLength(1));
+
+    addMockParticipant(1, 2);
+    await act(() => queryClient.refetchQueries({ queryKey: QUERY_KEYS.gathering.detail(1) }));
+
+    await waitFor(() => expect(result.current.gathering.participantCount).toBe(2));
+    await waitFor(() => expect(result.current.participants).toHaveLength(2));
+  });
+});
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useGetParticipants } from '@/entities/participant/api/queries';
+import {
+  GATHERING_LIVE_EVENT,
+  QUERY_KEYS,
+  createBackoffRefetchInterval,
+  getGatheringLivePath,
+  isGatheringLiveAvailable,
+  parseGatheringLiveEvent,
+} from '@/shared/api';
+import { useQueryClient } from '@tanstack/react-query';
+import type { GatheringDetail } from '../model/types';
+import { useGetGatheringDetail } from './queries';
+
+// 변화가 없으면 5초 → 10초 → ... 최대 1분 간격으로 폴링 (탭이 보이지 않을 때는 멈춤)
+const LIVE_POLLING_INITIAL_INTERVAL = 1000 * 5;
+const LIVE_POLLING_MAX_INTERVAL = 1000 * 60;
+
+// SSE로 받은 참여 인원/취소 상태를 모임 상세 캐시에 반영 (연결되어 있는 동안 true)
+const useGatheringLiveStream = (gatheringId: number) => {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    // 원격 백엔드는 폴링만 사용
+    if (!isGatheringLiveAvailable() || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(getGatheringLivePath(gatheringId));
+    source.onopen = () => setIsConnected(true);
+    // EventSource가 자동으로 다시 연결하며, 그동안은 폴링으로 대체
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener(GATHERING_LIVE_EVENT, (message) => {
+      const event = parseGatheringLiveEvent((message as MessageEvent<string>).data);
+      if (!event || event.gatheringId !== gatheringId) return;
+
+      queryClient.setQueryData<GatheringDetail>(
+        QUERY_KEYS.gathering.detail(gatheringId),
+        (previous) =>
+          previous && {
+            ...previous,
+            participantCount: event.participantCount,
+            canceledAt: event.canceledAt,
+          },
+      );
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [gatheringId, queryClient]);
+
+  return isConnected;
+};
+
+// 모임 상세와 참여자 목록을 실시간으로 갱신
+// SSE가 연결되어 있으면 스트림으로, 아니면 백오프 폴링으로 participantCount/canceledAt을 갱신하고
+// participantCount가 바뀌면 참여자 목록(모달의 무한스크롤 목록 포함)을 다시 불러옴
+export const useLiveGatheringDetail = (gatheringId: number) => {
+  const queryClient = useQueryClient();
+  const isStreaming = useGatheringLiveStream(gatheringId);
+
+  // 백오프 상태는 컴포넌트마다 따로 유지
+  const [pollingInterval] = useState(() =>
+    createBackoffRefetchInterval({
+      initialInterval: LIVE_POLLING_INITIAL_INTERVAL,
+      maxInterval: LIVE_POLLING_MAX_INTERVAL,
+    }),
+  );
+
+  const { data: gathering } = useGetGatheringDetail(gatheringId, {
+    refetchInterval: isStreaming ? false : pollingInterval,
+  });
+  const { data: participants } = useGetParticipants(gatheringId);
+
+  const previousCountRef = useRef(gathering.participantCount);
+  useEffect(() => {
+    if (previousCountRef.current === gathering.participantCount) return;
+    previousCountRef.current = gathering.participantCount;
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey }) =>
+        queryKey[0] === QUERY_KEYS.participant.base[0] && queryKey[2] === gatheringId,
+    });
+  }, [gathering.participantCount, gatheringId, queryClient]);
+
+  return { gathering, participants };
+};
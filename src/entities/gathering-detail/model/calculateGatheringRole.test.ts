@@ -17,11 +17,11 @@ describe('calculateGatheringRole', () => {
   const mockGathering: GatheringDetail = {
     id: 1,
     teamId: 1,
-    type: 'MEETUP',
+    type: 'OFFICE_STRETCHING',
     name: '테스트 모임',
     dateTime: '2024-10-26T18:00:00Z',
     registrationEnd: '2024-10-25T18:00:00Z',
-    location: '서울',
+    location: '건대입구',
     participantCount: 2,
     capacity: 10,
     image: 'test.jpg',
@@ -0,0 +1,19 @@
+import type { ApiErrorCode } from '@/shared/config';
+
+// 모임 상태가 바뀌었음을 의미하는 에러 코드 → 상세/참여자 정보를 다시 불러옴
+export const GATHERING_STALE_ERROR_CODES: readonly ApiErrorCode[] = [
+  'GATHERING_FULL',
+  'REGISTRATION_CLOSED',
+  'GATHERING_CANCELED',
+  'PAST_GATHERING',
+  'ALREADY_JOINED',
+  'NOT_PARTICIPANT',
+];
+
+// 더 이상 참여할 수 없음을 의미하는 에러 코드 → 참여 버튼 비활성화
+export const JOIN_BLOCKING_ERROR_CODES: readonly ApiErrorCode[] = [
+  'GATHERING_FULL',
+  'REGISTRATION_CLOSED',
+  'GATHERING_CANCELED',
+  'PAST_GATHERING',
+];
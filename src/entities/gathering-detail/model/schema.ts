@@ -0,0 +1,14 @@
+import { gatheringSchema } from '@/entities/gathering/model/schema';
+import { z } from 'zod';
+import type { GatheringDetail, WaitlistStatus } from './types';
+
+// (GET /gatherings/{id}) 모임 목록과 같은 형태
+export const gatheringDetailSchema = gatheringSchema satisfies z.ZodType<GatheringDetail>;
+
+export const waitlistStatusSchema = z.object({
+  gatheringId: z.number(),
+  position: z.number().nullable(),
+  waitlistCount: z.number(),
+}) satisfies z.ZodType<WaitlistStatus>;
+
+export const waitlistStatusListSchema = z.array(waitlistStatusSchema);
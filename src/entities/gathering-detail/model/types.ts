@@ -1,18 +1,28 @@
+import type { GatheringLocation, GatheringType } from '@/entities/gathering/model/types';
+
 export interface GatheringDetail {
   id: number;
   teamId: number;
-  type: string;
+  type: GatheringType;
   name: string;
   dateTime: string;
   registrationEnd: string;
-  location: string;
+  location: GatheringLocation;
   participantCount: number;
   capacity: number;
+  minParticipants?: number; // 개설 확정 최소 인원 (주최자가 정한 경우에만 내려옴)
   image: string;
   createdBy: number;
   canceledAt: string | null;
 }
 
+// 정원이 찬 모임의 내 대기 상태 (GET /gatherings/{id}/waitlist)
+export interface WaitlistStatus {
+  gatheringId: number;
+  position: number | null; // 대기 순번 (1부터 시작, 대기 중이 아니면 null)
+  waitlistCount: number;
+}
+
 export interface SessionData {
   expires: string;
   user: UserSession;
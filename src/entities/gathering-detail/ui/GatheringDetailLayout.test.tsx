@@ -10,10 +10,12 @@ import {
 //import { useGetGatheringDetail } from '@/entities/gathering-detail/api/queries';
 import { useGetParticipants } from '@/entities/participant/api/queries';
 import { Participant } from '@/entities/participant/model/types';
+import { getWaitlistPosition, joinWaitlist } from '@/features/waitlist/model/waitlistStorage';
 import { useRouter } from '@/i18n';
+import { API_CONFIG } from '@/shared/config/api';
 import { BottomFloatingBarProps } from '@/widgets/BottomFloatingBar/BottomFloatingBar';
 import { QueryClient, QueryClientProvider, UseSuspenseQueryResult } from '@tanstack/react-query';
-import { render, screen, within } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { GatheringDetail } from '../model/types';
 import { GatheringDetailLayout } from './GatheringDetailLayout';
@@ -29,6 +31,18 @@ jest.mock('@/widgets/ReviewList/ui/DetailPageReviewList', () => {
 
   return { DetailPageReviewList: MockedReviewList };
 });
+jest.mock('@/features/gathering/ui', () => ({
+  AddToCalendarButton: () => <div data-testid="mock-add-to-calendar" />,
+  EditGatheringModal: ({ isOpen }: { isOpen: boolean }) =>
+    isOpen ? <div data-testid="mock-edit-gathering-modal" /> : null,
+}));
+jest.mock('@/features/host-console/ui', () => ({
+  GatheringNotices: () => <div data-testid="mock-gathering-notices" />,
+}));
+jest.mock('@/features/participants/ui', () => ({
+  ParticipantsModal: ({ isOpen, canExport }: { isOpen: boolean; canExport: boolean }) =>
+    isOpen ? <div data-testid="mock-participants-modal">{canExport && 'CSV'}</div> : null,
+}));
 jest.mock('@/widgets/BottomFloatingBar', () => {
   const MockedBottomFloatingBar = (props: BottomFloatingBarProps) => (
     <div data-testid="mock-bottom-bar">
@@ -41,8 +55,16 @@ jest.mock('@/widgets/BottomFloatingBar', () => {
       {/* 모임 취소 버튼 (HOST용) */}
       <button onClick={props.onCancelProject}>모임 취소</button>
 
+      {/* 모임 수정 버튼 (수정 가능한 모임의 HOST용) */}
+      {props.onEdit && <button onClick={props.onEdit}>모임 수정</button>}
+
       {/* 공유하기 버튼 */}
       <button onClick={props.onShare}>공유하기</button>
+
+      {/* 대기 신청/취소 버튼 (정원이 찬 모임의 GUEST용) */}
+      {props.onJoinWaitlist && <button onClick={props.onJoinWaitlist}>대기 신청</button>}
+      {props.isWaitlisted && <p>대기 {props.waitlistPosition ?? '중'}</p>}
+      {props.isWaitlisted && <button onClick={props.onLeaveWaitlist}>대기 취소</button>}
     </div>
   );
   return { BottomFloatingBar: MockedBottomFloatingBar };
@@ -79,11 +101,11 @@ describe('GatheringDetailLayout', () => {
   const mockGathering: GatheringDetail = {
     id: 1,
     teamId: 101,
-    type: '스터디',
+    type: 'WORKATION',
     name: '테스트 모임',
     dateTime: '2025-08-07T18:00:00Z',
     registrationEnd: '2025-08-06T23:59:59Z',
-    location: '서울시 강남구 테헤란로 123',
+    location: '을지로3가',
     participantCount: 5,
     capacity: 10,
     image: 'https://example.com/image.png',
@@ -293,4 +315,182 @@ describe('GatheringDetailLayout', () => {
 
     expect(mockedUseCancelGathering().mutate).toHaveBeenCalled();
   });
+
+  describe('대기열', () => {
+    const fullGathering: GatheringDetail = {
+      ...mockGathering,
+      participantCount: 10,
+      registrationEnd: new Date(Date.now() + 86400 * 1000).toISOString(),
+    };
+
+    const mockDetail = (gathering: GatheringDetail) =>
+      mockedUseGetGatheringDetail.mockReturnValue({
+        data: gathering,
+        status: 'success',
+      } as unknown as UseSuspenseQueryResult<GatheringDetail, Error>);
+
+    beforeEach(() => {
+      localStorage.clear();
+      jest.mocked(mockMutationResult.mutate).mockClear();
+      mockedUseSession.mockReturnValue({
+        data: mockSession,
+        status: 'authenticated',
+        update: jest.fn(),
+      });
+    });
+
+    it('정원이 찬 모임에서 대기 신청하면 순번 없이 대기 중으로 보여준다', async () => {
+      const user = userEvent.setup();
+      mockDetail(fullGathering);
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: '대기 신청' }));
+
+      expect(await screen.findByText('대기 중')).toBeInTheDocument();
+      expect(getWaitlistPosition(1, '99')).toBe(1);
+    });
+
+    it('모집이 마감된 모임은 대기 신청할 수 없다', async () => {
+      mockDetail({ ...fullGathering, registrationEnd: '2025-01-01T00:00:00Z' });
+
+      renderComponent();
+
+      await screen.findByText('테스트 모임');
+      expect(screen.queryByRole('button', { name: '대기 신청' })).not.toBeInTheDocument();
+    });
+
+    it('참여 인원이 줄어 내 순번까지 자리가 나면 자동으로 참여를 시도한다', async () => {
+      joinWaitlist(1, '99');
+      mockDetail(fullGathering);
+
+      const { rerender } = renderComponent();
+      await screen.findByText('대기 중');
+      expect(mockMutationResult.mutate).not.toHaveBeenCalled();
+
+      // useGetGatheringDetail이 다시 불러온 값에서 한 자리가 남
+      mockDetail({ ...fullGathering, participantCount: 9 });
+      rerender(
+        <QueryClientProvider client={new QueryClient()}>
+          <GatheringDetailLayout
+            id={1}
+            locale="ko"
+          />
+        </QueryClientProvider>,
+      );
+
+      await waitFor(() =>
+        expect(mockMutationResult.mutate).toHaveBeenCalledWith(1, expect.any(Object)),
+      );
+    });
+  });
+
+  describe('참여자 목록', () => {
+    it('아바타를 누르면 참여자 목록 모달이 열린다', async () => {
+      const user = userEvent.setup();
+      mockedUseSession.mockReturnValue({
+        data: mockSession,
+        status: 'authenticated',
+        update: jest.fn(),
+      });
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: 'participants.open' }));
+
+      expect(screen.getByTestId('mock-participants-modal')).not.toHaveTextContent('CSV');
+    });
+
+    it('주최자는 참여자 목록을 CSV로 내보낼 수 있다', async () => {
+      const user = userEvent.setup();
+      mockedUseSession.mockReturnValue({
+        data: mockSessionHost,
+        status: 'authenticated',
+        update: jest.fn(),
+      });
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: 'participants.open' }));
+
+      expect(screen.getByTestId('mock-participants-modal')).toHaveTextContent('CSV');
+    });
+  });
+
+  describe('주최자 공지', () => {
+    it('주최자에게는 보낸 공지를 보여준다', async () => {
+      mockedUseSession.mockReturnValue({
+        data: mockSessionHost,
+        status: 'authenticated',
+        update: jest.fn(),
+      });
+
+      renderComponent();
+
+      expect(await screen.findByTestId('mock-gathering-notices')).toBeInTheDocument();
+    });
+
+    it('참여하지 않은 사용자에게는 주최자 공지를 보여주지 않는다', async () => {
+      mockedUseSession.mockReturnValue({
+        data: null,
+        status: 'unauthenticated',
+        update: jest.fn(),
+      });
+
+      renderComponent();
+
+      expect(await screen.findByText('테스트 모임')).toBeInTheDocument();
+      expect(screen.queryByTestId('mock-gathering-notices')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('모임 수정', () => {
+    const mockUpcomingGathering = (overrides: Partial<GatheringDetail> = {}) => {
+      mockedUseGetGatheringDetail.mockReturnValue({
+        data: {
+          ...mockGathering,
+          dateTime: new Date(Date.now() + 7 * 86400 * 1000).toISOString(),
+          registrationEnd: new Date(Date.now() + 6 * 86400 * 1000).toISOString(),
+          ...overrides,
+        },
+        status: 'success',
+        isSuccess: true,
+      } as unknown as UseSuspenseQueryResult<GatheringDetail, Error>);
+    };
+
+    beforeEach(() => {
+      jest.replaceProperty(API_CONFIG, 'BACKEND', 'memory');
+      mockedUseSession.mockReturnValue({
+        data: mockSessionHost,
+        status: 'authenticated',
+        update: jest.fn(),
+      });
+    });
+
+    it('주최자가 수정 버튼을 누르면 모임 수정 모달이 열린다', async () => {
+      const user = userEvent.setup();
+      mockUpcomingGathering();
+
+      renderComponent();
+      await user.click(await screen.findByRole('button', { name: '모임 수정' }));
+
+      expect(screen.getByTestId('mock-edit-gathering-modal')).toBeInTheDocument();
+    });
+
+    it('지난 모임이나 취소된 모임은 수정할 수 없다', async () => {
+      mockUpcomingGathering({ canceledAt: new Date().toISOString() });
+
+      renderComponent();
+
+      expect(await screen.findByText('테스트 모임')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: '모임 수정' })).not.toBeInTheDocument();
+    });
+
+    it('모임 수정을 지원하지 않는 백엔드에서는 수정 버튼을 보여주지 않는다', async () => {
+      jest.replaceProperty(API_CONFIG, 'BACKEND', 'remote');
+      mockUpcomingGathering();
+
+      renderComponent();
+
+      expect(await screen.findByText('테스트 모임')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: '모임 수정' })).not.toBeInTheDocument();
+    });
+  });
 });
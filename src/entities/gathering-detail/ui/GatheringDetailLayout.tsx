@@ -6,21 +6,29 @@ import { Locale, useTranslations } from 'next-intl';
 import Image from 'next/image';
 import {
   useCancelGathering,
-  useGetGatheringDetail,
   useJoinGathering,
   useLeaveGathering,
 } from '@/entities/gathering-detail/api/queries';
+import { useLiveGatheringDetail } from '@/entities/gathering-detail/api/useLiveGatheringDetail';
+import { isGatheringEditSupported } from '@/entities/gathering/api';
 import { GatheringDeadlineTag } from '@/entities/gathering/ui';
-import { useGetParticipants } from '@/entities/participant/api/queries';
+import { AddToCalendarButton, EditGatheringModal } from '@/features/gathering/ui';
+import { GatheringNotices } from '@/features/host-console/ui';
+import { ParticipantsModal } from '@/features/participants/ui';
+import { useGatheringWaitlist } from '@/features/waitlist/model/useGatheringWaitlist';
 import { useRouter } from '@/i18n';
+import { isApiErrorWithCode } from '@/shared/api';
 import { ROUTES } from '@/shared/config/routes';
 import { formatDateAndTime } from '@/shared/lib/date';
+import { getMinParticipants } from '@/shared/lib/gathering/confirmation';
 import { Popup } from '@/shared/ui/modal/Popup';
 import { BottomFloatingBar } from '@/widgets/BottomFloatingBar';
 import { ContainerInformation } from '@/widgets/ContainerInformation';
 import { DetailPageReviewList } from '@/widgets/ReviewList/ui/DetailPageReviewList';
 import toast from 'react-hot-toast';
 import { calculateGatheringRole } from '../model/calculateGatheringRole';
+import { JOIN_BLOCKING_ERROR_CODES } from '../model/errorCodes';
+import { GatheringRole } from '../model/types';
 
 export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Locale }) => {
   const t = useTranslations('pages.gathering.detail');
@@ -28,16 +36,18 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
   const { data: sessionData } = useSession();
   const userId = sessionData?.user?.id;
 
-  const { data: gathering } = useGetGatheringDetail(id);
-  const { data: participantsData } = useGetParticipants(id);
+  // 참여 인원/취소 상태와 참여자 목록을 실시간으로 갱신
+  const { gathering, participants: participantsData } = useLiveGatheringDetail(id);
 
-  const { mutate: join } = useJoinGathering();
+  const { mutate: join, error: joinError } = useJoinGathering();
   const { mutate: leave } = useLeaveGathering();
   const { mutate: cancel } = useCancelGathering();
   const router = useRouter();
 
   const [isCancelPopupOpen, setIsCancelPopupOpen] = useState(false);
   const [isLoginPopupOpen, setIsLoginPopupOpen] = useState(false);
+  const [isParticipantsOpen, setIsParticipantsOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
 
   const openCancelPopup = () => setIsCancelPopupOpen(true);
   const closeCancelPopup = () => setIsCancelPopupOpen(false);
@@ -46,6 +56,8 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
   const closeLoginPopup = () => setIsLoginPopupOpen(false);
 
   const isFull = gathering.capacity <= gathering.participantCount;
+  // 정원 초과/마감 등으로 참여에 실패했으면 다시 시도하지 못하도록 비활성화
+  const isJoinBlocked = isApiErrorWithCode(joinError, JOIN_BLOCKING_ERROR_CODES);
 
   const currentUser = useMemo(() => (userId ? { id: Number(userId) } : undefined), [userId]);
 
@@ -65,8 +77,27 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
     }
   };
 
+  const {
+    isWaiting: isWaitlisted,
+    position: waitlistPosition,
+    join: joinWaitlist,
+    leave: leaveWaitlist,
+  } = useGatheringWaitlist(gathering, userRole);
+  // 취소되었거나 모집이 마감된 모임은 대기 신청 불가
+  const isWaitlistOpen =
+    isFull && !gathering.canceledAt && new Date(gathering.registrationEnd) > new Date();
+
+  const handleJoinWaitlist = () => {
+    if (!sessionData) {
+      openLoginPopup();
+    } else {
+      joinWaitlist();
+    }
+  };
+
   const handleLoginRedirect = () => {
-    router.push(ROUTES.SIGNIN);
+    // 로그인 후 이 모임 페이지로 돌아오도록 callbackUrl 전달
+    router.push({ pathname: ROUTES.SIGNIN, query: { callbackUrl: window.location.pathname } });
   };
 
   const handleLeave = () => {
@@ -84,6 +115,12 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
     openCancelPopup();
   };
 
+  // 취소되었거나 이미 지난 모임은 수정 불가
+  const isEditable =
+    isGatheringEditSupported() &&
+    !gathering.canceledAt &&
+    new Date(gathering.dateTime) > new Date();
+
   const handleShare = () => {
     // 공유하기 로직 구현
     // url링크 클립보드로 복사
@@ -123,15 +160,39 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
           date={formattedDate}
           time={formattedTime}
           participants={participants}
-          minParticipants={5}
+          participantCount={gathering.participantCount}
+          onParticipantsClick={() => setIsParticipantsOpen(true)}
+          minParticipants={getMinParticipants(gathering)}
+          registrationEnd={gathering.registrationEnd}
           maxParticipants={gathering.capacity}
         />
       </section>
+      {/* 캘린더에 추가 (.ics) */}
+      <div className="mx-auto mb-8 flex w-full max-w-[996px] justify-end">
+        <AddToCalendarButton gathering={gathering} />
+      </div>
+      {/* 주최자 공지 (참여자와 주최자에게만 표시) */}
+      {userRole !== GatheringRole.GUEST && <GatheringNotices gatheringId={id} />}
       {/* 리뷰 리스트 컴포넌트 */}
       <section className="mx-auto min-h-[200px] w-full max-w-[996px] border-t-2 border-gray-300 p-4">
         <h2 className="mb-4 text-xl font-semibold">{t('reviewTitle')}</h2>
         <DetailPageReviewList id={id} />
       </section>
+      {/* 참여자 목록 모달 (주최자는 CSV 내보내기 가능) */}
+      <ParticipantsModal
+        gatheringId={id}
+        isOpen={isParticipantsOpen}
+        onClose={() => setIsParticipantsOpen(false)}
+        canExport={userRole === GatheringRole.HOST}
+      />
+      {/* 모임 수정 모달 (주최자) */}
+      {isEditOpen && (
+        <EditGatheringModal
+          gathering={gathering}
+          isOpen={isEditOpen}
+          onClose={() => setIsEditOpen(false)}
+        />
+      )}
       {/* 모임 취소 팝업 */}
       <Popup
         isOpen={isCancelPopupOpen}
@@ -156,9 +217,15 @@ export const GatheringDetailLayout = ({ id, locale }: { id: number; locale: Loca
         title={t('bottomBar.title')}
         content={t('bottomBar.content')}
         isFull={isFull}
+        isJoinDisabled={isJoinBlocked}
+        isWaitlisted={isWaitlisted}
+        waitlistPosition={waitlistPosition}
+        onJoinWaitlist={isWaitlistOpen ? handleJoinWaitlist : undefined}
+        onLeaveWaitlist={leaveWaitlist}
         onJoin={handleJoin}
         onCancelJoin={handleLeave}
         onCancelProject={handleCancel}
+        onEdit={isEditable ? () => setIsEditOpen(true) : undefined}
         onShare={handleShare}
       />
     </div>
@@ -1,8 +1,30 @@
 // 배럴 익스포트 - 모든 API 관련 내보내기
-export { getGatherings, createGathering, getGathering, getGatheringsJoined } from './services';
+export {
+  getGatherings,
+  getGatheringsOverview,
+  OVERVIEW_GATHERING_LIMIT,
+  createGathering,
+  updateGathering,
+  isGatheringEditSupported,
+  isMinParticipantsSupported,
+  getGathering,
+  getGatheringsJoined,
+  isGatheringSeriesSupported,
+  createGatheringSeries,
+  getGatheringSeries,
+  isCalendarFeedTokenSupported,
+  getCalendarFeed,
+  issueCalendarFeed,
+  getCalendarFeedGatherings,
+} from './services';
 export {
   useGetGatherings,
   useCreateGathering,
+  useUpdateGathering,
   useGetGatheringsJoined,
   useGetGatheringsInfinite,
+  useGetGatheringsForCalendar,
+  useGetGatheringsForMap,
+  useGetGatheringSeries,
+  useIssueCalendarFeed,
 } from './queries';
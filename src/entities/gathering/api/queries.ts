@@ -1,19 +1,40 @@
+import {
+  applyClientGatheringFilters,
+  hasClientGatheringFilters,
+} from '@/entities/gathering/model/filters';
 import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
 import type {
+  CalendarFeed,
   Gathering,
   GatheringFilters,
+  GatheringOverview,
+  GatheringSeries,
   MyGathering,
   MyGatheringParams,
 } from '@/entities/gathering/model/types';
 import { ApiError, QUERY_KEYS } from '@/shared/api';
-import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { createGathering, getGatherings, getGatheringsJoined } from './services';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import {
+  createGathering,
+  getGatheringSeries,
+  getGatherings,
+  getGatheringsJoined,
+  getGatheringsOverview,
+  issueCalendarFeed,
+  updateGathering,
+} from './services';
 
 // 모임 조회
 export const useGetGatherings = (filters?: GatheringFilters, options?: { enabled?: boolean }) => {
   return useQuery<Gathering[]>({
     queryKey: QUERY_KEYS.gathering.list(filters),
-    queryFn: () => getGatherings(filters),
+    queryFn: ({ signal }) => getGatherings(filters, { signal }),
     enabled: options?.enabled ?? true,
   });
 };
@@ -22,20 +43,75 @@ export const useGetGatherings = (filters?: GatheringFilters, options?: { enabled
 export const useGetGatheringsInfinite = (filters?: Omit<GatheringFilters, 'limit' | 'offset'>) => {
   return useInfiniteQuery({
     queryKey: QUERY_KEYS.gathering.infinite(filters),
-    queryFn: ({ pageParam = 0 }) =>
-      getGatherings({
-        ...filters,
-        limit: 10, // 페이지당 10개
-        offset: pageParam * 10,
-      }),
+    queryFn: ({ pageParam = 0, signal }) =>
+      getGatherings(
+        {
+          ...filters,
+          limit: 10, // 페이지당 10개
+          offset: pageParam * 10,
+        },
+        { signal },
+      ),
     initialPageParam: 0,
     getNextPageParam: (lastPage, allPages) => {
       // 마지막 페이지가 10개 미만이면 더 이상 페이지가 없음
       return lastPage.length === 10 ? allPages.length : undefined;
     },
+    // API가 지원하지 않는 필터는 캐시된 원본 페이지에서 걸러냄 (페이지 판단은 원본 기준)
+    select: hasClientGatheringFilters(filters)
+      ? (data) => ({
+          ...data,
+          pages: data.pages.map((page) => applyClientGatheringFilters(page, filters)),
+        })
+      : undefined,
   });
 };
 
+// 여러 페이지를 모아 한 번에 보여주고 API가 지원하지 않는 필터는 클라이언트에서 적용
+// (범위를 옮길 때 이전 결과를 유지해 캘린더가 비었다가 다시 채워지지 않게 함)
+const useGetGatheringsOverview = (
+  queryKey: readonly unknown[],
+  filters: Omit<GatheringFilters, 'limit' | 'offset'>,
+  isCovered?: (page: Gathering[]) => boolean,
+) =>
+  useQuery<GatheringOverview>({
+    queryKey,
+    queryFn: ({ signal }) => getGatheringsOverview(filters, { signal, isCovered }),
+    placeholderData: keepPreviousData,
+    select: hasClientGatheringFilters(filters)
+      ? (overview) => ({
+          ...overview,
+          gatherings: applyClientGatheringFilters(overview.gatherings, filters),
+        })
+      : undefined,
+  });
+
+// 캘린더 보기용 모임 조회 (날짜 필터는 캘린더에서 날짜 선택으로 쓰이므로 제외)
+// 먼 미래부터 받으므로 화면에 보이는 첫 날(rangeStart, YYYY-MM-DD)보다 앞선 모임까지 받으면 멈춤
+export const useGetGatheringsForCalendar = (
+  filters: Omit<GatheringFilters, 'limit' | 'offset'> | undefined,
+  rangeStart: string,
+) => {
+  const calendarFilters = { ...filters };
+  delete calendarFilters.date;
+  delete calendarFilters.dateFrom;
+  delete calendarFilters.dateTo;
+  const rangeStartTime = new Date(`${rangeStart}T00:00:00`).getTime();
+  return useGetGatheringsOverview(
+    QUERY_KEYS.gathering.calendar(calendarFilters, rangeStart),
+    calendarFilters,
+    (page) => new Date(page[page.length - 1].dateTime).getTime() < rangeStartTime,
+  );
+};
+
+// 지도 보기용 모임 조회 (지역 필터는 지도에서 핀 선택으로 쓰이므로 제외)
+export const useGetGatheringsForMap = (filters?: Omit<GatheringFilters, 'limit' | 'offset'>) => {
+  const mapFilters = { ...filters };
+  delete mapFilters.location;
+  delete mapFilters.locations;
+  return useGetGatheringsOverview(QUERY_KEYS.gathering.map(mapFilters), mapFilters);
+};
+
 // 모임 생성 훅
 export const useCreateGathering = () => {
   const queryClient = useQueryClient();
@@ -47,9 +123,38 @@ export const useCreateGathering = () => {
   });
 };
 
+// 반복 모임 시리즈 조회 (시리즈에 속하지 않은 모임이면 요청하지 않음)
+export const useGetGatheringSeries = (seriesId?: number) =>
+  useQuery<GatheringSeries>({
+    queryKey: QUERY_KEYS.gathering.series(seriesId ?? 0),
+    queryFn: ({ signal }) => getGatheringSeries(seriesId ?? 0, { signal }),
+    enabled: seriesId !== undefined,
+    // 배지는 부가 정보이므로 실패해도 ErrorBoundary로 넘기지 않음
+    throwOnError: false,
+    staleTime: Infinity,
+  });
+
+// 캘린더 구독 주소 다시 발급
+export const useIssueCalendarFeed = () =>
+  useMutation<CalendarFeed, ApiError>({
+    mutationFn: () => issueCalendarFeed(),
+  });
+
+export const useUpdateGathering = () => {
+  const queryClient = useQueryClient();
+  return useMutation<Gathering, ApiError, { id: number; changes: Partial<CreateGatheringPayload> }>(
+    {
+      mutationFn: ({ id, changes }) => updateGathering(id, changes),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.base });
+      },
+    },
+  );
+};
+
 export const useGetGatheringsJoined = (params?: MyGatheringParams) => {
   return useQuery<MyGathering[]>({
     queryKey: QUERY_KEYS.gathering.joined(params),
-    queryFn: () => getGatheringsJoined(params),
+    queryFn: ({ signal }) => getGatheringsJoined(params, { signal }),
   });
 };
@@ -0,0 +1,67 @@
+import { ResponseValidationError } from '@/shared/api';
+import { createMockGathering, getMockDb } from '@/shared/lib/msw/db';
+import { OVERVIEW_PAGE_SIZE, getGathering, getGatherings, getGatheringsOverview } from './services';
+
+// 기본 데이터: 1번 모임(참여 가능), 2번 모임(정원 마감), 3번 지난 모임
+describe('모임 서비스 응답 검증', () => {
+  it('스키마와 일치하는 응답은 그대로 반환한다', async () => {
+    const gatherings = await getGatherings();
+
+    expect(gatherings).toHaveLength(3);
+    expect(gatherings[0]).toMatchObject({ id: 1, type: 'OFFICE_STRETCHING', location: '건대입구' });
+  });
+
+  it('백엔드가 정의되지 않은 장소를 내려주면 ResponseValidationError를 던진다', async () => {
+    Object.assign(getMockDb().gatherings[0], { location: '강남' });
+
+    await expect(getGathering(1)).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it('필수 필드가 빠지면 ResponseValidationError를 던진다', async () => {
+    Object.assign(getMockDb().gatherings[0], { capacity: undefined });
+
+    await expect(getGathering(1)).rejects.toThrow(/capacity/);
+  });
+});
+
+describe('getGatheringsOverview', () => {
+  const DAY = 1000 * 60 * 60 * 24;
+
+  // 기본 모임 3개에 하루 간격의 먼 미래 모임을 더함
+  const addFutureGatherings = (count: number) =>
+    Array.from({ length: count }, (_, index) =>
+      createMockGathering({
+        dateTime: new Date(Date.now() + (365 + index) * DAY).toISOString(),
+      }),
+    );
+
+  it('한 페이지보다 많은 모임도 마지막 페이지까지 이어 받는다', async () => {
+    addFutureGatherings(OVERVIEW_PAGE_SIZE + 20);
+
+    const { gatherings, isCapped } = await getGatheringsOverview();
+
+    expect(gatherings).toHaveLength(OVERVIEW_PAGE_SIZE + 23);
+    expect(new Set(gatherings.map(({ id }) => id)).size).toBe(OVERVIEW_PAGE_SIZE + 23);
+    expect(isCapped).toBe(false);
+  });
+
+  it('필요한 범위를 모두 받았으면 다음 페이지를 요청하지 않는다', async () => {
+    addFutureGatherings(OVERVIEW_PAGE_SIZE + 20);
+    const isCovered = jest.fn(() => true);
+
+    const { gatherings, isCapped } = await getGatheringsOverview({}, { isCovered });
+
+    expect(gatherings).toHaveLength(OVERVIEW_PAGE_SIZE);
+    expect(isCovered).toHaveBeenCalledTimes(1);
+    expect(isCapped).toBe(false);
+  });
+
+  it('최대 모임 수에 닿으면 일부만 받았음을 알린다', async () => {
+    addFutureGatherings(OVERVIEW_PAGE_SIZE + 20);
+
+    const { gatherings, isCapped } = await getGatheringsOverview({}, { maxCount: 110 });
+
+    expect(gatherings).toHaveLength(110);
+    expect(isCapped).toBe(true);
+  });
+});
@@ -1,15 +1,34 @@
-import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import type { RecurrenceFrequency } from '@/entities/gathering/model/recurrence';
+import {
+  type CreateGatheringPayload,
+  calendarFeedSchema,
+  gatheringListSchema,
+  gatheringSchema,
+  gatheringSeriesSchema,
+  myGatheringListSchema,
+} from '@/entities/gathering/model/schema';
 import type {
+  CalendarFeed,
   Gathering,
   GatheringFilters,
+  GatheringOverview,
+  GatheringSeries,
   MyGathering,
   MyGatheringParams,
 } from '@/entities/gathering/model/types';
-import { httpClient } from '@/shared/api';
-import { API_ENDPOINTS } from '@/shared/config/api';
+import {
+  type RequestOptions,
+  httpClient,
+  toAuthorizationHeaders,
+  validateResponse,
+} from '@/shared/api';
+import { API_CONFIG, API_ENDPOINTS } from '@/shared/config/api';
 
 // 모임 목록 조회
-export const getGatherings = async (filters?: GatheringFilters): Promise<Gathering[]> => {
+export const getGatherings = async (
+  filters?: GatheringFilters,
+  { signal }: RequestOptions = {},
+): Promise<Gathering[]> => {
   const params = new URLSearchParams();
 
   // TODO: 필터 로직 정리하기
@@ -37,25 +56,152 @@ export const getGatherings = async (filters?: GatheringFilters): Promise<Gatheri
     ? `${API_ENDPOINTS.GATHERINGS.LIST}?${queryString}`
     : API_ENDPOINTS.GATHERINGS.LIST;
 
-  return await httpClient.get<Gathering[]>(url);
+  const data = await httpClient.get(url, { signal });
+  return validateResponse(gatheringListSchema, data, API_ENDPOINTS.GATHERINGS.LIST);
+};
+
+// 캘린더, 지도처럼 한 화면에 모아서 보여줄 때 한 번에 요청할 모임 수와 최대로 모을 모임 수
+export const OVERVIEW_PAGE_SIZE = 100;
+export const OVERVIEW_GATHERING_LIMIT = 1000;
+
+interface GatheringsOverviewOptions extends RequestOptions {
+  // 받은 페이지로 필요한 범위를 모두 받았는지 (true면 다음 페이지를 요청하지 않음)
+  isCovered?: (page: Gathering[]) => boolean;
+  maxCount?: number;
+}
+
+// 모임을 dateTime 내림차순(먼 미래부터)으로 페이지를 이어 받아 모음
+// 마지막 페이지이거나 isCovered가 true면 멈추고, maxCount에 닿으면 isCapped로 일부만 받았음을 알림
+export const getGatheringsOverview = async (
+  filters: Omit<GatheringFilters, 'limit' | 'offset'> = {},
+  { signal, isCovered, maxCount = OVERVIEW_GATHERING_LIMIT }: GatheringsOverviewOptions = {},
+): Promise<GatheringOverview> => {
+  const gatherings: Gathering[] = [];
+  while (gatherings.length < maxCount) {
+    const limit = Math.min(OVERVIEW_PAGE_SIZE, maxCount - gatherings.length);
+    const page = await getGatherings(
+      { ...filters, sortBy: 'dateTime', limit, offset: gatherings.length },
+      { signal },
+    );
+    gatherings.push(...page);
+    if (page.length < limit || isCovered?.(page)) {
+      return { gatherings, isCapped: false };
+    }
+  }
+  return { gatherings, isCapped: true };
 };
 
 // 새 모임 생성
+// 개설 확정 인원 설정은 인메모리 백엔드에서만 지원 (원격 API 모임은 기본값으로 판단)
+export const isMinParticipantsSupported = () => API_CONFIG.BACKEND === 'memory';
+
 export const createGathering = async (newGathering: CreateGatheringPayload): Promise<Gathering> => {
-  return await httpClient.post<Gathering>(API_ENDPOINTS.GATHERINGS.CREATE, newGathering, {
+  const { minParticipants, ...payload } = newGathering;
+  const body = isMinParticipantsSupported() ? { ...payload, minParticipants } : payload;
+  const data = await httpClient.post(API_ENDPOINTS.GATHERINGS.CREATE, body, {
     headers: { 'Content-Type': 'multipart/form-data' },
     authRequired: true,
   });
+  return validateResponse(gatheringSchema, data, API_ENDPOINTS.GATHERINGS.CREATE);
 };
 
-export const getGatheringsJoined = async (params?: MyGatheringParams): Promise<MyGathering[]> => {
-  return await httpClient.get<MyGathering[]>(API_ENDPOINTS.GATHERINGS.JOINED, {
+// 모임 수정은 인메모리 백엔드에서만 지원 (원격 API에 수정 엔드포인트가 생기면 제거)
+export const isGatheringEditSupported = () => API_CONFIG.BACKEND === 'memory';
+
+// 모임 수정 (보낸 필드만 변경, 이미지를 보내지 않으면 기존 이미지 유지)
+export const updateGathering = async (
+  id: number,
+  changes: Partial<CreateGatheringPayload>,
+): Promise<Gathering> => {
+  const url = API_ENDPOINTS.GATHERINGS.UPDATE(id);
+  const data = await httpClient.put(url, changes, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    authRequired: true,
+  });
+  return validateResponse(gatheringSchema, data, url);
+};
+
+// 반복 모임 시리즈는 인메모리 백엔드에서만 서버에 저장 (원격 API에서는 만든 브라우저에만 저장)
+export const isGatheringSeriesSupported = () => API_CONFIG.BACKEND === 'memory';
+
+// 반복 모임으로 만든 회차들을 시리즈로 묶음
+export const createGatheringSeries = async (series: {
+  frequency: RecurrenceFrequency;
+  gatheringIds: number[];
+}): Promise<GatheringSeries> => {
+  const data = await httpClient.post(API_ENDPOINTS.GATHERING_SERIES.CREATE, series, {
+    authRequired: true,
+  });
+  return validateResponse(gatheringSeriesSchema, data, API_ENDPOINTS.GATHERING_SERIES.CREATE);
+};
+
+export const getGatheringSeries = async (
+  id: number,
+  { signal }: RequestOptions = {},
+): Promise<GatheringSeries> => {
+  const url = API_ENDPOINTS.GATHERING_SERIES.DETAIL(id);
+  const data = await httpClient.get(url, { signal });
+  return validateResponse(gatheringSeriesSchema, data, url);
+};
+
+export const getGatheringsJoined = async (
+  params?: MyGatheringParams,
+  { signal, accessToken }: RequestOptions = {},
+): Promise<MyGathering[]> => {
+  const data = await httpClient.get(API_ENDPOINTS.GATHERINGS.JOINED, {
     params,
     authRequired: true,
+    headers: toAuthorizationHeaders(accessToken),
+    signal,
+  });
+  return validateResponse(myGatheringListSchema, data, API_ENDPOINTS.GATHERINGS.JOINED);
+};
+
+// 캘린더 구독 토큰을 서버에 저장해 발급/폐기하는 기능은 인메모리 백엔드에서만 지원
+// 원격 API에서는 액세스 토큰을 감싼 구독 토큰을 사용하므로 액세스 토큰이 만료되면 주소도 만료됨
+export const isCalendarFeedTokenSupported = () => API_CONFIG.BACKEND === 'memory';
+
+// 현재 캘린더 구독 토큰 조회
+export const getCalendarFeed = async ({
+  signal,
+  accessToken,
+}: RequestOptions = {}): Promise<CalendarFeed> => {
+  const data = await httpClient.get(API_ENDPOINTS.CALENDAR_FEEDS.TOKEN, {
+    authRequired: true,
+    headers: toAuthorizationHeaders(accessToken),
+    signal,
   });
+  return validateResponse(calendarFeedSchema, data, API_ENDPOINTS.CALENDAR_FEEDS.TOKEN);
+};
+
+// 캘린더 구독 토큰 발급 (이전 토큰은 폐기되어 기존 구독 주소는 더 이상 동작하지 않음)
+export const issueCalendarFeed = async ({
+  accessToken,
+}: RequestOptions = {}): Promise<CalendarFeed> => {
+  const data = await httpClient.post(
+    API_ENDPOINTS.CALENDAR_FEEDS.TOKEN,
+    {},
+    { authRequired: true, headers: toAuthorizationHeaders(accessToken) },
+  );
+  return validateResponse(calendarFeedSchema, data, API_ENDPOINTS.CALENDAR_FEEDS.TOKEN);
+};
+
+// 구독 토큰으로 참여한 모임 조회 (로그인 세션 없이 요청하는 캘린더 앱용)
+export const getCalendarFeedGatherings = async (
+  feedToken: string,
+  params?: MyGatheringParams,
+): Promise<MyGathering[]> => {
+  const url = API_ENDPOINTS.CALENDAR_FEEDS.GATHERINGS(feedToken);
+  const data = await httpClient.get(url, { params });
+  return validateResponse(myGatheringListSchema, data, API_ENDPOINTS.CALENDAR_FEEDS.TOKEN);
 };
 
 // 개별 모임 조회
-export const getGathering = async (id: number): Promise<Gathering> => {
-  return await httpClient.get<Gathering>(API_ENDPOINTS.GATHERINGS.DETAIL(id));
+export const getGathering = async (
+  id: number,
+  { signal }: RequestOptions = {},
+): Promise<Gathering> => {
+  const url = API_ENDPOINTS.GATHERINGS.DETAIL(id);
+  const data = await httpClient.get(url, { signal });
+  return validateResponse(gatheringSchema, data, url);
 };
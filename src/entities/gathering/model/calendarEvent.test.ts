@@ -0,0 +1,56 @@
+import { GATHERING_EVENT_DURATION_MS, gatheringToIcsEvent } from './calendarEvent';
+import type { Gathering } from './types';
+
+const createGathering = (overrides: Partial<Gathering>): Gathering => ({
+  teamId: 1,
+  id: 1,
+  type: 'OFFICE_STRETCHING',
+  name: '모임',
+  dateTime: '2025-03-10T10:00:00.000Z',
+  registrationEnd: '2025-03-09T10:00:00.000Z',
+  location: '건대입구',
+  participantCount: 3,
+  capacity: 10,
+  image: '/image.png',
+  createdBy: 1,
+  canceledAt: null,
+  ...overrides,
+});
+
+describe('gatheringToIcsEvent', () => {
+  const origin = 'https://example.com';
+
+  it('모임 시작 시각, 장소, 상세 링크, 모집 마감 알림을 담는다', () => {
+    const gathering = createGathering({
+      id: 1,
+      name: '아침 요가',
+      location: '을지로3가',
+      dateTime: '2025-03-10T10:00:00.000Z',
+      registrationEnd: '2025-03-09T10:00:00.000Z',
+    });
+
+    const event = gatheringToIcsEvent(gathering, {
+      origin,
+      locale: 'ko',
+      alarmDescription: '모집 마감',
+    });
+
+    expect(event).toMatchObject({
+      uid: 'gathering-1@dallaem',
+      title: '아침 요가',
+      location: '을지로3가',
+      url: 'https://example.com/ko/gathering/1',
+      alarmDescription: '모집 마감',
+      cancelled: false,
+    });
+    expect(event.start.toISOString()).toBe('2025-03-10T10:00:00.000Z');
+    expect(event.end.getTime() - event.start.getTime()).toBe(GATHERING_EVENT_DURATION_MS);
+    expect(event.alarmAt?.toISOString()).toBe('2025-03-09T10:00:00.000Z');
+  });
+
+  it('취소된 모임은 취소 일정으로 표시한다', () => {
+    const gathering = createGathering({ canceledAt: '2025-03-01T00:00:00.000Z' });
+
+    expect(gatheringToIcsEvent(gathering, { origin, locale: 'ko' }).cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { ROUTES } from '@/shared/config/routes';
+import type { IcsEvent } from '@/shared/lib/ics';
+import type { Gathering } from './types';
+
+// API에 종료 시각이 없으므로 캘린더에는 시작 후 2시간짜리 일정으로 등록
+export const GATHERING_EVENT_DURATION_MS = 1000 * 60 * 60 * 2;
+
+interface GatheringIcsEventOptions {
+  origin: string; // 상세 페이지 링크를 만들 사이트 주소 (예: https://example.com)
+  locale: string; // 상세 페이지 링크의 언어 (localePrefix: always)
+  alarmDescription?: string; // 모집 마감 알림 문구
+}
+
+// 모임을 캘린더 일정으로 변환 (모집 마감 시각에 알림)
+export const gatheringToIcsEvent = (
+  gathering: Gathering,
+  { origin, locale, alarmDescription }: GatheringIcsEventOptions,
+): IcsEvent => {
+  const start = new Date(gathering.dateTime);
+  const url = `${origin}/${locale}${ROUTES.GATHERING_DETAIL(gathering.id)}`;
+
+  return {
+    uid: `gathering-${gathering.id}@dallaem`,
+    title: gathering.name,
+    start,
+    end: new Date(start.getTime() + GATHERING_EVENT_DURATION_MS),
+    location: gathering.location,
+    description: url,
+    url,
+    alarmAt: new Date(gathering.registrationEnd),
+    alarmDescription,
+    cancelled: !!gathering.canceledAt,
+  };
+};
@@ -0,0 +1,74 @@
+import {
+  getChangedGatheringFields,
+  getLockedGatheringFields,
+  toGatheringFormValues,
+  toGatheringUpdate,
+} from './editGathering';
+import type { CreateGatheringPayload } from './schema';
+
+const gathering = {
+  name: '야근 전 허리 펴기',
+  location: '홍대입구' as const,
+  type: 'OFFICE_STRETCHING' as const,
+  dateTime: '2025-03-10T10:00:00.000Z',
+  registrationEnd: '2025-03-09T10:00:00.000Z',
+  capacity: 8,
+};
+
+const toValues = (overrides: Partial<CreateGatheringPayload> = {}) =>
+  ({ ...toGatheringFormValues(gathering), ...overrides }) as CreateGatheringPayload;
+
+describe('editGathering', () => {
+  it('다른 참여자가 있으면 종류/장소/날짜/개설 확정 인원을 잠근다', () => {
+    expect(getLockedGatheringFields(1)).toEqual([]);
+    expect(getLockedGatheringFields(2)).toEqual([
+      'type',
+      'location',
+      'dateTime',
+      'minParticipants',
+    ]);
+  });
+
+  it('모임 정보를 폼 초기값으로 변환한다', () => {
+    expect(toGatheringFormValues(gathering)).toEqual({
+      name: '야근 전 허리 펴기',
+      location: '홍대입구',
+      type: 'OFFICE_STRETCHING',
+      dateTime: new Date('2025-03-10T10:00:00.000Z'),
+      registrationEnd: new Date('2025-03-09T10:00:00.000Z'),
+      capacity: 8,
+      minParticipants: 5,
+    });
+    expect(toGatheringFormValues({ ...gathering, type: 'DALLAEMFIT' }).type).toBeUndefined();
+  });
+
+  it('바뀐 필드만 찾는다', () => {
+    expect(getChangedGatheringFields(gathering, toValues())).toEqual([]);
+
+    const values = toValues({
+      name: '퇴근 전 허리 펴기',
+      capacity: 10,
+      registrationEnd: new Date('2025-03-08T10:00:00.000Z'),
+      image: new File([''], 'new.png', { type: 'image/png' }),
+    });
+
+    expect(getChangedGatheringFields(gathering, values)).toEqual([
+      'name',
+      'image',
+      'registrationEnd',
+      'capacity',
+    ]);
+    expect(getChangedGatheringFields(gathering, toValues({ minParticipants: 3 }))).toEqual([
+      'minParticipants',
+    ]);
+  });
+
+  it('바뀐 필드만 수정 요청에 담는다', () => {
+    const values = toValues({ name: '퇴근 전 허리 펴기', capacity: 10 });
+
+    expect(toGatheringUpdate(values, ['name', 'capacity'])).toEqual({
+      name: '퇴근 전 허리 펴기',
+      capacity: 10,
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { getMinParticipants } from '@/shared/lib/gathering/confirmation';
+import type { CreateGatheringPayload } from './schema';
+import type { Gathering } from './types';
+
+export type GatheringFormField = keyof CreateGatheringPayload;
+
+type EditableGathering = Pick<
+  Gathering,
+  'name' | 'location' | 'type' | 'dateTime' | 'registrationEnd' | 'capacity' | 'minParticipants'
+>;
+
+// 다른 참여자가 생기면 바꿀 수 없는 필드 (참여를 결정한 조건이므로 유지)
+export const LOCKED_GATHERING_FIELDS: GatheringFormField[] = [
+  'type',
+  'location',
+  'dateTime',
+  'minParticipants',
+];
+
+// 주최자는 모임을 만들면 자동으로 참여하므로 2명부터 다른 참여자가 있는 것
+export const hasOtherParticipants = (participantCount: number) => participantCount > 1;
+
+export const getLockedGatheringFields = (participantCount: number): GatheringFormField[] =>
+  hasOtherParticipants(participantCount) ? LOCKED_GATHERING_FIELDS : [];
+
+// 모임 정보를 수정 폼의 초기값으로 변환 (이미지는 새로 올릴 때만 변경)
+export const toGatheringFormValues = (
+  gathering: EditableGathering,
+): Partial<CreateGatheringPayload> => ({
+  name: gathering.name,
+  location: gathering.location,
+  // 달램핏은 모임 생성/수정에서 선택할 수 없음
+  type: gathering.type === 'DALLAEMFIT' ? undefined : gathering.type,
+  dateTime: new Date(gathering.dateTime),
+  registrationEnd: new Date(gathering.registrationEnd),
+  capacity: gathering.capacity,
+  minParticipants: getMinParticipants(gathering),
+});
+
+const isSameTime = (date: Date, isoString: string) =>
+  date.getTime() === new Date(isoString).getTime();
+
+// 수정 전 모임과 비교해 바뀐 필드 목록 (폼 필드 순서)
+export const getChangedGatheringFields = (
+  gathering: EditableGathering,
+  values: CreateGatheringPayload,
+): GatheringFormField[] => {
+  const isChanged: Record<GatheringFormField, boolean> = {
+    name: values.name !== gathering.name,
+    location: values.location !== gathering.location,
+    type: values.type !== gathering.type,
+    image: values.image instanceof File,
+    dateTime: !isSameTime(values.dateTime, gathering.dateTime),
+    registrationEnd: !isSameTime(values.registrationEnd, gathering.registrationEnd),
+    capacity: Number(values.capacity) !== gathering.capacity,
+    minParticipants:
+      values.minParticipants !== undefined &&
+      Number(values.minParticipants) !== getMinParticipants(gathering),
+  };
+  return (Object.keys(isChanged) as GatheringFormField[]).filter((field) => isChanged[field]);
+};
+
+// 바뀐 필드만 담은 수정 요청
+export const toGatheringUpdate = (
+  values: CreateGatheringPayload,
+  fields: GatheringFormField[],
+): Partial<CreateGatheringPayload> =>
+  Object.fromEntries(fields.map((field) => [field, values[field]]));
@@ -1,4 +1,10 @@
-import { parseGatheringFiltersFromSearchParams } from './filters';
+import {
+  applyClientGatheringFilters,
+  gatheringFiltersToSearchParams,
+  hasClientGatheringFilters,
+  parseGatheringFiltersFromSearchParams,
+} from './filters';
+import type { Gathering } from './types';
 
 describe('parseGatheringFiltersFromSearchParams', () => {
   describe('기본 동작', () => {
@@ -173,6 +179,51 @@ describe('parseGatheringFiltersFromSearchParams', () => {
     });
   });
 
+  describe('다중 선택/기간/토글 필터', () => {
+    it('지역이 쉼표로 여러 개 주어지면 중복 없이 locations로 파싱해야 한다', () => {
+      const result = parseGatheringFiltersFromSearchParams({
+        location: '건대입구,홍대입구,건대입구',
+      });
+
+      expect(result.location).toBeUndefined();
+      expect(result.locations).toEqual(['건대입구', '홍대입구']);
+    });
+
+    it('기간의 시작과 끝이 같으면 date로 파싱해야 한다', () => {
+      const result = parseGatheringFiltersFromSearchParams({
+        dateFrom: '2025-03-01',
+        dateTo: '2025-03-01',
+      });
+
+      expect(result).toMatchObject({ date: '2025-03-01' });
+      expect(result.dateFrom).toBeUndefined();
+    });
+
+    it('기간이 하루보다 길면 dateFrom/dateTo로 파싱하고 형식이 틀린 값은 무시해야 한다', () => {
+      expect(
+        parseGatheringFiltersFromSearchParams({ dateFrom: '2025-03-01', dateTo: '2025-03-07' }),
+      ).toMatchObject({ dateFrom: '2025-03-01', dateTo: '2025-03-07' });
+      expect(
+        parseGatheringFiltersFromSearchParams({ dateFrom: '3월 1일' }).dateFrom,
+      ).toBeUndefined();
+    });
+
+    it('openOnly, hideClosed가 true일 때만 파싱해야 한다', () => {
+      const result = parseGatheringFiltersFromSearchParams({
+        openOnly: 'true',
+        hideClosed: 'false',
+      });
+
+      expect(result.openOnly).toBe(true);
+      expect(result.hideClosed).toBeUndefined();
+    });
+
+    it('검색어 q는 앞뒤 공백을 제거해 keyword로 파싱하고 빈 값은 무시해야 한다', () => {
+      expect(parseGatheringFiltersFromSearchParams({ q: ' 요가 ' }).keyword).toBe('요가');
+      expect(parseGatheringFiltersFromSearchParams({ q: '  ' }).keyword).toBeUndefined();
+    });
+  });
+
   describe('타입 안전성', () => {
     it('반환된 객체가 GatheringFilters 타입과 호환되어야 한다', () => {
       const result = parseGatheringFiltersFromSearchParams({
@@ -196,3 +247,120 @@ describe('parseGatheringFiltersFromSearchParams', () => {
     });
   });
 });
+
+describe('gatheringFiltersToSearchParams', () => {
+  it('파싱 결과를 다시 파싱하면 같은 필터가 된다', () => {
+    const filters = parseGatheringFiltersFromSearchParams({
+      type: 'MINDFULNESS',
+      location: '을지로3가,신림',
+      dateFrom: '2025-03-01',
+      dateTo: '2025-03-10',
+      openOnly: 'true',
+      q: '명상',
+      sortBy: 'registrationEnd',
+    });
+
+    const params = gatheringFiltersToSearchParams(filters);
+
+    expect(parseGatheringFiltersFromSearchParams(Object.fromEntries(params))).toEqual(filters);
+  });
+
+  it('지역이 하나면 location, 여러 개면 쉼표로 이어서 저장한다', () => {
+    expect(gatheringFiltersToSearchParams({ location: '신림' }).toString()).toBe(
+      'location=%EC%8B%A0%EB%A6%BC',
+    );
+    expect(
+      gatheringFiltersToSearchParams({ locations: ['건대입구', '신림'] }).get('location'),
+    ).toBe('건대입구,신림');
+  });
+
+  it('view를 넘기면 보기 방식도 함께 저장한다', () => {
+    expect(
+      gatheringFiltersToSearchParams({ type: 'WORKATION' }, { view: 'month' }).toString(),
+    ).toBe('type=WORKATION&view=month');
+    expect(gatheringFiltersToSearchParams({ type: 'WORKATION' }, { view: null }).has('view')).toBe(
+      false,
+    );
+  });
+});
+
+describe('applyClientGatheringFilters', () => {
+  const NOW = new Date('2025-03-05T12:00:00');
+
+  const createGathering = (overrides: Partial<Gathering>): Gathering => ({
+    teamId: 1,
+    id: 1,
+    type: 'OFFICE_STRETCHING',
+    name: '모임',
+    dateTime: '2025-03-10T10:00:00',
+    registrationEnd: '2025-03-09T10:00:00',
+    location: '건대입구',
+    participantCount: 3,
+    capacity: 10,
+    image: '/image.png',
+    createdBy: 1,
+    canceledAt: null,
+    ...overrides,
+  });
+
+  const gatherings = [
+    createGathering({ id: 1 }),
+    createGathering({ id: 2, location: '홍대입구', dateTime: '2025-03-20T10:00:00' }),
+    createGathering({ id: 3, location: '신림', participantCount: 10 }),
+    createGathering({ id: 4, canceledAt: '2025-03-01T00:00:00' }),
+    createGathering({ id: 5, dateTime: '2025-03-01T10:00:00' }),
+  ];
+
+  const idsOf = (items: Gathering[]) => items.map((item) => item.id);
+
+  it('API가 지원하지 않는 필터가 있을 때만 클라이언트 필터 대상이다', () => {
+    expect(hasClientGatheringFilters({ location: '건대입구', date: '2025-03-01' })).toBe(false);
+    expect(hasClientGatheringFilters({ locations: ['건대입구', '신림'] })).toBe(true);
+    expect(hasClientGatheringFilters({ hideClosed: true })).toBe(true);
+  });
+
+  it('선택한 지역 중 하나에 해당하는 모임만 남긴다', () => {
+    const result = applyClientGatheringFilters(
+      gatherings,
+      { locations: ['홍대입구', '신림'] },
+      NOW,
+    );
+
+    expect(idsOf(result)).toEqual([2, 3]);
+  });
+
+  it('기간 안에 열리는 모임만 남긴다 (시작/끝 날짜 포함)', () => {
+    const result = applyClientGatheringFilters(
+      gatherings,
+      { dateFrom: '2025-03-01', dateTo: '2025-03-10' },
+      NOW,
+    );
+
+    expect(idsOf(result)).toEqual([1, 3, 4, 5]);
+  });
+
+  it('빈 자리가 있는 모임만 남긴다', () => {
+    expect(idsOf(applyClientGatheringFilters(gatherings, { openOnly: true }, NOW))).toEqual([
+      1, 2, 4, 5,
+    ]);
+  });
+
+  it('취소되었거나 이미 끝난 모임을 숨긴다', () => {
+    expect(idsOf(applyClientGatheringFilters(gatherings, { hideClosed: true }, NOW))).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('검색어가 이름에 포함되거나 초성이 일치하는 모임만 남긴다', () => {
+    const named = [
+      createGathering({ id: 1, name: '아침 요가' }),
+      createGathering({ id: 2, name: '저녁 명상' }),
+      createGathering({ id: 3, name: 'Yoga Class' }),
+    ];
+
+    expect(hasClientGatheringFilters({ keyword: '요가' })).toBe(true);
+    expect(idsOf(applyClientGatheringFilters(named, { keyword: '요가' }, NOW))).toEqual([1]);
+    expect(idsOf(applyClientGatheringFilters(named, { keyword: 'ㅁㅅ' }, NOW))).toEqual([2]);
+    expect(idsOf(applyClientGatheringFilters(named, { keyword: 'yoga' }, NOW))).toEqual([3]);
+  });
+});
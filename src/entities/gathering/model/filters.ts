@@ -1,4 +1,21 @@
-import { GatheringFilters } from './types';
+import { formatDateTypeYYYYMMDD } from '@/shared/lib/date';
+import { matchesSearchQuery } from '@/shared/lib/search';
+import { Gathering, GatheringFilters, GatheringLocation } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDate = (value: string | string[] | undefined) =>
+  typeof value === 'string' && DATE_PATTERN.test(value) ? value : undefined;
+
+// "건대입구,홍대입구" 형태의 지역 파라미터를 중복 없이 배열로 변환
+export const parseLocationParam = (value: string | null | undefined): GatheringLocation[] => {
+  if (!value) return [];
+  const locations = value
+    .split(',')
+    .map((location) => location.trim())
+    .filter(Boolean);
+  return [...new Set(locations)] as GatheringLocation[];
+};
 
 export function parseGatheringFiltersFromSearchParams(searchParams: {
   [key: string]: string | string[] | undefined;
@@ -14,9 +31,29 @@ export function parseGatheringFiltersFromSearchParams(searchParams: {
   } else {
     filters.type = 'DALLAEMFIT'; // 기본값
   }
-  if (typeof searchParams.location === 'string')
-    filters.location = searchParams.location as GatheringFilters['location'];
+  // 지역을 하나만 선택하면 API로, 여러 개면 클라이언트에서 필터링
+  if (typeof searchParams.location === 'string') {
+    const locations = parseLocationParam(searchParams.location);
+    if (locations.length === 1) filters.location = locations[0];
+    if (locations.length > 1) filters.locations = locations;
+  }
   if (typeof searchParams.date === 'string') filters.date = searchParams.date;
+
+  // 기간의 시작과 끝이 같으면 하루 필터이므로 API로 전달
+  const dateFrom = readDate(searchParams.dateFrom);
+  const dateTo = readDate(searchParams.dateTo);
+  if (dateFrom && dateFrom === dateTo) {
+    filters.date = dateFrom;
+  } else {
+    if (dateFrom) filters.dateFrom = dateFrom;
+    if (dateTo) filters.dateTo = dateTo;
+  }
+  if (searchParams.openOnly === 'true') filters.openOnly = true;
+  if (searchParams.hideClosed === 'true') filters.hideClosed = true;
+  if (typeof searchParams.q === 'string' && searchParams.q.trim()) {
+    filters.keyword = searchParams.q.trim();
+  }
+
   if (typeof searchParams.createdBy === 'string')
     filters.createdBy = Number(searchParams.createdBy);
   if (typeof searchParams.sortBy === 'string') {
@@ -29,3 +66,66 @@ export function parseGatheringFiltersFromSearchParams(searchParams: {
 
   return filters;
 }
+
+// parseGatheringFiltersFromSearchParams의 역변환 (프리셋 적용, 공유 링크 생성에 사용)
+// view를 넘기면 캘린더/지도 등 보던 화면이 유지되도록 view 파라미터도 함께 저장
+export const gatheringFiltersToSearchParams = (
+  filters: GatheringFilters,
+  { view }: { view?: string | null } = {},
+): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (filters.id) params.set('id', filters.id);
+  if (filters.type) params.set('type', filters.type);
+  if (filters.locations?.length) {
+    params.set('location', filters.locations.join(','));
+  } else if (filters.location) {
+    params.set('location', filters.location);
+  }
+  if (filters.date) params.set('date', filters.date);
+  if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+  if (filters.dateTo) params.set('dateTo', filters.dateTo);
+  if (filters.openOnly) params.set('openOnly', 'true');
+  if (filters.hideClosed) params.set('hideClosed', 'true');
+  if (filters.keyword) params.set('q', filters.keyword);
+  if (filters.createdBy !== undefined) params.set('createdBy', String(filters.createdBy));
+  if (filters.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.sortOrder) params.set('sortOrder', filters.sortOrder);
+  if (view) params.set('view', view);
+
+  return params;
+};
+
+// API가 지원하지 않는 필터가 있는지 확인 (있으면 응답을 클라이언트에서 한 번 더 거름)
+export const hasClientGatheringFilters = (filters?: GatheringFilters): boolean =>
+  !!filters &&
+  (!!filters.locations?.length ||
+    !!filters.dateFrom ||
+    !!filters.dateTo ||
+    !!filters.openOnly ||
+    !!filters.hideClosed ||
+    !!filters.keyword);
+
+// 여러 지역, 기간, 빈 자리, 취소/종료 숨김, 검색어 필터를 응답 목록에 적용
+export const applyClientGatheringFilters = <T extends Gathering>(
+  gatherings: T[],
+  filters: GatheringFilters = {},
+  now: Date = new Date(),
+): T[] =>
+  gatherings.filter((gathering) => {
+    if (filters.locations?.length && !filters.locations.includes(gathering.location)) {
+      return false;
+    }
+
+    // 모임 날짜는 로컬 시간대 기준 YYYY-MM-DD로 비교
+    const gatheringDate = formatDateTypeYYYYMMDD(new Date(gathering.dateTime));
+    if (filters.dateFrom && gatheringDate < filters.dateFrom) return false;
+    if (filters.dateTo && gatheringDate > filters.dateTo) return false;
+
+    if (filters.openOnly && gathering.participantCount >= gathering.capacity) return false;
+    if (filters.hideClosed && (gathering.canceledAt || new Date(gathering.dateTime) <= now)) {
+      return false;
+    }
+    if (filters.keyword && !matchesSearchQuery(gathering.name, filters.keyword)) return false;
+    return true;
+  });
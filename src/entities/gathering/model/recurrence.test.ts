@@ -0,0 +1,104 @@
+import { LAST_PUBLIC_HOLIDAY_YEAR } from '@/shared/lib/date';
+import { MAX_SERIES_OCCURRENCES, getGatheringOccurrences } from './recurrence';
+
+// 로컬 시간 기준 (공휴일 판단이 로컬 날짜 기준)
+const first = {
+  dateTime: new Date(2026, 4, 11, 19, 0), // 2026-05-11 (월) 19:00
+  registrationEnd: new Date(2026, 4, 10, 12, 0), // 전날 12:00 마감
+};
+
+const toDays = (dates: Date[]) => dates.map((date) => `${date.getMonth() + 1}/${date.getDate()}`);
+
+describe('getGatheringOccurrences', () => {
+  it('매주 반복하면 횟수만큼 같은 요일, 같은 시각으로 만든다', () => {
+    const occurrences = getGatheringOccurrences(first, {
+      frequency: 'weekly',
+      end: { type: 'count', count: 3 },
+      skipHolidays: false,
+    });
+
+    expect(toDays(occurrences.map((item) => item.dateTime))).toEqual(['5/11', '5/18', '5/25']);
+    expect(occurrences.every((item) => item.dateTime.getHours() === 19)).toBe(true);
+  });
+
+  it('모집 마감은 각 회차보다 첫 회차와 같은 간격만큼 앞선다', () => {
+    const [, second] = getGatheringOccurrences(first, {
+      frequency: 'biweekly',
+      end: { type: 'count', count: 2 },
+      skipHolidays: false,
+    });
+
+    expect(second.dateTime).toEqual(new Date(2026, 4, 25, 19, 0));
+    expect(second.registrationEnd).toEqual(new Date(2026, 4, 24, 12, 0));
+  });
+
+  it('공휴일을 건너뛰면 해당 회차를 표시하고 횟수에 세지 않는다', () => {
+    const occurrences = getGatheringOccurrences(first, {
+      frequency: 'weekly',
+      end: { type: 'count', count: 3 },
+      skipHolidays: true,
+    });
+
+    // 2026-05-25는 부처님오신날 대체공휴일
+    expect(occurrences.map((item) => item.skipped)).toEqual([false, false, true, false]);
+    expect(toDays(occurrences.map((item) => item.dateTime))).toEqual([
+      '5/11',
+      '5/18',
+      '5/25',
+      '6/1',
+    ]);
+  });
+
+  it('공휴일 목록이 없는 해의 회차는 확인하지 못한 회차로 표시한다', () => {
+    const occurrences = getGatheringOccurrences(
+      {
+        dateTime: new Date(LAST_PUBLIC_HOLIDAY_YEAR, 11, 10, 19, 0),
+        registrationEnd: new Date(LAST_PUBLIC_HOLIDAY_YEAR, 11, 9, 12, 0),
+      },
+      { frequency: 'biweekly', end: { type: 'count', count: 3 }, skipHolidays: true },
+    );
+
+    expect(occurrences.map((item) => item.holidayUnknown)).toEqual([false, false, true]);
+  });
+
+  it('공휴일을 건너뛰지 않으면 확인하지 못한 회차도 없다', () => {
+    const occurrences = getGatheringOccurrences(
+      {
+        dateTime: new Date(LAST_PUBLIC_HOLIDAY_YEAR + 1, 0, 5, 19, 0),
+        registrationEnd: new Date(LAST_PUBLIC_HOLIDAY_YEAR + 1, 0, 4, 12, 0),
+      },
+      { frequency: 'weekly', end: { type: 'count', count: 2 }, skipHolidays: false },
+    );
+
+    expect(occurrences.some((item) => item.holidayUnknown)).toBe(false);
+  });
+
+  it('종료일 당일에 열리는 회차까지 만든다', () => {
+    const occurrences = getGatheringOccurrences(first, {
+      frequency: 'weekly',
+      end: { type: 'until', until: new Date(2026, 4, 25) },
+      skipHolidays: false,
+    });
+
+    expect(occurrences).toHaveLength(3);
+  });
+
+  it('매월 반복하면 없는 날짜는 그 달의 말일로 맞춘다', () => {
+    const occurrences = getGatheringOccurrences(
+      { dateTime: new Date(2027, 0, 31, 10, 0), registrationEnd: new Date(2027, 0, 30, 10, 0) },
+      { frequency: 'monthly', end: { type: 'count', count: 3 }, skipHolidays: false },
+    );
+
+    expect(toDays(occurrences.map((item) => item.dateTime))).toEqual(['1/31', '2/28', '3/31']);
+  });
+
+  it('최대 회차 수를 넘지 않는다', () => {
+    const occurrences = getGatheringOccurrences(first, {
+      frequency: 'weekly',
+      end: { type: 'count', count: 100 },
+      skipHolidays: false,
+    });
+
+    expect(occurrences).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+});
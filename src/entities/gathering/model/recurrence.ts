@@ -0,0 +1,81 @@
+import { isPublicHoliday, isPublicHolidayKnown } from '@/shared/lib/date';
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export type RecurrenceEnd = { type: 'count'; count: number } | { type: 'until'; until: Date };
+
+export interface GatheringRecurrence {
+  frequency: RecurrenceFrequency;
+  end: RecurrenceEnd;
+  skipHolidays: boolean;
+}
+
+export interface GatheringOccurrence {
+  dateTime: Date;
+  registrationEnd: Date;
+  skipped: boolean; // 공휴일이라 만들지 않는 회차
+  holidayUnknown: boolean; // 공휴일을 건너뛰려 했지만 공휴일 목록이 없는 해라 확인하지 못한 회차
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly'];
+
+// 한 번에 만들 수 있는 최대 회차 (주 1회 기준 약 반년)
+export const MAX_SERIES_OCCURRENCES = 26;
+
+// 첫 회차로부터 index번째 회차의 시각
+// 매월 반복은 같은 날짜로 잡고, 그 달에 해당 날짜가 없으면 말일로 맞춤 (1/31 -> 2/28)
+const getNthDate = (start: Date, frequency: RecurrenceFrequency, index: number) => {
+  if (frequency !== 'monthly') {
+    const next = new Date(start);
+    next.setDate(start.getDate() + index * (frequency === 'weekly' ? 7 : 14));
+    return next;
+  }
+
+  const next = new Date(start);
+  next.setDate(1);
+  next.setMonth(start.getMonth() + index);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(start.getDate(), lastDay));
+  return next;
+};
+
+// 종료일 당일에 열리는 회차까지 포함
+const isAfterEndDate = (date: Date, until: Date) => {
+  const endOfDay = new Date(until);
+  endOfDay.setHours(23, 59, 59, 999);
+  return date > endOfDay;
+};
+
+// 반복 규칙으로 회차 목록 생성 (첫 회차 포함)
+// 모집 마감은 첫 회차와 같은 간격만큼 각 회차보다 앞서도록 계산하고,
+// 공휴일을 건너뛰면 건너뛴 회차는 skipped로 표시해 횟수에 세지 않음
+// 공휴일 목록이 없는 해의 회차는 건너뛰지 못하므로 holidayUnknown으로 표시 (미리보기에서 경고)
+export const getGatheringOccurrences = (
+  first: { dateTime: Date; registrationEnd: Date },
+  { frequency, end, skipHolidays }: GatheringRecurrence,
+): GatheringOccurrence[] => {
+  const registrationOffset = first.dateTime.getTime() - first.registrationEnd.getTime();
+  const targetCount =
+    end.type === 'count'
+      ? Math.min(Math.max(end.count, 1), MAX_SERIES_OCCURRENCES)
+      : MAX_SERIES_OCCURRENCES;
+
+  const occurrences: GatheringOccurrence[] = [];
+  let createdCount = 0;
+  // 공휴일이 이어져도 끝나도록 확인할 회차 수를 제한
+  for (let index = 0; createdCount < targetCount && index < MAX_SERIES_OCCURRENCES * 2; index++) {
+    const dateTime = getNthDate(first.dateTime, frequency, index);
+    if (end.type === 'until' && isAfterEndDate(dateTime, end.until)) break;
+
+    const skipped = skipHolidays && isPublicHoliday(dateTime);
+    occurrences.push({
+      dateTime,
+      registrationEnd: new Date(dateTime.getTime() - registrationOffset),
+      skipped,
+      holidayUnknown: skipHolidays && !isPublicHolidayKnown(dateTime),
+    });
+    if (!skipped) createdCount++;
+  }
+
+  return occurrences;
+};
@@ -1,4 +1,4 @@
-import { CreateGatheringPayload, createGatheringSchema } from './schema';
+import { CreateGatheringPayload, createEditGatheringSchema, createGatheringSchema } from './schema';
 
 describe('createGatheringSchema', () => {
   const validGatheringData: CreateGatheringPayload = {
@@ -155,6 +155,43 @@ describe('createGatheringSchema', () => {
         expect(result.error.issues[0].message).toBe('form.errors.capacityMin');
       }
     });
+
+    it('개설 확정 인원을 정하면 capacity는 그 인원 이상이어야 한다', () => {
+      expect(
+        createGatheringSchema.safeParse({ ...validGatheringData, capacity: 3, minParticipants: 3 })
+          .success,
+      ).toBe(true);
+
+      const result = createGatheringSchema.safeParse({
+        ...validGatheringData,
+        capacity: 6,
+        minParticipants: 8,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]).toMatchObject({
+          path: ['capacity'],
+          message: 'form.errors.capacityMin',
+        });
+      }
+    });
+
+    it('개설 확정 인원이 2명 미만이면 에러가 발생해야 한다', () => {
+      const result = createGatheringSchema.safeParse({ ...validGatheringData, minParticipants: 1 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('form.errors.minParticipantsMin');
+      }
+    });
+
+    it('개설 확정 인원이 없으면 기본값 기준으로 검증해야 한다', () => {
+      const result = createGatheringSchema.safeParse({
+        ...validGatheringData,
+        capacity: 5,
+        minParticipants: undefined,
+      });
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('이미지 검증', () => {
@@ -207,3 +244,30 @@ describe('createGatheringSchema', () => {
     });
   });
 });
+
+describe('createEditGatheringSchema', () => {
+  const values: CreateGatheringPayload = {
+    name: '테스트 모임',
+    location: '건대입구',
+    type: 'OFFICE_STRETCHING',
+    dateTime: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    registrationEnd: new Date(Date.now() + 29 * 24 * 60 * 60 * 1000),
+    capacity: 6,
+  };
+
+  it('모집 정원이 현재 참여 인원 이상이면 검증을 통과해야 한다', () => {
+    expect(createEditGatheringSchema(6).safeParse(values).success).toBe(true);
+  });
+
+  it('모집 정원이 현재 참여 인원보다 적으면 에러가 발생해야 한다', () => {
+    const result = createEditGatheringSchema(7).safeParse(values);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]).toMatchObject({
+        path: ['capacity'],
+        message: 'form.errors.capacityBelowParticipants',
+      });
+    }
+  });
+});
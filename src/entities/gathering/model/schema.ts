@@ -1,4 +1,12 @@
+import {
+  MIN_PARTICIPANTS_LOWER_BOUND,
+  getMinParticipants,
+} from '@/shared/lib/gathering/confirmation';
 import { z } from 'zod';
+import type { CalendarFeed, Gathering, GatheringSeries, MyGathering } from './types';
+
+// 모임 날짜가 이미 지났는지 (모임 만들기 검증과 임시 저장 만료에 같은 기준을 사용)
+export const isPastGatheringDateTime = (dateTime: Date, now = new Date()) => dateTime <= now;
 
 export const createGatheringSchema = z
   .object({
@@ -15,7 +23,14 @@ export const createGatheringSchema = z
     registrationEnd: z.date({
       required_error: 'form.errors.registrationEndRequired',
     }),
-    capacity: z.coerce.number().min(5, 'form.errors.capacityMin'),
+    capacity: z.coerce.number(),
+    // 개설 확정 최소 인원 (비워 두면 기본값)
+    // z.coerce.number()는 빈 문자열을 0으로 바꾸므로 입력란(GatheringMinParticipantsField)에서 빈 값을 undefined로 넘김
+    minParticipants: z.coerce
+      .number()
+      .int('form.errors.minParticipantsMin')
+      .min(MIN_PARTICIPANTS_LOWER_BOUND, 'form.errors.minParticipantsMin')
+      .optional(),
     image: z
       .instanceof(File)
       .refine(
@@ -33,9 +48,70 @@ export const createGatheringSchema = z
     message: 'form.errors.registrationEndInvalid',
     path: ['registrationEnd'],
   })
-  .refine((data) => new Date() < data.dateTime, {
+  .refine((data) => !isPastGatheringDateTime(data.dateTime), {
     message: 'form.errors.dateTimePast',
     path: ['dateTime'],
+  })
+  .refine((data) => data.capacity >= getMinParticipants(data), {
+    message: 'form.errors.capacityMin',
+    path: ['capacity'],
   });
 
 export type CreateGatheringPayload = z.infer<typeof createGatheringSchema>;
+
+// 모임 수정: 생성과 같은 규칙에 더해 모집 정원은 현재 참여 인원보다 적을 수 없음
+export const createEditGatheringSchema = (participantCount: number) =>
+  createGatheringSchema.refine((data) => data.capacity >= participantCount, {
+    message: 'form.errors.capacityBelowParticipants',
+    path: ['capacity'],
+  });
+
+// ---- 응답 스키마 (services에서 응답 검증에 사용) ----
+
+export const gatheringTypeSchema = z.enum([
+  'DALLAEMFIT',
+  'OFFICE_STRETCHING',
+  'MINDFULNESS',
+  'WORKATION',
+]);
+export const gatheringLocationSchema = z.enum(['건대입구', '을지로3가', '신림', '홍대입구']);
+
+// (GET /gatherings, GET /gatherings/{id})
+export const gatheringSchema = z.object({
+  teamId: z.number(),
+  id: z.number(),
+  type: gatheringTypeSchema,
+  name: z.string(),
+  dateTime: z.string(),
+  registrationEnd: z.string(),
+  location: gatheringLocationSchema,
+  participantCount: z.number(),
+  capacity: z.number(),
+  minParticipants: z.number().optional(),
+  seriesId: z.number().optional(),
+  image: z.string(),
+  createdBy: z.number(),
+  canceledAt: z.string().nullable(),
+}) satisfies z.ZodType<Gathering>;
+
+export const gatheringListSchema = z.array(gatheringSchema);
+
+// (GET /gatherings/joined)
+export const myGatheringSchema = gatheringSchema.extend({
+  joinedAt: z.string(),
+  isCompleted: z.boolean(),
+  isReviewed: z.boolean(),
+}) satisfies z.ZodType<MyGathering>;
+
+export const myGatheringListSchema = z.array(myGatheringSchema);
+
+export const gatheringSeriesSchema = z.object({
+  id: z.number(),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']),
+  gatheringIds: z.array(z.number()),
+}) satisfies z.ZodType<GatheringSeries>;
+
+export const calendarFeedSchema = z.object({
+  token: z.string().nullable(),
+  createdAt: z.string().nullable(),
+}) satisfies z.ZodType<CalendarFeed>;
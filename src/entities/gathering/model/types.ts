@@ -1,3 +1,5 @@
+import type { RecurrenceFrequency } from './recurrence';
+
 // enums
 
 export type GatheringType = 'DALLAEMFIT' | 'OFFICE_STRETCHING' | 'MINDFULNESS' | 'WORKATION';
@@ -18,6 +20,8 @@ export interface Gathering {
   location: GatheringLocation;
   participantCount: number;
   capacity: number;
+  minParticipants?: number; // 개설 확정 최소 인원 (주최자가 정한 경우에만 내려옴)
+  seriesId?: number; // 반복 모임으로 만든 경우 시리즈 id (인메모리 백엔드에서만 내려옴)
   image: string;
   createdBy: number;
   canceledAt: string | null;
@@ -30,6 +34,7 @@ export interface CreateGatheringRequest {
   name: string;
   dateTime: string; // "YYYY-MM-DDTHH:MM:SS"
   capacity: number;
+  minParticipants?: number; // 인메모리 백엔드에서만 지원
   image: File; // 'binary' 타입이므로 File 객체로 처리
   registrationEnd?: string; // 선택적 프로퍼티
 }
@@ -44,6 +49,19 @@ export interface GatheringFilters {
   sortOrder?: GatheringSortOrder;
   limit?: number;
   offset?: number;
+  // 아래 필터는 API가 지원하지 않아 클라이언트에서 걸러냄 (applyClientGatheringFilters)
+  locations?: GatheringLocation[]; // 지역 2개 이상 선택 시 (1개면 location으로 API에 전달)
+  dateFrom?: string; // YYYY-MM-DD, 기간 시작 (하루만 선택하면 date로 API에 전달)
+  dateTo?: string; // YYYY-MM-DD, 기간 끝
+  openOnly?: boolean; // 빈 자리가 있는 모임만
+  hideClosed?: boolean; // 취소되었거나 이미 끝난 모임 숨김
+  keyword?: string; // 모임 이름 검색어 (초성 검색 지원)
+}
+
+// 캘린더, 지도처럼 여러 페이지를 모아 한 화면에 보여주는 모임 목록
+export interface GatheringOverview {
+  gatherings: Gathering[];
+  isCapped: boolean; // 최대 모임 수에 닿아 일부만 받았는지
 }
 
 export interface MyGathering extends Gathering {
@@ -52,6 +70,19 @@ export interface MyGathering extends Gathering {
   isReviewed: boolean;
 }
 
+// 반복 모임으로 함께 만든 모임 묶음 (GET /gathering-series/{id})
+export interface GatheringSeries {
+  id: number;
+  frequency: RecurrenceFrequency;
+  gatheringIds: number[]; // 회차 순서
+}
+
+// 참여한 모임 캘린더 구독 토큰 (발급한 적이 없으면 token, createdAt이 null)
+export interface CalendarFeed {
+  token: string | null;
+  createdAt: string | null;
+}
+
 export interface MyGatheringParams {
   completed?: boolean;
   reviewed?: boolean;
@@ -10,6 +10,7 @@ jest.mock('next-intl', () => ({
       completed: '완료',
       pending: '대기',
       confirmed: '확정',
+      unconfirmed: '미달',
     };
     return translations[key] || key;
   },
@@ -147,6 +148,35 @@ describe('GatheringStatusChip 컴포넌트', () => {
     });
   });
 
+  describe('개설 확정 인원과 모집 마감', () => {
+    it('주최자가 정한 개설 확정 인원을 채우면 confirmed를 표시해야 한다', () => {
+      render(
+        <GatheringStatusChip
+          gatheringDateTime={new Date('2024-01-20T12:00:00')}
+          participantCount={3}
+          minParticipants={3}
+        />,
+      );
+
+      expect(screen.getByText('확정')).toBeInTheDocument();
+      expect(screen.queryByText('대기')).not.toBeInTheDocument();
+    });
+
+    it('최소 인원을 못 채운 채 모집이 마감되면 pending 대신 unconfirmed를 표시해야 한다', () => {
+      render(
+        <GatheringStatusChip
+          gatheringDateTime={new Date('2024-01-20T12:00:00')}
+          registrationEnd={new Date('2024-01-14T12:00:00')}
+          participantCount={3}
+        />,
+      );
+
+      expect(screen.getByText('예정')).toBeInTheDocument();
+      expect(screen.getByText('미달')).toBeInTheDocument();
+      expect(screen.queryByText('대기')).not.toBeInTheDocument();
+    });
+  });
+
   describe('CSS 클래스', () => {
     it('flex items-center gap-2 클래스가 적용되어야 한다', () => {
       const futureDate = new Date('2024-01-20T12:00:00');
@@ -1,26 +1,42 @@
 // 'use client';
 import { useTranslations } from 'next-intl';
+import { getConfirmationStatus, getMinParticipants } from '@/shared/lib/gathering/confirmation';
+import { CONFIRMATION_STATUS } from '@/shared/types/confirmationStatus';
 import { StateChip } from '@/shared/ui/chip';
 
 interface GatheringStatusChipProps {
   gatheringDateTime: Date;
   participantCount: number;
+  minParticipants?: number; // 개설 확정 인원 (없으면 기본값)
+  registrationEnd?: Date; // 있으면 마감 후 최소 인원 미달을 개설미달로 표시
 }
 
 export const GatheringStatusChip = ({
   gatheringDateTime,
   participantCount,
+  minParticipants,
+  registrationEnd,
 }: GatheringStatusChipProps) => {
   const t = useTranslations('ui.gatheringCard.statusChip');
 
   const isUpcoming = new Date(gatheringDateTime) > new Date();
-  const isConfirmed = participantCount >= 5;
+  const confirmationStatus = getConfirmationStatus({
+    participantCount,
+    minParticipants: getMinParticipants({ minParticipants }),
+    registrationEnd,
+  });
+  const isConfirmed = confirmationStatus === CONFIRMATION_STATUS.CONFIRMED;
 
   return (
     <div className="flex items-center gap-2">
       {isUpcoming && <StateChip variant="scheduled">{t('scheduled')}</StateChip>}
       {!isUpcoming && isConfirmed && <StateChip variant="completed">{t('completed')}</StateChip>}
-      {!isConfirmed && <StateChip variant="pending">{t('pending')}</StateChip>}
+      {confirmationStatus === CONFIRMATION_STATUS.PENDING && (
+        <StateChip variant="pending">{t('pending')}</StateChip>
+      )}
+      {confirmationStatus === CONFIRMATION_STATUS.UNCONFIRMED && (
+        <StateChip variant="unconfirmed">{t('unconfirmed')}</StateChip>
+      )}
       {isConfirmed && <StateChip variant="confirmed">{t('confirmed')}</StateChip>}
     </div>
   );
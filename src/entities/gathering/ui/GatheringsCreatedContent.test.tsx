@@ -32,6 +32,13 @@ jest.mock('@/entities/gathering/api', () => ({
   useGetGatherings: () => mockUseGetGatherings(),
 }));
 
+// 주최자 관리 버튼 mock
+jest.mock('@/features/host-console/ui', () => ({
+  HostConsoleButton: ({ gathering }: { gathering: { id: number } }) => (
+    <button type="button">host-console-{gathering.id}</button>
+  ),
+}));
+
 // MyPageGatheringCard mock
 jest.mock('@/widgets/GatheringCard/ui', () => ({
   MyPageGatheringCard: ({
@@ -44,6 +51,7 @@ jest.mock('@/widgets/GatheringCard/ui', () => ({
     gatheringImage,
     isCanceled,
     isActionButtonVisible,
+    actions,
   }: MyPageGatheringCardProps) => (
     <div data-testid="gathering-card">
       <div data-testid="gathering-id">{gatheringId}</div>
@@ -56,6 +64,7 @@ jest.mock('@/widgets/GatheringCard/ui', () => ({
       <div data-testid="gathering-image">{gatheringImage}</div>
       <div data-testid="gathering-canceled">{isCanceled ? 'canceled' : 'active'}</div>
       <div data-testid="action-button-visible">{isActionButtonVisible ? 'visible' : 'hidden'}</div>
+      {actions}
     </div>
   ),
 }));
@@ -129,6 +138,10 @@ describe('GatheringsCreatedContent', () => {
     expect(gatheringCards[0]).toHaveTextContent('https://example.com/gathering.jpg');
     expect(gatheringCards[0]).toHaveTextContent('active');
     expect(gatheringCards[0]).toHaveTextContent('hidden');
+
+    // 모임마다 주최자 관리 버튼 표시
+    expect(screen.getByRole('button', { name: 'host-console-1' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'host-console-2' })).toBeInTheDocument();
   });
 
   it('사용자는 있지만 생성한 모임이 없는 경우 빈 상태 메시지를 표시한다', async () => {
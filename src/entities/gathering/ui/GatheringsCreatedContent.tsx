@@ -3,6 +3,7 @@
 import { useTranslations } from 'next-intl';
 import { useGetGatherings } from '@/entities/gathering/api';
 import { useGetUser } from '@/entities/user/api';
+import { HostConsoleButton } from '@/features/host-console/ui';
 import { MyPageGatheringCard } from '@/widgets/GatheringCard/ui';
 
 export function GatheringsCreatedContent() {
@@ -22,11 +23,14 @@ export function GatheringsCreatedContent() {
               gatheringName={gathering.name}
               gatheringLocation={gathering.location}
               gatheringDateTime={new Date(gathering.dateTime)}
+              gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
               gatheringParticipantCount={gathering.participantCount}
               gatheringCapacity={gathering.capacity}
+              gatheringMinParticipants={gathering.minParticipants}
               gatheringImage={gathering.image}
               isCanceled={!!gathering.canceledAt}
               isActionButtonVisible={false}
+              actions={<HostConsoleButton gathering={gathering} />}
             />
           ))
         ) : (
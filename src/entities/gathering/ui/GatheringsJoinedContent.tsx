@@ -20,8 +20,10 @@ export function GatheringsJoinedContent() {
               gatheringName={gathering.name}
               gatheringLocation={gathering.location}
               gatheringDateTime={new Date(gathering.dateTime)}
+              gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
               gatheringParticipantCount={gathering.participantCount}
               gatheringCapacity={gathering.capacity}
+              gatheringMinParticipants={gathering.minParticipants}
               gatheringImage={gathering.image}
               isCanceled={!!gathering.canceledAt}
               isCompleted={gathering.isCompleted}
@@ -1,14 +1,20 @@
 import { useTranslations } from 'next-intl';
 import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
 import { cn } from '@/shared/lib/cn';
+import { DEFAULT_MIN_PARTICIPANTS } from '@/shared/lib/gathering/confirmation';
 import { FieldError, UseFormRegister } from 'react-hook-form';
 
 interface GatheringCapacityFieldProps {
   register: UseFormRegister<CreateGatheringPayload>;
   error?: FieldError;
+  min?: number; // 개설 확정 인원 이상, 모임 수정 시 현재 참여 인원보다 줄일 수 없음
 }
 
-export const GatheringCapacityField = ({ register, error }: GatheringCapacityFieldProps) => {
+export const GatheringCapacityField = ({
+  register,
+  error,
+  min = DEFAULT_MIN_PARTICIPANTS,
+}: GatheringCapacityFieldProps) => {
   const t = useTranslations('pages.gatherings.create');
   return (
     <div>
@@ -17,7 +23,7 @@ export const GatheringCapacityField = ({ register, error }: GatheringCapacityFie
         type="number"
         {...register('capacity')}
         placeholder={t('form.participantsPlaceholder')}
-        min={5}
+        min={min}
         className={cn(
           'flex w-full rounded-xl bg-gray-50 px-4 py-2.5 text-base leading-6 transition outline-none',
           error
@@ -24,6 +24,7 @@ interface GatheringDateFieldProps {
   watch: UseFormWatch<CreateGatheringPayload>;
   formatDateTime: (date: Date | undefined) => string;
   formatDateTimeMobile: (date: Date | undefined) => string;
+  disabled?: boolean; // 모임 수정 시 다른 참여자가 있으면 변경 불가
 }
 
 export const GatheringDateField = ({
@@ -37,6 +38,7 @@ export const GatheringDateField = ({
   watch,
   formatDateTime,
   formatDateTimeMobile,
+  disabled = false,
 }: GatheringDateFieldProps) => {
   const t = useTranslations('pages.gatherings.create');
   return (
@@ -52,8 +54,11 @@ export const GatheringDateField = ({
                 'flex w-full cursor-pointer items-center rounded-xl bg-gray-50 px-4 py-2.5',
                 'border-0',
                 error && 'border-red-500',
+                disabled && 'cursor-not-allowed opacity-50',
               )}
+              aria-disabled={disabled}
               onClick={() => {
+                if (disabled) return;
                 setCurrentDateField('dateTime');
                 if (!watch('dateTime')) {
                   const now = new Date();
@@ -29,6 +29,39 @@ jest.mock('@/shared/hooks', () => ({
   useImageResizer: () => mockUseImageResizer(),
 }));
 
+// 자르기 화면은 정해진 영역으로 바로 적용/취소만 하도록 대체
+const mockCrop = { rotation: 0, area: { x: 0, y: 0, width: 280, height: 160 } };
+
+jest.mock('@/shared/ui/imageCropper', () => ({
+  ImageCropper: ({
+    aspect,
+    onConfirm,
+    onCancel,
+  }: {
+    aspect: number;
+    onConfirm: (crop: typeof mockCrop) => void;
+    onCancel: () => void;
+  }) => (
+    <div
+      data-testid="image-cropper"
+      data-aspect={aspect}
+    >
+      <button
+        type="button"
+        onClick={() => onConfirm(mockCrop)}
+      >
+        crop-confirm
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+      >
+        crop-cancel
+      </button>
+    </div>
+  ),
+}));
+
 // 기본 Mock 설정
 beforeEach(() => {
   mockUseImageProcessingToast.mockReturnValue({
@@ -288,12 +321,78 @@ describe('GatheringImageField', () => {
     const testFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
 
     await user.upload(fileInput, testFile);
+    await user.click(screen.getByText('crop-confirm'));
 
+    expect(mockHandleImageChange).toHaveBeenCalledWith(testFile, expect.any(Function), mockCrop);
     expect(mockCreateProgressToast).toHaveBeenCalled();
     expect(mockShowProgressToast).toHaveBeenCalledWith(50);
     expect(mockShowProgressToast).toHaveBeenCalledWith(100);
   });
 
+  it('파일을 고르면 카드 비율의 자르기 화면을 먼저 보여주고 처리 중으로 알려야 한다', async () => {
+    const user = userEvent.setup();
+    const mockHandleImageChange = jest.fn();
+    const onProcessingChange = jest.fn();
+    mockUseImageResizer.mockReturnValue({
+      isProcessing: false,
+      fileName: '',
+      displayFileName: '',
+      handleImageChange: mockHandleImageChange,
+    });
+
+    render(<TestForm onProcessingChange={onProcessingChange} />);
+
+    const fileInput = document.getElementById('gathering-image-upload') as HTMLInputElement;
+    await user.upload(fileInput, new File(['test'], 'test.jpg', { type: 'image/jpeg' }));
+
+    expect(screen.getByTestId('image-cropper')).toHaveAttribute('data-aspect', String(280 / 160));
+    expect(onProcessingChange).toHaveBeenLastCalledWith(true);
+    expect(mockHandleImageChange).not.toHaveBeenCalled();
+  });
+
+  it('자르기를 취소하면 이미지를 처리하지 않아야 한다', async () => {
+    const user = userEvent.setup();
+    const mockHandleImageChange = jest.fn();
+    const onProcessingChange = jest.fn();
+    mockUseImageResizer.mockReturnValue({
+      isProcessing: false,
+      fileName: '',
+      displayFileName: '',
+      handleImageChange: mockHandleImageChange,
+    });
+
+    render(<TestForm onProcessingChange={onProcessingChange} />);
+
+    const fileInput = document.getElementById('gathering-image-upload') as HTMLInputElement;
+    await user.upload(fileInput, new File(['test'], 'test.jpg', { type: 'image/jpeg' }));
+    await user.click(screen.getByText('crop-cancel'));
+
+    expect(screen.queryByTestId('image-cropper')).not.toBeInTheDocument();
+    expect(onProcessingChange).toHaveBeenLastCalledWith(false);
+    expect(mockHandleImageChange).not.toHaveBeenCalled();
+  });
+
+  it('이미지가 아닌 파일은 자르기 화면 없이 에러를 알려야 한다', async () => {
+    const user = userEvent.setup({ applyAccept: false });
+    const mockShowErrorToast = jest.fn();
+    mockUseImageProcessingToast.mockReturnValue({
+      createProgressToast: jest.fn(),
+      showProgressToast: jest.fn(),
+      showSuccessToast: jest.fn(),
+      showErrorToast: mockShowErrorToast,
+    });
+
+    render(<TestForm />);
+
+    const fileInput = document.getElementById('gathering-image-upload') as HTMLInputElement;
+    await user.upload(fileInput, new File(['test'], 'test.txt', { type: 'text/plain' }));
+
+    expect(mockShowErrorToast).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'IMAGE_TYPE' }),
+    );
+    expect(screen.queryByTestId('image-cropper')).not.toBeInTheDocument();
+  });
+
   it('파일이 null인 경우 setValue가 undefined로 호출되어야 한다', async () => {
     render(<TestForm />);
 
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
 import { useImageProcessingToast, useImageResizer } from '@/shared/hooks';
+import { IMAGE_CROP_ASPECT, type ImageCrop, validateImageFile } from '@/shared/lib/image';
+import { ImageCropper } from '@/shared/ui/imageCropper';
 import { FieldError, UseFormSetValue, UseFormWatch } from 'react-hook-form';
 
 interface GatheringImageFieldProps {
@@ -18,6 +20,8 @@ export const GatheringImageField = ({
   onProcessingChange,
 }: GatheringImageFieldProps) => {
   const t = useTranslations('pages.gatherings.create');
+  // 자르기 화면에서 편집 중인 원본 파일
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
 
   // 토스트 처리 훅 사용
   const { createProgressToast, showProgressToast, showSuccessToast, showErrorToast } =
@@ -37,7 +41,7 @@ export const GatheringImageField = ({
   });
 
   // 커스텀 훅에서 제공하는 handleImageChange를 래핑하여 토스트 처리 추가
-  const handleImageChangeWithToast = async (file: File | null) => {
+  const handleImageChangeWithToast = async (file: File | null, crop?: ImageCrop) => {
     if (!file) {
       setValue('image', undefined);
       return;
@@ -52,13 +56,37 @@ export const GatheringImageField = ({
     };
 
     // 커스텀 훅의 handleImageChange 호출 (진행률 콜백 전달)
-    await handleImageChange(file, updateProgress);
+    await handleImageChange(file, updateProgress, crop);
   };
 
-  // isProcessing 상태가 변경될 때 부모 컴포넌트에 알림
+  // 파일을 고르면 카드 비율로 자르는 화면을 먼저 보여줌
+  const handleFileSelect = (file: File | null) => {
+    if (!file) {
+      setValue('image', undefined);
+      return;
+    }
+
+    const validation = validateImageFile(file);
+    if (!validation.isValid) {
+      showErrorToast(validation.error);
+      return;
+    }
+    setPendingFile(file);
+  };
+
+  const handleCropConfirm = (crop: ImageCrop) => {
+    const file = pendingFile;
+    setPendingFile(null);
+    if (file) handleImageChangeWithToast(file, crop);
+  };
+
+  const image = watch('image');
+
+  // 이미지를 자르거나 처리하는 동안에는 제출하지 않도록 부모 컴포넌트에 알림
+  const isBusy = isProcessing || !!pendingFile;
   React.useEffect(() => {
-    onProcessingChange?.(isProcessing);
-  }, [isProcessing, onProcessingChange]);
+    onProcessingChange?.(isBusy);
+  }, [isBusy, onProcessingChange]);
 
   return (
     <div>
@@ -69,8 +97,9 @@ export const GatheringImageField = ({
             'flex-1 rounded-xl border-0 bg-gray-50 px-4 py-2.5' + (error ? ' border-red-500' : '')
           }
         >
-          <span className={watch('image') ? 'text-gray-800' : 'text-gray-400'}>
-            {fileName ? displayFileName : t('form.imagePlaceholder')}
+          <span className={image ? 'text-gray-800' : 'text-gray-400'}>
+            {/* 임시 저장본에서 불러온 이미지는 리사이즈를 거치지 않으므로 파일 이름을 그대로 표시 */}
+            {fileName ? displayFileName : (image?.name ?? t('form.imagePlaceholder'))}
           </span>
           {isProcessing && (
             <span className="ml-2 text-sm text-orange-500">{t('form.processing.status')}</span>
@@ -89,10 +118,26 @@ export const GatheringImageField = ({
           accept="image/*"
           id="gathering-image-upload"
           className="hidden"
-          onChange={(e) => handleImageChangeWithToast(e.target.files?.[0] || null)}
+          onChange={(e) => {
+            handleFileSelect(e.target.files?.[0] || null);
+            // 같은 파일을 다시 골라도 자르기 화면이 열리도록 초기화
+            e.target.value = '';
+          }}
           disabled={isProcessing}
         />
       </div>
+      {pendingFile && (
+        <div className="mt-3">
+          <ImageCropper
+            file={pendingFile}
+            aspect={IMAGE_CROP_ASPECT.gathering}
+            // 상세 배너는 화면 너비에 따라 비율이 달라지고 object-cover로 채워지므로 고정 비율인 카드만 미리보기
+            previews={[{ label: t('form.imagePreview.card'), width: 140, height: 80 }]}
+            onConfirm={handleCropConfirm}
+            onCancel={() => setPendingFile(null)}
+          />
+        </div>
+      )}
       {error && <p className="mt-1 text-xs text-red-500">{t(error.message ?? '')}</p>}
       {isProcessing && (
         <p className="mt-1 text-xs text-orange-500">{t('form.processing.waitMessage')}</p>
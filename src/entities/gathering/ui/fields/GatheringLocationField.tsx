@@ -1,14 +1,20 @@
 import { useTranslations } from 'next-intl';
 import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { cn } from '@/shared/lib/cn';
 import { Dropdown, DropdownItem, DropdownList, DropdownTrigger } from '@/shared/ui/dropdown';
 import { Control, Controller, FieldError } from 'react-hook-form';
 
 interface GatheringLocationFieldProps {
   control: Control<CreateGatheringPayload>;
   error?: FieldError;
+  disabled?: boolean; // 모임 수정 시 다른 참여자가 있으면 변경 불가
 }
 
-export const GatheringLocationField = ({ control, error }: GatheringLocationFieldProps) => {
+export const GatheringLocationField = ({
+  control,
+  error,
+  disabled = false,
+}: GatheringLocationFieldProps) => {
   const t = useTranslations('pages.gatherings.create');
   const LOCATION_OPTIONS = [
     { value: '건대입구', label: t('form.locations.konkuk') },
@@ -31,8 +37,13 @@ export const GatheringLocationField = ({ control, error }: GatheringLocationFiel
                   type="button"
                   size="large"
                   state="default"
-                  className={error ? 'w-full border-red-500' : 'w-full'}
+                  className={cn(
+                    'w-full',
+                    error && 'border-red-500',
+                    disabled && 'cursor-not-allowed opacity-50 hover:bg-gray-50',
+                  )}
                   onClick={toggle}
+                  disabled={disabled}
                   tabIndex={0}
                 >
                   <span className={field.value ? 'text-gray-800' : 'text-gray-400'}>
@@ -0,0 +1,87 @@
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FieldError, useForm } from 'react-hook-form';
+import { GatheringMinParticipantsField } from './GatheringMinParticipantsField';
+
+jest.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, number>) => {
+    const translations: Record<string, string> = {
+      'form.minParticipants': '개설 확정 인원',
+      'form.minParticipantsHint': '이 인원이 모이면 개설이 확정돼요.',
+      'form.errors.minParticipantsMin': '개설 확정 인원은 {min}명 이상 입력해주세요',
+    };
+    const message = translations[key] || key;
+    return values?.min === undefined ? message : message.replace('{min}', String(values.min));
+  },
+}));
+
+const TestForm = ({ error, disabled }: { error?: FieldError; disabled?: boolean }) => {
+  const { register } = useForm<CreateGatheringPayload>({ defaultValues: { minParticipants: 5 } });
+  return (
+    <GatheringMinParticipantsField
+      register={register}
+      error={error}
+      disabled={disabled}
+    />
+  );
+};
+
+const SubmitForm = ({ onSubmit }: { onSubmit: (values: CreateGatheringPayload) => void }) => {
+  const { register, handleSubmit } = useForm<CreateGatheringPayload>({
+    defaultValues: { minParticipants: 5 },
+  });
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <GatheringMinParticipantsField register={register} />
+      <button type="submit">제출</button>
+    </form>
+  );
+};
+
+describe('GatheringMinParticipantsField', () => {
+  it('기본값과 안내 문구를 표시하고 최소값은 2로 설정되어야 한다', () => {
+    render(<TestForm />);
+
+    const input = screen.getByLabelText('개설 확정 인원');
+    expect(input).toHaveValue(5);
+    expect(input).toHaveAttribute('min', '2');
+    expect(screen.getByText('이 인원이 모이면 개설이 확정돼요.')).toBeInTheDocument();
+  });
+
+  it('사용자가 인원을 바꿀 수 있어야 한다', async () => {
+    const user = userEvent.setup();
+    render(<TestForm />);
+
+    const input = screen.getByLabelText('개설 확정 인원');
+    await user.clear(input);
+    await user.type(input, '3');
+
+    expect(input).toHaveValue(3);
+  });
+
+  it('비워 두면 0이 아닌 undefined로 제출되어야 한다', async () => {
+    const user = userEvent.setup();
+    const onSubmit = jest.fn();
+    render(<SubmitForm onSubmit={onSubmit} />);
+
+    await user.clear(screen.getByLabelText('개설 확정 인원'));
+    await user.click(screen.getByRole('button', { name: '제출' }));
+
+    expect(onSubmit).toHaveBeenCalledWith({ minParticipants: undefined }, expect.anything());
+  });
+
+  it('에러가 있으면 안내 문구 대신 에러 메시지를 표시해야 한다', () => {
+    render(<TestForm error={{ type: 'too_small', message: 'form.errors.minParticipantsMin' }} />);
+
+    expect(screen.getByText('개설 확정 인원은 2명 이상 입력해주세요')).toBeInTheDocument();
+    expect(screen.queryByText('이 인원이 모이면 개설이 확정돼요.')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('개설 확정 인원')).toHaveClass('border-red-600');
+  });
+
+  it('disabled면 입력할 수 없어야 한다', () => {
+    render(<TestForm disabled />);
+
+    expect(screen.getByLabelText('개설 확정 인원')).toBeDisabled();
+  });
+});
@@ -0,0 +1,53 @@
+import { useTranslations } from 'next-intl';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { cn } from '@/shared/lib/cn';
+import { MIN_PARTICIPANTS_LOWER_BOUND } from '@/shared/lib/gathering/confirmation';
+import { FieldError, UseFormRegister } from 'react-hook-form';
+
+interface GatheringMinParticipantsFieldProps {
+  register: UseFormRegister<CreateGatheringPayload>;
+  error?: FieldError;
+  disabled?: boolean; // 다른 참여자가 있으면 변경 불가
+}
+
+// 개설 확정 최소 인원 (모집 마감까지 채우지 못하면 개설미달)
+export const GatheringMinParticipantsField = ({
+  register,
+  error,
+  disabled = false,
+}: GatheringMinParticipantsFieldProps) => {
+  const t = useTranslations('pages.gatherings.create');
+  return (
+    <div>
+      <label
+        htmlFor="gathering-min-participants"
+        className="mb-2 block text-sm font-medium"
+      >
+        {t('form.minParticipants')}
+      </label>
+      <input
+        id="gathering-min-participants"
+        type="number"
+        {...register('minParticipants', {
+          // 비워 두면 0이 아닌 undefined로 검증해 기본값을 사용
+          setValueAs: (value) => (value === '' ? undefined : value),
+        })}
+        min={MIN_PARTICIPANTS_LOWER_BOUND}
+        disabled={disabled}
+        className={cn(
+          'flex w-full rounded-xl bg-gray-50 px-4 py-2.5 text-base leading-6 transition outline-none disabled:cursor-not-allowed disabled:text-gray-400',
+          error
+            ? 'border-2 border-red-600 text-gray-800'
+            : 'border border-gray-50 text-gray-800 focus:border-2 focus:border-orange-600',
+        )}
+      />
+      {error?.message ? (
+        <p className="pt-2 text-xs text-red-500">
+          {t(String(error.message), { min: MIN_PARTICIPANTS_LOWER_BOUND })}
+        </p>
+      ) : (
+        <p className="pt-2 text-xs text-gray-500">{t('form.minParticipantsHint')}</p>
+      )}
+    </div>
+  );
+};
@@ -6,9 +6,14 @@ import { Control, Controller, FieldError } from 'react-hook-form';
 interface GatheringTypeFieldProps {
   control: Control<CreateGatheringPayload>;
   error?: FieldError;
+  disabled?: boolean; // 모임 수정 시 다른 참여자가 있으면 변경 불가
 }
 
-export const GatheringTypeField = ({ control, error }: GatheringTypeFieldProps) => {
+export const GatheringTypeField = ({
+  control,
+  error,
+  disabled = false,
+}: GatheringTypeFieldProps) => {
   const t = useTranslations('pages.gatherings.create');
   const SERVICE_OPTIONS = [
     {
@@ -43,6 +48,7 @@ export const GatheringTypeField = ({ control, error }: GatheringTypeFieldProps)
                 title={opt.label}
                 subtitle={opt.subtitle}
                 onSelect={() => field.onChange(opt.value)}
+                disabled={disabled}
                 className="min-w-0 flex-1"
               />
             ))}
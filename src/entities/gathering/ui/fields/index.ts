@@ -2,6 +2,7 @@ export { GatheringCapacityField } from './GatheringCapacityField';
 export { GatheringDateField } from './GatheringDateField';
 export { GatheringImageField } from './GatheringImageField';
 export { GatheringLocationField } from './GatheringLocationField';
+export { GatheringMinParticipantsField } from './GatheringMinParticipantsField';
 export { GatheringNameField } from './GatheringNameField';
 export { GatheringRegistrationEndField } from './GatheringRegistrationEndField';
 export { GatheringTypeField } from './GatheringTypeField';
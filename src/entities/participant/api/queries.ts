@@ -1,12 +1,55 @@
 import { QUERY_KEYS } from '@/shared/api';
-import { useSuspenseQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useSuspenseQuery } from '@tanstack/react-query';
 import { Participant } from '../model/types';
-import { GetParticipantsOptions, getParticipants } from './services';
+import { GetParticipantsOptions, getAllParticipants, getParticipants } from './services';
 
 export const useGetParticipants = (gatheringId: number, options?: GetParticipantsOptions) => {
   return useSuspenseQuery<Participant[]>({
     queryKey: QUERY_KEYS.participant.list(gatheringId, options),
-    queryFn: () => getParticipants(gatheringId, options ?? {}),
+    queryFn: ({ signal }) => getParticipants(gatheringId, options ?? {}, { signal }),
+    staleTime: 1000 * 60 * 2,
+  });
+};
+
+export const PARTICIPANTS_PAGE_SIZE = 20;
+
+// 무한스크롤 참여자 조회 (참여자 목록 모달용)
+export const useGetParticipantsInfinite = (
+  gatheringId: number,
+  options?: Omit<GetParticipantsOptions, 'limit' | 'offset'>,
+  { enabled = true }: { enabled?: boolean } = {},
+) => {
+  return useInfiniteQuery({
+    queryKey: QUERY_KEYS.participant.infinite(gatheringId, options),
+    queryFn: ({ pageParam = 0, signal }) =>
+      getParticipants(
+        gatheringId,
+        {
+          ...options,
+          limit: PARTICIPANTS_PAGE_SIZE,
+          offset: pageParam * PARTICIPANTS_PAGE_SIZE,
+        },
+        { signal },
+      ),
+    initialPageParam: 0,
+    // 마지막 페이지가 PARTICIPANTS_PAGE_SIZE개 미만이면 더 이상 페이지가 없음
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length === PARTICIPANTS_PAGE_SIZE ? allPages.length : undefined,
+    enabled,
+    staleTime: 1000 * 60 * 2,
+  });
+};
+
+// 전체 참여자 조회 (주최자 관리 화면에서 명단/모집 추이 계산에 사용)
+export const useGetAllParticipants = (
+  gatheringId: number,
+  { enabled = true }: { enabled?: boolean } = {},
+) => {
+  return useQuery<Participant[]>({
+    queryKey: QUERY_KEYS.participant.all(gatheringId),
+    queryFn: ({ signal }) =>
+      getAllParticipants(gatheringId, { sortBy: 'joinedAt', sortOrder: 'asc' }, { signal }),
+    enabled,
     staleTime: 1000 * 60 * 2,
   });
 };
@@ -1,5 +1,6 @@
-import { httpClient } from '@/shared/api';
+import { type RequestOptions, httpClient, validateResponse } from '@/shared/api';
 import { API_ENDPOINTS } from '@/shared/config';
+import { participantListSchema } from '../model/schema';
 import { Participant } from '../model/types';
 
 export interface GetParticipantsOptions {
@@ -12,6 +13,7 @@ export interface GetParticipantsOptions {
 export const getParticipants = async (
   gatheringId: number,
   options: GetParticipantsOptions = {},
+  { signal }: RequestOptions = {},
 ): Promise<Participant[]> => {
   const params: Record<string, string> = {};
   if (options.limit !== undefined) params.limit = String(options.limit);
@@ -19,7 +21,30 @@ export const getParticipants = async (
   if (options.sortBy) params.sortBy = options.sortBy;
   if (options.sortOrder) params.sortOrder = options.sortOrder;
 
-  return await httpClient.get(API_ENDPOINTS.GATHERINGS.PARTICIPANTS(gatheringId), {
+  const url = API_ENDPOINTS.GATHERINGS.PARTICIPANTS(gatheringId);
+  const data = await httpClient.get(url, {
     params: Object.keys(params).length ? params : undefined,
+    signal,
   });
+  return validateResponse(participantListSchema, data, url);
+};
+
+// 참여자 전체 조회 (페이지 단위로 끝까지 불러옴, CSV 내보내기용)
+export const PARTICIPANTS_EXPORT_PAGE_SIZE = 100;
+
+export const getAllParticipants = async (
+  gatheringId: number,
+  options: Omit<GetParticipantsOptions, 'limit' | 'offset'> = {},
+  requestOptions: RequestOptions = {},
+): Promise<Participant[]> => {
+  const participants: Participant[] = [];
+  for (let offset = 0; ; offset += PARTICIPANTS_EXPORT_PAGE_SIZE) {
+    const page = await getParticipants(
+      gatheringId,
+      { ...options, limit: PARTICIPANTS_EXPORT_PAGE_SIZE, offset },
+      requestOptions,
+    );
+    participants.push(...page);
+    if (page.length < PARTICIPANTS_EXPORT_PAGE_SIZE) return participants;
+  }
 };
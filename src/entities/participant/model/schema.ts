@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import type { Participant } from './types';
+
+// (GET /gatherings/{id}/participants)
+export const participantSchema = z.object({
+  teamId: z.number(),
+  userId: z.number(),
+  gatheringId: z.number(),
+  joinedAt: z.string(),
+  User: z.object({
+    id: z.number(),
+    email: z.string(),
+    name: z.string(),
+    companyName: z.string(),
+    image: z.string().nullable(),
+  }),
+}) satisfies z.ZodType<Participant>;
+
+export const participantListSchema = z.array(participantSchema);
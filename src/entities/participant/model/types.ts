@@ -8,6 +8,6 @@ export interface Participant {
     email: string;
     name: string;
     companyName: string;
-    image: string;
+    image: string | null;
   };
 }
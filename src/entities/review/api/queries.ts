@@ -1,4 +1,5 @@
 import { GatheringType } from '@/entities/gathering/model/types';
+import { filterReviewsByKeyword } from '@/entities/review/model/filters';
 import { CreateReviewPayload } from '@/entities/review/model/schema';
 import {
   CreateReviewResponse,
@@ -22,7 +23,7 @@ import { createReview, getGatheringReviewList, getReviewList, getReviewScore } f
 export const useGetReviewScore = (type?: GatheringType) => {
   return useSuspenseQuery<ReviewScoreItem[], Error>({
     queryKey: QUERY_KEYS.review.scores({ type }),
-    queryFn: () => getReviewScore({ type }),
+    queryFn: ({ signal }) => getReviewScore({ type }, { signal }),
   });
 };
 
@@ -30,11 +31,11 @@ export const useGetReviewScore = (type?: GatheringType) => {
 export const useGetReviewListInfinite = (filters: ReviewFilterParams) => {
   return useSuspenseInfiniteQuery<ReviewListResponse>({
     queryKey: QUERY_KEYS.review.list(filters),
-    queryFn: ({ pageParam = 0 }) => {
+    queryFn: ({ pageParam = 0, signal }) => {
       const limit = Number(filters.limit ?? 10);
       const offset = (pageParam as number) * limit;
 
-      return getReviewList({ ...filters, offset, limit });
+      return getReviewList({ ...filters, offset, limit }, { signal });
     },
     initialPageParam: 0,
     getNextPageParam: (lastPage) => {
@@ -42,6 +43,16 @@ export const useGetReviewListInfinite = (filters: ReviewFilterParams) => {
       if (currentPage <= totalPages - 1) return currentPage;
       return undefined;
     },
+    // 검색어는 캐시된 원본 페이지에서 거름 (페이지 판단은 원본 기준)
+    select: filters.keyword
+      ? (data) => ({
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            data: filterReviewsByKeyword(page.data, filters.keyword),
+          })),
+        })
+      : undefined,
   });
 };
 
@@ -49,7 +60,7 @@ export const useGetReviewListInfinite = (filters: ReviewFilterParams) => {
 export const useGetReviews = (params: ReviewFilterParams, options?: { enabled?: boolean }) => {
   return useQuery<ReviewListResponse>({
     queryKey: QUERY_KEYS.review.list(params),
-    queryFn: () => getReviewList(params),
+    queryFn: ({ signal }) => getReviewList(params, { signal }),
     enabled: options?.enabled ?? true,
   });
 };
@@ -73,7 +84,7 @@ export const useGetGatheringReviewList = (
 ) => {
   return useQuery<ReviewListResponse>({
     queryKey: QUERY_KEYS.gathering.reviews(gatheringId, params),
-    queryFn: () => getGatheringReviewList(gatheringId, params),
+    queryFn: ({ signal }) => getGatheringReviewList(gatheringId, params, { signal }),
     placeholderData: keepPreviousData,
   });
 };
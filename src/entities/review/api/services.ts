@@ -1,4 +1,9 @@
-import type { CreateReviewPayload } from '@/entities/review/model/schema';
+import {
+  type CreateReviewPayload,
+  createReviewResponseSchema,
+  reviewListResponseSchema,
+  reviewScoreResponseSchema,
+} from '@/entities/review/model/schema';
 import type {
   CreateReviewResponse,
   ReviewFilterParams,
@@ -6,32 +11,47 @@ import type {
   ReviewScoreParams,
   ReviewScoreResponse,
 } from '@/entities/review/model/type';
-import { httpClient } from '@/shared/api';
+import { type RequestOptions, httpClient, validateResponse } from '@/shared/api';
 import { API_ENDPOINTS } from '@/shared/config';
 
 // 리뷰 조회
-export const getReviewList = (params: ReviewFilterParams): Promise<ReviewListResponse> => {
-  return httpClient.get(`${API_ENDPOINTS.REVIEWS.LIST}`, { params });
+export const getReviewList = async (
+  filters: ReviewFilterParams,
+  { signal }: RequestOptions = {},
+): Promise<ReviewListResponse> => {
+  // keyword는 API가 지원하지 않아 클라이언트에서 거름
+  const params = { ...filters };
+  delete params.keyword;
+  const data = await httpClient.get(`${API_ENDPOINTS.REVIEWS.LIST}`, { params, signal });
+  return validateResponse(reviewListResponseSchema, data, API_ENDPOINTS.REVIEWS.LIST);
 };
 
 // 리뷰 점수 조회
-export const getReviewScore = (params: ReviewScoreParams = {}): Promise<ReviewScoreResponse> => {
-  return httpClient.get(`${API_ENDPOINTS.REVIEWS.SCORES}`, { params });
+export const getReviewScore = async (
+  params: ReviewScoreParams = {},
+  { signal }: RequestOptions = {},
+): Promise<ReviewScoreResponse> => {
+  const data = await httpClient.get(`${API_ENDPOINTS.REVIEWS.SCORES}`, { params, signal });
+  return validateResponse(reviewScoreResponseSchema, data, API_ENDPOINTS.REVIEWS.SCORES);
 };
 
 //특정 모임 리뷰 조회
-export const getGatheringReviewList = (
+export const getGatheringReviewList = async (
   gatheringId: number,
   params: Omit<ReviewFilterParams, 'gatheringId'> = {},
+  { signal }: RequestOptions = {},
 ): Promise<ReviewListResponse> => {
-  return httpClient.get(`${API_ENDPOINTS.REVIEWS.LIST}`, {
+  const data = await httpClient.get(`${API_ENDPOINTS.REVIEWS.LIST}`, {
     params: { ...params, gatheringId },
+    signal,
   });
+  return validateResponse(reviewListResponseSchema, data, API_ENDPOINTS.REVIEWS.LIST);
 };
 
 // 리뷰 생성
-export const createReview = (payload: CreateReviewPayload): Promise<CreateReviewResponse> => {
-  return httpClient.post(`${API_ENDPOINTS.REVIEWS.CREATE}`, payload, {
+export const createReview = async (payload: CreateReviewPayload): Promise<CreateReviewResponse> => {
+  const data = await httpClient.post(`${API_ENDPOINTS.REVIEWS.CREATE}`, payload, {
     authRequired: true,
   });
+  return validateResponse(createReviewResponseSchema, data, API_ENDPOINTS.REVIEWS.CREATE);
 };
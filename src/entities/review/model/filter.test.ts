@@ -1,4 +1,5 @@
-import { parseReviewFilters } from './filters';
+import { filterReviewsByKeyword, parseReviewFilters } from './filters';
+import { ReviewListItem } from './type';
 
 describe('parseReviewFilters 타입 검증 테스트 ', () => {
   //참일 경우 테스트
@@ -120,4 +121,29 @@ describe('parseReviewFilters 타입 검증 테스트 ', () => {
       offset: 0,
     });
   });
+
+  it('검색어 q는 앞뒤 공백을 제거해 keyword로 파싱한다', () => {
+    expect(parseReviewFilters({ q: ' 요가 ' }).keyword).toBe('요가');
+    expect(parseReviewFilters({ q: '' }).keyword).toBeUndefined();
+  });
+});
+
+describe('filterReviewsByKeyword', () => {
+  const createReview = (id: number, comment: string, gatheringName: string) =>
+    ({ id, comment, Gathering: { name: gatheringName } }) as ReviewListItem;
+
+  const reviews = [
+    createReview(1, '강사님이 친절해요', '아침 요가'),
+    createReview(2, '마음이 편해졌어요', '저녁 명상'),
+  ];
+
+  it('검색어가 없으면 그대로 반환한다', () => {
+    expect(filterReviewsByKeyword(reviews)).toBe(reviews);
+  });
+
+  it('리뷰 내용이나 모임 이름, 초성으로 거른다', () => {
+    expect(filterReviewsByKeyword(reviews, '친절').map((review) => review.id)).toEqual([1]);
+    expect(filterReviewsByKeyword(reviews, '명상').map((review) => review.id)).toEqual([2]);
+    expect(filterReviewsByKeyword(reviews, 'ㅇㅊ').map((review) => review.id)).toEqual([1]);
+  });
 });
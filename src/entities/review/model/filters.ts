@@ -1,4 +1,5 @@
-import { ReviewFilterParams } from './type';
+import { matchesSearchQuery } from '@/shared/lib/search';
+import { ReviewFilterParams, ReviewListItem } from './type';
 
 export const parseReviewFilters = (
   filterQuery: Record<string, string | string[] | undefined>,
@@ -13,6 +14,8 @@ export const parseReviewFilters = (
         ? (filterQuery.location as ReviewFilterParams['location'])
         : undefined,
     date: typeof filterQuery.date === 'string' ? filterQuery.date : undefined,
+    keyword:
+      typeof filterQuery.q === 'string' && filterQuery.q.trim() ? filterQuery.q.trim() : undefined,
     sortBy:
       typeof filterQuery.sortBy === 'string'
         ? (filterQuery.sortBy as ReviewFilterParams['sortBy'])
@@ -25,3 +28,13 @@ export const parseReviewFilters = (
     offset: 0,
   };
 };
+
+// 리뷰 내용이나 모임 이름에 검색어가 포함된 리뷰만 남김 (초성 검색 지원)
+export const filterReviewsByKeyword = (reviews: ReviewListItem[], keyword?: string) =>
+  keyword
+    ? reviews.filter(
+        (review) =>
+          matchesSearchQuery(review.comment, keyword) ||
+          matchesSearchQuery(review.Gathering?.name ?? '', keyword),
+      )
+    : reviews;
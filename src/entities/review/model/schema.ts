@@ -1,6 +1,14 @@
+import { gatheringLocationSchema, gatheringTypeSchema } from '@/entities/gathering/model/schema';
+import { userSchema } from '@/entities/user/model';
 import { z } from 'zod';
+import type {
+  CreateReviewResponse,
+  ReviewListItem,
+  ReviewListResponse,
+  ReviewScoreItem,
+} from './type';
 
-// 리뷰 생성 스키마만 관리
+// 리뷰 생성 폼 스키마
 export const createReviewSchema = z.object({
   gatheringId: z.number(),
   score: z.number().min(1, 'errors.selectRating').max(5, 'errors.selectRating'),
@@ -14,3 +22,56 @@ export const createReviewSchema = z.object({
 });
 
 export type CreateReviewPayload = z.infer<typeof createReviewSchema>;
+
+// ---- 응답 스키마 (services에서 응답 검증에 사용) ----
+
+export const reviewListItemSchema = z.object({
+  teamId: z.string(),
+  id: z.number(),
+  score: z.number(),
+  comment: z.string(),
+  createdAt: z.string(),
+  Gathering: z.object({
+    teamId: z.string(),
+    id: z.number(),
+    type: gatheringTypeSchema,
+    name: z.string(),
+    dateTime: z.string(),
+    location: gatheringLocationSchema,
+    image: z.string(),
+  }),
+  User: userSchema.pick({ teamId: true, id: true, name: true, image: true }),
+}) satisfies z.ZodType<ReviewListItem>;
+
+// (GET /reviews)
+export const reviewListResponseSchema = z.object({
+  data: z.array(reviewListItemSchema),
+  totalItemCount: z.number(),
+  currentPage: z.number(),
+  totalPages: z.number(),
+}) satisfies z.ZodType<ReviewListResponse>;
+
+// (GET /reviews/scores)
+export const reviewScoreItemSchema = z.object({
+  teamId: z.string(),
+  type: gatheringTypeSchema.optional(),
+  averageScore: z.number(),
+  oneStar: z.number(),
+  twoStars: z.number(),
+  threeStars: z.number(),
+  fourStars: z.number(),
+  fiveStars: z.number(),
+}) satisfies z.ZodType<ReviewScoreItem>;
+
+export const reviewScoreResponseSchema = z.array(reviewScoreItemSchema);
+
+// (POST /reviews)
+export const createReviewResponseSchema = z.object({
+  teamId: z.string(),
+  id: z.number(),
+  userId: z.number(),
+  gatheringId: z.number(),
+  score: z.number(),
+  comment: z.string(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<CreateReviewResponse>;
@@ -16,6 +16,7 @@ export interface ReviewFilterParams {
   offset?: number;
   gatheringId?: number;
   userId?: number;
+  keyword?: string; // 리뷰 내용, 모임 이름 검색어 (API 미지원, 클라이언트에서 거름)
 }
 
 // 리뷰 평점 요청 파라미터
@@ -51,7 +52,8 @@ export interface ReviewListResponse {
 
 export interface ReviewScoreItem {
   teamId: string;
-  type: GatheringType;
+  // type으로 조회하지 않으면 응답에 포함되지 않음
+  type?: GatheringType;
   averageScore: number;
   oneStar: number;
   twoStars: number;
@@ -3,6 +3,7 @@ import type { StaticImageData } from 'next/image';
 import { cn } from '@/shared/lib';
 import { formatDateToYYYYMMDD } from '@/shared/lib/date';
 import { OptimizedImage } from '@/shared/ui/OptimizedImage/OptimizedImage';
+import { HighlightText } from '@/shared/ui/highlightText';
 import { RatingStarDisplay } from '@/shared/ui/ratingStarDisplay/RatingStarDisplay';
 
 export interface ReviewCardProps {
@@ -15,6 +16,7 @@ export interface ReviewCardProps {
   gatheringName?: string;
   location?: string;
   idx?: number;
+  highlightQuery?: string; // 리뷰 내용, 모임 이름에서 강조할 검색어
 }
 
 export const ReviewCard = React.memo(function ReviewCardMemo({
@@ -27,6 +29,7 @@ export const ReviewCard = React.memo(function ReviewCardMemo({
   gatheringName,
   location,
   idx,
+  highlightQuery,
 }: ReviewCardProps) {
   const displayDate = formatDateToYYYYMMDD(dateTime);
 
@@ -68,14 +71,25 @@ export const ReviewCard = React.memo(function ReviewCardMemo({
             className="overflow-hidden text-base font-medium text-gray-700"
             aria-label="후기"
           >
-            {comment}
+            <HighlightText
+              text={comment}
+              query={highlightQuery}
+            />
           </p>
         </div>
 
         {/* 2-2. 모임 정보 + 메타 */}
         <div className="flex flex-col gap-2 text-xs text-gray-700">
           <div className="">
-            {gatheringName && <span aria-label="모임이름">{gatheringName} 이용</span>}
+            {gatheringName && (
+              <span aria-label="모임이름">
+                <HighlightText
+                  text={gatheringName}
+                  query={highlightQuery}
+                />{' '}
+                이용
+              </span>
+            )}
             {location && <span aria-label="지역"> | {location}</span>}
           </div>
           <div className="flex items-center gap-2">
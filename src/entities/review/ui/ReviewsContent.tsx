@@ -52,8 +52,10 @@ export function ReviewsContent() {
                   gatheringName={gathering.name}
                   gatheringLocation={gathering.location}
                   gatheringDateTime={new Date(gathering.dateTime)}
+                  gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
                   gatheringParticipantCount={gathering.participantCount}
                   gatheringCapacity={gathering.capacity}
+                  gatheringMinParticipants={gathering.minParticipants}
                   gatheringImage={gathering.image}
                   isCanceled={!!gathering.canceledAt}
                   isCompleted={gathering.isCompleted}
@@ -82,7 +84,7 @@ export function ReviewsContent() {
                   comment={review.comment}
                   dateTime={review.createdAt}
                   userName={review.User.name}
-                  userImg={review.User.image}
+                  userImg={review.User.image ?? undefined}
                   reviewImg={review.Gathering.image}
                   gatheringName={review.Gathering.name}
                   location={review.Gathering.location}
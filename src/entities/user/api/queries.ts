@@ -6,7 +6,7 @@ import { getUser, updateUser } from './service';
 export const useGetUser = () => {
   return useQuery<User>({
     queryKey: QUERY_KEYS.AUTH.USER.BASE,
-    queryFn: getUser,
+    queryFn: ({ signal }) => getUser({ signal }),
   });
 };
 
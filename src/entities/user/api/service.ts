@@ -1,16 +1,19 @@
-import type { UpdateUserPayload, User } from '@/entities/user/model';
-import { httpClient } from '@/shared/api';
+import { type UpdateUserPayload, type User, userSchema } from '@/entities/user/model';
+import { type RequestOptions, httpClient, validateResponse } from '@/shared/api';
 import { API_ENDPOINTS } from '@/shared/config';
 
-export const getUser = async (): Promise<User> => {
-  return await httpClient.get<User>(API_ENDPOINTS.AUTH.USER, {
+export const getUser = async ({ signal }: RequestOptions = {}): Promise<User> => {
+  const data = await httpClient.get(API_ENDPOINTS.AUTH.USER, {
     authRequired: true,
+    signal,
   });
+  return validateResponse(userSchema, data, API_ENDPOINTS.AUTH.USER);
 };
 
 export const updateUser = async (payload: UpdateUserPayload): Promise<User> => {
-  return await httpClient.put<User>(API_ENDPOINTS.AUTH.USER, payload, {
+  const data = await httpClient.put(API_ENDPOINTS.AUTH.USER, payload, {
     headers: { 'Content-Type': 'multipart/form-data' },
     authRequired: true,
   });
+  return validateResponse(userSchema, data, API_ENDPOINTS.AUTH.USER);
 };
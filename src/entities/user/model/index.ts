@@ -1,3 +1,3 @@
 export type { User } from './type';
-export { updateUserSchema } from './schema';
+export { updateUserSchema, userSchema } from './schema';
 export type { UpdateUserPayload } from './schema';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { User } from './type';
 
 export const updateUserSchema = z.object({
   companyName: z
@@ -19,3 +20,17 @@ export const updateUserSchema = z.object({
 });
 
 export type UpdateUserPayload = z.infer<typeof updateUserSchema>;
+
+// ---- 응답 스키마 (services에서 응답 검증에 사용) ----
+
+// (GET /auths/user, PUT /auths/user)
+export const userSchema = z.object({
+  teamId: z.number(),
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  companyName: z.string(),
+  image: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}) satisfies z.ZodType<User>;
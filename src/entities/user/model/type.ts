@@ -4,7 +4,7 @@ export interface User {
   email: string;
   name: string;
   companyName: string;
-  image: string;
-  createdAt: Date;
-  updatedAt: Date;
+  image: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
@@ -24,6 +24,8 @@ jest.mock('next-intl', () => ({
 }));
 
 // Mock hooks
+const mockHandleImageChange = jest.fn();
+
 jest.mock('@/shared/hooks', () => ({
   useImageProcessingToast: () => ({
     createProgressToast: jest.fn(),
@@ -35,10 +37,38 @@ jest.mock('@/shared/hooks', () => ({
     isProcessing: false,
     fileName: '',
     displayFileName: '',
-    handleImageChange: jest.fn(),
+    handleImageChange: mockHandleImageChange,
   }),
 }));
 
+// 자르기 화면은 정해진 영역으로 바로 적용만 하도록 대체
+const mockCrop = { rotation: 90, area: { x: 10, y: 20, width: 300, height: 300 } };
+
+jest.mock('@/shared/ui/imageCropper', () => ({
+  ImageCropper: ({
+    aspect,
+    rounded,
+    onConfirm,
+  }: {
+    aspect: number;
+    rounded?: boolean;
+    onConfirm: (crop: typeof mockCrop) => void;
+  }) => (
+    <div
+      data-testid="image-cropper"
+      data-aspect={aspect}
+      data-rounded={String(!!rounded)}
+    >
+      <button
+        type="button"
+        onClick={() => onConfirm(mockCrop)}
+      >
+        crop-confirm
+      </button>
+    </div>
+  ),
+}));
+
 // Mock API
 jest.mock('@/entities/user/api/queries', () => ({
   useUpdateUser: () => ({
@@ -224,4 +254,32 @@ describe('ProfileEditForm', () => {
     expect(fileInput).toHaveAttribute('accept', 'image/*');
     expect(fileInput).toHaveAttribute('type', 'file');
   });
+
+  it('이미지를 고르면 원형 자르기 화면을 보여주고 그동안 저장할 수 없어야 한다', async () => {
+    const user = userEvent.setup();
+    render(<ProfileEditForm {...defaultProps} />);
+
+    const fileInput = document.getElementById('profile-image-upload') as HTMLInputElement;
+    await user.upload(fileInput, new File(['image'], 'me.png', { type: 'image/png' }));
+
+    const cropper = screen.getByTestId('image-cropper');
+    expect(cropper).toHaveAttribute('data-aspect', '1');
+    expect(cropper).toHaveAttribute('data-rounded', 'true');
+    expect(screen.getByText('submit')).toBeDisabled();
+    expect(mockHandleImageChange).not.toHaveBeenCalled();
+  });
+
+  it('자르기를 적용하면 자른 영역과 함께 이미지를 처리해야 한다', async () => {
+    const user = userEvent.setup();
+    render(<ProfileEditForm {...defaultProps} />);
+
+    const file = new File(['image'], 'me.png', { type: 'image/png' });
+    const fileInput = document.getElementById('profile-image-upload') as HTMLInputElement;
+    await user.upload(fileInput, file);
+    await user.click(screen.getByText('crop-confirm'));
+
+    expect(mockHandleImageChange).toHaveBeenCalledWith(file, expect.any(Function), mockCrop);
+    expect(screen.queryByTestId('image-cropper')).not.toBeInTheDocument();
+    expect(screen.getByText('submit')).toBeEnabled();
+  });
 });
@@ -1,7 +1,10 @@
+import { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useUpdateUser } from '@/entities/user/api/queries';
 import { UpdateUserPayload, updateUserSchema } from '@/entities/user/model';
 import { useImageProcessingToast, useImageResizer } from '@/shared/hooks';
+import { IMAGE_CROP_ASPECT, type ImageCrop, validateImageFile } from '@/shared/lib/image';
+import { ImageCropper } from '@/shared/ui/imageCropper';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
@@ -15,6 +18,8 @@ interface ProfileEditFormProps {
 export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditFormProps) => {
   const t = useTranslations('pages.myPage.form');
   const { isPending, mutate } = useUpdateUser();
+  // 자르기 화면에서 편집 중인 원본 파일
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
 
   // 토스트 처리 훅 사용
   const { createProgressToast, showProgressToast, showSuccessToast, showErrorToast } =
@@ -48,8 +53,8 @@ export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditForm
   });
 
   const onSubmit = (data: UpdateUserPayload) => {
-    // 이미지 처리 중이면 제출 방지
-    if (isProcessing) {
+    // 이미지를 자르거나 처리하는 중이면 제출 방지
+    if (isProcessing || pendingFile) {
       toast.error(t('imageProcessing'));
       return;
     }
@@ -63,7 +68,7 @@ export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditForm
   };
 
   // 커스텀 훅에서 제공하는 handleImageChange를 래핑하여 토스트 처리 추가
-  const handleImageChangeWithToast = async (file: File | null) => {
+  const handleImageChangeWithToast = async (file: File | null, crop?: ImageCrop) => {
     if (!file) {
       setValue('image', null);
       return;
@@ -78,7 +83,28 @@ export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditForm
     };
 
     // 커스텀 훅의 handleImageChange 호출 (진행률 콜백 전달)
-    await handleImageChange(file, updateProgress);
+    await handleImageChange(file, updateProgress, crop);
+  };
+
+  // 파일을 고르면 원형 프로필에 맞게 자르는 화면을 먼저 보여줌
+  const handleFileSelect = (file: File | null) => {
+    if (!file) {
+      setValue('image', null);
+      return;
+    }
+
+    const validation = validateImageFile(file);
+    if (!validation.isValid) {
+      showErrorToast(validation.error);
+      return;
+    }
+    setPendingFile(file);
+  };
+
+  const handleCropConfirm = (crop: ImageCrop) => {
+    const file = pendingFile;
+    setPendingFile(null);
+    if (file) handleImageChangeWithToast(file, crop);
   };
 
   return (
@@ -121,10 +147,29 @@ export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditForm
               accept="image/*"
               id="profile-image-upload"
               className="hidden"
-              onChange={(e) => handleImageChangeWithToast(e.target.files?.[0] || null)}
+              onChange={(e) => {
+                handleFileSelect(e.target.files?.[0] || null);
+                // 같은 파일을 다시 골라도 자르기 화면이 열리도록 초기화
+                e.target.value = '';
+              }}
               disabled={isProcessing}
             />
           </div>
+          {pendingFile && (
+            <div className="mt-3">
+              <ImageCropper
+                file={pendingFile}
+                aspect={IMAGE_CROP_ASPECT.profile}
+                rounded
+                previews={[
+                  { label: t('imagePreview.myPage'), width: 56, height: 56, rounded: true },
+                  { label: t('imagePreview.header'), width: 40, height: 40, rounded: true },
+                ]}
+                onConfirm={handleCropConfirm}
+                onCancel={() => setPendingFile(null)}
+              />
+            </div>
+          )}
           {errors.image && (
             <p className="mt-1 text-xs text-red-500">{t(errors.image.message ?? '')}</p>
           )}
@@ -179,7 +224,7 @@ export const ProfileEditForm = ({ companyName, email, onClose }: ProfileEditForm
         </button>
         <button
           type="submit"
-          disabled={isPending || isProcessing}
+          disabled={isPending || isProcessing || !!pendingFile}
           className="flex-1 rounded-xl bg-orange-500 px-4 py-2 font-semibold text-white transition hover:bg-orange-600 disabled:opacity-50"
         >
           {isPending ? t('submitting') : isProcessing ? t('imageProcessing') : t('submit')}
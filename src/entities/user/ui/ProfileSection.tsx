@@ -28,7 +28,7 @@ export const ProfileSection = () => {
 
       <div className="flex flex-2 gap-2 bg-white px-5">
         <ProfileImage
-          url={user?.image}
+          url={user?.image ?? undefined}
           size={56}
           className="-translate-y-3"
         />
@@ -0,0 +1,61 @@
+import {
+  FILTER_PRESET_LIMIT,
+  addFilterPreset,
+  getFilterPresets,
+  removeFilterPreset,
+} from './filterPresetsStorage';
+
+describe('filterPresetsStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('필터 프리셋을 최신순으로 사용자별로 저장한다', () => {
+    addFilterPreset('1', '을지로 마인드풀니스', { type: 'MINDFULNESS', location: '을지로3가' });
+    addFilterPreset('1', '워케이션', { type: 'WORKATION' });
+    addFilterPreset('2', '신림', { location: '신림' });
+
+    expect(getFilterPresets('1').map((preset) => preset.name)).toEqual([
+      '워케이션',
+      '을지로 마인드풀니스',
+    ]);
+    expect(getFilterPresets('2')).toHaveLength(1);
+    expect(getFilterPresets()).toEqual([]);
+  });
+
+  it('같은 이름으로 저장하면 필터를 덮어쓰고 맨 앞으로 옮긴다', () => {
+    addFilterPreset('1', '내 필터', { type: 'DALLAEMFIT' });
+    addFilterPreset('1', '다른 필터', { type: 'WORKATION' });
+    const [first] = getFilterPresets('1').slice(-1);
+
+    const presets = addFilterPreset('1', ' 내 필터 ', { type: 'MINDFULNESS' });
+
+    expect(presets).toHaveLength(2);
+    expect(presets[0]).toEqual(
+      expect.objectContaining({ id: first.id, name: '내 필터', filters: { type: 'MINDFULNESS' } }),
+    );
+  });
+
+  it(`빈 이름은 저장하지 않고, 최근 ${FILTER_PRESET_LIMIT}개까지만 유지한다`, () => {
+    addFilterPreset('1', '  ', { type: 'DALLAEMFIT' });
+    expect(getFilterPresets('1')).toEqual([]);
+
+    for (let i = 0; i < FILTER_PRESET_LIMIT + 2; i++) {
+      addFilterPreset('1', `필터${i}`, { type: 'DALLAEMFIT' });
+    }
+    expect(getFilterPresets('1')).toHaveLength(FILTER_PRESET_LIMIT);
+  });
+
+  it('id로 프리셋을 삭제한다', () => {
+    const [preset] = addFilterPreset('1', '내 필터', { type: 'DALLAEMFIT' });
+
+    expect(removeFilterPreset('1', preset.id)).toEqual([]);
+  });
+
+  it('저장된 값이 손상되었으면 빈 배열을 반환한다', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('filter-presets:1', '{broken');
+
+    expect(getFilterPresets('1')).toEqual([]);
+  });
+});
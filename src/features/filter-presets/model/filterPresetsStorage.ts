@@ -0,0 +1,68 @@
+import type { GatheringFilters } from '@/entities/gathering/model/types';
+
+// 사용자별로 이름 붙인 모임 목록 필터 조합을 localStorage에 저장
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: GatheringFilters;
+  createdAt: number;
+}
+
+export const FILTER_PRESET_LIMIT = 10;
+
+// 로그인하지 않았으면 guest로 저장
+const getStorageKey = (userId?: string) => `filter-presets:${userId ?? 'guest'}`;
+
+const createPresetId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// 불러오기
+export const getFilterPresets = (userId?: string): FilterPreset[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const data = localStorage.getItem(getStorageKey(userId));
+    return data ? (JSON.parse(data) as FilterPreset[]) : [];
+  } catch (error) {
+    console.error('로컬 스토리지에서 필터 프리셋을 불러오는 데 실패했습니다:', error);
+    return [];
+  }
+};
+
+const saveFilterPresets = (userId: string | undefined, presets: FilterPreset[]) => {
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(presets));
+  } catch (error) {
+    console.error('로컬 스토리지에 필터 프리셋을 저장하는 데 실패했습니다:', error);
+  }
+  return presets;
+};
+
+// 같은 이름이 있으면 필터를 덮어쓰고 맨 앞으로 이동 (FILTER_PRESET_LIMIT개까지만 유지)
+export const addFilterPreset = (
+  userId: string | undefined,
+  name: string,
+  filters: GatheringFilters,
+): FilterPreset[] => {
+  const trimmed = name.trim();
+  const presets = getFilterPresets(userId);
+  if (typeof window === 'undefined' || !trimmed) return presets;
+
+  const existing = presets.find((preset) => preset.name === trimmed);
+  const preset: FilterPreset = {
+    id: existing?.id ?? createPresetId(),
+    name: trimmed,
+    filters,
+    createdAt: Date.now(),
+  };
+  return saveFilterPresets(
+    userId,
+    [preset, ...presets.filter((item) => item.id !== preset.id)].slice(0, FILTER_PRESET_LIMIT),
+  );
+};
+
+export const removeFilterPreset = (userId: string | undefined, id: string): FilterPreset[] => {
+  if (typeof window === 'undefined') return [];
+  return saveFilterPresets(
+    userId,
+    getFilterPresets(userId).filter((preset) => preset.id !== id),
+  );
+};
@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import type { GatheringFilters } from '@/entities/gathering/model/types';
+import {
+  type FilterPreset,
+  addFilterPreset,
+  getFilterPresets,
+  removeFilterPreset,
+} from './filterPresetsStorage';
+
+export const useFilterPresets = () => {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후(또는 사용자가 바뀌면) 불러옴
+  useEffect(() => {
+    setPresets(getFilterPresets(userId));
+  }, [userId]);
+
+  const save = useCallback(
+    (name: string, filters: GatheringFilters) => setPresets(addFilterPreset(userId, name, filters)),
+    [userId],
+  );
+
+  const remove = useCallback((id: string) => setPresets(removeFilterPreset(userId, id)), [userId]);
+
+  return { presets, save, remove };
+};
@@ -0,0 +1,112 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import toast from 'react-hot-toast';
+import { addFilterPreset, getFilterPresets } from '../model/filterPresetsStorage';
+import { FilterPresetPicker } from './FilterPresetPicker';
+
+const mockPush = jest.fn();
+const mockUseSearchParams = jest.fn();
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => mockUseSearchParams(),
+}));
+
+jest.mock('@/i18n', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+jest.mock('next-auth/react', () => ({
+  useSession: () => ({ data: { user: { id: '7' } } }),
+}));
+
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: { success: jest.fn(), error: jest.fn() },
+}));
+
+describe('FilterPresetPicker', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockPush.mockClear();
+    mockUseSearchParams.mockReturnValue(
+      new URLSearchParams('type=MINDFULNESS&location=을지로3가&sortBy=registrationEnd'),
+    );
+  });
+
+  const openPicker = () => fireEvent.click(screen.getByRole('button', { name: /label/ }));
+
+  it('현재 URL의 필터를 이름을 붙여 로그인한 사용자의 프리셋으로 저장한다', () => {
+    render(<FilterPresetPicker />);
+    openPicker();
+
+    expect(screen.getByText('empty')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('nameLabel'), { target: { value: '을지로 명상' } });
+    fireEvent.click(screen.getByRole('button', { name: 'saveCurrent' }));
+
+    expect(getFilterPresets('7')).toEqual([
+      expect.objectContaining({
+        name: '을지로 명상',
+        filters: { type: 'MINDFULNESS', location: '을지로3가', sortBy: 'registrationEnd' },
+      }),
+    ]);
+    // 저장한 프리셋이 현재 필터와 같으므로 버튼 라벨이 프리셋 이름으로 바뀜
+    expect(screen.getByRole('button', { name: /을지로 명상/, expanded: true })).toBeInTheDocument();
+  });
+
+  it('프리셋을 선택하면 저장된 필터로 이동한다', () => {
+    addFilterPreset('7', '워케이션 빈 자리', { type: 'WORKATION', openOnly: true });
+    render(<FilterPresetPicker />);
+    openPicker();
+
+    fireEvent.click(screen.getByRole('button', { name: '워케이션 빈 자리' }));
+
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/gathering',
+      query: { type: 'WORKATION', openOnly: 'true' },
+    });
+  });
+
+  it('공유 링크를 클립보드에 복사한다', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    addFilterPreset('7', '신림', { location: '신림', sortBy: 'dateTime' });
+    render(<FilterPresetPicker />);
+    openPicker();
+
+    fireEvent.click(screen.getByRole('button', { name: 'copyLink' }));
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('linkCopied'));
+    expect(writeText).toHaveBeenCalledWith(
+      `${window.location.origin}${window.location.pathname}?location=%EC%8B%A0%EB%A6%BC&sortBy=dateTime`,
+    );
+  });
+
+  it('캘린더나 지도 보기에서 공유한 링크는 보던 화면을 유지한다', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    mockUseSearchParams.mockReturnValue(new URLSearchParams('view=map&type=MINDFULNESS'));
+    addFilterPreset('7', '신림', { location: '신림' });
+    render(<FilterPresetPicker />);
+    openPicker();
+
+    fireEvent.click(screen.getByRole('button', { name: 'copyLink' }));
+    await waitFor(() => expect(writeText).toHaveBeenCalled());
+    fireEvent.click(screen.getByRole('button', { name: '신림' }));
+
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/\?location=.*&view=map$/));
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/gathering',
+      query: { location: '신림', view: 'map' },
+    });
+  });
+
+  it('프리셋을 삭제한다', () => {
+    addFilterPreset('7', '신림', { location: '신림' });
+    render(<FilterPresetPicker />);
+    openPicker();
+
+    fireEvent.click(screen.getByRole('button', { name: 'remove' }));
+
+    expect(getFilterPresets('7')).toEqual([]);
+    expect(screen.getByText('empty')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,180 @@
+'use client';
+
+import { type FormEvent, useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
+import {
+  gatheringFiltersToSearchParams,
+  parseGatheringFiltersFromSearchParams,
+} from '@/entities/gathering/model/filters';
+import type { GatheringFilters } from '@/entities/gathering/model/types';
+import { useRouter } from '@/i18n';
+import { filterButtonVariants, filterOptionVariants } from '@/shared/ui/filter';
+import { ArrowDownIcon, ArrowUpIcon, WhiteArrowDownIcon, XIcon } from '@/shared/ui/icon';
+import toast from 'react-hot-toast';
+import { useFilterPresets } from '../model/useFilterPresets';
+
+const toQueryString = (filters: GatheringFilters) =>
+  gatheringFiltersToSearchParams(filters).toString();
+
+// 현재 URL의 필터 조합을 이름 붙여 저장하고, 다시 적용하거나 링크로 공유하는 드롭다운
+export const FilterPresetPicker = () => {
+  const t = useTranslations('filters.presets');
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { presets, save, remove } = useFilterPresets();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // 공유 링크와 같은 방식으로 파싱해 현재 필터와 일치하는 프리셋을 찾음
+  const currentFilters = parseGatheringFiltersFromSearchParams(
+    Object.fromEntries(searchParams.entries()),
+  );
+  const currentQuery = toQueryString(currentFilters);
+  // 프리셋을 적용하거나 공유해도 지금 보고 있는 화면(캘린더/지도)을 유지
+  const view = searchParams.get('view');
+  const activePreset = presets.find((preset) => toQueryString(preset.filters) === currentQuery);
+
+  // 바깥 클릭 시 드롭다운 닫기
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleApply = (filters: GatheringFilters) => {
+    router.push({
+      pathname: '/gathering',
+      query: Object.fromEntries(gatheringFiltersToSearchParams(filters, { view }).entries()),
+    });
+    setOpen(false);
+  };
+
+  const handleSave = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    save(name, currentFilters);
+    setName('');
+    toast.success(t('saved', { name: name.trim() }));
+  };
+
+  // 받은 사람이 열면 parseGatheringFiltersFromSearchParams로 같은 필터가 복원되는 링크
+  const handleCopyLink = async (filters: GatheringFilters) => {
+    const query = gatheringFiltersToSearchParams(filters, { view }).toString();
+    const url = `${window.location.origin}${window.location.pathname}?${query}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t('linkCopied'));
+    } catch {
+      toast.error(t('linkCopyFailed'));
+    }
+  };
+
+  const isSelected = !!activePreset;
+
+  return (
+    <div
+      ref={rootRef}
+      className="relative"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setOpen(false);
+      }}
+    >
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={open}
+        className={filterButtonVariants({
+          variant: isSelected ? 'selected' : 'all',
+          className: 'max-w-40',
+        })}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        <span className="truncate font-medium whitespace-nowrap">
+          {activePreset?.name ?? t('label')}
+        </span>
+        {open ? (
+          isSelected ? (
+            <WhiteArrowDownIcon className="rotate-180" />
+          ) : (
+            <ArrowUpIcon />
+          )
+        ) : isSelected ? (
+          <WhiteArrowDownIcon />
+        ) : (
+          <ArrowDownIcon />
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-[var(--z-dropdown)] mt-2 w-64 rounded-lg border border-gray-200 bg-white py-1">
+          {presets.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">{t('empty')}</p>
+          ) : (
+            <ul>
+              {presets.map((preset) => (
+                <li
+                  key={preset.id}
+                  className="flex items-center"
+                >
+                  <button
+                    type="button"
+                    aria-current={preset.id === activePreset?.id}
+                    className={filterOptionVariants({
+                      selected: preset.id === activePreset?.id,
+                      className: 'flex-1 truncate',
+                    })}
+                    onClick={() => handleApply(preset.filters)}
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleCopyLink(preset.filters)}
+                    className="cursor-pointer px-2 text-xs whitespace-nowrap text-gray-500"
+                  >
+                    {t('copyLink')}
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={t('remove', { name: preset.name })}
+                    onClick={() => remove(preset.id)}
+                    className="cursor-pointer px-2"
+                  >
+                    <XIcon size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form
+            onSubmit={handleSave}
+            className="flex gap-2 border-t border-gray-200 px-3 pt-2 pb-1"
+          >
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              aria-label={t('nameLabel')}
+              maxLength={30}
+              className="min-w-0 flex-1 rounded-md border border-gray-200 px-2 py-1 text-sm outline-none focus:border-orange-600"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="cursor-pointer rounded-md bg-orange-600 px-2 py-1 text-sm font-medium whitespace-nowrap text-white disabled:cursor-not-allowed disabled:bg-gray-400"
+            >
+              {t('saveCurrent')}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { FilterPresetPicker } from './FilterPresetPicker';
@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import dynamic from 'next/dynamic';
+import { useSearchParams } from 'next/navigation';
+import { usePathname, useRouter } from '@/i18n';
+import { formatDateTypeYYYYMMDD } from '@/shared/lib/date';
+import { Button } from '@/shared/ui/button';
+import type { DateRange } from '@/shared/ui/calendar';
+import { filterButtonVariants } from '@/shared/ui/filter/variants';
+import { ArrowDownIcon, ArrowUpIcon, WhiteArrowDownIcon } from '@/shared/ui/icon';
+
+const RangeCalendar = dynamic(
+  () =>
+    import('@/shared/ui/calendar/RangeCalendar').then((mod) => ({ default: mod.RangeCalendar })),
+  {
+    ssr: false,
+  },
+);
+
+const parseDateParam = (value: string | null) =>
+  value ? new Date(value + 'T00:00:00') : undefined;
+
+// 기간(dateFrom ~ dateTo)으로 모임을 거르는 필터
+// 하루만 선택하면 dateFrom과 dateTo가 같아져 API의 date 필터로 처리됨
+export const DateRangeFilter = () => {
+  const t = useTranslations('filters');
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const locale = useLocale();
+
+  const selectedFrom = parseDateParam(searchParams.get('dateFrom') ?? searchParams.get('date'));
+  const selectedTo = parseDateParam(searchParams.get('dateTo') ?? searchParams.get('date'));
+  const selectedRange: DateRange | undefined = selectedFrom
+    ? { from: selectedFrom, to: selectedTo }
+    : undefined;
+
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [tempRange, setTempRange] = useState<DateRange | undefined>(selectedRange);
+
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const popupRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      // 클릭된 지점이 버튼과 팝업 모두의 바깥일 때만 닫히도록 함
+      if (
+        buttonRef.current &&
+        !buttonRef.current.contains(event.target as Node) &&
+        popupRef.current &&
+        !popupRef.current.contains(event.target as Node)
+      ) {
+        setCalendarOpen(false);
+      }
+    };
+
+    if (calendarOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [calendarOpen]);
+
+  const pushParams = (params: URLSearchParams) => {
+    router.push({
+      pathname: pathname as '/reviews' | '/gathering' | '/favorites',
+      query: Object.fromEntries(params.entries()),
+    });
+  };
+
+  const handleApplyRange = () => {
+    if (tempRange?.from) {
+      const params = new URLSearchParams(searchParams);
+      params.delete('date');
+      params.set('dateFrom', formatDateTypeYYYYMMDD(tempRange.from));
+      // 끝 날짜를 고르지 않으면 시작 날짜 하루만 선택한 것으로 처리
+      params.set('dateTo', formatDateTypeYYYYMMDD(tempRange.to ?? tempRange.from));
+      pushParams(params);
+    }
+    setCalendarOpen(false);
+  };
+
+  const handleResetRange = () => {
+    setTempRange(undefined);
+    const params = new URLSearchParams(searchParams);
+    params.delete('date');
+    params.delete('dateFrom');
+    params.delete('dateTo');
+    pushParams(params);
+    setCalendarOpen(false);
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString(locale, { month: '2-digit', day: '2-digit' });
+
+  const isAllDates = !selectedFrom;
+  const dateLabel = isAllDates
+    ? t('date.all', { default: '전체 날짜' })
+    : selectedTo && selectedTo.getTime() !== selectedFrom.getTime()
+      ? `${formatDate(selectedFrom)} ~ ${formatDate(selectedTo)}`
+      : formatDate(selectedFrom);
+
+  const calendarFooter = (
+    <div className="mt-2 flex w-full gap-2">
+      <Button
+        variant="outline"
+        onClick={handleResetRange}
+        className="w-full"
+      >
+        {t('reset', { default: '초기화' })}
+      </Button>
+      <Button
+        variant="primary"
+        onClick={handleApplyRange}
+        className="w-full"
+      >
+        {t('apply', { default: '적용' })}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="relative inline-block">
+      <button
+        type="button"
+        className={filterButtonVariants({
+          variant: isAllDates ? 'all' : 'selected',
+          className: 'flex min-w-[80px] items-center justify-between gap-1 whitespace-nowrap',
+        })}
+        onClick={() => {
+          setCalendarOpen((prev) => !prev);
+          setTempRange(selectedRange);
+        }}
+        ref={buttonRef}
+      >
+        {dateLabel}
+        {calendarOpen ? (
+          isAllDates ? (
+            <ArrowUpIcon />
+          ) : (
+            <WhiteArrowDownIcon className="rotate-180" />
+          )
+        ) : isAllDates ? (
+          <ArrowDownIcon />
+        ) : (
+          <WhiteArrowDownIcon />
+        )}
+      </button>
+      {calendarOpen && (
+        <div ref={popupRef}>
+          <RangeCalendar
+            value={tempRange}
+            onChange={setTempRange}
+            footer={calendarFooter}
+            className="tablet:left-0 tablet:translate-x-0 absolute top-full left-1/2 z-50 mt-2 -translate-x-1/2 rounded-xl border border-gray-200 bg-white p-4 shadow-lg"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { OptionsFiltersGroup } from './OptionsFiltersGroup';
 
 // router 테스트 mock 처리
 const mockPush = jest.fn();
+const mockReplace = jest.fn();
 const mockPathName = jest.fn();
 const mockUseSearchParams = jest.fn();
 
@@ -12,7 +13,7 @@ jest.mock('next/navigation', () => ({
 }));
 //
 jest.mock('@/i18n', () => ({
-  useRouter: () => ({ push: mockPush }),
+  useRouter: () => ({ push: mockPush, replace: mockReplace }),
   usePathname: () => mockPathName(),
 }));
 
@@ -42,6 +43,7 @@ jest.mock('./DateFilter', () => ({
 describe('OptionsFiltersGroup 테스트', () => {
   beforeEach(() => {
     mockPush.mockClear();
+    mockReplace.mockClear();
     mockPathName.mockClear();
     mockUseSearchParams.mockReset();
   });
@@ -150,4 +152,40 @@ describe('OptionsFiltersGroup 테스트', () => {
       });
     });
   });
+
+  describe('검색창', () => {
+    it('searchScope를 전달하면 검색창을 표시하고 검색어를 필터와 함께 URL에 반영한다', async () => {
+      const user = userEvent.setup();
+      mockUseSearchParams.mockReturnValue(new URLSearchParams('location=신림&q=요가'));
+      mockPathName.mockReturnValue('/reviews');
+
+      render(
+        <OptionsFiltersGroup
+          {...defaultProps}
+          searchScope="reviews"
+        />,
+      );
+
+      const searchBox = screen.getByRole('searchbox');
+      expect(searchBox).toHaveValue('요가');
+
+      await user.clear(searchBox);
+
+      await waitFor(() =>
+        expect(mockReplace).toHaveBeenCalledWith(
+          { pathname: '/reviews', query: { location: '신림' } },
+          { scroll: false },
+        ),
+      );
+      expect(mockPush).not.toHaveBeenCalled();
+    });
+
+    it('searchScope가 없으면 검색창을 표시하지 않는다', () => {
+      mockUseSearchParams.mockReturnValue(new URLSearchParams());
+
+      render(<OptionsFiltersGroup {...defaultProps} />);
+
+      expect(screen.queryByRole('searchbox')).not.toBeInTheDocument();
+    });
+  });
 });
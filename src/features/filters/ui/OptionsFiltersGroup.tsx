@@ -3,6 +3,8 @@
 import React from 'react';
 import { useTranslations } from 'next-intl';
 import { useSearchParams } from 'next/navigation';
+import type { RecentSearchScope } from '@/features/search/model/recentSearchesStorage';
+import { SEARCH_QUERY_PARAM, SearchBox } from '@/features/search/ui';
 import { usePathname, useRouter } from '@/i18n';
 import { Filter } from '@/shared/ui/filter';
 import { Sort } from '@/shared/ui/sort';
@@ -11,9 +13,15 @@ import { DateFilter } from './DateFilter';
 interface OptionsFiltersGroupProps {
   sortValue: string[];
   defaultSort: string;
+  // 전달하면 필터 위에 검색창을 표시 (최근 검색어 구분용)
+  searchScope?: RecentSearchScope;
 }
 
-export const OptionsFiltersGroup = ({ sortValue, defaultSort }: OptionsFiltersGroupProps) => {
+export const OptionsFiltersGroup = ({
+  sortValue,
+  defaultSort,
+  searchScope,
+}: OptionsFiltersGroupProps) => {
   const searchParams = useSearchParams();
   const router = useRouter();
   const pathname = usePathname();
@@ -44,23 +52,29 @@ export const OptionsFiltersGroup = ({ sortValue, defaultSort }: OptionsFiltersGr
     .filter((opt) => sortValue.includes(opt.value))
     .sort((a, b) => sortValue.indexOf(a.value) - sortValue.indexOf(b.value));
 
-  const updateFilter = (filterType: string, value: string) => {
+  // 필터와 검색어를 URL에 반영하는 단일 경로 (검색어는 입력할 때마다 방문 기록이 쌓이지 않도록 replace)
+  const updateFilter = (filterType: string, value: string, { replace = false } = {}) => {
     const params = new URLSearchParams(searchParams);
 
-    // 지역 전체일 때는 location 파라미터 제거
-    if (filterType === 'location' && value === '전체보기') {
-      params.delete('location');
+    // 지역 전체이거나 검색어가 비어 있으면 파라미터 제거
+    if ((filterType === 'location' && value === '전체보기') || value === '') {
+      params.delete(filterType);
     } else {
       params.set(filterType, value);
     }
 
-    router.push({
+    const href = {
       pathname: pathname as '/reviews' | '/gathering' | '/favorites',
       query: Object.fromEntries(params.entries()),
-    });
+    };
+    if (replace) {
+      router.replace(href, { scroll: false });
+    } else {
+      router.push(href);
+    }
   };
 
-  return (
+  const filters = (
     <div className="flex w-full items-center justify-between">
       <div className="flex items-center gap-2">
         <Filter
@@ -78,4 +92,17 @@ export const OptionsFiltersGroup = ({ sortValue, defaultSort }: OptionsFiltersGr
       />
     </div>
   );
+
+  if (!searchScope) return filters;
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <SearchBox
+        scope={searchScope}
+        query={searchParams.get(SEARCH_QUERY_PARAM) ?? ''}
+        onQueryChange={(keyword) => updateFilter(SEARCH_QUERY_PARAM, keyword, { replace: true })}
+      />
+      {filters}
+    </div>
+  );
 };
@@ -1,3 +1,4 @@
 export { OptionsFiltersGroup } from './OptionsFiltersGroup';
 export { TypeFilterGroup } from './TypeFilterGroup';
 export { DateFilter } from './DateFilter';
+export { DateRangeFilter } from './DateRangeFilter';
@@ -0,0 +1,66 @@
+import {
+  fromGatheringDraft,
+  isGatheringDraftEmpty,
+  isGatheringDraftExpired,
+  toGatheringDraftValues,
+} from './gatheringDraft';
+
+const NOW = new Date('2025-03-01T09:00:00.000Z');
+
+describe('gatheringDraft', () => {
+  it('입력한 필드만 저장하고 날짜는 ISO 문자열로 변환한다', () => {
+    const values = toGatheringDraftValues({
+      name: '',
+      location: '신림',
+      dateTime: new Date('2025-03-10T10:00:00.000Z'),
+      capacity: '' as unknown as number,
+    });
+
+    expect(values).toEqual({ location: '신림', dateTime: '2025-03-10T10:00:00.000Z' });
+  });
+
+  it('number input의 문자열 정원은 숫자로 저장한다', () => {
+    expect(toGatheringDraftValues({ capacity: '12' as unknown as number })).toEqual({
+      capacity: 12,
+    });
+  });
+
+  it('개설 확정 인원은 기본값에서 바꾼 경우에만 저장한다', () => {
+    expect(toGatheringDraftValues({ minParticipants: 5 })).toEqual({});
+    expect(toGatheringDraftValues({ minParticipants: '3' as unknown as number })).toEqual({
+      minParticipants: 3,
+    });
+  });
+
+  it('저장본을 폼 값으로 되돌린다', () => {
+    const image = new File(['image'], 'cover.webp', { type: 'image/webp' });
+
+    expect(
+      fromGatheringDraft({
+        values: { name: '주간 스트레칭', registrationEnd: '2025-03-09T10:00:00.000Z' },
+        image,
+      }),
+    ).toEqual({
+      name: '주간 스트레칭',
+      dateTime: undefined,
+      registrationEnd: new Date('2025-03-09T10:00:00.000Z'),
+      image,
+    });
+  });
+
+  it('입력한 내용도 이미지도 없으면 빈 저장본이다', () => {
+    expect(isGatheringDraftEmpty({})).toBe(true);
+    expect(isGatheringDraftEmpty({}, new File(['image'], 'cover.webp'))).toBe(false);
+  });
+
+  it('모임 날짜가 지난 저장본만 만료된다', () => {
+    expect(isGatheringDraftExpired({ values: { dateTime: '2025-02-28T10:00:00.000Z' } }, NOW)).toBe(
+      true,
+    );
+    expect(isGatheringDraftExpired({ values: { dateTime: '2025-03-02T10:00:00.000Z' } }, NOW)).toBe(
+      false,
+    );
+    // 날짜를 아직 정하지 않은 저장본은 만료되지 않음
+    expect(isGatheringDraftExpired({ values: { name: '주간 스트레칭' } }, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  type CreateGatheringPayload,
+  isPastGatheringDateTime,
+} from '@/entities/gathering/model/schema';
+import { DEFAULT_MIN_PARTICIPANTS } from '@/shared/lib/gathering/confirmation';
+
+// 모임 만들기 폼 임시 저장본
+// 이미지는 리사이즈가 끝난 파일을 그대로 보관해 이어서 작성할 때 다시 처리하지 않음
+export interface GatheringDraft {
+  id: string;
+  userId: string;
+  title: string; // 사용자가 붙인 이름 (비어 있으면 모임 이름으로 표시)
+  values: GatheringDraftValues;
+  image?: File;
+  updatedAt: number;
+}
+
+// 날짜는 ISO 문자열로 저장
+export interface GatheringDraftValues {
+  name?: string;
+  location?: CreateGatheringPayload['location'];
+  type?: CreateGatheringPayload['type'];
+  dateTime?: string;
+  registrationEnd?: string;
+  capacity?: number;
+  minParticipants?: number;
+}
+
+const toIsoString = (date: Date | undefined) =>
+  date instanceof Date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+
+// number input은 비어 있으면 ''를 넘기므로 숫자일 때만 저장
+const toNumberValue = (value: unknown) =>
+  value === '' || value === undefined || value === null || Number.isNaN(Number(value))
+    ? undefined
+    : Number(value);
+
+// 개설 확정 인원은 폼 기본값으로 채워져 있으므로 바꾼 경우에만 저장
+const toMinParticipants = (value: unknown) => {
+  const minParticipants = toNumberValue(value);
+  return minParticipants === DEFAULT_MIN_PARTICIPANTS ? undefined : minParticipants;
+};
+
+// 폼 값을 저장할 형태로 변환 (입력하지 않은 필드는 제외)
+export const toGatheringDraftValues = (
+  values: Partial<CreateGatheringPayload>,
+): GatheringDraftValues => {
+  const draftValues: GatheringDraftValues = {
+    name: values.name || undefined,
+    location: values.location,
+    type: values.type,
+    dateTime: toIsoString(values.dateTime),
+    registrationEnd: toIsoString(values.registrationEnd),
+    capacity: toNumberValue(values.capacity),
+    minParticipants: toMinParticipants(values.minParticipants),
+  };
+  return Object.fromEntries(
+    Object.entries(draftValues).filter(([, value]) => value !== undefined),
+  ) as GatheringDraftValues;
+};
+
+// 저장본을 폼 초기값으로 변환
+export const fromGatheringDraft = ({
+  values,
+  image,
+}: Pick<GatheringDraft, 'values' | 'image'>): Partial<CreateGatheringPayload> => ({
+  ...values,
+  dateTime: values.dateTime ? new Date(values.dateTime) : undefined,
+  registrationEnd: values.registrationEnd ? new Date(values.registrationEnd) : undefined,
+  image,
+});
+
+// 입력한 내용이 없으면 저장하지 않음
+export const isGatheringDraftEmpty = (values: GatheringDraftValues, image?: File) =>
+  !image && Object.keys(values).length === 0;
+
+// 모임 날짜가 지난 저장본은 그대로 제출할 수 없으므로 만료
+export const isGatheringDraftExpired = (draft: Pick<GatheringDraft, 'values'>, now = new Date()) =>
+  !!draft.values.dateTime && isPastGatheringDateTime(new Date(draft.values.dateTime), now);
@@ -0,0 +1,61 @@
+import { isIndexedDbAvailable, openIndexedDb, promisifyRequest } from '@/shared/lib/indexedDb';
+import { type GatheringDraft, isGatheringDraftExpired } from './gatheringDraft';
+
+// 모임 만들기 임시 저장본을 IndexedDB에 저장 (리사이즈한 이미지 Blob까지 보관하기 위해 localStorage 대신 사용)
+const DB_NAME = 'gathering-drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+const USER_INDEX = 'userId';
+
+const openDraftDb = () =>
+  openIndexedDb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex(USER_INDEX, 'userId');
+    }
+  });
+
+const getDraftStore = async (mode: IDBTransactionMode) =>
+  (await openDraftDb()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+export const createGatheringDraftId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// 사용자의 임시 저장본 목록 (최근 저장순)
+// 모임 날짜가 지난 저장본은 목록에서 빼고 삭제
+export const getGatheringDrafts = async (userId: string): Promise<GatheringDraft[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const store = await getDraftStore('readonly');
+    const drafts = await promisifyRequest<GatheringDraft[]>(store.index(USER_INDEX).getAll(userId));
+
+    const expired = drafts.filter((draft) => isGatheringDraftExpired(draft));
+    await Promise.all(expired.map((draft) => deleteGatheringDraft(draft.id)));
+
+    return drafts
+      .filter((draft) => !expired.includes(draft))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('임시 저장한 모임을 불러오는 데 실패했습니다:', error);
+    return [];
+  }
+};
+
+// 임시 저장 (같은 id면 덮어씀)
+export const saveGatheringDraft = async (draft: GatheringDraft): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await promisifyRequest((await getDraftStore('readwrite')).put(draft));
+  } catch (error) {
+    console.error('모임을 임시 저장하는 데 실패했습니다:', error);
+  }
+};
+
+export const deleteGatheringDraft = async (id: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await promisifyRequest((await getDraftStore('readwrite')).delete(id));
+  } catch (error) {
+    console.error('임시 저장한 모임을 삭제하는 데 실패했습니다:', error);
+  }
+};
@@ -0,0 +1,26 @@
+import { addGatheringSeries, getGatheringSeriesPosition } from './gatheringSeriesStorage';
+
+describe('gatheringSeriesStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('함께 만든 모임을 시리즈로 묶고 회차 순번을 조회한다', () => {
+    const series = addGatheringSeries('weekly', [11, 12, 13]);
+
+    expect(getGatheringSeriesPosition(12)).toEqual({ series, index: 1 });
+    expect(getGatheringSeriesPosition(99)).toBeNull();
+  });
+
+  it('한 회차만 만들었으면 시리즈로 저장하지 않는다', () => {
+    expect(addGatheringSeries('monthly', [11])).toBeNull();
+    expect(getGatheringSeriesPosition(11)).toBeNull();
+  });
+
+  it('저장된 값이 손상되었으면 시리즈가 없는 것으로 본다', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('gathering-series', '{broken');
+
+    expect(getGatheringSeriesPosition(11)).toBeNull();
+  });
+});
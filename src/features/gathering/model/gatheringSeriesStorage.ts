@@ -0,0 +1,69 @@
+import type { RecurrenceFrequency } from '@/entities/gathering/model/recurrence';
+
+// 반복 모임으로 함께 만든 모임 묶음을 localStorage에 저장
+// 원격 API에는 시리즈 개념이 없어 이 경우에만 사용하며, 만든 사람의 같은 브라우저에서만 배지가 보임
+// (인메모리 백엔드는 서버에 저장: isGatheringSeriesSupported)
+export interface GatheringSeries {
+  id: string;
+  frequency: RecurrenceFrequency;
+  gatheringIds: number[]; // 회차 순서
+  createdAt: number;
+}
+
+export interface GatheringSeriesPosition {
+  series: GatheringSeries;
+  index: number; // 0부터 시작하는 회차 순번
+}
+
+// 시리즈 id -> 시리즈
+type GatheringSeriesStore = Record<string, GatheringSeries>;
+
+const GATHERING_SERIES_KEY = 'gathering-series';
+
+const getGatheringSeriesStore = (): GatheringSeriesStore => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const data = localStorage.getItem(GATHERING_SERIES_KEY);
+    return data ? (JSON.parse(data) as GatheringSeriesStore) : {};
+  } catch (error) {
+    console.error('로컬 스토리지에서 반복 모임을 불러오는 데 실패했습니다:', error);
+    return {};
+  }
+};
+
+const saveGatheringSeriesStore = (store: GatheringSeriesStore) => {
+  try {
+    localStorage.setItem(GATHERING_SERIES_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('로컬 스토리지에 반복 모임을 저장하는 데 실패했습니다:', error);
+  }
+};
+
+// 시리즈 저장 (2회차 이상일 때만 묶음으로 저장)
+export const addGatheringSeries = (
+  frequency: RecurrenceFrequency,
+  gatheringIds: number[],
+): GatheringSeries | null => {
+  if (typeof window === 'undefined' || gatheringIds.length < 2) return null;
+
+  const store = getGatheringSeriesStore();
+  const createdAt = Date.now();
+  const series: GatheringSeries = {
+    id: `${createdAt}-${gatheringIds[0]}`,
+    frequency,
+    gatheringIds,
+    createdAt,
+  };
+  store[series.id] = series;
+  saveGatheringSeriesStore(store);
+  return series;
+};
+
+// 모임이 속한 시리즈와 회차 순번 (시리즈에 속하지 않으면 null)
+export const getGatheringSeriesPosition = (gatheringId: number): GatheringSeriesPosition | null => {
+  for (const series of Object.values(getGatheringSeriesStore())) {
+    const index = series.gatheringIds.indexOf(gatheringId);
+    if (index !== -1) return { series, index };
+  }
+  return null;
+};
@@ -0,0 +1,43 @@
+import type {
+  GatheringRecurrence,
+  RecurrenceFrequency,
+} from '@/entities/gathering/model/recurrence';
+
+// 모임 만들기 폼의 반복 설정 입력값
+export interface RecurrenceFormValues {
+  enabled: boolean;
+  frequency: RecurrenceFrequency;
+  endType: 'count' | 'until';
+  count: number;
+  until: string; // YYYY-MM-DD (date input 값)
+  skipHolidays: boolean;
+}
+
+export const DEFAULT_RECURRENCE_FORM_VALUES: RecurrenceFormValues = {
+  enabled: false,
+  frequency: 'weekly',
+  endType: 'count',
+  count: 4,
+  until: '',
+  skipHolidays: true,
+};
+
+// YYYY-MM-DD를 로컬 날짜로 변환 (new Date('YYYY-MM-DD')는 UTC 기준이라 사용하지 않음)
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : null;
+};
+
+// 입력값을 반복 규칙으로 변환 (종료일이 비어 있으면 null)
+export const toGatheringRecurrence = ({
+  frequency,
+  endType,
+  count,
+  until,
+  skipHolidays,
+}: RecurrenceFormValues): GatheringRecurrence | null => {
+  if (endType === 'count') return { frequency, end: { type: 'count', count }, skipHolidays };
+
+  const untilDate = parseDateInput(until);
+  return untilDate ? { frequency, end: { type: 'until', until: untilDate }, skipHolidays } : null;
+};
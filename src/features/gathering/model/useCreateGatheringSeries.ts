@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import {
+  createGathering,
+  createGatheringSeries,
+  isGatheringSeriesSupported,
+} from '@/entities/gathering/api';
+import type {
+  GatheringOccurrence,
+  RecurrenceFrequency,
+} from '@/entities/gathering/model/recurrence';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { QUERY_KEYS } from '@/shared/api';
+import { useQueryClient } from '@tanstack/react-query';
+import { addGatheringSeries } from './gatheringSeriesStorage';
+
+export type SeriesItemStatus = 'waiting' | 'creating' | 'success' | 'error';
+
+export interface SeriesItem {
+  occurrence: GatheringOccurrence;
+  status: SeriesItemStatus;
+  gatheringId?: number;
+  error?: unknown;
+}
+
+// 반복 모임의 회차를 순서대로 하나씩 생성
+// 일부 회차가 실패해도 나머지는 계속 만들고, 실패한 회차만 다시 시도할 수 있음
+export const useCreateGatheringSeries = () => {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<SeriesItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // 비동기로 회차를 만드는 동안 최신 상태를 읽기 위한 ref
+  const itemsRef = useRef<SeriesItem[]>([]);
+  const requestRef = useRef<{
+    values: CreateGatheringPayload;
+    frequency: RecurrenceFrequency;
+  } | null>(null);
+
+  const updateItem = useCallback((index: number, item: Partial<SeriesItem>) => {
+    itemsRef.current = itemsRef.current.map((current, i) =>
+      i === index ? { ...current, ...item } : current,
+    );
+    setItems(itemsRef.current);
+  }, []);
+
+  const createItems = useCallback(
+    async (indexes: number[]) => {
+      const request = requestRef.current;
+      if (!request) return itemsRef.current;
+
+      setIsRunning(true);
+      for (const index of indexes) {
+        const { occurrence } = itemsRef.current[index];
+        updateItem(index, { status: 'creating', error: undefined });
+        try {
+          const gathering = await createGathering({
+            ...request.values,
+            dateTime: occurrence.dateTime,
+            registrationEnd: occurrence.registrationEnd,
+          });
+          updateItem(index, { status: 'success', gatheringId: gathering.id });
+        } catch (error) {
+          updateItem(index, { status: 'error', error });
+        }
+      }
+      setIsRunning(false);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.base });
+      return itemsRef.current;
+    },
+    [queryClient, updateItem],
+  );
+
+  // 건너뛴 회차를 제외한 회차를 만들기 시작 (끝나면 회차별 결과를 반환)
+  const start = useCallback(
+    (
+      values: CreateGatheringPayload,
+      occurrences: GatheringOccurrence[],
+      frequency: RecurrenceFrequency,
+    ) => {
+      requestRef.current = { values, frequency };
+      itemsRef.current = occurrences
+        .filter((occurrence) => !occurrence.skipped)
+        .map((occurrence) => ({ occurrence, status: 'waiting' }));
+      setItems(itemsRef.current);
+      return createItems(itemsRef.current.map((_, index) => index));
+    },
+    [createItems],
+  );
+
+  const retryFailed = useCallback(
+    () =>
+      createItems(
+        itemsRef.current.flatMap((item, index) => (item.status === 'error' ? [index] : [])),
+      ),
+    [createItems],
+  );
+
+  // 만들어진 회차끼리 시리즈로 묶어 저장 (완료 후 한 번 호출)
+  // 인메모리 백엔드는 서버에 저장해 다른 사용자와 기기에서도 보이고, 원격 백엔드는 이 브라우저에만 저장
+  const saveSeries = useCallback(async () => {
+    const request = requestRef.current;
+    if (!request) return;
+    const gatheringIds = itemsRef.current.flatMap((item) =>
+      item.gatheringId === undefined ? [] : [item.gatheringId],
+    );
+    requestRef.current = null;
+    if (gatheringIds.length < 2) return;
+
+    if (!isGatheringSeriesSupported()) {
+      addGatheringSeries(request.frequency, gatheringIds);
+      return;
+    }
+    await createGatheringSeries({ frequency: request.frequency, gatheringIds });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.base });
+  }, [queryClient]);
+
+  return { items, isRunning, start, retryFailed, saveSeries };
+};
@@ -0,0 +1,137 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import type { UseFormGetValues, UseFormWatch } from 'react-hook-form';
+import {
+  type GatheringDraft,
+  isGatheringDraftEmpty,
+  toGatheringDraftValues,
+} from './gatheringDraft';
+import {
+  createGatheringDraftId,
+  deleteGatheringDraft,
+  getGatheringDrafts,
+  saveGatheringDraft,
+} from './gatheringDraftStorage';
+
+// 마지막 입력 후 이 시간이 지나면 임시 저장
+export const DRAFT_AUTOSAVE_DELAY = 800;
+
+// 사용자의 임시 저장본 목록 (userId가 없으면 불러오지 않음)
+export const useGatheringDrafts = (userId: string | undefined) => {
+  const [drafts, setDrafts] = useState<GatheringDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(!!userId);
+
+  useEffect(() => {
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let ignore = false;
+    setIsLoading(true);
+    getGatheringDrafts(userId).then((result) => {
+      if (ignore) return;
+      setDrafts(result);
+      setIsLoading(false);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [userId]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteGatheringDraft(id);
+    setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+  }, []);
+
+  return { drafts, isLoading, remove };
+};
+
+interface UseGatheringDraftAutosaveOptions {
+  userId?: string; // 없으면 저장하지 않음
+  draft?: GatheringDraft; // 이어서 작성하는 저장본 (없으면 새 저장본으로 저장)
+  watch: UseFormWatch<CreateGatheringPayload>;
+  getValues: UseFormGetValues<CreateGatheringPayload>;
+}
+
+// 폼 입력을 멈추면 임시 저장하고, 폼이 닫히거나 페이지를 벗어날 때 남은 입력을 바로 저장
+export const useGatheringDraftAutosave = ({
+  userId,
+  draft,
+  watch,
+  getValues,
+}: UseGatheringDraftAutosaveOptions) => {
+  const [draftId] = useState(() => draft?.id ?? createGatheringDraftId());
+  const [title, setTitle] = useState(draft?.title ?? '');
+  const [savedAt, setSavedAt] = useState<number | null>(draft?.updatedAt ?? null);
+
+  const titleRef = useRef(title);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isDirtyRef = useRef(false);
+  // 폼을 닫거나 모임을 만든 뒤에는 더 이상 저장하지 않음
+  const isStoppedRef = useRef(false);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    if (!userId || !isDirtyRef.current || isStoppedRef.current) return;
+    isDirtyRef.current = false;
+
+    const { image, ...values } = getValues();
+    const draftValues = toGatheringDraftValues(values);
+    if (isGatheringDraftEmpty(draftValues, image) && !titleRef.current) return;
+
+    const updatedAt = Date.now();
+    saveGatheringDraft({
+      id: draftId,
+      userId,
+      title: titleRef.current.trim(),
+      values: draftValues,
+      image,
+      updatedAt,
+    }).then(() => setSavedAt(updatedAt));
+  }, [draftId, getValues, userId]);
+
+  const schedule = useCallback(() => {
+    if (!userId) return;
+    isDirtyRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, DRAFT_AUTOSAVE_DELAY);
+  }, [flush, userId]);
+
+  useEffect(() => {
+    const subscription = watch(() => schedule());
+    window.addEventListener('pagehide', flush);
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush, schedule, watch]);
+
+  const changeTitle = useCallback(
+    (value: string) => {
+      titleRef.current = value;
+      setTitle(value);
+      schedule();
+    },
+    [schedule],
+  );
+
+  // 남은 입력을 저장하고 자동 저장을 멈춤 (폼을 닫기 전에 호출)
+  const saveAndStop = useCallback(() => {
+    flush();
+    isStoppedRef.current = true;
+  }, [flush]);
+
+  // 모임을 만든 뒤 저장본 삭제
+  const discard = useCallback(() => {
+    isStoppedRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (userId) deleteGatheringDraft(draftId);
+  }, [draftId, userId]);
+
+  return { title, changeTitle, savedAt, saveAndStop, discard };
+};
@@ -0,0 +1,54 @@
+import type { Gathering } from '@/entities/gathering/model/types';
+import { downloadIcsFile } from '@/shared/lib/ics';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { AddToCalendarButton } from './AddToCalendarButton';
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'en',
+  useTranslations: () => (key: string, values?: Record<string, string>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+jest.mock('@/shared/lib/ics', () => ({
+  ...jest.requireActual('@/shared/lib/ics'),
+  downloadIcsFile: jest.fn(),
+}));
+
+const createGathering = (overrides: Partial<Gathering>): Gathering => ({
+  teamId: 1,
+  id: 1,
+  type: 'OFFICE_STRETCHING',
+  name: '모임',
+  dateTime: '2025-03-10T10:00:00.000Z',
+  registrationEnd: '2025-03-09T10:00:00.000Z',
+  location: '건대입구',
+  participantCount: 3,
+  capacity: 10,
+  image: '/image.png',
+  createdBy: 1,
+  canceledAt: null,
+  ...overrides,
+});
+
+describe('AddToCalendarButton', () => {
+  it('클릭하면 모임 일정을 .ics 파일로 내려받는다', () => {
+    const gathering = createGathering({
+      id: 7,
+      name: '저녁 러닝',
+      location: '홍대입구',
+      dateTime: '2030-05-01T10:00:00.000Z',
+      registrationEnd: '2030-04-30T10:00:00.000Z',
+    });
+
+    render(<AddToCalendarButton gathering={gathering} />);
+    fireEvent.click(screen.getByRole('button', { name: 'addToCalendar' }));
+
+    expect(downloadIcsFile).toHaveBeenCalledWith(expect.any(String), 'gathering-7');
+    const [content] = (downloadIcsFile as jest.Mock).mock.calls[0];
+    expect(content).toContain('SUMMARY:저녁 러닝');
+    expect(content).toContain('LOCATION:홍대입구');
+    expect(content).toContain(`URL:${window.location.origin}/en/gathering/7`);
+    expect(content).toContain('TRIGGER;VALUE=DATE-TIME:20300430T100000Z');
+    expect(content).toContain('DESCRIPTION:alarm:저녁 러닝');
+  });
+});
@@ -0,0 +1,36 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { gatheringToIcsEvent } from '@/entities/gathering/model/calendarEvent';
+import type { Gathering } from '@/entities/gathering/model/types';
+import { createIcsCalendar, downloadIcsFile } from '@/shared/lib/ics';
+import { Button } from '@/shared/ui/button/Button';
+
+interface AddToCalendarButtonProps {
+  gathering: Gathering;
+}
+
+// 모임 일정을 .ics 파일로 내려받아 업무용 캘린더(구글, 아웃룩 등)에 추가
+export const AddToCalendarButton = ({ gathering }: AddToCalendarButtonProps) => {
+  const t = useTranslations('pages.gathering.calendarExport');
+  const locale = useLocale();
+
+  const handleClick = () => {
+    const event = gatheringToIcsEvent(gathering, {
+      origin: window.location.origin,
+      locale,
+      alarmDescription: t('alarm', { name: gathering.name }),
+    });
+    downloadIcsFile(createIcsCalendar([event]), `gathering-${gathering.id}`);
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className="h-10 text-sm font-semibold"
+      onClick={handleClick}
+    >
+      {t('addToCalendar')}
+    </Button>
+  );
+};
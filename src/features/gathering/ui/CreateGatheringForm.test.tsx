@@ -1,8 +1,17 @@
-import { useCreateGathering } from '@/entities/gathering/api';
+import {
+  createGathering,
+  createGatheringSeries,
+  useCreateGathering,
+  useUpdateGathering,
+} from '@/entities/gathering/api';
+import type { Gathering } from '@/entities/gathering/model/types';
 import { trackFormValidationError } from '@/shared/lib/sentry/tracking';
 import { TestWrapper } from '@/shared/lib/test/testUtils';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import toast from 'react-hot-toast';
+import type { GatheringDraft } from '../model/gatheringDraft';
+import { deleteGatheringDraft, saveGatheringDraft } from '../model/gatheringDraftStorage';
 import { CreateGatheringForm } from './CreateGatheringForm';
 
 // Mock next-intl
@@ -23,7 +32,25 @@ jest.mock('next-intl', () => ({
 
 // Mock API
 jest.mock('@/entities/gathering/api', () => ({
+  createGathering: jest.fn(),
   useCreateGathering: jest.fn(),
+  useUpdateGathering: jest.fn(),
+  isMinParticipantsSupported: () => true,
+  isGatheringSeriesSupported: () => mockIsGatheringSeriesSupported(),
+  createGatheringSeries: jest.fn(),
+}));
+
+const mockIsGatheringSeriesSupported = jest.fn(() => false);
+
+jest.mock('../model/gatheringDraftStorage', () => ({
+  createGatheringDraftId: () => 'new-draft',
+  saveGatheringDraft: jest.fn(() => Promise.resolve()),
+  deleteGatheringDraft: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: { success: jest.fn(), error: jest.fn() },
 }));
 
 // Mock form fields
@@ -41,9 +68,12 @@ jest.mock('@/entities/gathering/ui/fields', () => ({
       {error && <span data-testid="name-error">{error.message}</span>}
     </div>
   ),
-  GatheringLocationField: ({ error }: { error?: FieldErrorLike }) => (
+  GatheringLocationField: ({ error, disabled }: { error?: FieldErrorLike; disabled?: boolean }) => (
     <div data-testid="location-field">
-      <select data-testid="location-select">
+      <select
+        data-testid="location-select"
+        disabled={disabled}
+      >
         <option value="SEOUL">서울</option>
       </select>
       {error && <span data-testid="location-error">{error.message}</span>}
@@ -100,6 +130,25 @@ jest.mock('@/entities/gathering/ui/fields', () => ({
       {error && <span data-testid="capacity-error">{error.message}</span>}
     </div>
   ),
+  GatheringMinParticipantsField: ({
+    register,
+    error,
+    disabled,
+  }: {
+    register: RegisterFn;
+    error?: FieldErrorLike;
+    disabled?: boolean;
+  }) => (
+    <div data-testid="min-participants-field">
+      <input
+        type="number"
+        {...register('minParticipants')}
+        data-testid="min-participants-input"
+        disabled={disabled}
+      />
+      {error && <span data-testid="min-participants-error">{error.message}</span>}
+    </div>
+  ),
 }));
 
 // Mock sentry tracking
@@ -112,10 +161,15 @@ describe('CreateGatheringForm', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockIsGatheringSeriesSupported.mockReturnValue(false);
     (useCreateGathering as unknown as jest.Mock).mockReturnValue({
       isPending: false,
       mutate: jest.fn(),
     });
+    (useUpdateGathering as unknown as jest.Mock).mockReturnValue({
+      isPending: false,
+      mutate: jest.fn(),
+    });
   });
 
   it('폼이 올바르게 렌더링되어야 한다', () => {
@@ -134,6 +188,19 @@ describe('CreateGatheringForm', () => {
     expect(screen.getByTestId('capacity-field')).toBeInTheDocument();
   });
 
+  it('defaultValues가 있으면 폼에 미리 채워져야 한다', () => {
+    render(
+      <TestWrapper>
+        <CreateGatheringForm
+          onClose={mockOnClose}
+          defaultValues={{ name: '복제한 모임', capacity: 12 }}
+        />
+      </TestWrapper>,
+    );
+
+    expect(screen.getByTestId('name-input')).toHaveValue('복제한 모임');
+  });
+
   it('취소 버튼을 클릭하면 onClose가 호출되어야 한다', async () => {
     const user = userEvent.setup();
     render(
@@ -279,4 +346,353 @@ describe('CreateGatheringForm', () => {
 
     expect(mockOnClose).toHaveBeenCalledTimes(1);
   });
+
+  describe('개설 확정 인원', () => {
+    const DAY = 1000 * 60 * 60 * 24;
+    const defaultValues = {
+      name: '소규모 명상',
+      location: '신림' as const,
+      type: 'MINDFULNESS' as const,
+      dateTime: new Date(Date.now() + DAY * 7),
+      registrationEnd: new Date(Date.now() + DAY * 6),
+      capacity: 3,
+    };
+
+    const renderForm = () => {
+      const mockMutate = jest.fn();
+      (useCreateGathering as unknown as jest.Mock).mockReturnValue({
+        isPending: false,
+        mutate: mockMutate,
+      });
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            defaultValues={defaultValues}
+          />
+        </TestWrapper>,
+      );
+      return mockMutate;
+    };
+
+    it('주최자가 정한 인원으로 모임을 만든다', async () => {
+      const user = userEvent.setup();
+      const mockMutate = renderForm();
+
+      const minInput = screen.getByTestId('min-participants-input');
+      expect(minInput).toHaveValue(5);
+      await user.clear(minInput);
+      await user.type(minInput, '3');
+      await user.click(screen.getByText('submit'));
+
+      await waitFor(() =>
+        expect(mockMutate).toHaveBeenCalledWith(
+          expect.objectContaining({ capacity: 3, minParticipants: 3 }),
+          expect.anything(),
+        ),
+      );
+    });
+
+    it('정원이 개설 확정 인원보다 적으면 제출하지 않는다', async () => {
+      const user = userEvent.setup();
+      const mockMutate = renderForm();
+
+      await user.click(screen.getByText('submit'));
+
+      expect(await screen.findByTestId('capacity-error')).toHaveTextContent(
+        'form.errors.capacityMin',
+      );
+      expect(mockMutate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('edit 모드', () => {
+    const gathering: Gathering = {
+      teamId: 1,
+      id: 9,
+      type: 'OFFICE_STRETCHING',
+      name: '야근 전 허리 펴기',
+      dateTime: new Date(Date.now() + 7 * 86400 * 1000).toISOString(),
+      registrationEnd: new Date(Date.now() + 6 * 86400 * 1000).toISOString(),
+      location: '홍대입구',
+      participantCount: 1,
+      capacity: 8,
+      image: '/gathering-default-image.png',
+      createdBy: 1,
+      canceledAt: null,
+    };
+
+    const renderEditForm = (overrides: Partial<Gathering> = {}) =>
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            gathering={{ ...gathering, ...overrides }}
+          />
+        </TestWrapper>,
+      );
+
+    it('모임 정보로 폼을 채우고 바뀐 항목을 확인한 뒤 저장한다', async () => {
+      const mockUpdate = jest.fn((_, { onSuccess }) => onSuccess());
+      (useUpdateGathering as unknown as jest.Mock).mockReturnValue({
+        isPending: false,
+        mutate: mockUpdate,
+      });
+      const user = userEvent.setup();
+      renderEditForm();
+
+      const nameInput = screen.getByTestId('name-input');
+      expect(nameInput).toHaveValue('야근 전 허리 펴기');
+
+      await user.clear(nameInput);
+      await user.type(nameInput, '퇴근 전 허리 펴기');
+      await user.click(screen.getByText('edit.submit'));
+
+      // 저장 전에 이전 값과 새 값을 보여줌
+      expect(await screen.findByText('야근 전 허리 펴기')).toBeInTheDocument();
+      expect(screen.getByText('퇴근 전 허리 펴기')).toBeInTheDocument();
+      expect(mockUpdate).not.toHaveBeenCalled();
+
+      await user.click(screen.getByText('edit.confirm'));
+
+      expect(mockUpdate).toHaveBeenCalledWith(
+        { id: 9, changes: { name: '퇴근 전 허리 펴기' } },
+        expect.any(Object),
+      );
+      expect(toast.success).toHaveBeenCalledWith('edit.success');
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+
+    it('바뀐 항목이 없으면 저장하지 않는다', async () => {
+      const user = userEvent.setup();
+      renderEditForm();
+
+      await user.click(screen.getByText('edit.submit'));
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('edit.noChanges'));
+      expect(screen.getByTestId('name-input')).toBeInTheDocument();
+    });
+
+    it('다른 참여자가 있으면 장소를 바꿀 수 없고 정원을 참여 인원보다 줄일 수 없다', async () => {
+      const user = userEvent.setup();
+      renderEditForm({ participantCount: 6 });
+
+      expect(screen.getByText('edit.lockedNotice')).toBeInTheDocument();
+      expect(screen.getByTestId('location-select')).toBeDisabled();
+      expect(screen.getByTestId('min-participants-input')).toBeDisabled();
+
+      const capacityInput = screen.getByTestId('capacity-input');
+      await user.clear(capacityInput);
+      await user.type(capacityInput, '5');
+      await user.click(screen.getByText('edit.submit'));
+
+      expect(await screen.findByTestId('capacity-error')).toHaveTextContent(
+        'form.errors.capacityBelowParticipants',
+      );
+    });
+  });
+
+  describe('반복 모임', () => {
+    const DAY = 1000 * 60 * 60 * 24;
+    const defaultValues = {
+      name: '주간 스트레칭',
+      location: '홍대입구' as const,
+      type: 'OFFICE_STRETCHING' as const,
+      dateTime: new Date(Date.now() + DAY * 7),
+      registrationEnd: new Date(Date.now() + DAY * 6),
+      capacity: 10,
+    };
+    const mockCreateGathering = createGathering as jest.Mock;
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    const renderRecurringForm = async () => {
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            defaultValues={defaultValues}
+          />
+        </TestWrapper>,
+      );
+      await user.click(screen.getByLabelText('enable'));
+      await user.clear(screen.getByLabelText('countLabel'));
+      await user.type(screen.getByLabelText('countLabel'), '3');
+      await user.click(screen.getByText('recurrence.submit'));
+      return user;
+    };
+
+    it('만들기 전에 생성될 회차를 미리 보여준다', async () => {
+      await renderRecurringForm();
+
+      expect(await screen.findByText('previewDescription')).toBeInTheDocument();
+      expect(screen.getAllByText('registrationEnd')).toHaveLength(3);
+      expect(mockCreateGathering).not.toHaveBeenCalled();
+    });
+
+    it('회차를 하나씩 만들고 모두 성공하면 시리즈로 묶어 저장한다', async () => {
+      let nextId = 100;
+      mockCreateGathering.mockImplementation(async () => ({ id: nextId++ }));
+      const user = await renderRecurringForm();
+
+      await user.click(await screen.findByText('confirm'));
+
+      await waitFor(() => expect(mockOnClose).toHaveBeenCalled());
+      expect(mockCreateGathering).toHaveBeenCalledTimes(3);
+      // 회차마다 모임 날짜와 모집 마감이 같은 간격으로 이동
+      const [first, second] = mockCreateGathering.mock.calls.map(([payload]) => payload);
+      expect(second.dateTime.getTime() - first.dateTime.getTime()).toBe(DAY * 7);
+      expect(first.dateTime.getTime() - first.registrationEnd.getTime()).toBe(DAY);
+      expect(toast.success).toHaveBeenCalledWith('success');
+      expect(Object.values(JSON.parse(localStorage.getItem('gathering-series') ?? '{}'))).toEqual([
+        expect.objectContaining({ frequency: 'weekly', gatheringIds: [100, 101, 102] }),
+      ]);
+    });
+
+    it('시리즈를 지원하는 백엔드에서는 서버에 시리즈로 묶는다', async () => {
+      mockIsGatheringSeriesSupported.mockReturnValue(true);
+      const mockCreateGatheringSeries = createGatheringSeries as jest.Mock;
+      mockCreateGatheringSeries.mockResolvedValue({});
+      let nextId = 100;
+      mockCreateGathering.mockImplementation(async () => ({ id: nextId++ }));
+      const user = await renderRecurringForm();
+
+      await user.click(await screen.findByText('confirm'));
+
+      await waitFor(() => expect(mockOnClose).toHaveBeenCalled());
+      expect(mockCreateGatheringSeries).toHaveBeenCalledWith({
+        frequency: 'weekly',
+        gatheringIds: [100, 101, 102],
+      });
+      expect(localStorage.getItem('gathering-series')).toBeNull();
+    });
+
+    it('일부 회차가 실패하면 결과를 보여주고 실패한 회차만 다시 시도한다', async () => {
+      mockCreateGathering
+        .mockResolvedValueOnce({ id: 100 })
+        .mockRejectedValueOnce(new Error('failed'))
+        .mockResolvedValueOnce({ id: 102 })
+        .mockResolvedValueOnce({ id: 101 });
+      const user = await renderRecurringForm();
+
+      await user.click(await screen.findByText('confirm'));
+
+      expect(await screen.findByText('partialFailure')).toBeInTheDocument();
+      expect(screen.getAllByText('status.success')).toHaveLength(2);
+      expect(mockOnClose).not.toHaveBeenCalled();
+
+      await user.click(screen.getByText('retry'));
+
+      await waitFor(() => expect(mockOnClose).toHaveBeenCalled());
+      expect(mockCreateGathering).toHaveBeenCalledTimes(4);
+    });
+
+    it('종료일을 고르지 않으면 미리보기로 넘어가지 않는다', async () => {
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            defaultValues={defaultValues}
+          />
+        </TestWrapper>,
+      );
+
+      await user.click(screen.getByLabelText('enable'));
+      await user.click(screen.getByLabelText('endUntil'));
+      await user.click(screen.getByText('recurrence.submit'));
+
+      expect(await screen.findByText('errors.untilRequired')).toBeInTheDocument();
+      expect(screen.queryByText('previewDescription')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('임시 저장', () => {
+    const draft: GatheringDraft = {
+      id: 'draft-1',
+      userId: '1',
+      title: '주간 모임 초안',
+      values: {
+        name: '주간 스트레칭',
+        location: '홍대입구',
+        type: 'OFFICE_STRETCHING',
+        dateTime: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7).toISOString(),
+        registrationEnd: new Date(Date.now() + 1000 * 60 * 60 * 24 * 6).toISOString(),
+        capacity: 10,
+      },
+      updatedAt: Date.now(),
+    };
+
+    it('입력을 멈추면 사용자별로 임시 저장한다', async () => {
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            userId="1"
+          />
+        </TestWrapper>,
+      );
+
+      await user.type(screen.getByTestId('name-input'), '새 모임');
+
+      await waitFor(
+        () =>
+          expect(saveGatheringDraft).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'new-draft', userId: '1', values: { name: '새 모임' } }),
+          ),
+        { timeout: 2000 },
+      );
+    });
+
+    it('닫으면 남은 입력을 바로 저장한다', async () => {
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            userId="1"
+          />
+        </TestWrapper>,
+      );
+
+      await user.type(screen.getByTestId('name-input'), '닫기 전 입력');
+      await user.click(screen.getByText('cancel'));
+
+      expect(saveGatheringDraft).toHaveBeenCalledTimes(1);
+      expect(saveGatheringDraft).toHaveBeenCalledWith(
+        expect.objectContaining({ values: { name: '닫기 전 입력' } }),
+      );
+    });
+
+    it('임시 저장본으로 폼을 채우고, 모임을 만들면 저장본을 삭제한다', async () => {
+      const mockMutate = jest.fn((_, { onSuccess }) => onSuccess());
+      (useCreateGathering as unknown as jest.Mock).mockReturnValue({
+        isPending: false,
+        mutate: mockMutate,
+      });
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <CreateGatheringForm
+            onClose={mockOnClose}
+            userId="1"
+            draft={draft}
+          />
+        </TestWrapper>,
+      );
+
+      expect(screen.getByTestId('name-input')).toHaveValue('주간 스트레칭');
+      expect(screen.getByLabelText('titleLabel')).toHaveValue('주간 모임 초안');
+
+      await user.click(screen.getByText('submit'));
+
+      await waitFor(() => expect(mockMutate).toHaveBeenCalled());
+      expect(deleteGatheringDraft).toHaveBeenCalledWith('draft-1');
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+  });
 });
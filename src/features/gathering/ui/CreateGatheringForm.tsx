@@ -1,26 +1,70 @@
 import React, { useState } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
-import { useCreateGathering } from '@/entities/gathering/api';
-import { CreateGatheringPayload, createGatheringSchema } from '@/entities/gathering/model/schema';
+import {
+  isMinParticipantsSupported,
+  useCreateGathering,
+  useUpdateGathering,
+} from '@/entities/gathering/api';
+import {
+  type GatheringFormField,
+  getChangedGatheringFields,
+  getLockedGatheringFields,
+  toGatheringFormValues,
+  toGatheringUpdate,
+} from '@/entities/gathering/model/editGathering';
+import {
+  type GatheringOccurrence,
+  getGatheringOccurrences,
+} from '@/entities/gathering/model/recurrence';
+import {
+  CreateGatheringPayload,
+  createEditGatheringSchema,
+  createGatheringSchema,
+} from '@/entities/gathering/model/schema';
+import type { Gathering } from '@/entities/gathering/model/types';
 import {
   GatheringCapacityField,
   GatheringDateField,
   GatheringImageField,
   GatheringLocationField,
+  GatheringMinParticipantsField,
   GatheringNameField,
   GatheringRegistrationEndField,
   GatheringTypeField,
 } from '@/entities/gathering/ui/fields';
+import { DEFAULT_MIN_PARTICIPANTS } from '@/shared/lib/gathering/confirmation';
 import { trackFormValidationError } from '@/shared/lib/sentry/tracking';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { FieldError, useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
+import { type GatheringDraft, fromGatheringDraft } from '../model/gatheringDraft';
+import {
+  DEFAULT_RECURRENCE_FORM_VALUES,
+  type RecurrenceFormValues,
+  toGatheringRecurrence,
+} from '../model/recurrenceForm';
+import { useGatheringDraftAutosave } from '../model/useGatheringDrafts';
+import { GatheringChangesSummary } from './GatheringChangesSummary';
+import { GatheringDraftBar } from './GatheringDraftBar';
+import { GatheringRecurrenceField } from './GatheringRecurrenceField';
+import { GatheringSeriesCreation } from './GatheringSeriesCreation';
 
 interface CreateGatheringFormProps {
   onClose: () => void;
+  defaultValues?: Partial<CreateGatheringPayload>; // 모임 복제 등으로 미리 채울 값
+  gathering?: Gathering; // 있으면 이 모임을 수정하는 edit 모드
+  userId?: string; // 있으면 모임 만들기 입력 내용을 임시 저장
+  draft?: GatheringDraft; // 이어서 작성할 임시 저장본
 }
 
-export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
+// 모임 만들기/수정 폼 (수정은 바뀐 항목을, 반복 모임은 만들어질 회차를 확인한 뒤 저장)
+export const CreateGatheringForm = ({
+  onClose,
+  defaultValues,
+  gathering,
+  userId,
+  draft,
+}: CreateGatheringFormProps) => {
   const t = useTranslations('pages.gatherings.create');
   const locale = useLocale();
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -28,8 +72,28 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
     null,
   );
   const [isImageProcessing, setIsImageProcessing] = useState(false);
+  // edit 모드: 저장 전에 확인할 변경 내용
+  const [pendingChanges, setPendingChanges] = useState<{
+    values: CreateGatheringPayload;
+    fields: GatheringFormField[];
+  } | null>(null);
+  // 반복 모임: 만들기 전에 확인할 회차 목록
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValues>(
+    DEFAULT_RECURRENCE_FORM_VALUES,
+  );
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
+  const [pendingSeries, setPendingSeries] = useState<{
+    values: CreateGatheringPayload;
+    occurrences: GatheringOccurrence[];
+  } | null>(null);
 
-  const { isPending, mutate } = useCreateGathering();
+  const { isPending: isCreatePending, mutate } = useCreateGathering();
+  const { isPending: isUpdatePending, mutate: updateGathering } = useUpdateGathering();
+  const isPending = isCreatePending || isUpdatePending;
+
+  const isEditMode = !!gathering;
+  // 다른 참여자가 있으면 일부 필드는 바꿀 수 없고, 정원은 현재 참여 인원보다 줄일 수 없음
+  const lockedFields = gathering ? getLockedGatheringFields(gathering.participantCount) : [];
 
   const {
     control,
@@ -39,8 +103,11 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
     formState: { errors },
     watch,
     reset,
+    getValues,
   } = useForm<CreateGatheringPayload>({
-    resolver: zodResolver(createGatheringSchema),
+    resolver: zodResolver(
+      gathering ? createEditGatheringSchema(gathering.participantCount) : createGatheringSchema,
+    ),
     defaultValues: {
       name: '',
       location: undefined,
@@ -48,10 +115,27 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
       dateTime: undefined,
       registrationEnd: undefined,
       capacity: undefined,
+      minParticipants: DEFAULT_MIN_PARTICIPANTS,
       image: undefined,
+      ...(gathering
+        ? toGatheringFormValues(gathering)
+        : draft
+          ? fromGatheringDraft(draft)
+          : defaultValues),
     },
   });
 
+  // 정원은 개설 확정 인원 이상 (number input은 문자열을 넘기므로 숫자로 변환)
+  const minParticipants = Number(watch('minParticipants')) || DEFAULT_MIN_PARTICIPANTS;
+  const minCapacity = Math.max(minParticipants, gathering?.participantCount ?? 0);
+
+  const draftAutosave = useGatheringDraftAutosave({
+    userId: isEditMode ? undefined : userId,
+    draft,
+    watch,
+    getValues,
+  });
+
   // 폼 검증 에러 추적
   React.useEffect(() => {
     if (Object.keys(errors).length > 0) {
@@ -73,14 +157,57 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
       return;
     }
 
+    if (gathering) {
+      const fields = getChangedGatheringFields(gathering, data);
+      if (fields.length === 0) {
+        toast.error(t('edit.noChanges'));
+        return;
+      }
+      setPendingChanges({ values: data, fields });
+      return;
+    }
+
+    if (recurrence.enabled) {
+      const rule = toGatheringRecurrence(recurrence);
+      if (!rule) {
+        setRecurrenceError('errors.untilRequired');
+        return;
+      }
+      const occurrences = getGatheringOccurrences(data, rule);
+      if (occurrences.filter((occurrence) => !occurrence.skipped).length < 2) {
+        setRecurrenceError('errors.tooFew');
+        return;
+      }
+      setRecurrenceError(null);
+      setPendingSeries({ values: data, occurrences });
+      return;
+    }
+
     mutate(data, {
       onSuccess: () => {
+        draftAutosave.discard();
         toast.success(t('success'));
         onClose();
       },
     });
   };
 
+  const handleConfirmUpdate = () => {
+    if (!gathering || !pendingChanges) return;
+    updateGathering(
+      {
+        id: gathering.id,
+        changes: toGatheringUpdate(pendingChanges.values, pendingChanges.fields),
+      },
+      {
+        onSuccess: () => {
+          toast.success(t('edit.success'));
+          onClose();
+        },
+      },
+    );
+  };
+
   const formatDateTime = (date: Date | undefined) => {
     if (!date) return '';
     return date.toLocaleString(locale === 'ko' ? 'ko-KR' : 'en-US', {
@@ -103,8 +230,66 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
     });
   };
 
+  if (gathering && pendingChanges) {
+    return (
+      <div>
+        <GatheringChangesSummary
+          gathering={gathering}
+          values={pendingChanges.values}
+          fields={pendingChanges.fields}
+          formatDateTime={formatDateTime}
+        />
+        <div className="mt-4 flex gap-2">
+          <button
+            type="button"
+            className="border-primary text-primary flex-1 rounded-xl border bg-white px-4 py-2 font-semibold transition hover:bg-gray-50 focus:outline-none"
+            onClick={() => setPendingChanges(null)}
+          >
+            {t('edit.back')}
+          </button>
+          <button
+            type="button"
+            className="bg-primary hover:bg-primary/80 flex-1 rounded-xl px-4 py-2 font-semibold text-white transition focus:outline-none disabled:opacity-50"
+            onClick={handleConfirmUpdate}
+            disabled={isPending}
+          >
+            {isPending ? t('pending') : t('edit.confirm')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingSeries) {
+    return (
+      <GatheringSeriesCreation
+        values={pendingSeries.values}
+        occurrences={pendingSeries.occurrences}
+        frequency={recurrence.frequency}
+        formatDateTime={formatDateTime}
+        onBack={() => setPendingSeries(null)}
+        onClose={() => {
+          draftAutosave.discard();
+          onClose();
+        }}
+      />
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)}>
+      {!isEditMode && userId && (
+        <GatheringDraftBar
+          title={draftAutosave.title}
+          onTitleChange={draftAutosave.changeTitle}
+          savedAt={draftAutosave.savedAt}
+        />
+      )}
+      {lockedFields.length > 0 && (
+        <p className="mb-4 rounded-xl bg-orange-50 px-4 py-2.5 text-sm text-orange-600">
+          {t('edit.lockedNotice')}
+        </p>
+      )}
       <div className="space-y-4">
         <GatheringNameField
           register={register}
@@ -113,10 +298,12 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
         <GatheringLocationField
           control={control}
           error={errors.location as FieldError}
+          disabled={lockedFields.includes('location')}
         />
         <GatheringTypeField
           control={control}
           error={errors.type as FieldError}
+          disabled={lockedFields.includes('type')}
         />
         <GatheringImageField
           setValue={setValue}
@@ -136,6 +323,7 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
             watch={watch}
             formatDateTime={formatDateTime}
             formatDateTimeMobile={formatDateTimeMobile}
+            disabled={lockedFields.includes('dateTime')}
           />
 
           <GatheringRegistrationEndField
@@ -154,13 +342,33 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
         <GatheringCapacityField
           register={register}
           error={errors.capacity as FieldError}
+          min={minCapacity}
         />
+        {isMinParticipantsSupported() && (
+          <GatheringMinParticipantsField
+            register={register}
+            error={errors.minParticipants as FieldError}
+            disabled={lockedFields.includes('minParticipants')}
+          />
+        )}
+        {!isEditMode && (
+          <GatheringRecurrenceField
+            value={recurrence}
+            onChange={(value) => {
+              setRecurrence(value);
+              setRecurrenceError(null);
+            }}
+            error={recurrenceError}
+          />
+        )}
       </div>
       <div className="mt-4 flex gap-2">
         <button
           type="button"
           className="border-primary text-primary flex-1 rounded-xl border bg-white px-4 py-2 font-semibold transition hover:bg-gray-50 focus:outline-none"
           onClick={() => {
+            // 닫아도 입력한 내용은 임시 저장본으로 남김
+            draftAutosave.saveAndStop();
             reset();
             onClose();
           }}
@@ -172,7 +380,15 @@ export const CreateGatheringForm = ({ onClose }: CreateGatheringFormProps) => {
           className="bg-primary hover:bg-primary/80 flex-1 rounded-xl px-4 py-2 font-semibold text-white transition focus:outline-none disabled:opacity-50"
           disabled={isPending || isImageProcessing}
         >
-          {isPending ? t('pending') : isImageProcessing ? t('imageProcessing') : t('submit')}
+          {isPending
+            ? t('pending')
+            : isImageProcessing
+              ? t('imageProcessing')
+              : isEditMode
+                ? t('edit.submit')
+                : recurrence.enabled
+                  ? t('recurrence.submit')
+                  : t('submit')}
         </button>
       </div>
     </form>
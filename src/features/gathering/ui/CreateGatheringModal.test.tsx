@@ -1,7 +1,21 @@
+import { useSession } from 'next-auth/react';
+import { createMockSession } from '@/shared/lib/test/testUtils';
 import { TestWrapper } from '@/shared/lib/test/testUtils';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { GatheringDraft } from '../model/gatheringDraft';
+import { deleteGatheringDraft, getGatheringDrafts } from '../model/gatheringDraftStorage';
 import { CreateGatheringModal } from './CreateGatheringModal';
 
+jest.mock('next-auth/react', () => ({
+  useSession: jest.fn(() => ({ data: null })),
+}));
+
+jest.mock('../model/gatheringDraftStorage', () => ({
+  getGatheringDrafts: jest.fn(),
+  deleteGatheringDraft: jest.fn(),
+}));
+
 // Mock next-intl
 jest.mock('next-intl', () => ({
   useTranslations: () => (key: string) => {
@@ -10,6 +24,7 @@ jest.mock('next-intl', () => ({
     };
     return translations[key] || key;
   },
+  useLocale: () => 'ko',
 }));
 
 // Mock Modal
@@ -47,8 +62,11 @@ jest.mock('@/shared/ui/modal', () => ({
 
 // Mock CreateGatheringForm
 jest.mock('./CreateGatheringForm', () => ({
-  CreateGatheringForm: ({ onClose }: { onClose: () => void }) => (
-    <div data-testid="create-gathering-form">
+  CreateGatheringForm: ({ onClose, draft }: { onClose: () => void; draft?: GatheringDraft }) => (
+    <div
+      data-testid="create-gathering-form"
+      data-draft={draft?.id ?? ''}
+    >
       <button onClick={onClose}>폼 닫기</button>
     </div>
   ),
@@ -125,4 +143,79 @@ describe('CreateGatheringModal', () => {
 
     expect(mockOnClose).toHaveBeenCalledTimes(1);
   });
+
+  describe('임시 저장본', () => {
+    const drafts: GatheringDraft[] = [
+      {
+        id: 'draft-1',
+        userId: '1',
+        title: '',
+        values: { name: '주간 스트레칭' },
+        updatedAt: new Date('2025-03-01T10:00:00Z').getTime(),
+      },
+      {
+        id: 'draft-2',
+        userId: '1',
+        title: '워케이션 초안',
+        values: {},
+        updatedAt: new Date('2025-02-28T10:00:00Z').getTime(),
+      },
+    ];
+
+    beforeEach(() => {
+      (useSession as jest.Mock).mockReturnValue({ data: createMockSession() });
+      (getGatheringDrafts as jest.Mock).mockResolvedValue(drafts);
+    });
+
+    const renderModal = (props: { defaultValues?: { name: string } } = {}) =>
+      render(
+        <TestWrapper>
+          <CreateGatheringModal
+            isOpen={true}
+            onClose={mockOnClose}
+            {...props}
+          />
+        </TestWrapper>,
+      );
+
+    it('임시 저장본이 있으면 이어서 작성할지 묻고, 고른 저장본으로 폼을 연다', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      expect(await screen.findByText('주간 스트레칭')).toBeInTheDocument();
+      expect(screen.getByText('워케이션 초안')).toBeInTheDocument();
+      expect(getGatheringDrafts).toHaveBeenCalledWith('1');
+      expect(screen.queryByTestId('create-gathering-form')).not.toBeInTheDocument();
+
+      await user.click(screen.getAllByText('resumeShort')[1]);
+
+      expect(screen.getByTestId('create-gathering-form')).toHaveAttribute('data-draft', 'draft-2');
+    });
+
+    it('새로 작성하기를 누르면 빈 폼을 연다', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      await user.click(await screen.findByText('startNew'));
+
+      expect(screen.getByTestId('create-gathering-form')).toHaveAttribute('data-draft', '');
+    });
+
+    it('임시 저장본을 삭제할 수 있다', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      await user.click((await screen.findAllByText('deleteShort'))[0]);
+
+      expect(deleteGatheringDraft).toHaveBeenCalledWith('draft-1');
+      expect(screen.queryByText('주간 스트레칭')).not.toBeInTheDocument();
+    });
+
+    it('미리 채울 값이 있으면 임시 저장본을 묻지 않는다', () => {
+      renderModal({ defaultValues: { name: '복제한 모임' } });
+
+      expect(getGatheringDrafts).not.toHaveBeenCalled();
+      expect(screen.getByTestId('create-gathering-form')).toBeInTheDocument();
+    });
+  });
 });
@@ -1,16 +1,35 @@
 'use client';
 
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
 import { useTranslations } from 'next-intl';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
 import { Modal } from '@/shared/ui/modal';
+import type { GatheringDraft } from '../model/gatheringDraft';
+import { useGatheringDrafts } from '../model/useGatheringDrafts';
 import { CreateGatheringForm } from './CreateGatheringForm';
+import { GatheringDraftPicker } from './GatheringDraftPicker';
 
 interface CreateGatheringModalProps {
   isOpen: boolean;
   onClose: () => void;
+  defaultValues?: Partial<CreateGatheringPayload>;
 }
 
-export const CreateGatheringModal = ({ isOpen, onClose }: CreateGatheringModalProps) => {
+export const CreateGatheringModal = ({
+  isOpen,
+  onClose,
+  defaultValues,
+}: CreateGatheringModalProps) => {
   const t = useTranslations('pages.gatherings.create');
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  // 복제처럼 미리 채울 값이 있으면 임시 저장본을 묻지 않고 바로 새로 작성
+  const { drafts, isLoading, remove } = useGatheringDrafts(defaultValues ? undefined : userId);
+  // undefined: 아직 고르지 않음, null: 새로 작성
+  const [selectedDraft, setSelectedDraft] = useState<GatheringDraft | null>();
+
+  const isPickingDraft = selectedDraft === undefined && drafts.length > 0;
 
   return (
     <Modal.Root
@@ -18,9 +37,24 @@ export const CreateGatheringModal = ({ isOpen, onClose }: CreateGatheringModalPr
       onClose={onClose}
       variant="form"
     >
-      <Modal.Header>{t('title')}</Modal.Header>
+      <Modal.Header>{isPickingDraft ? t('draft.resumeTitle') : t('title')}</Modal.Header>
       <Modal.Body>
-        <CreateGatheringForm onClose={onClose} />
+        {isLoading ? null : isPickingDraft ? (
+          <GatheringDraftPicker
+            drafts={drafts}
+            onResume={setSelectedDraft}
+            onDelete={remove}
+            onStartNew={() => setSelectedDraft(null)}
+          />
+        ) : (
+          <CreateGatheringForm
+            key={selectedDraft?.id ?? 'new'}
+            onClose={onClose}
+            defaultValues={defaultValues}
+            userId={userId}
+            draft={selectedDraft ?? undefined}
+          />
+        )}
       </Modal.Body>
     </Modal.Root>
   );
@@ -0,0 +1,32 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type { Gathering } from '@/entities/gathering/model/types';
+import { Modal } from '@/shared/ui/modal';
+import { CreateGatheringForm } from './CreateGatheringForm';
+
+interface EditGatheringModalProps {
+  gathering: Gathering;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const EditGatheringModal = ({ gathering, isOpen, onClose }: EditGatheringModalProps) => {
+  const t = useTranslations('pages.gatherings.create');
+
+  return (
+    <Modal.Root
+      isOpen={isOpen}
+      onClose={onClose}
+      variant="form"
+    >
+      <Modal.Header>{t('edit.title')}</Modal.Header>
+      <Modal.Body>
+        <CreateGatheringForm
+          onClose={onClose}
+          gathering={gathering}
+        />
+      </Modal.Body>
+    </Modal.Root>
+  );
+};
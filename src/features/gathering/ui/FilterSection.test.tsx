@@ -1,8 +1,9 @@
 import type { ReactNode } from 'react';
 import { useSearchParams } from 'next/navigation';
+import { SEARCH_DEBOUNCE_MS } from '@/features/search/ui';
 import { useRouter } from '@/i18n';
 import { TestWrapper } from '@/shared/lib/test/testUtils';
-import { fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import { FilterSection } from './FilterSection';
 
 // Mock next-intl
@@ -37,11 +38,17 @@ jest.mock('@/i18n', () => ({
   useRouter: jest.fn(() => ({
     push: jest.fn(),
   })),
+  usePathname: () => '/gathering',
 }));
 
-// Mock DateFilter
-jest.mock('@/features/filters/ui/DateFilter', () => ({
-  DateFilter: () => <div data-testid="date-filter">날짜 필터</div>,
+// Mock FilterPresetPicker
+jest.mock('@/features/filter-presets/ui', () => ({
+  FilterPresetPicker: () => <div data-testid="filter-preset-picker">필터 프리셋</div>,
+}));
+
+// Mock DateRangeFilter
+jest.mock('@/features/filters/ui/DateRangeFilter', () => ({
+  DateRangeFilter: () => <div data-testid="date-filter">날짜 필터</div>,
 }));
 
 // Mock UI components
@@ -70,30 +77,32 @@ jest.mock('@/shared/ui/chip', () => ({
 
 type Option = { label: string; value: string };
 
+// 옵션을 누르면 기존 선택에 추가 (전체보기는 선택 해제)
 jest.mock('@/shared/ui/filter', () => ({
-  Filter: ({
+  filterButtonVariants: ({ className }: { className?: string }) => className ?? '',
+  MultiSelectFilter: ({
     options,
     selected,
     onChange,
   }: {
     options: Option[];
-    selected: string;
-    onChange: (value: string) => void;
+    selected: string[];
+    onChange: (values: string[]) => void;
   }) => (
-    <select
+    <div
       data-testid="filter-select"
-      value={selected}
-      onChange={(e) => onChange(e.target.value)}
+      data-selected={selected.join(',')}
     >
       {options.map((option: Option) => (
-        <option
+        <button
           key={option.value}
-          value={option.value}
+          data-testid={`location-${option.value}`}
+          onClick={() => onChange(option.value === '전체보기' ? [] : [...selected, option.value])}
         >
           {option.label}
-        </option>
+        </button>
       ))}
-    </select>
+    </div>
   ),
 }));
 
@@ -165,10 +174,10 @@ jest.mock('@/shared/ui/tab', () => ({
 jest.mock('next/dynamic', () => {
   return jest.fn((importFunc) => {
     // 테스트에서 사용하는 컴포넌트들을 직접 반환
-    if (importFunc.toString().includes('DateFilter')) {
+    if (importFunc.toString().includes('DateRangeFilter')) {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const { DateFilter } = require('@/features/filters/ui/DateFilter');
-      return DateFilter;
+      const { DateRangeFilter } = require('@/features/filters/ui/DateRangeFilter');
+      return DateRangeFilter;
     }
     // 기본적으로는 빈 div 반환
     return function DynamicPlaceholder() {
@@ -179,14 +188,39 @@ jest.mock('next/dynamic', () => {
 
 describe('FilterSection', () => {
   const mockPush = jest.fn();
+  const mockReplace = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
     (useRouter as unknown as jest.Mock).mockReturnValue({
       push: mockPush,
+      replace: mockReplace,
     });
   });
 
+  it('검색어는 필터와 같은 URL 파라미터에 replace로 반영되어야 한다', () => {
+    jest.useFakeTimers();
+    (useSearchParams as unknown as jest.Mock).mockReturnValue(
+      new URLSearchParams('type=WORKATION&location=신림'),
+    );
+
+    render(
+      <TestWrapper>
+        <FilterSection />
+      </TestWrapper>,
+    );
+
+    fireEvent.change(screen.getByRole('searchbox'), { target: { value: '요가' } });
+    act(() => jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS));
+
+    expect(mockReplace).toHaveBeenCalledWith(
+      { pathname: '/gathering', query: { type: 'WORKATION', location: '신림', q: '요가' } },
+      { scroll: false },
+    );
+    expect(mockPush).not.toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+
   it('기본 필터 상태로 올바르게 렌더링되어야 한다', () => {
     (useSearchParams as unknown as jest.Mock).mockReturnValue({
       get: (key: string) => {
@@ -327,8 +361,7 @@ describe('FilterSection', () => {
       </TestWrapper>,
     );
 
-    const filterSelect = screen.getByTestId('filter-select');
-    fireEvent.change(filterSelect, { target: { value: '건대입구' } });
+    fireEvent.click(screen.getByTestId('location-건대입구'));
 
     expect(mockPush).toHaveBeenCalledWith({
       pathname: '/gathering',
@@ -338,6 +371,67 @@ describe('FilterSection', () => {
     });
   });
 
+  it('지역을 여러 개 선택하면 쉼표로 이어서 location 파라미터에 저장되어야 한다', () => {
+    (useSearchParams as unknown as jest.Mock).mockReturnValue({
+      get: (key: string) => {
+        const params: Record<string, string> = {
+          type: 'DALLAEMFIT',
+          location: '건대입구',
+        };
+        return params[key] || null;
+      },
+    });
+
+    render(
+      <TestWrapper>
+        <FilterSection />
+      </TestWrapper>,
+    );
+
+    expect(screen.getByTestId('filter-select')).toHaveAttribute('data-selected', '건대입구');
+
+    fireEvent.click(screen.getByTestId('location-홍대입구'));
+
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/gathering',
+      query: expect.objectContaining({
+        location: '건대입구,홍대입구',
+      }),
+    });
+  });
+
+  it('빈 자리 토글을 켜면 openOnly 파라미터가 추가되고, 끄면 제거되어야 한다', () => {
+    (useSearchParams as unknown as jest.Mock).mockReturnValue({
+      get: (key: string) => {
+        const params: Record<string, string> = { type: 'DALLAEMFIT', hideClosed: 'true' };
+        return params[key] || null;
+      },
+    });
+
+    render(
+      <TestWrapper>
+        <FilterSection />
+      </TestWrapper>,
+    );
+
+    const openOnlyToggle = screen.getByRole('button', { name: 'toggles.openOnly' });
+    const hideClosedToggle = screen.getByRole('button', { name: 'toggles.hideClosed' });
+    expect(openOnlyToggle).toHaveAttribute('aria-pressed', 'false');
+    expect(hideClosedToggle).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(openOnlyToggle);
+    expect(mockPush).toHaveBeenLastCalledWith({
+      pathname: '/gathering',
+      query: expect.objectContaining({ openOnly: 'true' }),
+    });
+
+    fireEvent.click(hideClosedToggle);
+    expect(mockPush).toHaveBeenLastCalledWith({
+      pathname: '/gathering',
+      query: expect.not.objectContaining({ hideClosed: 'true' }),
+    });
+  });
+
   it('정렬 옵션을 변경하면 라우터가 호출되어야 한다', () => {
     (useSearchParams as unknown as jest.Mock).mockReturnValue({
       get: (key: string) => {
@@ -385,8 +479,7 @@ describe('FilterSection', () => {
       </TestWrapper>,
     );
 
-    const filterSelect = screen.getByTestId('filter-select');
-    fireEvent.change(filterSelect, { target: { value: '전체보기' } });
+    fireEvent.click(screen.getByTestId('location-전체보기'));
 
     expect(mockPush).toHaveBeenCalledWith({
       pathname: '/gathering',
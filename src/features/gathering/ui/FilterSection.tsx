@@ -3,15 +3,21 @@
 import { useTranslations } from 'next-intl';
 import dynamic from 'next/dynamic';
 import { useSearchParams } from 'next/navigation';
+import { parseLocationParam } from '@/entities/gathering/model/filters';
+import { FilterPresetPicker } from '@/features/filter-presets/ui';
+import { SEARCH_QUERY_PARAM, SearchBox } from '@/features/search/ui';
 import { useRouter } from '@/i18n';
 import { Chip } from '@/shared/ui/chip';
-import { Filter } from '@/shared/ui/filter';
+import { MultiSelectFilter, filterButtonVariants } from '@/shared/ui/filter';
 import { DalaemfitIcon, WorkationIcon } from '@/shared/ui/icon';
 import { Sort } from '@/shared/ui/sort';
 import { Tab } from '@/shared/ui/tab';
 
-const DateFilter = dynamic(
-  () => import('@/features/filters/ui/DateFilter').then((mod) => ({ default: mod.DateFilter })),
+const DateRangeFilter = dynamic(
+  () =>
+    import('@/features/filters/ui/DateRangeFilter').then((mod) => ({
+      default: mod.DateRangeFilter,
+    })),
   { ssr: false },
 );
 
@@ -55,34 +61,73 @@ export const FilterSection = () => {
 
   // URL에서 현재 필터 값들 가져오기
   const selectedType = searchParams.get('type') || 'DALLAEMFIT';
-  const selectedLocation = searchParams.get('location') || '전체보기';
+  const selectedLocations = parseLocationParam(searchParams.get('location')).filter(
+    (location) => (location as string) !== '전체보기',
+  );
   const selectedSortBy = searchParams.get('sortBy') || 'registrationEnd';
+  const isOpenOnly = searchParams.get('openOnly') === 'true';
+  const isHideClosed = searchParams.get('hideClosed') === 'true';
+
+  // 클라이언트에서 거르는 토글 필터
+  const toggleItems = [
+    { key: 'openOnly', label: t('toggles.openOnly'), active: isOpenOnly },
+    { key: 'hideClosed', label: t('toggles.hideClosed'), active: isHideClosed },
+  ];
+
+  // 필터와 검색어를 URL에 반영하는 단일 경로 (검색어는 입력할 때마다 방문 기록이 쌓이지 않도록 replace)
+  const pushParams = (params: URLSearchParams, { replace = false } = {}) => {
+    const href = { pathname: '/gathering' as const, query: Object.fromEntries(params.entries()) };
+    if (replace) {
+      router.replace(href, { scroll: false });
+    } else {
+      router.push(href);
+    }
+  };
+
+  const updateSearch = (keyword: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (keyword) {
+      params.set(SEARCH_QUERY_PARAM, keyword);
+    } else {
+      params.delete(SEARCH_QUERY_PARAM);
+    }
+    pushParams(params, { replace: true });
+  };
 
   // 필터 업데이트 함수
   const updateFilter = (filterType: string, value: string) => {
     const params = new URLSearchParams(searchParams);
+    params.set(filterType, value);
+    pushParams(params);
+  };
 
-    // 지역 전체일 때는 location 파라미터 제거
-    if (filterType === 'location' && value === '전체보기') {
+  // 여러 지역은 쉼표로 이어서 저장 (전체일 때는 location 파라미터 제거)
+  const updateLocations = (locations: string[]) => {
+    const params = new URLSearchParams(searchParams);
+    if (locations.length === 0) {
       params.delete('location');
     } else {
-      params.set(filterType, value);
+      params.set('location', locations.join(','));
     }
+    pushParams(params);
+  };
 
-    router.push({
-      pathname: '/gathering',
-      query: Object.fromEntries(params.entries()),
-    });
+  // 토글이 꺼지면 파라미터 제거
+  const toggleFilter = (filterType: string, active: boolean) => {
+    const params = new URLSearchParams(searchParams);
+    if (active) {
+      params.delete(filterType);
+    } else {
+      params.set(filterType, 'true');
+    }
+    pushParams(params);
   };
 
   // 카테고리 변경 시 활동 필터 리셋
   const handleCategoryChange = (value: string) => {
     const params = new URLSearchParams(searchParams);
     params.set('type', value);
-    router.push({
-      pathname: '/gathering',
-      query: Object.fromEntries(params.entries()),
-    });
+    pushParams(params);
   };
 
   // 달램핏 카테고리인지 확인
@@ -93,6 +138,12 @@ export const FilterSection = () => {
 
   return (
     <div className="flex flex-col gap-4">
+      <SearchBox
+        scope="gathering"
+        query={searchParams.get(SEARCH_QUERY_PARAM) ?? ''}
+        onQueryChange={updateSearch}
+      />
+
       {/* 카테고리 탭 */}
       <Tab
         items={categoryItems}
@@ -136,21 +187,38 @@ export const FilterSection = () => {
       <div className="border-2 border-t border-gray-200"></div>
 
       {/* 지역 필터와 정렬 */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Filter
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <MultiSelectFilter
             options={regionOptions}
-            selected={selectedLocation}
-            onChange={(value) => updateFilter('location', value)}
+            selected={selectedLocations}
+            onChange={updateLocations}
             allValue="전체보기"
           />
-          <DateFilter />
+          <DateRangeFilter />
+          {toggleItems.map((item) => (
+            <button
+              key={item.key}
+              type="button"
+              aria-pressed={item.active}
+              onClick={() => toggleFilter(item.key, item.active)}
+              className={filterButtonVariants({
+                variant: item.active ? 'selected' : 'all',
+                className: 'cursor-pointer font-medium whitespace-nowrap',
+              })}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <FilterPresetPicker />
+          <Sort
+            options={sortOptions}
+            selected={selectedSortBy}
+            onChange={(value) => updateFilter('sortBy', value)}
+          />
         </div>
-        <Sort
-          options={sortOptions}
-          selected={selectedSortBy}
-          onChange={(value) => updateFilter('sortBy', value)}
-        />
       </div>
     </div>
   );
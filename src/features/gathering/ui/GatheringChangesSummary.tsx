@@ -0,0 +1,100 @@
+import { useTranslations } from 'next-intl';
+import type { GatheringFormField } from '@/entities/gathering/model/editGathering';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import type { Gathering } from '@/entities/gathering/model/types';
+import { getMinParticipants } from '@/shared/lib/gathering/confirmation';
+
+interface GatheringChangesSummaryProps {
+  gathering: Gathering;
+  values: CreateGatheringPayload;
+  fields: GatheringFormField[];
+  formatDateTime: (date: Date | undefined) => string;
+}
+
+const LOCATION_LABEL_KEYS: Record<string, string> = {
+  건대입구: 'konkuk',
+  을지로3가: 'euljiro',
+  신림: 'sinrim',
+  홍대입구: 'hongdae',
+};
+
+const SERVICE_LABEL_KEYS: Record<string, string> = {
+  OFFICE_STRETCHING: 'officeStretching',
+  MINDFULNESS: 'mindfulness',
+  WORKATION: 'workation',
+};
+
+const FIELD_LABEL_KEYS: Record<GatheringFormField, string> = {
+  name: 'form.title',
+  location: 'form.location',
+  type: 'form.type',
+  image: 'form.image',
+  dateTime: 'form.date',
+  registrationEnd: 'form.registrationEnd',
+  capacity: 'form.participants',
+  minParticipants: 'form.minParticipants',
+};
+
+// 모임 수정 저장 전 바뀐 항목의 이전 값과 새 값을 보여줌
+export const GatheringChangesSummary = ({
+  gathering,
+  values,
+  fields,
+  formatDateTime,
+}: GatheringChangesSummaryProps) => {
+  const t = useTranslations('pages.gatherings.create');
+
+  const formatService = (type: string) => {
+    const key = SERVICE_LABEL_KEYS[type];
+    if (!key) return type;
+    const subtitle = t(`form.services.${key}.subtitle`);
+    const label = t(`form.services.${key}.label`);
+    return subtitle ? `${label} · ${subtitle}` : label;
+  };
+
+  const formatValue = (field: GatheringFormField, source: 'before' | 'after') => {
+    const isBefore = source === 'before';
+    switch (field) {
+      case 'location': {
+        const location = isBefore ? gathering.location : values.location;
+        return t(`form.locations.${LOCATION_LABEL_KEYS[location]}`);
+      }
+      case 'type':
+        return formatService(isBefore ? gathering.type : values.type);
+      case 'image':
+        return isBefore ? t('edit.currentImage') : (values.image?.name ?? '');
+      case 'dateTime':
+      case 'registrationEnd':
+        return formatDateTime(isBefore ? new Date(gathering[field]) : values[field]);
+      case 'capacity':
+        return String(isBefore ? gathering.capacity : values.capacity);
+      case 'minParticipants':
+        return String(isBefore ? getMinParticipants(gathering) : values.minParticipants);
+      default:
+        return isBefore ? gathering.name : values.name;
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600">{t('edit.reviewDescription')}</p>
+      <dl className="mt-3 flex flex-col divide-y divide-gray-100 rounded-xl bg-gray-50 px-4">
+        {fields.map((field) => (
+          <div
+            key={field}
+            className="flex flex-col gap-1 py-3"
+          >
+            <dt className="text-xs font-semibold text-gray-500">{t(FIELD_LABEL_KEYS[field])}</dt>
+            <dd className="flex flex-wrap items-center gap-2 text-sm">
+              <del className="text-gray-400">{formatValue(field, 'before')}</del>
+              <span aria-hidden>→</span>
+              <ins className="font-semibold text-gray-900 no-underline">
+                {formatValue(field, 'after')}
+              </ins>
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
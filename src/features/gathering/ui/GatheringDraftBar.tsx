@@ -0,0 +1,40 @@
+import { useLocale, useTranslations } from 'next-intl';
+
+interface GatheringDraftBarProps {
+  title: string;
+  onTitleChange: (title: string) => void;
+  savedAt: number | null;
+}
+
+// 임시 저장본 이름과 자동 저장 상태
+export const GatheringDraftBar = ({ title, onTitleChange, savedAt }: GatheringDraftBarProps) => {
+  const t = useTranslations('pages.gatherings.create.draft');
+  const locale = useLocale();
+
+  const savedTime = savedAt
+    ? new Date(savedAt).toLocaleTimeString(locale === 'ko' ? 'ko-KR' : 'en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-xl bg-gray-50 px-4 py-2">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => onTitleChange(e.target.value)}
+        aria-label={t('titleLabel')}
+        placeholder={t('titlePlaceholder')}
+        maxLength={40}
+        className="min-w-0 flex-1 bg-transparent text-sm text-gray-800 outline-none placeholder:text-gray-400"
+      />
+      <span
+        className="shrink-0 text-xs text-gray-500"
+        aria-live="polite"
+      >
+        {savedTime ? t('autosaved', { time: savedTime }) : t('autosaveHint')}
+      </span>
+    </div>
+  );
+};
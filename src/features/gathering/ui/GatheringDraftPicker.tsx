@@ -0,0 +1,81 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import type { GatheringDraft } from '../model/gatheringDraft';
+
+interface GatheringDraftPickerProps {
+  drafts: GatheringDraft[];
+  onResume: (draft: GatheringDraft) => void;
+  onDelete: (id: string) => void;
+  onStartNew: () => void;
+}
+
+// 모달을 다시 열었을 때 임시 저장본을 이어서 작성할지 묻는 화면
+export const GatheringDraftPicker = ({
+  drafts,
+  onResume,
+  onDelete,
+  onStartNew,
+}: GatheringDraftPickerProps) => {
+  const t = useTranslations('pages.gatherings.create.draft');
+  const locale = useLocale();
+
+  const formatDate = (value: number | string) =>
+    new Date(value).toLocaleString(locale === 'ko' ? 'ko-KR' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600">{t('resumeDescription')}</p>
+      <ul className="mt-3 flex max-h-72 flex-col divide-y divide-gray-100 overflow-y-auto rounded-xl bg-gray-50 px-4">
+        {drafts.map((draft) => {
+          const title = draft.title || draft.values.name || t('untitled');
+          return (
+            <li
+              key={draft.id}
+              className="flex items-center justify-between gap-3 py-3"
+            >
+              <div className="flex min-w-0 flex-col gap-0.5">
+                <span className="truncate text-sm font-semibold text-gray-900">{title}</span>
+                <span className="text-xs text-gray-500">
+                  {t('savedAt', { date: formatDate(draft.updatedAt) })}
+                  {draft.values.dateTime &&
+                    ` · ${t('gatheringDate', { date: formatDate(draft.values.dateTime) })}`}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onDelete(draft.id)}
+                  aria-label={t('delete', { title })}
+                  className="rounded-lg px-2 py-1 text-xs text-gray-500 transition hover:bg-gray-200"
+                >
+                  {t('deleteShort')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onResume(draft)}
+                  aria-label={t('resume', { title })}
+                  className="bg-primary hover:bg-primary/80 rounded-lg px-3 py-1.5 text-xs font-semibold text-white transition"
+                >
+                  {t('resumeShort')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={onStartNew}
+        className="border-primary text-primary mt-4 w-full rounded-xl border bg-white px-4 py-2 font-semibold transition hover:bg-gray-50 focus:outline-none"
+      >
+        {t('startNew')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useTranslations } from 'next-intl';
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+} from '@/entities/gathering/model/recurrence';
+import { cn } from '@/shared/lib/cn';
+import type { RecurrenceFormValues } from '../model/recurrenceForm';
+
+interface GatheringRecurrenceFieldProps {
+  value: RecurrenceFormValues;
+  onChange: (value: RecurrenceFormValues) => void;
+  error?: string | null; // messages 키
+}
+
+const inputClassName =
+  'rounded-xl border border-gray-50 bg-gray-50 px-3 py-2 text-sm text-gray-800 outline-none focus:border-orange-600 disabled:opacity-50';
+
+// 반복 모임 설정 (주기, 종료 조건, 공휴일 건너뛰기)
+export const GatheringRecurrenceField = ({
+  value,
+  onChange,
+  error,
+}: GatheringRecurrenceFieldProps) => {
+  const t = useTranslations('pages.gatherings.create.recurrence');
+
+  const update = (changes: Partial<RecurrenceFormValues>) => onChange({ ...value, ...changes });
+
+  return (
+    <fieldset className="rounded-xl border border-gray-200 px-4 py-3">
+      <legend className="sr-only">{t('title')}</legend>
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-orange-600"
+        />
+        {t('enable')}
+      </label>
+
+      {value.enabled && (
+        <div className="mt-3 flex flex-col gap-3">
+          <div
+            role="group"
+            aria-label={t('frequencyLabel')}
+            className="flex gap-2"
+          >
+            {RECURRENCE_FREQUENCIES.map((frequency) => (
+              <button
+                key={frequency}
+                type="button"
+                aria-pressed={value.frequency === frequency}
+                onClick={() => update({ frequency })}
+                className={cn(
+                  'flex-1 rounded-xl px-3 py-2 text-sm font-medium transition',
+                  value.frequency === frequency
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-50 text-gray-700 hover:bg-gray-100',
+                )}
+              >
+                {t(`frequency.${frequency}`)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="recurrence-end"
+                checked={value.endType === 'count'}
+                onChange={() => update({ endType: 'count' })}
+                className="accent-orange-600"
+              />
+              {t('endCount')}
+              <input
+                type="number"
+                aria-label={t('countLabel')}
+                min={2}
+                max={MAX_SERIES_OCCURRENCES}
+                value={value.count}
+                disabled={value.endType !== 'count'}
+                onChange={(e) => update({ count: Number(e.target.value) })}
+                className={cn(inputClassName, 'w-20')}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="recurrence-end"
+                checked={value.endType === 'until'}
+                onChange={() => update({ endType: 'until' })}
+                className="accent-orange-600"
+              />
+              {t('endUntil')}
+              <input
+                type="date"
+                aria-label={t('untilLabel')}
+                value={value.until}
+                disabled={value.endType !== 'until'}
+                onChange={(e) => update({ until: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={value.skipHolidays}
+              onChange={(e) => update({ skipHolidays: e.target.checked })}
+              className="accent-orange-600"
+            />
+            {t('skipHolidays')}
+          </label>
+
+          <p className="text-xs text-gray-500">{t('hint', { max: MAX_SERIES_OCCURRENCES })}</p>
+        </div>
+      )}
+
+      {value.enabled && error && <p className="mt-2 text-xs text-red-500">{t(error)}</p>}
+    </fieldset>
+  );
+};
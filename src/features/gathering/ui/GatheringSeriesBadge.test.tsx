@@ -0,0 +1,95 @@
+import type { ReactElement } from 'react';
+import { useRouter } from '@/i18n';
+import { QUERY_KEYS } from '@/shared/api';
+import { API_CONFIG } from '@/shared/config/api';
+import { createTestQueryClient } from '@/shared/lib/test/testUtils';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render as baseRender, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { addGatheringSeries } from '../model/gatheringSeriesStorage';
+import { GatheringSeriesBadge } from './GatheringSeriesBadge';
+
+jest.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, string | number>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+describe('GatheringSeriesBadge', () => {
+  const mockPush = useRouter().push as jest.Mock;
+  let queryClient: QueryClient;
+
+  const render = (ui: ReactElement) =>
+    baseRender(<QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    queryClient = createTestQueryClient();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('시리즈에 속하지 않은 모임은 배지를 보여주지 않는다', () => {
+    const { container } = render(<GatheringSeriesBadge gatheringId={1} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('회차 순번을 보여주고 누르면 다음 회차로 이동한다', async () => {
+    const user = userEvent.setup();
+    const onCardClick = jest.fn();
+    addGatheringSeries('weekly', [11, 12, 13]);
+
+    render(
+      <div onClick={onCardClick}>
+        <GatheringSeriesBadge gatheringId={12} />
+      </div>,
+    );
+    await user.click(await screen.findByRole('button', { name: /label:frequency.weekly,2,3/ }));
+
+    expect(mockPush).toHaveBeenCalledWith({ pathname: '/gathering/[id]', params: { id: 13 } });
+    expect(onCardClick).not.toHaveBeenCalled();
+  });
+
+  it('마지막 회차는 이동 버튼 없이 순번만 보여준다', async () => {
+    addGatheringSeries('monthly', [11, 12]);
+
+    render(<GatheringSeriesBadge gatheringId={12} />);
+
+    expect(await screen.findByText('label:frequency.monthly,2,2')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('인메모리 백엔드에서는 모임에 저장된 시리즈로 배지를 보여준다', async () => {
+    jest.replaceProperty(API_CONFIG, 'BACKEND', 'memory');
+    queryClient.setQueryData(QUERY_KEYS.gathering.series(3), {
+      id: 3,
+      frequency: 'biweekly',
+      gatheringIds: [21, 22, 23],
+    });
+    // 이 브라우저에 저장된 시리즈는 사용하지 않음
+    addGatheringSeries('weekly', [21, 22]);
+
+    render(
+      <GatheringSeriesBadge
+        gatheringId={21}
+        seriesId={3}
+      />,
+    );
+
+    expect(
+      await screen.findByRole('button', { name: /label:frequency.biweekly,1,3/ }),
+    ).toBeInTheDocument();
+  });
+
+  it('인메모리 백엔드에서 시리즈 id가 없으면 배지를 보여주지 않는다', () => {
+    jest.replaceProperty(API_CONFIG, 'BACKEND', 'memory');
+    addGatheringSeries('weekly', [21, 22]);
+
+    const { container } = render(<GatheringSeriesBadge gatheringId={21} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
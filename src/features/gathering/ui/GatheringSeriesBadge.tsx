@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { isGatheringSeriesSupported, useGetGatheringSeries } from '@/entities/gathering/api';
+import { useRouter } from '@/i18n';
+import { cn } from '@/shared/lib/cn';
+import {
+  type GatheringSeriesPosition,
+  getGatheringSeriesPosition,
+} from '../model/gatheringSeriesStorage';
+
+interface GatheringSeriesBadgeProps {
+  gatheringId: number;
+  seriesId?: number; // 모임 응답의 시리즈 id (인메모리 백엔드)
+}
+
+const badgeClassName =
+  'inline-flex shrink-0 items-center gap-1 rounded-md bg-orange-50 px-1.5 py-0.5 text-xs font-medium text-orange-600';
+
+// 반복 모임 회차 배지 (다음 회차가 있으면 누르면 다음 회차로 이동)
+// 인메모리 백엔드는 서버에 저장된 시리즈를, 원격 백엔드는 이 브라우저에 저장된 시리즈를 사용
+export const GatheringSeriesBadge = ({ gatheringId, seriesId }: GatheringSeriesBadgeProps) => {
+  const t = useTranslations('ui.gatheringCard.series');
+  const router = useRouter();
+  const isServerSeries = isGatheringSeriesSupported();
+  const { data: serverSeries } = useGetGatheringSeries(isServerSeries ? seriesId : undefined);
+  const [localPosition, setLocalPosition] = useState<GatheringSeriesPosition | null>(null);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후(또는 모임이 바뀌면) 불러옴
+  useEffect(() => {
+    if (!isServerSeries) setLocalPosition(getGatheringSeriesPosition(gatheringId));
+  }, [gatheringId, isServerSeries]);
+
+  const series = isServerSeries ? serverSeries : localPosition?.series;
+  const index = series ? series.gatheringIds.indexOf(gatheringId) : -1;
+  if (!series || index === -1) return null;
+
+  const label = t('label', {
+    frequency: t(`frequency.${series.frequency}`),
+    current: index + 1,
+    total: series.gatheringIds.length,
+  });
+  const nextId = series.gatheringIds[index + 1];
+
+  if (nextId === undefined) return <span className={badgeClassName}>{label}</span>;
+
+  // 카드 전체가 링크이므로 카드 이동을 막고 다음 회차로 이동
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    router.push({ pathname: '/gathering/[id]', params: { id: nextId } });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-label={t('next', { label })}
+      className={cn(badgeClassName, 'hover:bg-orange-100')}
+    >
+      {label}
+      <span aria-hidden>›</span>
+    </button>
+  );
+};
@@ -0,0 +1,59 @@
+import type { GatheringOccurrence } from '@/entities/gathering/model/recurrence';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { render, screen } from '@testing-library/react';
+import { GatheringSeriesCreation } from './GatheringSeriesCreation';
+
+jest.mock('../model/useCreateGatheringSeries', () => ({
+  useCreateGatheringSeries: () => ({
+    items: [],
+    isRunning: false,
+    start: jest.fn(),
+    retryFailed: jest.fn(),
+    saveSeries: jest.fn(),
+  }),
+}));
+
+const createOccurrence = (
+  dateTime: Date,
+  overrides: Partial<GatheringOccurrence> = {},
+): GatheringOccurrence => ({
+  dateTime,
+  registrationEnd: new Date(dateTime.getTime() - 24 * 60 * 60 * 1000),
+  skipped: false,
+  holidayUnknown: false,
+  ...overrides,
+});
+
+const renderCreation = (occurrences: GatheringOccurrence[]) =>
+  render(
+    <GatheringSeriesCreation
+      values={{} as CreateGatheringPayload}
+      occurrences={occurrences}
+      frequency="weekly"
+      formatDateTime={(date) => date.toISOString()}
+      onBack={jest.fn()}
+      onClose={jest.fn()}
+    />,
+  );
+
+describe('GatheringSeriesCreation 미리보기', () => {
+  it('공휴일로 건너뛴 회차를 표시한다', () => {
+    renderCreation([
+      createOccurrence(new Date(2026, 4, 18, 19)),
+      createOccurrence(new Date(2026, 4, 25, 19), { skipped: true }),
+    ]);
+
+    expect(screen.getByText('holidaySkipped')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('공휴일 목록이 없는 해의 회차가 있으면 경고하고 해당 회차를 표시한다', () => {
+    renderCreation([
+      createOccurrence(new Date(2027, 11, 24, 19)),
+      createOccurrence(new Date(2028, 0, 7, 19), { holidayUnknown: true }),
+    ]);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('holidayUnknownWarning');
+    expect(screen.getAllByText('holidayUnknown')).toHaveLength(1);
+  });
+});
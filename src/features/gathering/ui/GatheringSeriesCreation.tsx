@@ -0,0 +1,183 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type {
+  GatheringOccurrence,
+  RecurrenceFrequency,
+} from '@/entities/gathering/model/recurrence';
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import { cn } from '@/shared/lib/cn';
+import { LAST_PUBLIC_HOLIDAY_YEAR } from '@/shared/lib/date';
+import { mapApiErrorToMessage } from '@/shared/lib/utils/apiErrorMapper';
+import toast from 'react-hot-toast';
+import { type SeriesItem, useCreateGatheringSeries } from '../model/useCreateGatheringSeries';
+
+interface GatheringSeriesCreationProps {
+  values: CreateGatheringPayload;
+  occurrences: GatheringOccurrence[];
+  frequency: RecurrenceFrequency;
+  formatDateTime: (date: Date) => string;
+  onBack: () => void;
+  onClose: () => void;
+}
+
+const outlineButtonClassName =
+  'border-primary text-primary flex-1 rounded-xl border bg-white px-4 py-2 font-semibold transition hover:bg-gray-50 focus:outline-none disabled:opacity-50';
+const primaryButtonClassName =
+  'bg-primary hover:bg-primary/80 flex-1 rounded-xl px-4 py-2 font-semibold text-white transition focus:outline-none disabled:opacity-50';
+
+const STATUS_CLASS_NAMES: Record<SeriesItem['status'], string> = {
+  waiting: 'text-gray-400',
+  creating: 'text-orange-600',
+  success: 'text-green-600',
+  error: 'text-red-500',
+};
+
+// 반복 모임 만들기: 생성될 회차 미리보기 -> 회차별 진행 상황 -> 일부 실패 시 결과와 재시도
+export const GatheringSeriesCreation = ({
+  values,
+  occurrences,
+  frequency,
+  formatDateTime,
+  onBack,
+  onClose,
+}: GatheringSeriesCreationProps) => {
+  const t = useTranslations('pages.gatherings.create.recurrence');
+  const tApiError = useTranslations('errors.api');
+  const { items, isRunning, start, retryFailed, saveSeries } = useCreateGatheringSeries();
+
+  const creatableCount = occurrences.filter((occurrence) => !occurrence.skipped).length;
+  const hasHolidayUnknown = occurrences.some((occurrence) => occurrence.holidayUnknown);
+  const successCount = items.filter((item) => item.status === 'success').length;
+  const failedCount = items.filter((item) => item.status === 'error').length;
+
+  const finish = () => {
+    // 모임은 이미 만들어졌으므로 묶기에 실패해도 창은 닫고 알리기만 함
+    saveSeries().catch(() => toast.error(t('seriesLinkFailed')));
+    onClose();
+  };
+
+  const handleResult = (result: SeriesItem[]) => {
+    if (result.every((item) => item.status === 'success')) {
+      toast.success(t('success', { count: result.length }));
+      finish();
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <div>
+        <p className="text-sm text-gray-600">
+          {t('previewDescription', { count: creatableCount })}
+        </p>
+        {/* 공휴일 목록이 없는 해의 회차는 공휴일이어도 그대로 만들어지므로 미리 알림 */}
+        {hasHolidayUnknown && (
+          <p
+            role="alert"
+            className="mt-2 rounded-lg bg-orange-50 px-3 py-2 text-xs text-orange-600"
+          >
+            {t('holidayUnknownWarning', { year: LAST_PUBLIC_HOLIDAY_YEAR })}
+          </p>
+        )}
+        <ol className="mt-3 flex max-h-72 flex-col divide-y divide-gray-100 overflow-y-auto rounded-xl bg-gray-50 px-4">
+          {occurrences.map((occurrence) => (
+            <li
+              key={occurrence.dateTime.getTime()}
+              className="flex flex-col gap-0.5 py-2.5 text-sm"
+            >
+              <span className="flex items-center gap-2">
+                <span
+                  className={cn(
+                    'font-semibold',
+                    occurrence.skipped ? 'text-gray-400 line-through' : 'text-gray-900',
+                  )}
+                >
+                  {formatDateTime(occurrence.dateTime)}
+                </span>
+                {occurrence.skipped && (
+                  <span className="rounded-md bg-gray-200 px-1.5 py-0.5 text-xs text-gray-600">
+                    {t('holidaySkipped')}
+                  </span>
+                )}
+                {occurrence.holidayUnknown && (
+                  <span className="rounded-md bg-orange-50 px-1.5 py-0.5 text-xs text-orange-600">
+                    {t('holidayUnknown')}
+                  </span>
+                )}
+              </span>
+              {!occurrence.skipped && (
+                <span className="text-xs text-gray-500">
+                  {t('registrationEnd', { date: formatDateTime(occurrence.registrationEnd) })}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+        <div className="mt-4 flex gap-2">
+          <button
+            type="button"
+            className={outlineButtonClassName}
+            onClick={onBack}
+          >
+            {t('back')}
+          </button>
+          <button
+            type="button"
+            className={primaryButtonClassName}
+            onClick={() => start(values, occurrences, frequency).then(handleResult)}
+          >
+            {t('confirm', { count: creatableCount })}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p
+        className="text-sm font-semibold text-gray-900"
+        role="status"
+      >
+        {isRunning
+          ? t('progress', { done: successCount + failedCount, total: items.length })
+          : t('partialFailure', { success: successCount, failed: failedCount })}
+      </p>
+      <ol className="mt-3 flex max-h-72 flex-col divide-y divide-gray-100 overflow-y-auto rounded-xl bg-gray-50 px-4">
+        {items.map((item) => (
+          <li
+            key={item.occurrence.dateTime.getTime()}
+            className="flex items-center justify-between gap-2 py-2.5 text-sm"
+          >
+            <span className="text-gray-900">{formatDateTime(item.occurrence.dateTime)}</span>
+            <span className={cn('text-right text-xs font-medium', STATUS_CLASS_NAMES[item.status])}>
+              {item.status === 'error'
+                ? mapApiErrorToMessage(item.error, tApiError)
+                : t(`status.${item.status}`)}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          className={outlineButtonClassName}
+          onClick={finish}
+          disabled={isRunning}
+        >
+          {t('close')}
+        </button>
+        {failedCount > 0 && (
+          <button
+            type="button"
+            className={primaryButtonClassName}
+            onClick={() => retryFailed().then(handleResult)}
+            disabled={isRunning}
+          >
+            {t('retry', { count: failedCount })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,3 +3,6 @@ export { GatheringDetailButton } from './GatheringDetailButton';
 export { FilterSection } from './FilterSection';
 export { CreateGatheringButton } from './CreateGatheringButton';
 export { CreateGatheringModal } from './CreateGatheringModal';
+export { AddToCalendarButton } from './AddToCalendarButton';
+export { EditGatheringModal } from './EditGatheringModal';
+export { GatheringSeriesBadge } from './GatheringSeriesBadge';
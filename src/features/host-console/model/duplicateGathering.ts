@@ -0,0 +1,20 @@
+import type { CreateGatheringPayload } from '@/entities/gathering/model/schema';
+import type { Gathering } from '@/entities/gathering/model/types';
+
+// 모임 복제 시 새 모임 만들기 폼에 채울 값
+// 일정은 새로 정해야 하고 이미지는 File로 다시 올려야 하므로 이름/장소/종류/정원만 가져옴
+// (달램핏은 모임 생성에서 선택할 수 없으므로 종류를 비워 둠)
+export const toDuplicateGatheringValues = ({
+  name,
+  location,
+  type,
+  capacity,
+}: Pick<
+  Gathering,
+  'name' | 'location' | 'type' | 'capacity'
+>): Partial<CreateGatheringPayload> => ({
+  name,
+  location,
+  type: type === 'DALLAEMFIT' ? undefined : type,
+  capacity,
+});
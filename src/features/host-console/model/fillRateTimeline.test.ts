@@ -0,0 +1,33 @@
+import { getFillRateTimeline } from './fillRateTimeline';
+
+describe('getFillRateTimeline', () => {
+  it('참여 시각 순으로 누적 인원과 모집률을 계산한다', () => {
+    const timeline = getFillRateTimeline(
+      [
+        { joinedAt: '2025-03-02T00:00:00Z' },
+        { joinedAt: '2025-03-01T00:00:00Z' },
+        { joinedAt: '2025-03-03T00:00:00Z' },
+      ],
+      4,
+    );
+
+    expect(timeline).toEqual([
+      { at: Date.parse('2025-03-01T00:00:00Z'), count: 1, rate: 0.25 },
+      { at: Date.parse('2025-03-02T00:00:00Z'), count: 2, rate: 0.5 },
+      { at: Date.parse('2025-03-03T00:00:00Z'), count: 3, rate: 0.75 },
+    ]);
+  });
+
+  it('모집률은 1을 넘지 않는다', () => {
+    const timeline = getFillRateTimeline(
+      [{ joinedAt: '2025-03-01T00:00:00Z' }, { joinedAt: '2025-03-02T00:00:00Z' }],
+      1,
+    );
+
+    expect(timeline.map(({ rate }) => rate)).toEqual([1, 1]);
+  });
+
+  it('참여자가 없으면 빈 배열을 반환한다', () => {
+    expect(getFillRateTimeline([], 10)).toEqual([]);
+  });
+});
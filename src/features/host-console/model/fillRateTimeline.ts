@@ -0,0 +1,22 @@
+import type { Participant } from '@/entities/participant/model/types';
+
+export interface FillRatePoint {
+  at: number; // 참여 시각 (ms)
+  count: number; // 이 시점까지 참여한 인원
+  rate: number; // 정원 대비 비율 (0~1)
+}
+
+// 참여 시각 순으로 누적 인원과 모집률 계산
+// 참여를 취소한 사람은 목록에 없으므로 현재 참여자 기준의 추이
+export const getFillRateTimeline = (
+  participants: Pick<Participant, 'joinedAt'>[],
+  capacity: number,
+): FillRatePoint[] =>
+  participants
+    .map(({ joinedAt }) => new Date(joinedAt).getTime())
+    .sort((a, b) => a - b)
+    .map((at, index) => ({
+      at,
+      count: index + 1,
+      rate: capacity > 0 ? Math.min((index + 1) / capacity, 1) : 0,
+    }));
@@ -0,0 +1,37 @@
+import { addHostNotice, getHostNotices } from './hostNoticeStorage';
+
+describe('hostNoticeStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('모임별로 공지를 저장하고 최신순으로 불러온다', () => {
+    addHostNotice(1, '첫 공지');
+    addHostNotice(1, '두 번째 공지');
+    addHostNotice(2, '다른 모임 공지');
+
+    expect(getHostNotices(1).map(({ message }) => message)).toEqual(['두 번째 공지', '첫 공지']);
+    expect(getHostNotices(2)).toHaveLength(1);
+    expect(getHostNotices(3)).toEqual([]);
+  });
+
+  it('취소 사유는 cancel 종류로 저장한다', () => {
+    const notice = addHostNotice(1, '  우천으로 취소합니다  ', 'cancel');
+
+    expect(notice).toMatchObject({ kind: 'cancel', message: '우천으로 취소합니다' });
+    expect(getHostNotices(1)[0]).toEqual(notice);
+  });
+
+  it('빈 메시지는 저장하지 않는다', () => {
+    expect(addHostNotice(1, '   ')).toBeNull();
+    expect(getHostNotices(1)).toEqual([]);
+  });
+
+  it('저장된 값이 올바르지 않으면 빈 목록을 반환한다', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('gathering-host-notices', '{invalid');
+
+    expect(getHostNotices(1)).toEqual([]);
+    consoleError.mockRestore();
+  });
+});
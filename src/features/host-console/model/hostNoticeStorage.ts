@@ -0,0 +1,56 @@
+// 주최자가 참여자에게 보낸 공지를 localStorage에 저장
+// 백엔드에 공지 API가 생기기 전까지 같은 브라우저에서만 보임
+export type HostNoticeKind = 'message' | 'cancel';
+
+export interface HostNotice {
+  id: string;
+  kind: HostNoticeKind; // cancel: 모임 취소 사유
+  message: string;
+  sentAt: number;
+}
+
+// 모임 id -> 보낸 순서대로 정렬된 공지 목록
+type HostNoticeStore = Record<string, HostNotice[]>;
+
+const HOST_NOTICE_KEY = 'gathering-host-notices';
+
+const getHostNoticeStore = (): HostNoticeStore => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const data = localStorage.getItem(HOST_NOTICE_KEY);
+    return data ? (JSON.parse(data) as HostNoticeStore) : {};
+  } catch (error) {
+    console.error('로컬 스토리지에서 모임 공지를 불러오는 데 실패했습니다:', error);
+    return {};
+  }
+};
+
+const saveHostNoticeStore = (store: HostNoticeStore) => {
+  try {
+    localStorage.setItem(HOST_NOTICE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('로컬 스토리지에 모임 공지를 저장하는 데 실패했습니다:', error);
+  }
+};
+
+// 모임 공지 목록 (최신순)
+export const getHostNotices = (gatheringId: number): HostNotice[] =>
+  [...(getHostNoticeStore()[gatheringId] ?? [])].reverse();
+
+// 공지 저장 (앞뒤 공백을 제거하고 빈 메시지는 저장하지 않음)
+export const addHostNotice = (
+  gatheringId: number,
+  message: string,
+  kind: HostNoticeKind = 'message',
+): HostNotice | null => {
+  const trimmed = message.trim();
+  if (typeof window === 'undefined' || !trimmed) return null;
+
+  const store = getHostNoticeStore();
+  const notices = store[gatheringId] ?? [];
+  const sentAt = Date.now();
+  const notice: HostNotice = { id: `${sentAt}-${notices.length}`, kind, message: trimmed, sentAt };
+  store[gatheringId] = [...notices, notice];
+  saveHostNoticeStore(store);
+  return notice;
+};
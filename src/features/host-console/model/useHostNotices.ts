@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  type HostNotice,
+  type HostNoticeKind,
+  addHostNotice,
+  getHostNotices,
+} from './hostNoticeStorage';
+
+// 모임 공지 목록과 공지 보내기
+export const useHostNotices = (gatheringId: number) => {
+  const [notices, setNotices] = useState<HostNotice[]>([]);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후(또는 모임이 바뀌면) 불러옴
+  useEffect(() => {
+    setNotices(getHostNotices(gatheringId));
+  }, [gatheringId]);
+
+  const send = useCallback(
+    (message: string, kind?: HostNoticeKind) => {
+      const notice = addHostNotice(gatheringId, message, kind);
+      if (notice) setNotices(getHostNotices(gatheringId));
+      return notice;
+    },
+    [gatheringId],
+  );
+
+  return { notices, send };
+};
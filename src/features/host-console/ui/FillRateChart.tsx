@@ -0,0 +1,79 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { formatDateAndTime } from '@/shared/lib/date';
+import type { FillRatePoint } from '../model/fillRateTimeline';
+
+interface FillRateChartProps {
+  timeline: FillRatePoint[];
+  capacity: number;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+// 첫 참여부터 마지막 참여까지의 누적 모집률을 계단형 선으로 표시
+const toStepPath = (timeline: FillRatePoint[]) => {
+  const startAt = timeline[0].at;
+  const range = timeline[timeline.length - 1].at - startAt;
+  const toX = (at: number) => (range > 0 ? ((at - startAt) / range) * CHART_WIDTH : 0);
+  const toY = (rate: number) => CHART_HEIGHT - rate * CHART_HEIGHT;
+
+  let path = `M 0 ${CHART_HEIGHT}`;
+  timeline.forEach(({ at, rate }) => {
+    path += ` H ${toX(at)} V ${toY(rate)}`;
+  });
+  return `${path} H ${CHART_WIDTH}`;
+};
+
+export const FillRateChart = ({ timeline, capacity }: FillRateChartProps) => {
+  const t = useTranslations('pages.gathering.hostConsole.fillRate');
+  const locale = useLocale();
+
+  if (timeline.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">{t('empty')}</p>;
+  }
+
+  const last = timeline[timeline.length - 1];
+  const formatAt = (at: number) =>
+    formatDateAndTime(new Date(at).toISOString(), locale).formattedDate;
+  const summary = t('summary', {
+    count: last.count,
+    capacity,
+    rate: Math.round(last.rate * 100),
+  });
+
+  return (
+    <figure className="flex flex-col gap-2">
+      <figcaption className="text-sm font-semibold text-gray-800">{summary}</figcaption>
+      <svg
+        role="img"
+        aria-label={summary}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-32 w-full rounded-lg bg-gray-50"
+      >
+        {/* 정원(100%) 기준선 */}
+        <line
+          x1={0}
+          y1={1}
+          x2={CHART_WIDTH}
+          y2={1}
+          className="stroke-gray-300"
+          strokeDasharray="4 4"
+        />
+        <path
+          d={toStepPath(timeline)}
+          fill="none"
+          className="stroke-orange-500"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatAt(timeline[0].at)}</span>
+        <span>{formatAt(last.at)}</span>
+      </div>
+    </figure>
+  );
+};
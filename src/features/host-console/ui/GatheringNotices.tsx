@@ -0,0 +1,24 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { useHostNotices } from '../model/useHostNotices';
+import { HostNoticeList } from './HostNoticeList';
+
+interface GatheringNoticesProps {
+  gatheringId: number;
+}
+
+// 모임 상세: 주최자가 보낸 공지 (공지가 없으면 표시하지 않음)
+export const GatheringNotices = ({ gatheringId }: GatheringNoticesProps) => {
+  const t = useTranslations('pages.gathering.hostConsole.notices');
+  const { notices } = useHostNotices(gatheringId);
+
+  if (notices.length === 0) return null;
+
+  return (
+    <section className="mx-auto mb-8 w-full max-w-[996px]">
+      <h2 className="mb-2 text-lg font-semibold">{t('title')}</h2>
+      <HostNoticeList notices={notices} />
+    </section>
+  );
+};
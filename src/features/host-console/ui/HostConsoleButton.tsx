@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import type { Gathering } from '@/entities/gathering/model/types';
+import { CreateGatheringModal } from '@/features/gathering/ui';
+import { Button } from '@/shared/ui/button';
+import { toDuplicateGatheringValues } from '../model/duplicateGathering';
+import { HostConsoleModal } from './HostConsoleModal';
+
+interface HostConsoleButtonProps {
+  gathering: Gathering;
+}
+
+// 마이페이지 > 내가 만든 모임: 모임 관리 열기 (복제하면 관리 창을 닫고 모임 만들기 폼을 채워서 엶)
+export const HostConsoleButton = ({ gathering }: HostConsoleButtonProps) => {
+  const t = useTranslations('pages.gathering.hostConsole');
+  const [openModal, setOpenModal] = useState<'console' | 'duplicate' | null>(null);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="border-orange-500 px-3 py-1.5 text-orange-500 hover:bg-orange-50"
+        onClick={() => setOpenModal('console')}
+      >
+        {t('open')}
+      </Button>
+
+      {openModal === 'console' && (
+        <HostConsoleModal
+          gathering={gathering}
+          isOpen
+          onClose={() => setOpenModal(null)}
+          onDuplicate={() => setOpenModal('duplicate')}
+        />
+      )}
+
+      {openModal === 'duplicate' && (
+        <CreateGatheringModal
+          isOpen
+          onClose={() => setOpenModal(null)}
+          defaultValues={toDuplicateGatheringValues(gathering)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,143 @@
+import { getSession } from 'next-auth/react';
+import type { Gathering } from '@/entities/gathering/model/types';
+import {
+  addMockParticipant,
+  createMockGathering,
+  createMockUser,
+  getMockDb,
+  getMockToken,
+  resetMockDb,
+} from '@/shared/lib/msw/db';
+import { TestWrapper } from '@/shared/lib/test/testUtils';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { getHostNotices } from '../model/hostNoticeStorage';
+import { HostConsoleModal } from './HostConsoleModal';
+
+jest.mock('next-auth/react', () => ({
+  getSession: jest.fn(),
+}));
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'ko',
+  useTranslations: () => (key: string, values?: Record<string, string>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+const mockGetSession = getSession as jest.Mock;
+
+const GATHERING_ID = 1;
+
+const createGathering = (overrides: Partial<Gathering> = {}): Gathering => ({
+  teamId: 1,
+  id: GATHERING_ID,
+  type: 'MINDFULNESS',
+  name: '저녁 명상',
+  dateTime: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7).toISOString(),
+  registrationEnd: new Date(Date.now() + 1000 * 60 * 60 * 24 * 6).toISOString(),
+  location: '신림',
+  participantCount: 2,
+  capacity: 4,
+  image: '/gathering-default-image.png',
+  createdBy: 1,
+  canceledAt: null,
+  ...overrides,
+});
+
+const renderModal = (props: Partial<React.ComponentProps<typeof HostConsoleModal>> = {}) =>
+  render(
+    <HostConsoleModal
+      gathering={createGathering()}
+      isOpen
+      onClose={jest.fn()}
+      onDuplicate={jest.fn()}
+      {...props}
+    />,
+    { wrapper: TestWrapper },
+  );
+
+describe('HostConsoleModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    resetMockDb(() => {
+      const host = createMockUser({ name: '호스트' });
+      const member = createMockUser({ name: '멤버', email: 'member@test.com' });
+      createMockGathering({ id: GATHERING_ID, capacity: 4, createdBy: host.id });
+      addMockParticipant(GATHERING_ID, host.id);
+      addMockParticipant(GATHERING_ID, member.id);
+    });
+    mockGetSession.mockResolvedValue({ user: { accessToken: getMockToken(1) } });
+  });
+
+  it('참여자 명단을 보여준다', async () => {
+    renderModal();
+
+    expect(await screen.findByText('멤버')).toBeInTheDocument();
+    expect(screen.getByText('member@test.com')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'tabs.roster:2' })).toBeInTheDocument();
+  });
+
+  it('모집 추이 탭에서 현재 모집률을 보여준다', async () => {
+    const user = userEvent.setup();
+    renderModal();
+    await screen.findByText('멤버');
+
+    await user.click(screen.getByRole('button', { name: 'tabs.fillRate' }));
+
+    expect(screen.getByRole('img', { name: 'summary:2,4,50' })).toBeInTheDocument();
+  });
+
+  it('참여자에게 공지를 보내면 목록에 추가하고 저장한다', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    await user.click(screen.getByRole('button', { name: 'tabs.notices' }));
+    expect(screen.getByText('notices.empty')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'notices.send' })).toBeDisabled();
+
+    await user.type(screen.getByRole('textbox'), '준비물은 요가 매트입니다');
+    await user.click(screen.getByRole('button', { name: 'notices.send' }));
+
+    expect(screen.getByText('준비물은 요가 매트입니다')).toBeInTheDocument();
+    expect(screen.getByRole('textbox')).toHaveValue('');
+    expect(getHostNotices(GATHERING_ID)).toEqual([
+      expect.objectContaining({ kind: 'message', message: '준비물은 요가 매트입니다' }),
+    ]);
+  });
+
+  it('취소 사유를 입력하고 모임을 취소하면 사유를 공지로 남긴다', async () => {
+    const user = userEvent.setup();
+    const onClose = jest.fn();
+    renderModal({ onClose });
+
+    await user.click(screen.getByRole('button', { name: 'cancel.open' }));
+    expect(screen.getByRole('button', { name: 'cancel.confirm' })).toBeDisabled();
+
+    await user.type(screen.getByLabelText('cancel.reasonLabel'), '장소 대관이 취소되었습니다');
+    await user.click(screen.getByRole('button', { name: 'cancel.confirm' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(getMockDb().gatherings[0].canceledAt).not.toBeNull();
+    expect(getHostNotices(GATHERING_ID)).toEqual([
+      expect.objectContaining({ kind: 'cancel', message: '장소 대관이 취소되었습니다' }),
+    ]);
+  });
+
+  it('이미 취소되었거나 지난 모임은 취소할 수 없다', () => {
+    renderModal({ gathering: createGathering({ canceledAt: new Date().toISOString() }) });
+
+    expect(screen.queryByRole('button', { name: 'cancel.open' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'duplicate' })).toBeInTheDocument();
+  });
+
+  it('복제 버튼을 누르면 onDuplicate를 호출한다', async () => {
+    const user = userEvent.setup();
+    const onDuplicate = jest.fn();
+    renderModal({ onDuplicate });
+
+    await user.click(screen.getByRole('button', { name: 'duplicate' }));
+
+    expect(onDuplicate).toHaveBeenCalledTimes(1);
+  });
+});
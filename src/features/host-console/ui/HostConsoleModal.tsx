@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCancelGathering } from '@/entities/gathering-detail/api/queries';
+import type { Gathering } from '@/entities/gathering/model/types';
+import { useGetAllParticipants } from '@/entities/participant/api/queries';
+import { formatDateAndTime } from '@/shared/lib/date';
+import { ProfileImage } from '@/shared/ui/ProfileImage';
+import { Button } from '@/shared/ui/button';
+import { InputTextarea } from '@/shared/ui/input';
+import { Modal } from '@/shared/ui/modal';
+import { Tab } from '@/shared/ui/tab';
+import { getFillRateTimeline } from '../model/fillRateTimeline';
+import { useHostNotices } from '../model/useHostNotices';
+import { FillRateChart } from './FillRateChart';
+import { HostNoticeList } from './HostNoticeList';
+
+type HostConsoleTab = 'roster' | 'fillRate' | 'notices';
+
+interface HostConsoleModalProps {
+  gathering: Gathering;
+  isOpen: boolean;
+  onClose: () => void;
+  onDuplicate: () => void; // 이 모임의 정보로 새 모임 만들기
+}
+
+// 주최자 관리: 참여자 명단, 모집 추이, 참여자 공지, 모임 복제/취소
+export const HostConsoleModal = ({
+  gathering,
+  isOpen,
+  onClose,
+  onDuplicate,
+}: HostConsoleModalProps) => {
+  const t = useTranslations('pages.gathering.hostConsole');
+  const locale = useLocale();
+  const [tab, setTab] = useState<HostConsoleTab>('roster');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [message, setMessage] = useState('');
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data: participants = [], isLoading } = useGetAllParticipants(gathering.id, {
+    enabled: isOpen,
+  });
+  const { notices, send } = useHostNotices(gathering.id);
+  const { mutate: cancelGathering, isPending: isCancelPending } = useCancelGathering();
+
+  const isCancelable = !gathering.canceledAt && new Date(gathering.dateTime) > new Date();
+
+  const handleSend = () => {
+    if (send(message)) setMessage('');
+  };
+
+  // 취소 사유는 참여자 공지로 함께 남김
+  const handleCancel = () => {
+    cancelGathering(gathering.id, {
+      onSuccess: () => {
+        send(cancelReason, 'cancel');
+        setIsCancelling(false);
+        onClose();
+      },
+    });
+  };
+
+  return (
+    <Modal.Root
+      isOpen={isOpen}
+      onClose={onClose}
+      variant="form"
+    >
+      <Modal.Header>{t('title', { name: gathering.name })}</Modal.Header>
+
+      {isCancelling ? (
+        <Modal.Body>
+          <label
+            htmlFor="host-console-cancel-reason"
+            className="text-sm font-semibold text-gray-800"
+          >
+            {t('cancel.reasonLabel')}
+          </label>
+          <InputTextarea
+            id="host-console-cancel-reason"
+            value={cancelReason}
+            onChange={(event) => setCancelReason(event.target.value)}
+            placeholder={t('cancel.reasonPlaceholder')}
+            className="mt-2 w-full"
+          />
+          <p className="mt-2 text-xs text-gray-500">{t('cancel.description')}</p>
+          <div className="mt-4 flex gap-2">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setIsCancelling(false)}
+            >
+              {t('cancel.back')}
+            </Button>
+            <Button
+              className="w-full"
+              onClick={handleCancel}
+              disabled={!cancelReason.trim() || isCancelPending}
+            >
+              {t('cancel.confirm')}
+            </Button>
+          </div>
+        </Modal.Body>
+      ) : (
+        <>
+          <Tab
+            className="mt-4"
+            size="sm"
+            items={[
+              { id: 'roster', label: t('tabs.roster', { count: participants.length }) },
+              { id: 'fillRate', label: t('tabs.fillRate') },
+              { id: 'notices', label: t('tabs.notices') },
+            ]}
+            selectedId={tab}
+            onSelect={(id) => setTab(id as HostConsoleTab)}
+          />
+          <Modal.Body>
+            <div className="max-h-[50vh] min-h-40">
+              {tab === 'roster' &&
+                (isLoading ? (
+                  <p className="py-8 text-center text-sm text-gray-500">{t('roster.loading')}</p>
+                ) : participants.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-gray-500">{t('roster.empty')}</p>
+                ) : (
+                  <ul className="flex flex-col divide-y divide-gray-100">
+                    {participants.map(({ userId, User, joinedAt }) => {
+                      const { formattedDate, formattedTime } = formatDateAndTime(joinedAt, locale);
+                      return (
+                        <li
+                          key={userId}
+                          className="flex items-center gap-3 py-2"
+                        >
+                          <ProfileImage
+                            size={32}
+                            url={User.image ?? undefined}
+                          />
+                          <div className="flex min-w-0 flex-1 flex-col">
+                            <span className="truncate text-sm font-semibold text-gray-900">
+                              {User.name}
+                            </span>
+                            <span className="truncate text-xs text-gray-500">{User.email}</span>
+                          </div>
+                          <time
+                            dateTime={joinedAt}
+                            className="shrink-0 text-xs text-gray-500"
+                          >
+                            {formattedDate} {formattedTime}
+                          </time>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ))}
+
+              {tab === 'fillRate' && (
+                <FillRateChart
+                  timeline={getFillRateTimeline(participants, gathering.capacity)}
+                  capacity={gathering.capacity}
+                />
+              )}
+
+              {tab === 'notices' && (
+                <div className="flex flex-col gap-3">
+                  <InputTextarea
+                    aria-label={t('notices.placeholder')}
+                    value={message}
+                    onChange={(event) => setMessage(event.target.value)}
+                    placeholder={t('notices.placeholder')}
+                    className="h-24 w-full"
+                  />
+                  <p className="text-xs text-gray-500">{t('notices.localOnly')}</p>
+                  <Button
+                    className="self-end px-4 py-1.5 text-sm"
+                    onClick={handleSend}
+                    disabled={!message.trim()}
+                  >
+                    {t('notices.send')}
+                  </Button>
+                  {notices.length > 0 ? (
+                    <HostNoticeList notices={notices} />
+                  ) : (
+                    <p className="py-4 text-center text-sm text-gray-500">{t('notices.empty')}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </Modal.Body>
+          <div className="mt-4 flex gap-2">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={onDuplicate}
+            >
+              {t('duplicate')}
+            </Button>
+            {isCancelable && (
+              <Button
+                variant="outline"
+                className="w-full border-red-500 text-red-500 hover:bg-red-50"
+                onClick={() => setIsCancelling(true)}
+              >
+                {t('cancel.open')}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </Modal.Root>
+  );
+};
@@ -0,0 +1,44 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { formatDateAndTime } from '@/shared/lib/date';
+import type { HostNotice } from '../model/hostNoticeStorage';
+
+interface HostNoticeListProps {
+  notices: HostNotice[];
+}
+
+// 주최자 공지 목록 (모임 취소 사유는 강조 표시)
+export const HostNoticeList = ({ notices }: HostNoticeListProps) => {
+  const t = useTranslations('pages.gathering.hostConsole.notices');
+  const locale = useLocale();
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {notices.map(({ id, kind, message, sentAt }) => {
+        const { formattedDate, formattedTime } = formatDateAndTime(
+          new Date(sentAt).toISOString(),
+          locale,
+        );
+        return (
+          <li
+            key={id}
+            className="rounded-lg bg-gray-50 px-3 py-2"
+          >
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+              {kind === 'cancel' ? (
+                <span className="font-semibold text-red-500">{t('cancelReason')}</span>
+              ) : (
+                <span>{t('message')}</span>
+              )}
+              <time dateTime={new Date(sentAt).toISOString()}>
+                {formattedDate} {formattedTime}
+              </time>
+            </div>
+            <p className="mt-1 text-sm break-words whitespace-pre-line text-gray-800">{message}</p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
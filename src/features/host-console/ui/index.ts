@@ -0,0 +1,3 @@
+export { GatheringNotices } from './GatheringNotices';
+export { HostConsoleButton } from './HostConsoleButton';
+export { HostConsoleModal } from './HostConsoleModal';
@@ -0,0 +1,83 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import toast from 'react-hot-toast';
+import { CalendarFeedSubscription } from './CalendarFeedSubscription';
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'ko',
+  useTranslations: () => (key: string, values?: Record<string, string>) =>
+    values ? `${key} ${Object.values(values).join(' ')}` : key,
+}));
+
+const mockIssueFeed = jest.fn();
+
+jest.mock('@/entities/gathering/api', () => ({
+  useIssueCalendarFeed: () => ({ mutate: mockIssueFeed, isPending: false }),
+}));
+
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: { success: jest.fn() },
+}));
+
+describe('CalendarFeedSubscription', () => {
+  const writeText = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    Object.assign(navigator, { clipboard: { writeText } });
+  });
+
+  it('구독 토큰과 언어를 담은 피드 주소를 보여준다', () => {
+    render(<CalendarFeedSubscription feedToken="abc.def" />);
+
+    expect(screen.getByRole('textbox', { name: 'urlLabel' })).toHaveValue(
+      `${window.location.origin}/api/calendar/feed?token=abc.def&locale=ko`,
+    );
+    expect(screen.getByRole('link', { name: 'open' })).toHaveAttribute(
+      'href',
+      `webcal://${window.location.host}/api/calendar/feed?token=abc.def&locale=ko`,
+    );
+  });
+
+  it('복사 버튼을 누르면 피드 주소를 클립보드에 복사한다', async () => {
+    render(<CalendarFeedSubscription feedToken="abc.def" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'copy' }));
+
+    expect(writeText).toHaveBeenCalledWith(
+      `${window.location.origin}/api/calendar/feed?token=abc.def&locale=ko`,
+    );
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('copySuccess'));
+  });
+
+  it('액세스 토큰을 감싼 주소면 만료 시각을 안내하고 다시 발급할 수 없다', () => {
+    render(
+      <CalendarFeedSubscription
+        feedToken="abc.def"
+        expiresAt={new Date(2025, 2, 10, 9, 5).getTime()}
+      />,
+    );
+
+    expect(screen.getByText('expiresAt 2025-03-10 09:05')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'reissue' })).not.toBeInTheDocument();
+  });
+
+  it('새 주소를 발급하면 새 토큰으로 주소를 바꾼다', async () => {
+    mockIssueFeed.mockImplementation((_, { onSuccess }) =>
+      onSuccess({ token: 'next-token', createdAt: '2025-03-10T00:00:00.000Z' }),
+    );
+    render(
+      <CalendarFeedSubscription
+        feedToken="prev-token"
+        reissuable
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'reissue' }));
+
+    expect(screen.getByRole('textbox', { name: 'urlLabel' })).toHaveValue(
+      `${window.location.origin}/api/calendar/feed?token=next-token&locale=ko`,
+    );
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('reissueSuccess'));
+    expect(screen.queryByText(/^expiresAt/)).not.toBeInTheDocument();
+  });
+});
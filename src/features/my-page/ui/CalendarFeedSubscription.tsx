@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useIssueCalendarFeed } from '@/entities/gathering/api';
+import { formatDateAndTime } from '@/shared/lib/date';
+import { Button } from '@/shared/ui/button';
+import toast from 'react-hot-toast';
+
+const CALENDAR_FEED_PATH = '/api/calendar/feed';
+
+interface CalendarFeedSubscriptionProps {
+  feedToken: string; // 서버에서 발급한 구독 토큰
+  expiresAt?: number; // 구독 주소가 만료되는 시각 (ms, 액세스 토큰을 감싼 토큰일 때)
+  reissuable?: boolean; // 서버에 저장된 토큰이라 다시 발급해 이전 주소를 폐기할 수 있는지
+}
+
+// 참여한 모임 전체를 캘린더 앱에서 구독할 수 있는 주소 (새 모임에 참여하면 자동으로 반영)
+export const CalendarFeedSubscription = ({
+  feedToken,
+  expiresAt,
+  reissuable = false,
+}: CalendarFeedSubscriptionProps) => {
+  const t = useTranslations('pages.myPage.calendarFeed');
+  const locale = useLocale();
+  const [origin, setOrigin] = useState('');
+  const [token, setToken] = useState(feedToken);
+  const { mutate: issueFeed, isPending: isIssuing } = useIssueCalendarFeed();
+
+  // 서버 렌더링 시에는 사이트 주소를 알 수 없으므로 마운트 후 설정
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const query = new URLSearchParams({ token, locale }).toString();
+  const feedUrl = `${origin}${CALENDAR_FEED_PATH}?${query}`;
+  const webcalUrl = feedUrl.replace(/^https?:/, 'webcal:');
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(feedUrl).then(() => {
+      toast.success(t('copySuccess'));
+    });
+  };
+
+  // 새 주소를 발급하면 이전 주소로 구독한 캘린더는 더 이상 갱신되지 않음
+  const handleReissue = () => {
+    issueFeed(undefined, {
+      onSuccess: (feed) => {
+        if (!feed.token) return;
+        setToken(feed.token);
+        toast.success(t('reissueSuccess'));
+      },
+    });
+  };
+
+  const expiry = expiresAt ? formatDateAndTime(new Date(expiresAt).toISOString(), locale) : null;
+
+  return (
+    <section className="mb-6 flex flex-col gap-2 rounded-xl border border-gray-200 bg-white p-4">
+      <h2 className="font-semibold">{t('title')}</h2>
+      <p className="text-sm text-gray-500">{t('description')}</p>
+      <div className="tablet:flex-row flex flex-col gap-2">
+        <input
+          readOnly
+          value={feedUrl}
+          aria-label={t('urlLabel')}
+          onFocus={(e) => e.target.select()}
+          className="min-w-0 flex-1 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700"
+        />
+        <Button
+          variant="outline"
+          className="text-sm"
+          onClick={handleCopy}
+          disabled={!origin}
+        >
+          {t('copy')}
+        </Button>
+        <a
+          href={webcalUrl}
+          className="flex items-center justify-center rounded-[var(--radius-button)] bg-orange-500 px-4 py-2 text-sm text-white hover:bg-orange-600"
+        >
+          {t('open')}
+        </a>
+      </div>
+      {expiry && (
+        <p className="text-xs text-gray-500">
+          {t('expiresAt', { date: `${expiry.formattedYearMonthDay} ${expiry.formattedTime}` })}
+        </p>
+      )}
+      {reissuable && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-500">{t('reissueDescription')}</p>
+          <Button
+            variant="outline"
+            className="shrink-0 text-sm"
+            onClick={handleReissue}
+            disabled={isIssuing}
+          >
+            {t('reissue')}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -2,3 +2,4 @@ export { MyPageActionButton } from './MyPageActionButton';
 export { MyPageTab } from './MyPageTab';
 export { ProfileEditBtn } from './ProfileEditBtn';
 export { CreateReviewBtn } from './CreateReviewBtn';
+export { CalendarFeedSubscription } from './CalendarFeedSubscription';
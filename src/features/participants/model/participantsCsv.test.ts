@@ -0,0 +1,36 @@
+import type { Participant } from '@/entities/participant/model/types';
+import { participantsToCsv } from './participantsCsv';
+
+const createParticipant = (userId: number, name: string, companyName: string): Participant => ({
+  teamId: 1,
+  userId,
+  gatheringId: 1,
+  joinedAt: new Date(2025, 2, 10, 9, 5).toISOString(),
+  User: { id: userId, email: `${userId}@example.com`, name, companyName, image: null },
+});
+
+describe('participantsToCsv', () => {
+  it('이름, 회사, 참여 일시를 열로 만든다', () => {
+    const csv = participantsToCsv(
+      [createParticipant(1, '홍길동', '코드잇'), createParticipant(2, '김철수', '달램, 주식회사')],
+      { name: '이름', companyName: '회사', joinedAt: '참여 일시' },
+      'ko',
+    );
+
+    expect(csv.split('\r\n')).toEqual([
+      '이름,회사,참여 일시',
+      '홍길동,코드잇,2025-03-10 09:05',
+      '김철수,"달램, 주식회사",2025-03-10 09:05',
+    ]);
+  });
+
+  it('다른 사용자가 입력한 이름과 회사가 엑셀 수식으로 실행되지 않게 한다', () => {
+    const csv = participantsToCsv(
+      [createParticipant(1, '=1+1', '@evil')],
+      { name: '이름', companyName: '회사', joinedAt: '참여 일시' },
+      'ko',
+    );
+
+    expect(csv.split('\r\n')[1]).toBe(`"'=1+1","'@evil",2025-03-10 09:05`);
+  });
+});
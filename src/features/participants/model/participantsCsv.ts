@@ -0,0 +1,30 @@
+import type { Participant } from '@/entities/participant/model/types';
+import { toCsv } from '@/shared/lib/csv';
+import { formatDateAndTime } from '@/shared/lib/date';
+
+interface ParticipantsCsvLabels {
+  name: string;
+  companyName: string;
+  joinedAt: string;
+}
+
+// 참여 일시는 엑셀에서 정렬할 수 있도록 YYYY-MM-DD HH:mm 형식
+export const formatParticipantJoinedAt = (joinedAt: string, locale: string) => {
+  const { formattedYearMonthDay, formattedTime } = formatDateAndTime(joinedAt, locale);
+  return `${formattedYearMonthDay} ${formattedTime}`;
+};
+
+// 참여자 목록을 CSV로 변환 (헤더는 현재 언어의 라벨 사용)
+export const participantsToCsv = (
+  participants: Participant[],
+  labels: ParticipantsCsvLabels,
+  locale: string,
+) =>
+  toCsv(
+    [labels.name, labels.companyName, labels.joinedAt],
+    participants.map(({ User, joinedAt }) => [
+      User.name,
+      User.companyName,
+      formatParticipantJoinedAt(joinedAt, locale),
+    ]),
+  );
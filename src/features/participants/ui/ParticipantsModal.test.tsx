@@ -0,0 +1,137 @@
+import { downloadCsvFile } from '@/shared/lib/csv';
+import {
+  addMockParticipant,
+  createMockGathering,
+  createMockUser,
+  resetMockDb,
+} from '@/shared/lib/msw/db';
+import { TestWrapper } from '@/shared/lib/test/testUtils';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ParticipantsModal } from './ParticipantsModal';
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'ko',
+  useTranslations: () => (key: string, values?: Record<string, string>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+jest.mock('@/shared/lib/csv', () => ({
+  ...jest.requireActual('@/shared/lib/csv'),
+  downloadCsvFile: jest.fn(),
+}));
+
+// 화면에 보이는 대신 버튼으로 다음 페이지 요청
+jest.mock('@/shared/ui/InfiniteScrollObserver/InfiniteScrollObserver', () => ({
+  InfiniteScrollObserver: ({
+    onFetchNextPage,
+    hasNextPage,
+  }: {
+    onFetchNextPage: () => void;
+    hasNextPage: boolean;
+  }) =>
+    hasNextPage ? (
+      <button
+        type="button"
+        onClick={onFetchNextPage}
+      >
+        more
+      </button>
+    ) : null,
+}));
+
+const mockedDownloadCsvFile = jest.mocked(downloadCsvFile);
+
+const GATHERING_ID = 1;
+
+// 참여 순서대로 사용자 n명을 모임에 추가 (joinedAt이 1분씩 늦어지도록)
+const seedParticipants = (count: number) => {
+  jest.useFakeTimers({ now: new Date('2025-03-01T00:00:00Z'), doNotFake: ['setTimeout'] });
+  createMockGathering({ id: GATHERING_ID, capacity: 30 });
+  for (let i = 1; i <= count; i++) {
+    const user = createMockUser({ name: `참여자${i}` });
+    addMockParticipant(GATHERING_ID, user.id);
+    jest.advanceTimersByTime(1000 * 60);
+  }
+  jest.useRealTimers();
+};
+
+const renderModal = (props: Partial<React.ComponentProps<typeof ParticipantsModal>> = {}) =>
+  render(
+    <ParticipantsModal
+      gatheringId={GATHERING_ID}
+      isOpen
+      onClose={jest.fn()}
+      {...props}
+    />,
+    { wrapper: TestWrapper },
+  );
+
+describe('ParticipantsModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetMockDb(() => {});
+  });
+
+  it('참여자가 없으면 빈 상태를 보여준다', async () => {
+    createMockGathering({ id: GATHERING_ID });
+
+    renderModal();
+
+    expect(await screen.findByText('empty')).toBeInTheDocument();
+  });
+
+  it('참여자를 먼저 참여한 순으로 보여주고 다음 페이지를 이어서 불러온다', async () => {
+    const user = userEvent.setup();
+    seedParticipants(25);
+
+    renderModal();
+
+    const items = await screen.findAllByRole('listitem');
+    expect(items).toHaveLength(20);
+    expect(items[0]).toHaveTextContent('참여자1');
+
+    await user.click(screen.getByRole('button', { name: 'more' }));
+
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(25));
+    expect(screen.queryByRole('button', { name: 'more' })).not.toBeInTheDocument();
+  });
+
+  it('최근 참여한 순으로 정렬할 수 있다', async () => {
+    const user = userEvent.setup();
+    seedParticipants(3);
+
+    renderModal();
+    expect((await screen.findAllByRole('listitem'))[0]).toHaveTextContent('참여자1');
+
+    await user.click(screen.getByRole('button', { name: /sort.oldest/ }));
+    await user.click(screen.getByText('sort.latest'));
+
+    await waitFor(() => expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('참여자3'));
+  });
+
+  it('주최자가 아니면 CSV 내보내기 버튼이 없다', async () => {
+    seedParticipants(1);
+
+    renderModal();
+
+    expect(await screen.findByText('참여자1')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'export' })).not.toBeInTheDocument();
+  });
+
+  it('주최자는 전체 참여자를 CSV로 내보낼 수 있다', async () => {
+    const user = userEvent.setup();
+    seedParticipants(25);
+
+    renderModal({ canExport: true });
+    await screen.findAllByRole('listitem');
+    await user.click(screen.getByRole('button', { name: 'export' }));
+
+    await waitFor(() => expect(mockedDownloadCsvFile).toHaveBeenCalledTimes(1));
+    const [csv, fileName] = mockedDownloadCsvFile.mock.calls[0];
+    expect(fileName).toBe(`gathering-${GATHERING_ID}-participants`);
+    // 헤더 + 25명
+    expect(csv.split('\r\n')).toHaveLength(26);
+    expect(csv.split('\r\n')[0]).toBe('name,companyName,joinedAt');
+  });
+});
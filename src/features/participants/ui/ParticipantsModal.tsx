@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useGetParticipantsInfinite } from '@/entities/participant/api/queries';
+import { getAllParticipants } from '@/entities/participant/api/services';
+import { downloadCsvFile } from '@/shared/lib/csv';
+import { InfiniteScrollObserver } from '@/shared/ui/InfiniteScrollObserver/InfiniteScrollObserver';
+import { ProfileImage } from '@/shared/ui/ProfileImage';
+import { Button } from '@/shared/ui/button';
+import { Modal } from '@/shared/ui/modal';
+import { Sort } from '@/shared/ui/sort';
+import toast from 'react-hot-toast';
+import { formatParticipantJoinedAt, participantsToCsv } from '../model/participantsCsv';
+
+// API는 joinedAt 정렬만 지원
+const SORT_ORDERS = { latest: 'desc', oldest: 'asc' } as const;
+type ParticipantSort = keyof typeof SORT_ORDERS;
+
+interface ParticipantsModalProps {
+  gatheringId: number;
+  isOpen: boolean;
+  onClose: () => void;
+  canExport?: boolean; // 주최자만 CSV 내보내기 가능
+}
+
+// 모임 참여자 전체 목록 (무한스크롤, 정렬, 주최자용 CSV 내보내기)
+export const ParticipantsModal = ({
+  gatheringId,
+  isOpen,
+  onClose,
+  canExport = false,
+}: ParticipantsModalProps) => {
+  const t = useTranslations('pages.gathering.detail.participants');
+  const locale = useLocale();
+  const [sort, setSort] = useState<ParticipantSort>('oldest');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const sortOptions = { sortBy: 'joinedAt', sortOrder: SORT_ORDERS[sort] };
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useGetParticipantsInfinite(gatheringId, sortOptions, { enabled: isOpen });
+  const participants = data?.pages.flat() ?? [];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const allParticipants = await getAllParticipants(gatheringId, sortOptions);
+      const csv = participantsToCsv(
+        allParticipants,
+        { name: t('name'), companyName: t('companyName'), joinedAt: t('joinedAt') },
+        locale,
+      );
+      downloadCsvFile(csv, `gathering-${gatheringId}-participants`);
+    } catch {
+      toast.error(t('exportError'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal.Root
+      isOpen={isOpen}
+      onClose={onClose}
+      variant="form"
+    >
+      <Modal.Header>{t('title')}</Modal.Header>
+      <div className="mt-4 flex items-center justify-between gap-2">
+        <Sort
+          options={[
+            { label: t('sort.oldest'), value: 'oldest' },
+            { label: t('sort.latest'), value: 'latest' },
+          ]}
+          selected={sort}
+          onChange={(value) => setSort(value as ParticipantSort)}
+        />
+        {canExport && (
+          <Button
+            variant="outline"
+            className="px-3 py-1.5 text-sm"
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            {t('export')}
+          </Button>
+        )}
+      </div>
+      <Modal.Body>
+        <div className="max-h-[60vh]">
+          {isLoading ? (
+            <p className="py-8 text-center text-sm text-gray-500">{t('loading')}</p>
+          ) : participants.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">{t('empty')}</p>
+          ) : (
+            <ul className="flex flex-col divide-y divide-gray-100">
+              {participants.map(({ userId, User, joinedAt }) => (
+                <li
+                  key={userId}
+                  className="flex items-center gap-3 py-3"
+                >
+                  <ProfileImage
+                    size={36}
+                    url={User.image ?? undefined}
+                  />
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate font-semibold text-gray-900">{User.name}</span>
+                    <span className="truncate text-sm text-gray-500">{User.companyName}</span>
+                  </div>
+                  <time
+                    dateTime={joinedAt}
+                    className="shrink-0 text-xs text-gray-500"
+                  >
+                    {t('joinedAtValue', { date: formatParticipantJoinedAt(joinedAt, locale) })}
+                  </time>
+                </li>
+              ))}
+            </ul>
+          )}
+          <InfiniteScrollObserver
+            onFetchNextPage={fetchNextPage}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+          />
+        </div>
+      </Modal.Body>
+    </Modal.Root>
+  );
+};
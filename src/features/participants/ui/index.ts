@@ -0,0 +1 @@
+export { ParticipantsModal } from './ParticipantsModal';
@@ -0,0 +1,56 @@
+import {
+  RECENT_SEARCH_LIMIT,
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+  removeRecentSearch,
+} from './recentSearchesStorage';
+
+describe('recentSearchesStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('검색어를 최신순으로 저장하고 중복은 맨 앞으로 옮긴다', () => {
+    addRecentSearch('gathering', '달램핏');
+    addRecentSearch('gathering', '워케이션');
+    addRecentSearch('gathering', ' 달램핏 ');
+
+    expect(getRecentSearches('gathering')).toEqual(['달램핏', '워케이션']);
+  });
+
+  it(`최근 ${RECENT_SEARCH_LIMIT}개까지만 유지한다`, () => {
+    for (let i = 0; i < RECENT_SEARCH_LIMIT + 2; i++) {
+      addRecentSearch('gathering', `검색어${i}`);
+    }
+
+    const recentSearches = getRecentSearches('gathering');
+    expect(recentSearches).toHaveLength(RECENT_SEARCH_LIMIT);
+    expect(recentSearches[0]).toBe(`검색어${RECENT_SEARCH_LIMIT + 1}`);
+  });
+
+  it('빈 검색어는 저장하지 않는다', () => {
+    addRecentSearch('gathering', '   ');
+
+    expect(getRecentSearches('gathering')).toEqual([]);
+  });
+
+  it('페이지별로 따로 저장하고, 개별/전체 삭제할 수 있다', () => {
+    addRecentSearch('gathering', '달램핏');
+    addRecentSearch('gathering', '신림');
+    addRecentSearch('reviews', '좋았어요');
+
+    expect(removeRecentSearch('gathering', '신림')).toEqual(['달램핏']);
+    clearRecentSearches('gathering');
+
+    expect(getRecentSearches('gathering')).toEqual([]);
+    expect(getRecentSearches('reviews')).toEqual(['좋았어요']);
+  });
+
+  it('저장된 값이 손상되었으면 빈 배열을 반환한다', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('recent-searches:gathering', '{broken');
+
+    expect(getRecentSearches('gathering')).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+// 페이지(scope)별 최근 검색어를 localStorage에 최신순으로 저장
+export type RecentSearchScope = 'gathering' | 'reviews';
+
+export const RECENT_SEARCH_LIMIT = 5;
+
+const getStorageKey = (scope: RecentSearchScope) => `recent-searches:${scope}`;
+
+// 불러오기
+export const getRecentSearches = (scope: RecentSearchScope): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const data = localStorage.getItem(getStorageKey(scope));
+    return data ? (JSON.parse(data) as string[]) : [];
+  } catch (error) {
+    console.error('로컬 스토리지에서 최근 검색어를 불러오는 데 실패했습니다:', error);
+    return [];
+  }
+};
+
+const saveRecentSearches = (scope: RecentSearchScope, keywords: string[]): string[] => {
+  try {
+    localStorage.setItem(getStorageKey(scope), JSON.stringify(keywords));
+  } catch (error) {
+    console.error('로컬 스토리지에 최근 검색어를 저장하는 데 실패했습니다:', error);
+  }
+  return keywords;
+};
+
+// 맨 앞에 추가 (이미 있으면 앞으로 이동, RECENT_SEARCH_LIMIT개까지만 유지)
+export const addRecentSearch = (scope: RecentSearchScope, keyword: string): string[] => {
+  const trimmed = keyword.trim();
+  const recentSearches = getRecentSearches(scope);
+  if (typeof window === 'undefined' || !trimmed) return recentSearches;
+
+  return saveRecentSearches(
+    scope,
+    [trimmed, ...recentSearches.filter((item) => item !== trimmed)].slice(0, RECENT_SEARCH_LIMIT),
+  );
+};
+
+export const removeRecentSearch = (scope: RecentSearchScope, keyword: string): string[] => {
+  if (typeof window === 'undefined') return [];
+  return saveRecentSearches(
+    scope,
+    getRecentSearches(scope).filter((item) => item !== keyword),
+  );
+};
+
+export const clearRecentSearches = (scope: RecentSearchScope): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.removeItem(getStorageKey(scope));
+  } catch (error) {
+    console.error('로컬 스토리지에서 최근 검색어를 삭제하는 데 실패했습니다:', error);
+  }
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  type RecentSearchScope,
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+  removeRecentSearch,
+} from './recentSearchesStorage';
+
+export const useRecentSearches = (scope: RecentSearchScope) => {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후 불러옴
+  useEffect(() => {
+    setRecentSearches(getRecentSearches(scope));
+  }, [scope]);
+
+  const add = useCallback(
+    (keyword: string) => setRecentSearches(addRecentSearch(scope, keyword)),
+    [scope],
+  );
+
+  const remove = useCallback(
+    (keyword: string) => setRecentSearches(removeRecentSearch(scope, keyword)),
+    [scope],
+  );
+
+  const clear = useCallback(() => {
+    clearRecentSearches(scope);
+    setRecentSearches([]);
+  }, [scope]);
+
+  return { recentSearches, add, remove, clear };
+};
@@ -0,0 +1,92 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { addRecentSearch, getRecentSearches } from '../model/recentSearchesStorage';
+import { SEARCH_DEBOUNCE_MS, SearchBox } from './SearchBox';
+
+const mockOnQueryChange = jest.fn();
+
+describe('SearchBox', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    localStorage.clear();
+    mockOnQueryChange.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const getInput = () => screen.getByRole('searchbox', { name: 'label' });
+
+  it('입력이 멈춘 뒤에 앞뒤 공백을 뺀 검색어를 알린다', () => {
+    render(
+      <SearchBox
+        scope="gathering"
+        query=""
+        onQueryChange={mockOnQueryChange}
+      />,
+    );
+
+    fireEvent.change(getInput(), { target: { value: ' 요가 ' } });
+    act(() => jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS - 1));
+    expect(mockOnQueryChange).not.toHaveBeenCalled();
+
+    act(() => jest.advanceTimersByTime(1));
+    expect(mockOnQueryChange).toHaveBeenCalledWith('요가');
+  });
+
+  it('검색어를 지우면 빈 검색어를 알린다', () => {
+    render(
+      <SearchBox
+        scope="gathering"
+        query="요가"
+        onQueryChange={mockOnQueryChange}
+      />,
+    );
+
+    expect(getInput()).toHaveValue('요가');
+    fireEvent.change(getInput(), { target: { value: '' } });
+    act(() => jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS));
+
+    expect(mockOnQueryChange).toHaveBeenCalledWith('');
+  });
+
+  it('Enter를 누르면 바로 검색하고 최근 검색어에 저장한다', () => {
+    render(
+      <SearchBox
+        scope="gathering"
+        query=""
+        onQueryChange={mockOnQueryChange}
+      />,
+    );
+
+    fireEvent.change(getInput(), { target: { value: '명상' } });
+    fireEvent.keyDown(getInput(), { key: 'Enter' });
+
+    expect(mockOnQueryChange).toHaveBeenCalledTimes(1);
+    expect(getRecentSearches('gathering')).toEqual(['명상']);
+  });
+
+  it('포커스하면 최근 검색어를 보여주고 선택하거나 삭제할 수 있다', () => {
+    addRecentSearch('gathering', '요가');
+    addRecentSearch('gathering', '명상');
+    render(
+      <SearchBox
+        scope="gathering"
+        query=""
+        onQueryChange={mockOnQueryChange}
+      />,
+    );
+
+    fireEvent.focus(getInput());
+    expect(screen.getByText('recent')).toBeInTheDocument();
+
+    // 최신순이므로 첫 번째 삭제 버튼은 '명상'
+    fireEvent.click(screen.getAllByRole('button', { name: 'remove' })[0]);
+    expect(getRecentSearches('gathering')).toEqual(['요가']);
+
+    fireEvent.click(screen.getByRole('button', { name: '요가' }));
+    expect(getInput()).toHaveValue('요가');
+    expect(mockOnQueryChange).toHaveBeenCalledWith('요가');
+    expect(screen.queryByText('recent')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { XIcon } from '@/shared/ui/icon';
+import type { RecentSearchScope } from '../model/recentSearchesStorage';
+import { useRecentSearches } from '../model/useRecentSearches';
+
+export const SEARCH_QUERY_PARAM = 'q';
+export const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchBoxProps {
+  scope: RecentSearchScope; // 최근 검색어와 placeholder를 페이지별로 구분
+  query: string; // URL에 반영된 현재 검색어
+  onQueryChange: (keyword: string) => void; // 앞뒤 공백을 뺀 검색어 (비어 있으면 검색 해제)
+}
+
+// 입력이 멈추면 검색어를 onQueryChange로 알리고, 포커스 시 최근 검색어를 보여주는 검색창
+// URL 반영은 필터와 같은 경로로 처리하도록 필터 영역(FilterSection, OptionsFiltersGroup)에 맡김
+export const SearchBox = ({ scope, query, onQueryChange }: SearchBoxProps) => {
+  const t = useTranslations('filters.search');
+  const { recentSearches, add, remove, clear } = useRecentSearches(scope);
+
+  const [value, setValue] = useState(query);
+  const [isOpen, setIsOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // 뒤로 가기 등으로 URL이 바뀌면 입력값도 맞춤 (입력 중인 앞뒤 공백은 유지)
+  useEffect(() => {
+    setValue((prev) => (prev.trim() === query ? prev : query));
+  }, [query]);
+
+  const commit = useCallback(
+    (keyword: string) => {
+      const trimmed = keyword.trim();
+      if (trimmed !== query) onQueryChange(trimmed);
+    },
+    [onQueryChange, query],
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => commit(value), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [commit, value]);
+
+  // 바깥 클릭 시 최근 검색어 닫기
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Enter 또는 최근 검색어 선택 시 바로 검색하고 최근 검색어에 저장
+  const search = (keyword: string) => {
+    setValue(keyword);
+    commit(keyword);
+    add(keyword);
+    setIsOpen(false);
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      className="tablet:max-w-80 relative w-full"
+    >
+      <input
+        type="search"
+        value={value}
+        placeholder={t(`${scope}Placeholder`)}
+        aria-label={t('label')}
+        onChange={(e) => setValue(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') search(value);
+          if (e.key === 'Escape') setIsOpen(false);
+        }}
+        className="w-full rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm leading-5 text-gray-800 transition outline-none focus:border-orange-600"
+      />
+      {isOpen && recentSearches.length > 0 && (
+        <div className="absolute right-0 left-0 z-[var(--z-dropdown)] mt-2 rounded-lg border border-gray-200 bg-white py-1">
+          <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-500">
+            <span>{t('recent')}</span>
+            <button
+              type="button"
+              onClick={clear}
+              className="cursor-pointer"
+            >
+              {t('clearAll')}
+            </button>
+          </div>
+          <ul>
+            {recentSearches.map((keyword) => (
+              <li
+                key={keyword}
+                className="flex items-center hover:bg-orange-200"
+              >
+                <button
+                  type="button"
+                  onClick={() => search(keyword)}
+                  className="flex-1 cursor-pointer px-3 py-2 text-left text-sm"
+                >
+                  {keyword}
+                </button>
+                <button
+                  type="button"
+                  aria-label={t('remove', { keyword })}
+                  onClick={() => remove(keyword)}
+                  className="cursor-pointer px-3"
+                >
+                  <XIcon size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
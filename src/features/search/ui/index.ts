@@ -0,0 +1 @@
+export { SearchBox, SEARCH_DEBOUNCE_MS, SEARCH_QUERY_PARAM } from './SearchBox';
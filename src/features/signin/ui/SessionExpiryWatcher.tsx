@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { SESSION_EXPIRY_WARNING_MS, redirectToSignin } from '@/shared/lib/auth';
+import toast from 'react-hot-toast';
+
+const TOAST_ID = 'session-expiry';
+// setTimeout이 처리할 수 있는 최대 지연 시간
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// 백엔드 토큰 만료 시각을 기준으로 만료 전 경고를 띄우고, 만료되면 로그인 페이지로 이동
+export const SessionExpiryWatcher = () => {
+  const t = useTranslations('pages.signin.session');
+  const { data: session } = useSession();
+  const expiresAt = session?.user?.accessTokenExpires;
+  const isExpired = session?.error === 'AccessTokenExpired';
+
+  useEffect(() => {
+    if (!isExpired) return;
+    toast.error(t('expired'), { id: TOAST_ID });
+    redirectToSignin();
+  }, [isExpired, t]);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining <= 0 || remaining > MAX_TIMEOUT_MS) return;
+
+    const warningTimer = setTimeout(
+      () => {
+        const minutes = Math.max(1, Math.round((expiresAt - Date.now()) / 60000));
+        toast(t('expiringSoon', { minutes }), { id: TOAST_ID, icon: '⏰', duration: 10000 });
+      },
+      Math.max(0, remaining - SESSION_EXPIRY_WARNING_MS),
+    );
+
+    const expiryTimer = setTimeout(() => {
+      toast.error(t('expired'), { id: TOAST_ID });
+      redirectToSignin();
+    }, remaining);
+
+    return () => {
+      clearTimeout(warningTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [expiresAt, t]);
+
+  return null;
+};
@@ -136,4 +136,24 @@ describe('SigninForm 컴포넌트', () => {
       expect(screen.getByTestId('email-error')).toHaveTextContent('errors.validation.cannotSignIn');
     });
   });
+
+  it('callbackUrl이 있으면 로그인 후 해당 페이지로 이동한다', async () => {
+    setTestUrl('/ko/signin?callbackUrl=%2Fko%2Fgathering%2F3');
+
+    render(<SigninForm />);
+    const email = screen.getByPlaceholderText('이메일');
+    const password = screen.getByPlaceholderText('비밀번호');
+    const submit = screen.getByTestId('submit-button') as HTMLButtonElement;
+
+    fireEvent.change(email, { target: { value: 'test@example.com' } });
+    fireEvent.change(password, { target: { value: 'password123' } });
+
+    await waitFor(() => expect(submit).not.toBeDisabled());
+    fireEvent.click(submit);
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/ko/gathering/3');
+    });
+    setTestUrl('/');
+  });
 });
@@ -4,6 +4,7 @@ import { signIn } from 'next-auth/react';
 import { useLocale } from 'next-intl';
 import { useRouter } from 'next/navigation';
 import { ROUTES } from '@/shared/config/routes';
+import { getSafeCallbackUrl } from '@/shared/lib/auth/callbackUrl';
 import { AuthForm } from '@/widgets/AuthForm/ui/AuthForm';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -35,6 +36,14 @@ export const SigninForm = () => {
       setError('email', { type: 'manual', message: 'errors.validation.cannotSignIn' });
       return;
     }
+
+    // 세션 만료 등으로 이동해 온 경우 원래 보던 페이지로 복귀
+    const callbackUrl = getSafeCallbackUrl(new URLSearchParams(location.search).get('callbackUrl'));
+    if (callbackUrl) {
+      router.push(callbackUrl);
+      return;
+    }
+
     try {
       const ref = document.referrer;
       const url = new URL(ref, location.origin);
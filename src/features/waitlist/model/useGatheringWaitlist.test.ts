@@ -0,0 +1,175 @@
+import { createElement } from 'react';
+import { getSession } from 'next-auth/react';
+import { useJoinGathering } from '@/entities/gathering-detail/api/queries';
+import { GatheringRole } from '@/entities/gathering-detail/model/types';
+import { API_CONFIG } from '@/shared/config/api';
+import {
+  addMockParticipant,
+  createMockGathering,
+  createMockUser,
+  getMockDb,
+  getMockToken,
+  resetMockDb,
+} from '@/shared/lib/msw/db';
+import { TestWrapper, createTestQueryClient } from '@/shared/lib/test/testUtils';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import toast from 'react-hot-toast';
+import { useGatheringWaitlist } from './useGatheringWaitlist';
+import { getWaitlistPosition, joinWaitlist } from './waitlistStorage';
+
+jest.mock('next-auth/react', () => ({
+  useSession: () => ({ data: { user: { id: '1' } } }),
+  getSession: jest.fn(),
+}));
+
+jest.mock('@/entities/gathering-detail/api/queries', () => ({
+  useJoinGathering: jest.fn(),
+}));
+
+jest.mock('react-hot-toast', () => ({
+  success: jest.fn(),
+}));
+
+const mockJoinGathering = jest.fn();
+
+const FUTURE = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+const PAST = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+const createGathering = (overrides = {}) => ({
+  id: 1,
+  participantCount: 9,
+  capacity: 10,
+  registrationEnd: FUTURE,
+  canceledAt: null,
+  ...overrides,
+});
+
+describe('useGatheringWaitlist 자동 참여', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    (useJoinGathering as jest.Mock).mockReturnValue({ mutate: mockJoinGathering });
+    joinWaitlist(1, '1');
+  });
+
+  it('내 순번까지 자리가 나면 참여하고 대기열에서 제거한다', () => {
+    mockJoinGathering.mockImplementation((_id, { onSuccess }) => onSuccess());
+
+    renderHook(() => useGatheringWaitlist(createGathering(), GatheringRole.GUEST), {
+      wrapper: TestWrapper,
+    });
+
+    expect(mockJoinGathering).toHaveBeenCalledTimes(1);
+    expect(mockJoinGathering).toHaveBeenCalledWith(1, expect.any(Object));
+    expect(toast.success).toHaveBeenCalledWith('promoted');
+    expect(getWaitlistPosition(1, '1')).toBeNull();
+  });
+
+  it('자리가 없으면 참여하지 않고 대기를 유지하되 순번으로 보여주지 않는다', () => {
+    const { result } = renderHook(
+      () => useGatheringWaitlist(createGathering({ participantCount: 10 }), GatheringRole.GUEST),
+      { wrapper: TestWrapper },
+    );
+
+    expect(mockJoinGathering).not.toHaveBeenCalled();
+    expect(result.current.isWaiting).toBe(true);
+    expect(result.current.position).toBeNull();
+    expect(getWaitlistPosition(1, '1')).toBe(1);
+  });
+
+  it('취소된 모임이면 참여하지 않고 대기열에서 제거한다', () => {
+    const { result } = renderHook(
+      () => useGatheringWaitlist(createGathering({ canceledAt: PAST }), GatheringRole.GUEST),
+      { wrapper: TestWrapper },
+    );
+
+    expect(mockJoinGathering).not.toHaveBeenCalled();
+    expect(result.current.isWaiting).toBe(false);
+    expect(getWaitlistPosition(1, '1')).toBeNull();
+  });
+
+  it('모집이 마감된 모임이면 참여하지 않고 대기열에서 제거한다', () => {
+    const { result } = renderHook(
+      () => useGatheringWaitlist(createGathering({ registrationEnd: PAST }), GatheringRole.GUEST),
+      { wrapper: TestWrapper },
+    );
+
+    expect(mockJoinGathering).not.toHaveBeenCalled();
+    expect(result.current.isWaiting).toBe(false);
+    expect(getWaitlistPosition(1, '1')).toBeNull();
+  });
+});
+
+describe('useGatheringWaitlist 서버 대기열', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    jest.replaceProperty(API_CONFIG, 'BACKEND', 'memory');
+    (useJoinGathering as jest.Mock).mockReturnValue({ mutate: mockJoinGathering });
+    (getSession as jest.Mock).mockResolvedValue({ user: { accessToken: getMockToken(1) } });
+    // 1번 사용자가 대기 2번 (2번 사용자가 먼저 대기 신청)
+    resetMockDb(() => {
+      const user = createMockUser();
+      const other = createMockUser({ email: 'other@test.com' });
+      const host = createMockUser({ email: 'host@test.com' });
+      createMockGathering({ id: 1, capacity: 1, participantCount: 1, createdBy: host.id });
+      addMockParticipant(1, host.id);
+      const joinedAt = new Date().toISOString();
+      getMockDb().waitlist.push(
+        { gatheringId: 1, userId: other.id, joinedAt },
+        { gatheringId: 1, userId: user.id, joinedAt },
+      );
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('서버가 매긴 순번을 보여주고 로컬 대기열은 사용하지 않는다', async () => {
+    const { result } = renderHook(
+      () =>
+        useGatheringWaitlist(
+          createGathering({ capacity: 1, participantCount: 1 }),
+          GatheringRole.GUEST,
+        ),
+      { wrapper: TestWrapper },
+    );
+
+    await waitFor(() => expect(result.current.position).toBe(2));
+    expect(result.current.isWaiting).toBe(true);
+
+    act(() => result.current.leave());
+
+    await waitFor(() => expect(result.current.isWaiting).toBe(false));
+    expect(getMockDb().waitlist).toHaveLength(1);
+    expect(toast.success).toHaveBeenCalledWith('left');
+    expect(toast.success).not.toHaveBeenCalledWith('promoted');
+    expect(localStorage.getItem('gathering-waitlist')).toBeNull();
+  });
+
+  it('참여 인원이 바뀌어 서버가 참여자로 옮겼으면 알린다', async () => {
+    // 다시 렌더링해도 같은 캐시를 쓰도록 QueryClient를 한 번만 생성
+    const queryClient = createTestQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+    const { result, rerender } = renderHook(
+      ({ participantCount }) =>
+        useGatheringWaitlist(
+          createGathering({ capacity: 3, participantCount }),
+          GatheringRole.GUEST,
+        ),
+      { wrapper, initialProps: { participantCount: 1 } },
+    );
+    await waitFor(() => expect(result.current.position).toBe(2));
+
+    // 정원이 늘어 대기자 2명이 모두 참여자가 됨
+    getMockDb().waitlist = [];
+    rerender({ participantCount: 3 });
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('promoted'));
+    expect(result.current.isWaiting).toBe(false);
+    expect(mockJoinGathering).not.toHaveBeenCalled();
+  });
+});
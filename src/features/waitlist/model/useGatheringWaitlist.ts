@@ -0,0 +1,199 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { useJoinGathering } from '@/entities/gathering-detail/api/queries';
+import {
+  getWaitlistStatus,
+  isGatheringWaitlistSupported,
+  joinWaitlist as joinServerWaitlist,
+  leaveWaitlist as leaveServerWaitlist,
+} from '@/entities/gathering-detail/api/services';
+import { GatheringRole, WaitlistStatus } from '@/entities/gathering-detail/model/types';
+import { QUERY_KEYS } from '@/shared/api';
+import { isRegistrationClosed } from '@/shared/lib/gathering/confirmation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { getWaitlistPosition, joinWaitlist, leaveWaitlist } from './waitlistStorage';
+
+interface WaitlistGathering {
+  id: number;
+  participantCount: number;
+  capacity: number;
+  registrationEnd: string;
+  canceledAt: string | null;
+}
+
+// 대기 중이면 참여자로 옮겨졌는지 확인하는 간격 (참여 인원이 바뀌면 바로 다시 확인)
+const WAITLIST_POLLING_INTERVAL = 1000 * 30;
+
+// 서버 대기열: 순번과 참여자로 옮기는 것 모두 서버가 관리
+const useServerWaitlist = (gathering: WaitlistGathering, enabled: boolean) => {
+  const t = useTranslations('pages.gathering.detail.waitlist');
+  const queryClient = useQueryClient();
+
+  const { data: status } = useQuery<WaitlistStatus>({
+    queryKey: QUERY_KEYS.gathering.waitlist(gathering.id),
+    queryFn: ({ signal }) => getWaitlistStatus(gathering.id, { signal }),
+    enabled,
+    // 대기 상태는 부가 정보이므로 실패해도 ErrorBoundary로 넘기지 않음
+    throwOnError: false,
+    refetchInterval: (query) =>
+      query.state.data?.position != null ? WAITLIST_POLLING_INTERVAL : false,
+  });
+  const position = status?.position ?? null;
+
+  // SSE/폴링으로 참여 인원이 바뀌면 순번 다시 확인
+  const previousCountRef = useRef(gathering.participantCount);
+  useEffect(() => {
+    if (previousCountRef.current === gathering.participantCount) return;
+    previousCountRef.current = gathering.participantCount;
+    if (enabled) {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.waitlist(gathering.id) });
+    }
+  }, [enabled, gathering.id, gathering.participantCount, queryClient]);
+
+  // 직접 취소하지 않았는데 대기열에서 빠졌으면 서버가 참여자로 옮긴 것
+  // (취소된 모임은 대기열만 비워지므로 제외)
+  const waitingRef = useRef(false);
+  useEffect(() => {
+    if (position !== null) {
+      waitingRef.current = true;
+      return;
+    }
+    if (!status || !waitingRef.current) return;
+    waitingRef.current = false;
+    if (gathering.canceledAt) return;
+
+    toast.success(t('promoted'));
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.detail(gathering.id) });
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey: key }) =>
+        key[0] === QUERY_KEYS.participant.base[0] && key[2] === gathering.id,
+    });
+  }, [gathering.canceledAt, gathering.id, position, queryClient, status, t]);
+
+  const applyStatus = (next: WaitlistStatus) => {
+    queryClient.setQueryData(QUERY_KEYS.gathering.waitlist(gathering.id), next);
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.waitlisted() });
+  };
+
+  const { mutate: join } = useMutation({
+    mutationFn: () => joinServerWaitlist(gathering.id),
+    onSuccess: (next) => {
+      applyStatus(next);
+      toast.success(t('joined'));
+    },
+  });
+
+  const { mutate: leave } = useMutation({
+    mutationFn: () => leaveServerWaitlist(gathering.id),
+    onSuccess: (next) => {
+      waitingRef.current = false;
+      applyStatus(next);
+      toast.success(t('left'));
+    },
+  });
+
+  return { position, join: () => join(), leave: () => leave() };
+};
+
+// 로컬 대기열: 같은 브라우저에서 신청한 순서만 알 수 있으므로 순번은 자동 참여 판단에만 사용
+// useGetGatheringDetail이 다시 불러온 participantCount가 줄어 내 순번까지 자리가 나면 참여를 시도
+const useLocalWaitlist = (
+  gathering: WaitlistGathering,
+  role: GatheringRole,
+  userId: string | undefined,
+) => {
+  const t = useTranslations('pages.gathering.detail.waitlist');
+  const { mutate: joinGathering } = useJoinGathering();
+
+  const [position, setPosition] = useState<number | null>(null);
+  // 같은 participantCount로 여러 번 참여를 시도하지 않도록 마지막 시도 값을 기억
+  const attemptedCountRef = useRef<number | null>(null);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후(또는 사용자가 바뀌면) 불러옴
+  useEffect(() => {
+    setPosition(userId ? getWaitlistPosition(gathering.id, userId) : null);
+  }, [gathering.id, userId]);
+
+  const join = useCallback(() => {
+    if (!userId) return;
+    setPosition(joinWaitlist(gathering.id, userId));
+    toast.success(t('joined'));
+  }, [gathering.id, t, userId]);
+
+  const remove = useCallback(() => {
+    if (!userId) return;
+    leaveWaitlist(gathering.id, userId);
+    setPosition(null);
+  }, [gathering.id, userId]);
+
+  const leave = useCallback(() => {
+    remove();
+    toast.success(t('left'));
+  }, [remove, t]);
+
+  // 다른 경로로 참여했거나 호스트가 되었으면 대기열에서 제거
+  useEffect(() => {
+    if (position !== null && role !== GatheringRole.GUEST) remove();
+  }, [position, remove, role]);
+
+  // 모임이 취소되었거나 모집이 마감되면 자리가 나도 참여할 수 없으므로 대기열에서 제거
+  const isClosed = !!gathering.canceledAt || isRegistrationClosed(gathering.registrationEnd);
+
+  useEffect(() => {
+    if (position !== null && isClosed) remove();
+  }, [isClosed, position, remove]);
+
+  useEffect(() => {
+    if (!userId || position === null || role !== GatheringRole.GUEST || isClosed) return;
+
+    const openSpots = gathering.capacity - gathering.participantCount;
+    if (openSpots < position || attemptedCountRef.current === gathering.participantCount) return;
+
+    attemptedCountRef.current = gathering.participantCount;
+    joinGathering(gathering.id, {
+      onSuccess: () => {
+        remove();
+        toast.success(t('promoted'));
+      },
+    });
+  }, [
+    gathering.capacity,
+    gathering.id,
+    gathering.participantCount,
+    isClosed,
+    joinGathering,
+    position,
+    remove,
+    role,
+    t,
+    userId,
+  ]);
+
+  return { position, join, leave };
+};
+
+// 모임 대기열 상태와 자동 참여
+// 대기열 API를 지원하는 백엔드에서는 서버 순번을, 아니면 이 브라우저에 저장한 대기 신청을 사용
+// position은 서버가 매긴 순번만 반환 (로컬 대기열은 다른 사용자를 알 수 없어 순번으로 보여주지 않음)
+export const useGatheringWaitlist = (gathering: WaitlistGathering, role: GatheringRole) => {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const isServerWaitlist = isGatheringWaitlistSupported();
+
+  const server = useServerWaitlist(gathering, isServerWaitlist && !!userId);
+  const local = useLocalWaitlist(gathering, role, isServerWaitlist ? undefined : userId);
+
+  if (isServerWaitlist) {
+    return { isWaiting: server.position !== null, ...server };
+  }
+  return {
+    isWaiting: local.position !== null,
+    position: null,
+    join: local.join,
+    leave: local.leave,
+  };
+};
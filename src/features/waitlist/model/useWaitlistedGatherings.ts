@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  getMyWaitlist,
+  isGatheringWaitlistSupported,
+  leaveWaitlist as leaveServerWaitlist,
+} from '@/entities/gathering-detail/api/services';
+import { QUERY_KEYS } from '@/shared/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getWaitlistedGatheringIds, leaveWaitlist } from './waitlistStorage';
+
+export interface WaitlistedGathering {
+  gatheringId: number;
+  // 서버가 매긴 대기 순번 (이 브라우저에만 저장한 대기 신청이면 null)
+  position: number | null;
+}
+
+const useServerWaitlistedGatherings = (enabled: boolean) => {
+  const queryClient = useQueryClient();
+  const { data = [] } = useQuery({
+    queryKey: QUERY_KEYS.gathering.waitlisted(),
+    queryFn: ({ signal }) => getMyWaitlist({ signal }),
+    enabled,
+    // 마이페이지의 부가 목록이므로 실패해도 ErrorBoundary로 넘기지 않음
+    throwOnError: false,
+  });
+
+  const { mutate: leave } = useMutation({
+    mutationFn: (gatheringId: number) => leaveServerWaitlist(gatheringId),
+    onSuccess: (status, gatheringId) => {
+      queryClient.setQueryData(QUERY_KEYS.gathering.waitlist(gatheringId), status);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.gathering.waitlisted() });
+    },
+  });
+
+  return { gatherings: data, leave };
+};
+
+const useLocalWaitlistedGatherings = (userId: string | undefined) => {
+  const [gatheringIds, setGatheringIds] = useState<number[]>([]);
+
+  // localStorage는 클라이언트에서만 읽을 수 있으므로 마운트 후(또는 사용자가 바뀌면) 불러옴
+  useEffect(() => {
+    setGatheringIds(userId ? getWaitlistedGatheringIds(userId) : []);
+  }, [userId]);
+
+  const leave = (gatheringId: number) => {
+    if (!userId) return;
+    leaveWaitlist(gatheringId, userId);
+    setGatheringIds(getWaitlistedGatheringIds(userId));
+  };
+
+  return {
+    gatherings: gatheringIds.map((gatheringId) => ({ gatheringId, position: null })),
+    leave,
+  };
+};
+
+// 대기 신청한 모임 목록 (대기 신청한 순서)
+// 대기열 API를 지원하는 백엔드에서는 서버 순번을, 아니면 이 브라우저에 저장한 대기 신청을 사용
+export const useWaitlistedGatherings = (): {
+  gatherings: WaitlistedGathering[];
+  leave: (gatheringId: number) => void;
+} => {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const isServerWaitlist = isGatheringWaitlistSupported();
+
+  const server = useServerWaitlistedGatherings(isServerWaitlist && !!userId);
+  const local = useLocalWaitlistedGatherings(isServerWaitlist ? undefined : userId);
+
+  return isServerWaitlist ? server : local;
+};
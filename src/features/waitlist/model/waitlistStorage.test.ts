@@ -0,0 +1,53 @@
+import {
+  getWaitlist,
+  getWaitlistPosition,
+  getWaitlistedGatheringIds,
+  joinWaitlist,
+  leaveWaitlist,
+} from './waitlistStorage';
+
+describe('waitlistStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('대기 신청한 순서대로 순번을 매긴다', () => {
+    expect(joinWaitlist(1, 'a')).toBe(1);
+    expect(joinWaitlist(1, 'b')).toBe(2);
+
+    expect(getWaitlistPosition(1, 'b')).toBe(2);
+    expect(getWaitlistPosition(1, 'c')).toBeNull();
+  });
+
+  it('이미 대기 중이면 순번을 유지한다', () => {
+    joinWaitlist(1, 'a');
+    joinWaitlist(1, 'b');
+
+    expect(joinWaitlist(1, 'a')).toBe(1);
+    expect(getWaitlist(1)).toHaveLength(2);
+  });
+
+  it('대기를 취소하면 뒤 순번이 앞당겨지고 빈 대기열은 삭제한다', () => {
+    joinWaitlist(1, 'a');
+    joinWaitlist(1, 'b');
+
+    leaveWaitlist(1, 'a');
+    expect(getWaitlistPosition(1, 'b')).toBe(1);
+
+    leaveWaitlist(1, 'b');
+    expect(getWaitlist(1)).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('gathering-waitlist') ?? '{}')).toEqual({});
+  });
+
+  it('사용자가 대기 중인 모임을 신청한 순서대로 반환한다', () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValueOnce(200);
+    joinWaitlist(5, 'a');
+    now.mockReturnValueOnce(100);
+    joinWaitlist(3, 'a');
+    joinWaitlist(4, 'b');
+    now.mockRestore();
+
+    expect(getWaitlistedGatheringIds('a')).toEqual([3, 5]);
+  });
+});
@@ -0,0 +1,78 @@
+// 정원이 찬 모임의 대기열을 localStorage에 저장
+// 원격 백엔드에는 대기열 API가 없으므로 같은 브라우저에서 대기 신청한 순서로 순번을 매김
+// (다른 사용자를 알 수 없으므로 순번은 자동 참여 판단에만 쓰고 화면에는 보여주지 않음)
+export interface WaitlistEntry {
+  userId: string;
+  joinedAt: number;
+}
+
+// 모임 id -> 대기 신청 순서대로 정렬된 대기자 목록
+type WaitlistStore = Record<string, WaitlistEntry[]>;
+
+const WAITLIST_KEY = 'gathering-waitlist';
+
+const getWaitlistStore = (): WaitlistStore => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const data = localStorage.getItem(WAITLIST_KEY);
+    return data ? (JSON.parse(data) as WaitlistStore) : {};
+  } catch (error) {
+    console.error('로컬 스토리지에서 대기열을 불러오는 데 실패했습니다:', error);
+    return {};
+  }
+};
+
+const saveWaitlistStore = (store: WaitlistStore) => {
+  try {
+    localStorage.setItem(WAITLIST_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('로컬 스토리지에 대기열을 저장하는 데 실패했습니다:', error);
+  }
+};
+
+// 모임의 대기자 목록
+export const getWaitlist = (gatheringId: number): WaitlistEntry[] =>
+  getWaitlistStore()[gatheringId] ?? [];
+
+// 대기 순번 (1부터 시작, 대기 중이 아니면 null)
+export const getWaitlistPosition = (gatheringId: number, userId: string): number | null => {
+  const index = getWaitlist(gatheringId).findIndex((entry) => entry.userId === userId);
+  return index === -1 ? null : index + 1;
+};
+
+// 대기 신청 (이미 대기 중이면 순번 유지)
+export const joinWaitlist = (gatheringId: number, userId: string): number | null => {
+  if (typeof window === 'undefined') return null;
+
+  const store = getWaitlistStore();
+  const entries = store[gatheringId] ?? [];
+  if (!entries.some((entry) => entry.userId === userId)) {
+    store[gatheringId] = [...entries, { userId, joinedAt: Date.now() }];
+    saveWaitlistStore(store);
+  }
+  return getWaitlistPosition(gatheringId, userId);
+};
+
+// 대기 취소 (참여 확정 시에도 호출)
+export const leaveWaitlist = (gatheringId: number, userId: string): void => {
+  if (typeof window === 'undefined') return;
+
+  const store = getWaitlistStore();
+  const entries = (store[gatheringId] ?? []).filter((entry) => entry.userId !== userId);
+  if (entries.length > 0) {
+    store[gatheringId] = entries;
+  } else {
+    delete store[gatheringId];
+  }
+  saveWaitlistStore(store);
+};
+
+// 사용자가 대기 중인 모임 id 목록 (대기 신청한 순서)
+export const getWaitlistedGatheringIds = (userId: string): number[] =>
+  Object.entries(getWaitlistStore())
+    .flatMap(([gatheringId, entries]) => {
+      const entry = entries.find((item) => item.userId === userId);
+      return entry ? [{ gatheringId: Number(gatheringId), joinedAt: entry.joinedAt }] : [];
+    })
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .map(({ gatheringId }) => gatheringId);
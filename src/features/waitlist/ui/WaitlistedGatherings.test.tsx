@@ -0,0 +1,99 @@
+import { getSession } from 'next-auth/react';
+import { API_CONFIG } from '@/shared/config/api';
+import {
+  createMockGathering,
+  createMockUser,
+  getMockDb,
+  getMockToken,
+  resetMockDb,
+} from '@/shared/lib/msw/db';
+import { TestWrapper } from '@/shared/lib/test/testUtils';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { joinWaitlist } from '../model/waitlistStorage';
+import { WaitlistedGatherings } from './WaitlistedGatherings';
+
+jest.mock('next-auth/react', () => ({
+  useSession: () => ({ data: { user: { id: '7' } } }),
+  getSession: jest.fn(),
+}));
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'ko',
+  useTranslations: () => (key: string, values?: Record<string, string>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+jest.mock('@/i18n', () => ({
+  Link: ({ children }: { children: React.ReactNode }) => <a>{children}</a>,
+}));
+
+describe('WaitlistedGatherings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetMockDb(() => {});
+  });
+
+  it('대기 중인 모임이 없으면 아무것도 표시하지 않는다', () => {
+    const { container } = render(<WaitlistedGatherings />, { wrapper: TestWrapper });
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('이 브라우저에 저장한 대기 신청은 순번 없이 보여주고 대기를 취소할 수 있다', async () => {
+    createMockGathering({ id: 1, name: '저녁 러닝', capacity: 5 });
+    createMockGathering({ id: 2, name: '아침 요가', capacity: 5 });
+    joinWaitlist(1, '3');
+    joinWaitlist(1, '7');
+    joinWaitlist(2, '7');
+
+    render(<WaitlistedGatherings />, { wrapper: TestWrapper });
+
+    expect(await screen.findByText('저녁 러닝')).toBeInTheDocument();
+    expect(await screen.findByText('아침 요가')).toBeInTheDocument();
+    expect(screen.getAllByText('waiting')).toHaveLength(2);
+    expect(screen.queryByText(/^position/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'leave' })[0]);
+
+    expect(screen.queryByText('저녁 러닝')).not.toBeInTheDocument();
+    expect(screen.getByText('아침 요가')).toBeInTheDocument();
+  });
+
+  describe('서버 대기열', () => {
+    beforeEach(() => {
+      jest.replaceProperty(API_CONFIG, 'BACKEND', 'memory');
+      (getSession as jest.Mock).mockResolvedValue({ user: { accessToken: getMockToken(2) } });
+      // 2번 사용자가 1번 모임 대기 2번, 2번 모임 대기 1번
+      resetMockDb(() => {
+        const other = createMockUser();
+        const user = createMockUser({ email: 'user@test.com' });
+        createMockGathering({ id: 1, name: '저녁 러닝', capacity: 1, participantCount: 1 });
+        createMockGathering({ id: 2, name: '아침 요가', capacity: 1, participantCount: 1 });
+        const joinedAt = new Date().toISOString();
+        getMockDb().waitlist.push(
+          { gatheringId: 1, userId: other.id, joinedAt },
+          { gatheringId: 1, userId: user.id, joinedAt },
+          { gatheringId: 2, userId: user.id, joinedAt },
+        );
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('서버가 매긴 대기 순번을 보여주고 대기를 취소하면 서버 대기열에서 빠진다', async () => {
+      render(<WaitlistedGatherings />, { wrapper: TestWrapper });
+
+      expect(await screen.findByText('저녁 러닝')).toBeInTheDocument();
+      expect(await screen.findByText('아침 요가')).toBeInTheDocument();
+      expect(screen.getByText('position:2')).toBeInTheDocument();
+      expect(screen.getByText('position:1')).toBeInTheDocument();
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'leave' })[0]);
+
+      await waitFor(() => expect(screen.queryByText('저녁 러닝')).not.toBeInTheDocument());
+      expect(getMockDb().waitlist).toHaveLength(2);
+    });
+  });
+});
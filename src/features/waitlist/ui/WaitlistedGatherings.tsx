@@ -0,0 +1,74 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+import { getGatheringById } from '@/entities/gathering-detail/api/services';
+import { Link } from '@/i18n';
+import { QUERY_KEYS } from '@/shared/api';
+import { formatDateAndTime } from '@/shared/lib/date';
+import { Button } from '@/shared/ui/button';
+import { useQueries } from '@tanstack/react-query';
+import { useWaitlistedGatherings } from '../model/useWaitlistedGatherings';
+
+// 마이페이지: 대기 신청한 모임 목록 (대기 중인 모임이 없으면 표시하지 않음)
+export const WaitlistedGatherings = () => {
+  const t = useTranslations('pages.myPage.waitlist');
+  const locale = useLocale();
+  const { gatherings, leave } = useWaitlistedGatherings();
+
+  // 모임 상세와 같은 쿼리 키를 사용해 캐시 공유
+  const gatheringQueries = useQueries({
+    queries: gatherings.map(({ gatheringId: id }) => ({
+      queryKey: QUERY_KEYS.gathering.detail(id),
+      queryFn: ({ signal }: { signal: AbortSignal }) => getGatheringById(id, { signal }),
+    })),
+  });
+
+  if (gatherings.length === 0) return null;
+
+  return (
+    <section
+      aria-label={t('title')}
+      className="mb-6 flex flex-col gap-3"
+    >
+      <h2 className="font-semibold">{t('title')}</h2>
+      <ul className="flex flex-col gap-2">
+        {gatheringQueries.map(({ data: gathering }, index) => {
+          const { gatheringId, position } = gatherings[index];
+          const schedule = gathering && formatDateAndTime(gathering.dateTime, locale);
+
+          return (
+            <li
+              key={gatheringId}
+              className="flex items-center justify-between gap-3 rounded-xl border border-gray-200 bg-white p-4"
+            >
+              <div className="flex min-w-0 flex-col gap-1">
+                <Link
+                  href={{ pathname: '/gathering/[id]', params: { id: gatheringId } }}
+                  className="truncate font-semibold hover:underline"
+                >
+                  {gathering?.name ?? t('loading')}
+                </Link>
+                {gathering && schedule && (
+                  <p className="text-sm text-gray-500">
+                    {gathering.location} · {schedule.formattedDate} {schedule.formattedTime} ·{' '}
+                    {gathering.participantCount}/{gathering.capacity}
+                  </p>
+                )}
+                <p className="text-sm font-semibold text-orange-600">
+                  {position !== null ? t('position', { position }) : t('waiting')}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                className="shrink-0 px-3 py-1.5 text-sm"
+                onClick={() => leave(gatheringId)}
+              >
+                {t('leave')}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
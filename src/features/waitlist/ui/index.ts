@@ -0,0 +1 @@
+export { WaitlistedGatherings } from './WaitlistedGatherings';
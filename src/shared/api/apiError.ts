@@ -1,10 +1,65 @@
+import { type ApiErrorCode, ERROR_CODES } from '@/shared/config/api';
+import type { ZodIssue } from 'zod';
+
+const API_ERROR_CODES = Object.values(ERROR_CODES) as string[];
+
+const isApiErrorCode = (code: string): code is ApiErrorCode => API_ERROR_CODES.includes(code);
+
 export class ApiError extends Error {
-  readonly code: string;
+  readonly code: ApiErrorCode;
   readonly status: number;
 
+  // 정의되지 않은 서버 코드는 UNKNOWN_ERROR로 처리
   constructor(message: string, code: string, status: number) {
     super(message);
-    this.code = code;
+    this.code = isApiErrorCode(code) ? code : ERROR_CODES.UNKNOWN_ERROR;
     this.status = status;
   }
 }
+
+// 주어진 코드 중 하나를 가진 ApiError인지 확인
+export const isApiErrorWithCode = (
+  error: unknown,
+  codes: readonly ApiErrorCode[],
+): error is ApiError => error instanceof ApiError && codes.includes(error.code);
+
+// 응답을 받지 못한 네트워크 에러
+export class NetworkError extends Error {
+  constructor(message = '네트워크 연결 상태를 확인해주세요.') {
+    super(message);
+  }
+}
+
+// 네트워크 에러로 실패했지만 오프라인 큐에 저장되어 재연결 시 다시 전송될 요청
+// queueId가 null이면 큐에 있던 반대 요청과 상쇄되어 보낼 필요가 없어진 경우
+export class OfflineQueuedError extends NetworkError {
+  readonly queueId: string | null;
+
+  constructor(queueId: string | null) {
+    super('오프라인 상태라 요청을 보관했어요. 연결되면 자동으로 다시 전송됩니다.');
+    this.queueId = queueId;
+  }
+}
+
+// 오프라인에서 보낸 요청이지만 요청한 사용자를 알 수 없어 오프라인 큐에 저장하지 못한 경우
+// (세션을 한 번도 확인하지 못한 채 오프라인이 되었을 때)
+export class OfflineNotQueuedError extends NetworkError {
+  constructor() {
+    super('오프라인 상태라 요청을 보관하지 못했어요. 연결된 뒤 다시 시도해주세요.');
+  }
+}
+
+// 응답이 스키마와 다른 경우 (백엔드 계약이 바뀌었을 때 감지)
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: ZodIssue[];
+
+  constructor(endpoint: string, issues: ZodIssue[]) {
+    const summary = issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join(', ');
+    super(`API 응답 형식이 올바르지 않습니다 (${endpoint}) - ${summary}`);
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,28 @@
+import { API_CONFIG } from '@/shared/config/api';
+import type { AxiosAdapter } from 'axios';
+import { MEMORY_BACKEND_PATH } from './memory/constants';
+import type { ApiBackend } from './types';
+
+// 인메모리 서버(시드 데이터 포함)는 사용할 때만 불러와 원격 백엔드 번들에 포함되지 않게 함
+const lazyMemoryAdapter: AxiosAdapter = async (config) => {
+  const { memoryAxiosAdapter } = await import('./memory/axiosAdapter');
+  return memoryAxiosAdapter(config);
+};
+
+// NEXT_PUBLIC_API_BACKEND 환경변수에 따라 httpClient가 사용할 백엔드 선택
+// - remote: 팀 API 서버 (기본값)
+// - memory: 같은 프로세스의 인메모리 서버 (오프라인 데모, E2E 테스트용)
+export const getApiBackend = (): ApiBackend => {
+  if (API_CONFIG.BACKEND === 'memory') {
+    return {
+      type: 'memory',
+      baseURL: MEMORY_BACKEND_PATH,
+      // 브라우저에서는 Route Handler로 요청을 보내 서버와 같은 데이터를 사용
+      adapter: typeof window === 'undefined' ? lazyMemoryAdapter : undefined,
+    };
+  }
+
+  return { type: 'remote', baseURL: API_CONFIG.BASE_URL() };
+};
+
+export type { ApiBackend, ApiBackendType, BackendRequest, BackendResponse } from './types';
@@ -0,0 +1,58 @@
+import { HTTP_STATUS } from '@/shared/config/api';
+import { AxiosError, AxiosHeaders, CanceledError, type InternalAxiosRequestConfig } from 'axios';
+import type { BackendRequest } from '../types';
+import { MEMORY_BACKEND_PATH } from './constants';
+import { handleMemoryRequest } from './server';
+
+// baseURL + url + params를 합친 요청 URI
+const getAdapterUri = (config: InternalAxiosRequestConfig) => {
+  const params = new URLSearchParams(
+    Object.entries((config.params ?? {}) as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)]),
+  ).toString();
+  const uri = `${config.baseURL ?? ''}${config.url ?? ''}`;
+  if (!params) return uri;
+  return `${uri}${uri.includes('?') ? '&' : '?'}${params}`;
+};
+
+// axios 요청 config를 인메모리 서버 요청으로 변환
+const toBackendRequest = (config: InternalAxiosRequestConfig): BackendRequest => {
+  const url = new URL(getAdapterUri(config), 'http://memory.local');
+  return {
+    method: config.method ?? 'get',
+    path: url.pathname.replace(MEMORY_BACKEND_PATH, '') || '/',
+    query: url.searchParams,
+    body: config.data,
+    authorization: AxiosHeaders.from(config.headers).get('Authorization') as string | null,
+  };
+};
+
+// 네트워크 없이 같은 프로세스의 인메모리 서버로 요청을 처리하는 axios adapter
+// 4xx/5xx 응답은 axios 기본 adapter처럼 AxiosError로 reject해 인터셉터가 동일하게 동작
+export const memoryAxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  if (config.signal?.aborted) throw new CanceledError(undefined, undefined, config);
+
+  const { status, body } = await handleMemoryRequest(toBackendRequest(config));
+  const response = {
+    data: body,
+    status,
+    statusText: '',
+    headers: new AxiosHeaders({ 'Content-Type': 'application/json' }),
+    config,
+    request: {},
+  };
+
+  if (status >= HTTP_STATUS.BAD_REQUEST) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= HTTP_STATUS.INTERNAL_SERVER_ERROR
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response,
+    );
+  }
+  return response;
+};
@@ -0,0 +1,3 @@
+// 인메모리 백엔드의 baseURL
+// 서버에서는 axios adapter가 직접 처리하고, 브라우저 요청은 같은 경로의 Route Handler가 처리
+export const MEMORY_BACKEND_PATH = '/api/memory-backend';
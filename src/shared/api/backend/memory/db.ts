@@ -0,0 +1,19 @@
+import { createSeededDb } from './seed';
+import type { MemoryDb } from './types';
+
+// Route Handler와 서버 컴포넌트가 서로 다른 모듈 인스턴스를 쓰더라도(개발 서버 HMR 포함)
+// 같은 데이터를 보도록 globalThis에 저장
+const globalForMemoryDb = globalThis as typeof globalThis & { __memoryBackendDb?: MemoryDb };
+
+export const getMemoryDb = (): MemoryDb => {
+  if (!globalForMemoryDb.__memoryBackendDb) {
+    globalForMemoryDb.__memoryBackendDb = createSeededDb();
+  }
+  return globalForMemoryDb.__memoryBackendDb;
+};
+
+// 시드 데이터로 초기화 (E2E 테스트 간 상태 격리용)
+export const resetMemoryDb = (now?: number): MemoryDb => {
+  globalForMemoryDb.__memoryBackendDb = createSeededDb(now);
+  return globalForMemoryDb.__memoryBackendDb;
+};
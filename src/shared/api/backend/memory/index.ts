@@ -0,0 +1,13 @@
+export { MEMORY_BACKEND_PATH } from './constants';
+export { memoryAxiosAdapter } from './axiosAdapter';
+export { handleMemoryRequest } from './server';
+export { getMemoryDb, resetMemoryDb } from './db';
+export { createMemoryToken } from './token';
+export { MEMORY_DEMO_PASSWORD, MEMORY_DEMO_USER_EMAIL, MEMORY_TEAM_ID } from './seed';
+export type {
+  MemoryDb,
+  MemoryGathering,
+  MemoryParticipant,
+  MemoryReview,
+  MemoryUser,
+} from './types';
@@ -0,0 +1,238 @@
+import type {
+  MemoryDb,
+  MemoryGathering,
+  MemoryParticipant,
+  MemoryReview,
+  MemoryUser,
+} from './types';
+
+export const MEMORY_TEAM_ID = 1;
+
+// 데모/E2E 테스트용 계정 (비밀번호 공통)
+export const MEMORY_DEMO_PASSWORD = 'password1234';
+export const MEMORY_DEMO_USER_EMAIL = 'demo@moizayo.dev';
+
+const DEFAULT_GATHERING_IMAGE = '/gathering-default-image.png';
+const HOUR = 1000 * 60 * 60;
+const DAY = HOUR * 24;
+
+// 시드 데이터 날짜는 서버 시작 시각(정시 기준)으로부터의 상대값으로 만들어 항상 같은 구성을 유지
+const atOffset = (base: number, offset: number) => new Date(base + offset).toISOString();
+
+const seedUsers = (base: number): MemoryUser[] =>
+  [
+    { email: MEMORY_DEMO_USER_EMAIL, name: '데모', companyName: '모이자요' },
+    { email: 'host@moizayo.dev', name: '김호스트', companyName: '달램컴퍼니' },
+    { email: 'mindful@moizayo.dev', name: '이마음', companyName: '코드잇' },
+    { email: 'runner@moizayo.dev', name: '박러너', companyName: '스프린트' },
+    { email: 'yoga@moizayo.dev', name: '최요가', companyName: '모이자요' },
+    { email: 'walker@moizayo.dev', name: '정산책', companyName: '달램컴퍼니' },
+  ].map((user, index) => ({
+    ...user,
+    teamId: MEMORY_TEAM_ID,
+    id: index + 1,
+    password: MEMORY_DEMO_PASSWORD,
+    image: null,
+    createdAt: atOffset(base, -30 * DAY),
+    updatedAt: atOffset(base, -30 * DAY),
+  }));
+
+interface GatheringSeed {
+  type: string;
+  name: string;
+  location: string;
+  // 모임 시작까지 남은 시간 (음수면 지난 모임)
+  startsIn: number;
+  capacity: number;
+  createdBy: number;
+  participants: number[];
+  canceled?: boolean;
+}
+
+const GATHERING_SEEDS: GatheringSeed[] = [
+  // 지난 모임 (리뷰 작성 가능)
+  {
+    type: 'OFFICE_STRETCHING',
+    name: '점심시간 거북목 탈출',
+    location: '건대입구',
+    startsIn: -7 * DAY,
+    capacity: 10,
+    createdBy: 2,
+    participants: [1, 2, 3],
+  },
+  {
+    type: 'MINDFULNESS',
+    name: '퇴근길 명상 클래스',
+    location: '을지로3가',
+    startsIn: -3 * DAY,
+    capacity: 8,
+    createdBy: 3,
+    participants: [1, 3, 4],
+  },
+  {
+    type: 'WORKATION',
+    name: '강릉 바다 워케이션',
+    location: '홍대입구',
+    startsIn: -10 * DAY,
+    capacity: 20,
+    createdBy: 4,
+    participants: [2, 3, 4],
+  },
+  {
+    type: 'OFFICE_STRETCHING',
+    name: '모니터 앞 어깨 풀기',
+    location: '신림',
+    startsIn: -1 * DAY,
+    capacity: 6,
+    createdBy: 1,
+    participants: [1, 2],
+  },
+  // 다가오는 모임 (점심 15분 호흡 명상은 정원 마감)
+  {
+    type: 'OFFICE_STRETCHING',
+    name: '아침 스트레칭 모임',
+    location: '건대입구',
+    startsIn: 2 * DAY,
+    capacity: 10,
+    createdBy: 2,
+    participants: [2, 1],
+  },
+  {
+    type: 'MINDFULNESS',
+    name: '주말 마음챙김 산책',
+    location: '을지로3가',
+    startsIn: 4 * DAY,
+    capacity: 12,
+    createdBy: 3,
+    participants: [3, 4],
+  },
+  {
+    type: 'WORKATION',
+    name: '제주 한 달 살기 워케이션',
+    location: '홍대입구',
+    startsIn: 14 * DAY,
+    capacity: 20,
+    createdBy: 4,
+    participants: [4, 2, 3],
+  },
+  {
+    type: 'MINDFULNESS',
+    name: '점심 15분 호흡 명상',
+    location: '신림',
+    startsIn: 3 * DAY,
+    capacity: 5,
+    createdBy: 2,
+    participants: [2, 3, 4, 5, 6],
+  },
+  {
+    type: 'OFFICE_STRETCHING',
+    name: '야근 전 허리 펴기',
+    location: '홍대입구',
+    startsIn: 6 * DAY,
+    capacity: 8,
+    createdBy: 1,
+    participants: [1],
+  },
+  {
+    type: 'WORKATION',
+    name: '양양 서핑 워케이션',
+    location: '건대입구',
+    startsIn: 21 * DAY,
+    capacity: 15,
+    createdBy: 3,
+    participants: [3],
+  },
+  {
+    type: 'MINDFULNESS',
+    name: '취소된 저녁 요가',
+    location: '을지로3가',
+    startsIn: 5 * DAY,
+    capacity: 10,
+    createdBy: 2,
+    participants: [2],
+    canceled: true,
+  },
+  // 모집 마감이 임박한 모임 (모집 마감은 시작 하루 전)
+  {
+    type: 'OFFICE_STRETCHING',
+    name: '손목 터널 증후군 예방',
+    location: '신림',
+    startsIn: 1 * DAY + 3 * HOUR,
+    capacity: 10,
+    createdBy: 4,
+    participants: [4, 3],
+  },
+];
+
+const seedGatherings = (base: number) => {
+  const gatherings: MemoryGathering[] = [];
+  const participants: MemoryParticipant[] = [];
+
+  GATHERING_SEEDS.forEach((seed, index) => {
+    const id = index + 1;
+    const dateTime = base + seed.startsIn;
+    gatherings.push({
+      teamId: MEMORY_TEAM_ID,
+      id,
+      type: seed.type,
+      name: seed.name,
+      dateTime: atOffset(dateTime, 0),
+      registrationEnd: atOffset(dateTime, -DAY),
+      location: seed.location,
+      participantCount: seed.participants.length,
+      capacity: seed.capacity,
+      image: DEFAULT_GATHERING_IMAGE,
+      createdBy: seed.createdBy,
+      canceledAt: seed.canceled ? atOffset(base, -DAY) : null,
+    });
+    seed.participants.forEach((userId, order) => {
+      participants.push({
+        gatheringId: id,
+        userId,
+        joinedAt: atOffset(dateTime, -5 * DAY + order * HOUR),
+      });
+    });
+  });
+
+  return { gatherings, participants };
+};
+
+const REVIEW_SEEDS: Omit<MemoryReview, 'id' | 'createdAt'>[] = [
+  { gatheringId: 1, userId: 2, score: 5, comment: '목과 어깨가 한결 가벼워졌어요!' },
+  { gatheringId: 1, userId: 3, score: 4, comment: '짧지만 알찬 시간이었습니다.' },
+  { gatheringId: 2, userId: 3, score: 5, comment: '하루의 피로가 싹 풀리는 명상이었어요.' },
+  { gatheringId: 2, userId: 4, score: 3, comment: '장소가 조금 시끄러웠지만 좋았어요.' },
+  { gatheringId: 3, userId: 2, score: 4, comment: '바다를 보며 일하니 능률이 올랐어요.' },
+  { gatheringId: 3, userId: 4, score: 5, comment: '다음 워케이션도 꼭 참여하고 싶어요.' },
+];
+
+const seedReviews = (base: number): MemoryReview[] =>
+  REVIEW_SEEDS.map((review, index) => ({
+    ...review,
+    id: index + 1,
+    createdAt: atOffset(base, -DAY + index * HOUR),
+  }));
+
+// 시드 데이터로 채운 새 DB 생성
+export const createSeededDb = (now = Date.now()): MemoryDb => {
+  const base = Math.floor(now / HOUR) * HOUR;
+  const users = seedUsers(base);
+  const { gatherings, participants } = seedGatherings(base);
+  const reviews = seedReviews(base);
+
+  return {
+    users,
+    gatherings,
+    participants,
+    reviews,
+    gatheringSeries: [],
+    waitlist: [],
+    calendarFeeds: [],
+    nextIds: {
+      user: users.length + 1,
+      gathering: gatherings.length + 1,
+      review: reviews.length + 1,
+      gatheringSeries: 1,
+    },
+  };
+};
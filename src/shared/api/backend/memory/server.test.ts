@@ -0,0 +1,486 @@
+import { subscribeGatheringLive } from '@/shared/api/live/gatheringLivePublisher';
+import type { BackendRequest } from '../types';
+import { MEMORY_DEMO_PASSWORD, MEMORY_DEMO_USER_EMAIL, createSeededDb } from './seed';
+import { handleMemoryRequest } from './server';
+import type { MemoryDb } from './types';
+
+const NOW = new Date('2025-01-15T09:00:00.000Z').getTime();
+
+const request = (
+  db: MemoryDb,
+  method: string,
+  path: string,
+  { body, token, query }: { body?: unknown; token?: string; query?: Record<string, string> } = {},
+) => {
+  const backendRequest: BackendRequest = {
+    method,
+    path,
+    query: new URLSearchParams(query),
+    body,
+    authorization: token ? `Bearer ${token}` : null,
+  };
+  return handleMemoryRequest(backendRequest, { db, now: NOW });
+};
+
+const signin = async (db: MemoryDb, email = MEMORY_DEMO_USER_EMAIL) => {
+  const { body } = await request(db, 'POST', '/auths/signin', {
+    body: { email, password: MEMORY_DEMO_PASSWORD },
+  });
+  return (body as { token: string }).token;
+};
+
+describe('인메모리 서버', () => {
+  let db: MemoryDb;
+
+  beforeEach(() => {
+    db = createSeededDb(NOW);
+  });
+
+  describe('인증', () => {
+    it('시드 계정으로 로그인하면 토큰을 발급하고 사용자 정보를 조회할 수 있다', async () => {
+      const token = await signin(db);
+
+      const { status, body } = await request(db, 'GET', '/auths/user', { token });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ email: MEMORY_DEMO_USER_EMAIL });
+      expect(body).not.toHaveProperty('password');
+    });
+
+    it('비밀번호가 틀리면 INVALID_CREDENTIALS 에러를 반환한다', async () => {
+      const { status, body } = await request(db, 'POST', '/auths/signin', {
+        body: JSON.stringify({ email: MEMORY_DEMO_USER_EMAIL, password: 'wrong' }),
+      });
+
+      expect(status).toBe(401);
+      expect(body).toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    });
+
+    it('이미 가입된 이메일로 회원가입하면 EMAIL_EXISTS 에러를 반환한다', async () => {
+      const { status, body } = await request(db, 'POST', '/auths/signup', {
+        body: {
+          email: MEMORY_DEMO_USER_EMAIL,
+          password: MEMORY_DEMO_PASSWORD,
+          name: '중복',
+          companyName: '회사',
+        },
+      });
+
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ code: 'EMAIL_EXISTS' });
+    });
+
+    it('토큰 없이 인증이 필요한 요청을 보내면 401을 반환한다', async () => {
+      const { status, body } = await request(db, 'GET', '/gatherings/joined');
+
+      expect(status).toBe(401);
+      expect(body).toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+  });
+
+  describe('모임', () => {
+    it('DALLAEMFIT 타입은 오피스 스트레칭과 마인드풀니스 모임을 모두 조회한다', async () => {
+      const { body } = await request(db, 'GET', '/gatherings', { query: { type: 'DALLAEMFIT' } });
+
+      const types = new Set((body as { type: string }[]).map((gathering) => gathering.type));
+      expect(types).toEqual(new Set(['OFFICE_STRETCHING', 'MINDFULNESS']));
+    });
+
+    it('정렬과 페이지네이션을 적용한다', async () => {
+      const { body } = await request(db, 'GET', '/gatherings', {
+        query: { sortBy: 'participantCount', sortOrder: 'desc', limit: '2', offset: '0' },
+      });
+
+      const counts = (body as { participantCount: number }[]).map((item) => item.participantCount);
+      expect(counts).toHaveLength(2);
+      expect(counts[0]).toBeGreaterThanOrEqual(counts[1]);
+    });
+
+    it('모임에 참여하면 참여자 수가 늘고 참여자 목록에 추가된다', async () => {
+      const token = await signin(db);
+      // 데모 계정이 참여하지 않은 다가오는 모임
+      const gatheringId = 6;
+
+      const { status } = await request(db, 'POST', `/gatherings/${gatheringId}/join`, { token });
+      const { body: gathering } = await request(db, 'GET', `/gatherings/${gatheringId}`);
+      const { body: participants } = await request(
+        db,
+        'GET',
+        `/gatherings/${gatheringId}/participants`,
+      );
+
+      expect(status).toBe(200);
+      expect(gathering).toMatchObject({ participantCount: 3 });
+      expect((participants as { userId: number }[]).map((item) => item.userId)).toContain(1);
+    });
+
+    it('참여하면 모임 구독자에게 바뀐 참여자 수를 전달한다', async () => {
+      const token = await signin(db);
+      const listener = jest.fn();
+      const unsubscribe = subscribeGatheringLive(6, listener);
+
+      await request(db, 'POST', '/gatherings/6/join', { token });
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith({
+        gatheringId: 6,
+        participantCount: 3,
+        canceledAt: null,
+      });
+    });
+
+    it.each([
+      [8, 'GATHERING_FULL'],
+      [11, 'GATHERING_CANCELED'],
+      [3, 'PAST_GATHERING'],
+      [5, 'ALREADY_JOINED'],
+    ])('%i번 모임에 참여하면 %s 에러를 반환한다', async (gatheringId, code) => {
+      const token = await signin(db);
+
+      const { status, body } = await request(db, 'POST', `/gatherings/${gatheringId}/join`, {
+        token,
+      });
+
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ code });
+    });
+
+    it('주최자가 아니면 모임을 취소할 수 없다', async () => {
+      const token = await signin(db);
+
+      const { status, body } = await request(db, 'PUT', '/gatherings/5/cancel', { token });
+
+      expect(status).toBe(403);
+      expect(body).toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('주최자는 보낸 필드만 수정할 수 있다', async () => {
+      const token = await signin(db);
+      const formData = new FormData();
+      formData.append('name', '야근 전 허리 펴기 (장소 변경)');
+      formData.append('location', '신림');
+      formData.append('capacity', '12');
+
+      const { status, body } = await request(db, 'PUT', '/gatherings/9', { token, body: formData });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        name: '야근 전 허리 펴기 (장소 변경)',
+        location: '신림',
+        capacity: 12,
+        type: 'OFFICE_STRETCHING',
+      });
+    });
+
+    it('다른 참여자가 있으면 장소를 바꾸거나 정원을 참여 인원보다 줄일 수 없다', async () => {
+      const token = await signin(db, 'host@moizayo.dev');
+
+      const location = await request(db, 'PUT', '/gatherings/8', {
+        token,
+        body: { location: '건대입구' },
+      });
+      const capacity = await request(db, 'PUT', '/gatherings/5', {
+        token,
+        body: { capacity: '1' },
+      });
+
+      expect(location).toMatchObject({ status: 400, body: { code: 'VALIDATION_ERROR' } });
+      expect(capacity).toMatchObject({ status: 400, body: { code: 'VALIDATION_ERROR' } });
+    });
+
+    it('주최자가 아니면 모임을 수정할 수 없다', async () => {
+      const token = await signin(db);
+
+      const { status } = await request(db, 'PUT', '/gatherings/5', {
+        token,
+        body: { name: '변경' },
+      });
+
+      expect(status).toBe(403);
+    });
+
+    it('FormData로 모임을 생성하면 주최자가 자동으로 참여한다', async () => {
+      const token = await signin(db);
+      const formData = new FormData();
+      formData.append('name', '새 모임');
+      formData.append('type', 'WORKATION');
+      formData.append('location', '신림');
+      formData.append('capacity', '10');
+      formData.append('dateTime', new Date(NOW + 1000 * 60 * 60 * 48).toISOString());
+
+      const { status, body } = await request(db, 'POST', '/gatherings', { token, body: formData });
+
+      expect(status).toBe(201);
+      expect(body).toMatchObject({ name: '새 모임', createdBy: 1, participantCount: 1 });
+    });
+
+    it('주최자가 정한 개설 확정 인원을 저장하고 정원은 그 인원 이상이어야 한다', async () => {
+      const token = await signin(db);
+      const create = (capacity: string) =>
+        request(db, 'POST', '/gatherings', {
+          token,
+          body: {
+            name: '소규모 모임',
+            type: 'MINDFULNESS',
+            location: '신림',
+            capacity,
+            minParticipants: '3',
+            dateTime: new Date(NOW + 1000 * 60 * 60 * 48).toISOString(),
+          },
+        });
+
+      const created = await create('3');
+      const tooSmall = await create('2');
+
+      expect(created).toMatchObject({ status: 201, body: { capacity: 3, minParticipants: 3 } });
+      expect(tooSmall).toMatchObject({ status: 400, body: { code: 'VALIDATION_ERROR' } });
+    });
+
+    it('응답을 수정해도 DB에는 반영되지 않는다', async () => {
+      const { body } = await request(db, 'GET', '/gatherings/1');
+
+      (body as { name: string }).name = '변경';
+
+      expect(db.gatherings[0].name).not.toBe('변경');
+    });
+  });
+
+  describe('리뷰', () => {
+    it('참여한 지난 모임의 리뷰를 작성하면 작성 여부가 반영된다', async () => {
+      const token = await signin(db);
+
+      const { status } = await request(db, 'POST', '/reviews', {
+        token,
+        body: { gatheringId: 1, score: 5, comment: '좋았어요' },
+      });
+      const { body: joined } = await request(db, 'GET', '/gatherings/joined', {
+        token,
+        query: { completed: 'true', reviewed: 'true' },
+      });
+
+      expect(status).toBe(201);
+      expect((joined as { id: number }[]).map((item) => item.id)).toEqual([1]);
+    });
+
+    it('리뷰 목록은 페이지 정보와 함께 반환한다', async () => {
+      const { body } = await request(db, 'GET', '/reviews', {
+        query: { limit: '4', offset: '4' },
+      });
+
+      expect(body).toMatchObject({ totalItemCount: 6, currentPage: 2, totalPages: 2 });
+      expect((body as { data: unknown[] }).data).toHaveLength(2);
+    });
+
+    it('평점 통계를 타입별로 집계한다', async () => {
+      const { body } = await request(db, 'GET', '/reviews/scores', {
+        query: { type: 'WORKATION' },
+      });
+
+      expect(body).toEqual([
+        expect.objectContaining({
+          type: 'WORKATION',
+          averageScore: 4.5,
+          fourStars: 1,
+          fiveStars: 1,
+        }),
+      ]);
+    });
+  });
+
+  describe('반복 모임', () => {
+    const createGathering = async (token: string) => {
+      const { body } = await request(db, 'POST', '/gatherings', {
+        token,
+        body: {
+          name: '주간 명상',
+          type: 'MINDFULNESS',
+          location: '신림',
+          capacity: '10',
+          dateTime: new Date(NOW + 1000 * 60 * 60 * 48).toISOString(),
+        },
+      });
+      return (body as { id: number }).id;
+    };
+
+    it('만든 회차들을 시리즈로 묶으면 각 모임에 시리즈 id가 저장된다', async () => {
+      const token = await signin(db);
+      const gatheringIds = [await createGathering(token), await createGathering(token)];
+
+      const { status, body } = await request(db, 'POST', '/gathering-series', {
+        token,
+        body: { frequency: 'weekly', gatheringIds },
+      });
+      const seriesId = (body as { id: number }).id;
+
+      expect(status).toBe(201);
+      expect(body).toEqual({ id: seriesId, frequency: 'weekly', gatheringIds });
+      expect((await request(db, 'GET', `/gatherings/${gatheringIds[1]}`)).body).toMatchObject({
+        seriesId,
+      });
+      // 다른 사용자(로그인하지 않은 사용자 포함)도 같은 시리즈를 조회할 수 있음
+      expect((await request(db, 'GET', `/gathering-series/${seriesId}`)).body).toEqual(body);
+    });
+
+    it('다른 사용자가 만든 모임은 묶을 수 없다', async () => {
+      const token = await signin(db);
+      const seededId = db.gatherings.find((gathering) => gathering.createdBy !== 1)!.id;
+      const ownId = await createGathering(token);
+
+      const { status } = await request(db, 'POST', '/gathering-series', {
+        token,
+        body: { frequency: 'weekly', gatheringIds: [ownId, seededId] },
+      });
+
+      expect(status).toBe(403);
+      expect(db.gatherings.find((gathering) => gathering.id === ownId)?.seriesId).toBeUndefined();
+    });
+  });
+
+  describe('대기열', () => {
+    // 주최자와 데모 사용자가 참여해 정원(2명)이 찬 모임
+    const createFullGathering = async () => {
+      const hostToken = await signin(db, 'host@moizayo.dev');
+      const { body } = await request(db, 'POST', '/gatherings', {
+        token: hostToken,
+        body: {
+          name: '소규모 명상',
+          type: 'MINDFULNESS',
+          location: '신림',
+          capacity: '2',
+          minParticipants: '2',
+          dateTime: new Date(NOW + 1000 * 60 * 60 * 48).toISOString(),
+        },
+      });
+      const gatheringId = (body as { id: number }).id;
+      const demoToken = await signin(db);
+      await request(db, 'POST', `/gatherings/${gatheringId}/join`, { token: demoToken });
+      return { gatheringId, hostToken, demoToken };
+    };
+
+    it('정원이 찬 모임에만 대기 신청할 수 있고 신청한 순서대로 순번을 매긴다', async () => {
+      const { gatheringId } = await createFullGathering();
+      const mindfulToken = await signin(db, 'mindful@moizayo.dev');
+      const runnerToken = await signin(db, 'runner@moizayo.dev');
+
+      const first = await request(db, 'POST', `/gatherings/${gatheringId}/waitlist`, {
+        token: mindfulToken,
+      });
+      const second = await request(db, 'POST', `/gatherings/${gatheringId}/waitlist`, {
+        token: runnerToken,
+      });
+      const { body: openGathering } = await request(db, 'POST', '/gatherings', {
+        token: mindfulToken,
+        body: {
+          type: 'MINDFULNESS',
+          location: '신림',
+          capacity: '5',
+          dateTime: new Date(NOW + 1000 * 60 * 60 * 48).toISOString(),
+        },
+      });
+      const notFull = await request(
+        db,
+        'POST',
+        `/gatherings/${(openGathering as { id: number }).id}/waitlist`,
+        { token: runnerToken },
+      );
+
+      expect(first.body).toEqual({ gatheringId, position: 1, waitlistCount: 1 });
+      expect(second.body).toEqual({ gatheringId, position: 2, waitlistCount: 2 });
+      expect(notFull).toMatchObject({ status: 400, body: { code: 'VALIDATION_ERROR' } });
+      expect(
+        (await request(db, 'GET', '/gatherings/waitlisted', { token: runnerToken })).body,
+      ).toEqual([{ gatheringId, position: 2, waitlistCount: 2 }]);
+    });
+
+    it('참여자가 빠지거나 정원이 늘면 대기 순서대로 참여자가 된다', async () => {
+      const { gatheringId, hostToken, demoToken } = await createFullGathering();
+      const mindfulToken = await signin(db, 'mindful@moizayo.dev');
+      const runnerToken = await signin(db, 'runner@moizayo.dev');
+      await request(db, 'POST', `/gatherings/${gatheringId}/waitlist`, { token: mindfulToken });
+      await request(db, 'POST', `/gatherings/${gatheringId}/waitlist`, { token: runnerToken });
+
+      await request(db, 'DELETE', `/gatherings/${gatheringId}/leave`, { token: demoToken });
+
+      expect(
+        (await request(db, 'GET', `/gatherings/${gatheringId}/waitlist`, { token: mindfulToken }))
+          .body,
+      ).toEqual({ gatheringId, position: null, waitlistCount: 1 });
+      expect(
+        (await request(db, 'GET', `/gatherings/${gatheringId}/waitlist`, { token: runnerToken }))
+          .body,
+      ).toMatchObject({ position: 1 });
+
+      await request(db, 'PUT', `/gatherings/${gatheringId}`, {
+        token: hostToken,
+        body: { capacity: '3' },
+      });
+
+      const { body: participants } = await request(
+        db,
+        'GET',
+        `/gatherings/${gatheringId}/participants`,
+      );
+      expect((participants as { User: { name: string } }[]).map(({ User }) => User.name)).toEqual([
+        '김호스트',
+        '이마음',
+        '박러너',
+      ]);
+      expect((await request(db, 'GET', `/gatherings/${gatheringId}`)).body).toMatchObject({
+        participantCount: 3,
+      });
+    });
+
+    it('모임이 취소되면 대기열을 비운다', async () => {
+      const { gatheringId, hostToken } = await createFullGathering();
+      const mindfulToken = await signin(db, 'mindful@moizayo.dev');
+      await request(db, 'POST', `/gatherings/${gatheringId}/waitlist`, { token: mindfulToken });
+
+      await request(db, 'PUT', `/gatherings/${gatheringId}/cancel`, { token: hostToken });
+
+      expect(
+        (await request(db, 'GET', '/gatherings/waitlisted', { token: mindfulToken })).body,
+      ).toEqual([]);
+    });
+  });
+
+  describe('캘린더 구독', () => {
+    it('발급한 구독 토큰으로 로그인 없이 참여한 모임을 조회한다', async () => {
+      const token = await signin(db);
+
+      const before = await request(db, 'GET', '/calendar-feeds', { token });
+      const { status, body } = await request(db, 'POST', '/calendar-feeds', { token });
+      const feedToken = (body as { token: string }).token;
+      const current = await request(db, 'GET', '/calendar-feeds', { token });
+      const feed = await request(db, 'GET', `/calendar-feeds/${feedToken}/gatherings`);
+      const joined = await request(db, 'GET', '/gatherings/joined', { token });
+
+      expect(before.body).toEqual({ token: null, createdAt: null });
+      expect(status).toBe(201);
+      expect(current.body).toEqual(body);
+      expect(feed.body).toEqual(joined.body);
+    });
+
+    it('다시 발급하면 이전 구독 토큰은 더 이상 동작하지 않는다', async () => {
+      const token = await signin(db);
+      const issue = async () =>
+        ((await request(db, 'POST', '/calendar-feeds', { token })).body as { token: string }).token;
+
+      const previous = await issue();
+      const next = await issue();
+
+      expect(await request(db, 'GET', `/calendar-feeds/${previous}/gatherings`)).toMatchObject({
+        status: 401,
+        body: { code: 'UNAUTHORIZED' },
+      });
+      expect(await request(db, 'GET', `/calendar-feeds/${next}/gatherings`)).toMatchObject({
+        status: 200,
+      });
+    });
+  });
+
+  it('등록되지 않은 경로는 404를 반환한다', async () => {
+    const { status } = await request(db, 'GET', '/unknown');
+
+    expect(status).toBe(404);
+  });
+});
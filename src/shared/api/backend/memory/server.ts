@@ -0,0 +1,945 @@
+import { publishGatheringLiveEvent } from '@/shared/api/live/gatheringLivePublisher';
+import { type ApiErrorCode, ERROR_CODES, HTTP_STATUS } from '@/shared/config/api';
+import {
+  DEFAULT_MIN_PARTICIPANTS,
+  MIN_PARTICIPANTS_LOWER_BOUND,
+  getMinParticipants,
+} from '@/shared/lib/gathering/confirmation';
+import type { BackendRequest, BackendResponse } from '../types';
+import { getMemoryDb } from './db';
+import { MEMORY_TEAM_ID } from './seed';
+import { createMemoryToken, verifyMemoryToken } from './token';
+import type {
+  MemoryCalendarFeed,
+  MemoryDb,
+  MemoryGathering,
+  MemoryGatheringSeries,
+  MemoryUser,
+} from './types';
+
+// 실제 API와 같은 { code, message } 형태의 에러 응답을 만들기 위한 에러
+class MemoryServerError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+interface RouteContext {
+  db: MemoryDb;
+  request: BackendRequest;
+  params: Record<string, string>;
+  now: number;
+}
+
+type RouteHandler = (context: RouteContext) => BackendResponse | Promise<BackendResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+const routes: Route[] = [];
+
+// '/gatherings/:id/join' 형태의 경로를 등록
+const route = (method: string, path: string, handler: RouteHandler) => {
+  const keys: string[] = [];
+  const pattern = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${pattern}/?$`), keys, handler });
+};
+
+const ok = (body: unknown, status: number = HTTP_STATUS.OK): BackendResponse => ({ status, body });
+
+// ---- 요청 파싱 ----
+
+// JSON 문자열, 객체, FormData 본문을 모두 객체로 변환
+const readBody = (request: BackendRequest): Record<string, unknown> => {
+  const { body } = request;
+  if (!body) return {};
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return Object.fromEntries(body.entries());
+  }
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body) as Record<string, unknown>;
+    } catch {
+      throw new MemoryServerError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        '잘못된 요청입니다',
+      );
+    }
+  }
+  return body as Record<string, unknown>;
+};
+
+const readNumber = (value: string | null | undefined) => {
+  if (value == null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+const readBoolean = (value: string | null) => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+const requireString = (body: Record<string, unknown>, key: string): string => {
+  const value = body[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      `${key}을(를) 입력해주세요`,
+    );
+  }
+  return value;
+};
+
+// 업로드된 이미지는 data URL로 저장 (외부 스토리지 없이 동작)
+const readImage = async (value: unknown): Promise<string | null> => {
+  if (typeof File === 'undefined' || !(value instanceof File) || value.size === 0) return null;
+  const base64 = Buffer.from(await value.arrayBuffer()).toString('base64');
+  return `data:${value.type || 'application/octet-stream'};base64,${base64}`;
+};
+
+// ---- 공통 조회 ----
+
+const requireUser = ({ db, request, now }: RouteContext): MemoryUser => {
+  const token = request.authorization?.replace(/^Bearer\s+/i, '');
+  const userId = token ? verifyMemoryToken(token, now) : null;
+  const user = userId ? db.users.find((item) => item.id === userId) : undefined;
+
+  if (!user) {
+    throw new MemoryServerError(
+      HTTP_STATUS.UNAUTHORIZED,
+      ERROR_CODES.UNAUTHORIZED,
+      '인증이 필요합니다',
+    );
+  }
+  return user;
+};
+
+const requireGathering = ({ db, params }: RouteContext): MemoryGathering => {
+  const gathering = db.gatherings.find((item) => item.id === Number(params.id));
+  if (!gathering) {
+    throw new MemoryServerError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_CODES.NOT_FOUND,
+      '모임을 찾을 수 없습니다',
+    );
+  }
+  return gathering;
+};
+
+// 응답에서 비밀번호 제외
+const toPublicUser = ({
+  teamId,
+  id,
+  email,
+  name,
+  companyName,
+  image,
+  createdAt,
+  updatedAt,
+}: MemoryUser) => ({ teamId, id, email, name, companyName, image, createdAt, updatedAt });
+
+// 참여 인원/취소 상태가 바뀌면 SSE 구독자에게 전달
+const publishGatheringChange = ({ id, participantCount, canceledAt }: MemoryGathering) =>
+  publishGatheringLiveEvent({ gatheringId: id, participantCount, canceledAt });
+
+const isParticipant = (db: MemoryDb, gatheringId: number, userId: number) =>
+  db.participants.some((item) => item.gatheringId === gatheringId && item.userId === userId);
+
+// 모임의 대기자 목록 (신청한 순서)
+const getGatheringWaitlist = (db: MemoryDb, gatheringId: number) =>
+  db.waitlist.filter((item) => item.gatheringId === gatheringId);
+
+// 자리가 난 만큼 대기 순서대로 참여자로 옮김 (옮긴 인원 수 반환)
+// 취소되었거나 모집이 마감된 모임은 옮기지 않음
+const promoteWaitlist = (db: MemoryDb, gathering: MemoryGathering, now: number) => {
+  if (gathering.canceledAt || new Date(gathering.registrationEnd).getTime() < now) return 0;
+
+  const openSpots = gathering.capacity - gathering.participantCount;
+  const promoted = getGatheringWaitlist(db, gathering.id).slice(0, Math.max(openSpots, 0));
+  promoted.forEach(({ userId }) => {
+    db.participants.push({
+      gatheringId: gathering.id,
+      userId,
+      joinedAt: new Date(now).toISOString(),
+    });
+  });
+  db.waitlist = db.waitlist.filter((item) => !promoted.includes(item));
+  gathering.participantCount += promoted.length;
+  return promoted.length;
+};
+
+// 사용자의 대기 상태 (대기 중이 아니면 position이 null)
+const toWaitlistStatus = (db: MemoryDb, gatheringId: number, userId: number) => {
+  const waitlist = getGatheringWaitlist(db, gatheringId);
+  const index = waitlist.findIndex((item) => item.userId === userId);
+  return {
+    gatheringId,
+    position: index === -1 ? null : index + 1,
+    waitlistCount: waitlist.length,
+  };
+};
+
+// DALLAEMFIT은 OFFICE_STRETCHING, MINDFULNESS를 포함하는 상위 타입
+const matchesType = (gatheringType: string, type: string | null) => {
+  if (!type) return true;
+  if (type === 'DALLAEMFIT') {
+    return gatheringType === 'OFFICE_STRETCHING' || gatheringType === 'MINDFULNESS';
+  }
+  return gatheringType === type;
+};
+
+const sortBy = <T>(list: T[], getValue: (item: T) => string | number, order: string | null) => {
+  const direction = order === 'desc' ? -1 : 1;
+  return [...list].sort((a, b) => {
+    const left = getValue(a);
+    const right = getValue(b);
+    if (left === right) return 0;
+    return left > right ? direction : -direction;
+  });
+};
+
+const paginate = <T>(list: T[], query: URLSearchParams, defaultLimit?: number) => {
+  const offset = readNumber(query.get('offset')) ?? 0;
+  const limit = readNumber(query.get('limit')) ?? defaultLimit;
+  return limit === undefined ? list.slice(offset) : list.slice(offset, offset + limit);
+};
+
+// ---- 인증 ----
+
+route('POST', '/auths/signup', ({ db, request, now }) => {
+  const body = readBody(request);
+  const email = requireString(body, 'email');
+  const password = requireString(body, 'password');
+  const name = requireString(body, 'name');
+  const companyName = requireString(body, 'companyName');
+
+  if (db.users.some((user) => user.email === email)) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.EMAIL_EXISTS,
+      '이미 사용 중인 이메일입니다',
+    );
+  }
+
+  const createdAt = new Date(now).toISOString();
+  db.users.push({
+    teamId: MEMORY_TEAM_ID,
+    id: db.nextIds.user++,
+    email,
+    password,
+    name,
+    companyName,
+    image: null,
+    createdAt,
+    updatedAt: createdAt,
+  });
+  return ok({ message: '사용자 생성 성공' }, HTTP_STATUS.CREATED);
+});
+
+route('POST', '/auths/signin', ({ db, request, now }) => {
+  const body = readBody(request);
+  const email = requireString(body, 'email');
+  const password = requireString(body, 'password');
+
+  const user = db.users.find((item) => item.email === email);
+  if (!user) {
+    throw new MemoryServerError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_CODES.USER_NOT_FOUND,
+      '존재하지 않는 아이디입니다',
+    );
+  }
+  if (user.password !== password) {
+    throw new MemoryServerError(
+      HTTP_STATUS.UNAUTHORIZED,
+      ERROR_CODES.INVALID_CREDENTIALS,
+      '비밀번호가 아이디와 일치하지 않습니다',
+    );
+  }
+  return ok({ token: createMemoryToken(user.id, now) });
+});
+
+route('POST', '/auths/signout', () => ok({ message: '로그아웃 성공' }));
+
+route('GET', '/auths/user', (context) => ok(toPublicUser(requireUser(context))));
+
+route('PUT', '/auths/user', async (context) => {
+  const user = requireUser(context);
+  const body = readBody(context.request);
+
+  if (typeof body.companyName === 'string' && body.companyName.trim()) {
+    user.companyName = body.companyName;
+  }
+  const image = await readImage(body.image);
+  if (image) user.image = image;
+  user.updatedAt = new Date(context.now).toISOString();
+
+  return ok(toPublicUser(user));
+});
+
+// ---- 모임 ----
+
+// 목록보다 먼저 등록해야 '/gatherings/:id'에 걸리지 않음
+// 사용자가 참여한 모임 목록 (GET /gatherings/joined와 캘린더 구독에서 함께 사용)
+const listJoinedGatherings = ({ db, request, now }: RouteContext, userId: number) => {
+  const { query } = request;
+  const completed = readBoolean(query.get('completed'));
+  const reviewed = readBoolean(query.get('reviewed'));
+
+  const joined = db.participants
+    .filter((item) => item.userId === userId)
+    .flatMap(({ gatheringId, joinedAt }) => {
+      const gathering = db.gatherings.find((item) => item.id === gatheringId);
+      if (!gathering) return [];
+      return [
+        {
+          ...gathering,
+          joinedAt,
+          isCompleted: new Date(gathering.dateTime).getTime() < now,
+          isReviewed: db.reviews.some(
+            (review) => review.gatheringId === gatheringId && review.userId === userId,
+          ),
+        },
+      ];
+    })
+    .filter((item) => completed === undefined || item.isCompleted === completed)
+    .filter((item) => reviewed === undefined || item.isReviewed === reviewed);
+
+  const key = query.get('sortBy') ?? 'joinedAt';
+  const sorted = sortBy(
+    joined,
+    (item) => item[key as 'dateTime' | 'registrationEnd' | 'joinedAt'] ?? item.joinedAt,
+    query.get('sortOrder') ?? 'desc',
+  );
+  return paginate(sorted, query);
+};
+
+// 사용자가 대기 중인 모임의 대기 상태 목록 (대기 신청한 순서)
+route('GET', '/gatherings/waitlisted', (context) => {
+  const { db } = context;
+  const user = requireUser(context);
+  const entries = sortBy(
+    db.waitlist.filter((item) => item.userId === user.id),
+    (item) => item.joinedAt,
+    'asc',
+  );
+  return ok(entries.map(({ gatheringId }) => toWaitlistStatus(db, gatheringId, user.id)));
+});
+
+route('GET', '/gatherings/joined', (context) =>
+  ok(listJoinedGatherings(context, requireUser(context).id)),
+);
+
+route('GET', '/gatherings', ({ db, request }) => {
+  const { query } = request;
+  const ids = query.get('id')?.split(',').map(Number);
+  const createdBy = readNumber(query.get('createdBy'));
+  const location = query.get('location');
+  const date = query.get('date');
+
+  const filtered = db.gatherings.filter(
+    (gathering) =>
+      (!ids || ids.includes(gathering.id)) &&
+      matchesType(gathering.type, query.get('type')) &&
+      (!location || gathering.location === location) &&
+      (!date || gathering.dateTime.startsWith(date)) &&
+      (createdBy === undefined || gathering.createdBy === createdBy),
+  );
+
+  const key = query.get('sortBy');
+  const sorted = key
+    ? sortBy(
+        filtered,
+        (gathering) => gathering[key as 'dateTime' | 'registrationEnd' | 'participantCount'],
+        query.get('sortOrder'),
+      )
+    : filtered;
+  return ok(paginate(sorted, query));
+});
+
+route('GET', '/gatherings/:id', (context) => ok(requireGathering(context)));
+
+route('POST', '/gatherings', async (context) => {
+  const { db, request } = context;
+  const user = requireUser(context);
+  const body = readBody(request);
+
+  const dateTime = requireString(body, 'dateTime');
+  const minParticipants =
+    readNumber(String(body.minParticipants ?? '')) ?? DEFAULT_MIN_PARTICIPANTS;
+  if (minParticipants < MIN_PARTICIPANTS_LOWER_BOUND) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      `개설 확정 인원은 최소 ${MIN_PARTICIPANTS_LOWER_BOUND}명 이상이어야 합니다`,
+    );
+  }
+  const capacity = readNumber(String(body.capacity ?? ''));
+  if (capacity === undefined || capacity < minParticipants) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      `모집 정원은 개설 확정 인원(${minParticipants}명) 이상이어야 합니다`,
+    );
+  }
+
+  const gathering: MemoryGathering = {
+    teamId: MEMORY_TEAM_ID,
+    id: db.nextIds.gathering++,
+    type: requireString(body, 'type'),
+    name: typeof body.name === 'string' ? body.name : '',
+    dateTime,
+    registrationEnd: typeof body.registrationEnd === 'string' ? body.registrationEnd : dateTime,
+    location: requireString(body, 'location'),
+    // 모임을 만든 사용자는 자동으로 참여
+    participantCount: 1,
+    capacity,
+    minParticipants,
+    image: (await readImage(body.image)) ?? '/gathering-default-image.png',
+    createdBy: user.id,
+    canceledAt: null,
+  };
+  db.gatherings.push(gathering);
+  db.participants.push({
+    gatheringId: gathering.id,
+    userId: user.id,
+    joinedAt: new Date(context.now).toISOString(),
+  });
+
+  return ok(gathering, HTTP_STATUS.CREATED);
+});
+
+// 다른 참여자가 있으면 바꿀 수 없는 필드 (주최자는 모임을 만들면 자동으로 참여)
+const LOCKED_GATHERING_FIELDS = ['type', 'location', 'dateTime', 'minParticipants'] as const;
+
+// 모임 수정 (FormData에 보낸 필드만 변경, 이미지를 보내지 않으면 기존 이미지 유지)
+route('PUT', '/gatherings/:id', async (context) => {
+  const { request, now } = context;
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+  const body = readBody(request);
+
+  const reject = (status: number, code: ApiErrorCode, message: string) => {
+    throw new MemoryServerError(status, code, message);
+  };
+  if (gathering.createdBy !== user.id) {
+    reject(HTTP_STATUS.FORBIDDEN, ERROR_CODES.FORBIDDEN, '모임을 수정할 권한이 없습니다');
+  }
+  if (gathering.canceledAt) {
+    reject(HTTP_STATUS.BAD_REQUEST, ERROR_CODES.GATHERING_CANCELED, '취소된 모임입니다');
+  }
+  if (new Date(gathering.dateTime).getTime() < now) {
+    reject(HTTP_STATUS.BAD_REQUEST, ERROR_CODES.PAST_GATHERING, '이미 지난 모임입니다');
+  }
+
+  const readField = (key: string) =>
+    typeof body[key] === 'string' && body[key] !== '' ? (body[key] as string) : undefined;
+
+  if (gathering.participantCount > 1) {
+    const lockedField = LOCKED_GATHERING_FIELDS.find((key) => {
+      const value = readField(key);
+      if (value === undefined) return false;
+      if (key === 'dateTime') {
+        return new Date(value).getTime() !== new Date(gathering.dateTime).getTime();
+      }
+      if (key === 'minParticipants') return readNumber(value) !== getMinParticipants(gathering);
+      return value !== gathering[key];
+    });
+    if (lockedField) {
+      reject(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `참여자가 있는 모임은 ${lockedField}을(를) 변경할 수 없습니다`,
+      );
+    }
+  }
+
+  const minParticipants = readNumber(readField('minParticipants')) ?? getMinParticipants(gathering);
+  if (minParticipants < MIN_PARTICIPANTS_LOWER_BOUND) {
+    reject(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      `개설 확정 인원은 최소 ${MIN_PARTICIPANTS_LOWER_BOUND}명 이상이어야 합니다`,
+    );
+  }
+  const capacity = readNumber(readField('capacity')) ?? gathering.capacity;
+  if (capacity < Math.max(minParticipants, gathering.participantCount)) {
+    reject(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      '모집 정원은 개설 확정 인원 이상이고 현재 참여 인원보다 적을 수 없습니다',
+    );
+  }
+
+  const dateTime = readField('dateTime') ?? gathering.dateTime;
+  const registrationEnd = readField('registrationEnd') ?? gathering.registrationEnd;
+  if (new Date(registrationEnd).getTime() > new Date(dateTime).getTime()) {
+    reject(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      '모집 마감일은 모임 날짜보다 앞서야 합니다',
+    );
+  }
+
+  Object.assign(gathering, {
+    name: readField('name') ?? gathering.name,
+    type: readField('type') ?? gathering.type,
+    location: readField('location') ?? gathering.location,
+    dateTime,
+    registrationEnd,
+    capacity,
+    minParticipants,
+    image: (await readImage(body.image)) ?? gathering.image,
+  });
+  // 정원이 늘었으면 대기자를 참여자로 옮김
+  if (promoteWaitlist(context.db, gathering, now) > 0) publishGatheringChange(gathering);
+  return ok(gathering);
+});
+
+route('POST', '/gatherings/:id/join', (context) => {
+  const { db, now } = context;
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+
+  const reject = (code: ApiErrorCode, message: string) => {
+    throw new MemoryServerError(HTTP_STATUS.BAD_REQUEST, code, message);
+  };
+  if (gathering.canceledAt) reject(ERROR_CODES.GATHERING_CANCELED, '취소된 모임입니다');
+  if (new Date(gathering.dateTime).getTime() < now) {
+    reject(ERROR_CODES.PAST_GATHERING, '이미 지난 모임입니다');
+  }
+  if (new Date(gathering.registrationEnd).getTime() < now) {
+    reject(ERROR_CODES.REGISTRATION_CLOSED, '모집이 마감된 모임입니다');
+  }
+  if (isParticipant(db, gathering.id, user.id)) {
+    reject(ERROR_CODES.ALREADY_JOINED, '이미 참여한 모임입니다');
+  }
+  if (gathering.participantCount >= gathering.capacity) {
+    reject(ERROR_CODES.GATHERING_FULL, '모임 정원이 가득 찼습니다');
+  }
+
+  db.participants.push({
+    gatheringId: gathering.id,
+    userId: user.id,
+    joinedAt: new Date(now).toISOString(),
+  });
+  gathering.participantCount += 1;
+  publishGatheringChange(gathering);
+  return ok({ message: '모임에 참여했습니다' });
+});
+
+route('DELETE', '/gatherings/:id/leave', (context) => {
+  const { db, now } = context;
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+
+  if (new Date(gathering.dateTime).getTime() < now) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.PAST_GATHERING,
+      '이미 지난 모임은 참여 취소할 수 없습니다',
+    );
+  }
+  if (!isParticipant(db, gathering.id, user.id)) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.NOT_PARTICIPANT,
+      '참여하지 않은 모임입니다',
+    );
+  }
+
+  db.participants = db.participants.filter(
+    (item) => !(item.gatheringId === gathering.id && item.userId === user.id),
+  );
+  gathering.participantCount -= 1;
+  // 빈자리는 대기 1번에게 바로 넘어감
+  promoteWaitlist(db, gathering, now);
+  publishGatheringChange(gathering);
+  return ok({ message: '모임을 참여 취소했습니다' });
+});
+
+route('PUT', '/gatherings/:id/cancel', (context) => {
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+
+  if (gathering.createdBy !== user.id) {
+    throw new MemoryServerError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_CODES.FORBIDDEN,
+      '모임을 취소할 권한이 없습니다',
+    );
+  }
+
+  gathering.canceledAt = gathering.canceledAt ?? new Date(context.now).toISOString();
+  context.db.waitlist = context.db.waitlist.filter((item) => item.gatheringId !== gathering.id);
+  publishGatheringChange(gathering);
+  return ok(gathering);
+});
+
+route('GET', '/gatherings/:id/participants', (context) => {
+  const { db, request } = context;
+  const gathering = requireGathering(context);
+
+  const participants = db.participants
+    .filter((item) => item.gatheringId === gathering.id)
+    .flatMap(({ userId, joinedAt }) => {
+      const user = db.users.find((item) => item.id === userId);
+      if (!user) return [];
+      const { id, email, name, companyName, image } = user;
+      return [
+        {
+          teamId: MEMORY_TEAM_ID,
+          userId,
+          gatheringId: gathering.id,
+          joinedAt,
+          User: { id, email, name, companyName, image },
+        },
+      ];
+    });
+
+  const sorted = sortBy(
+    participants,
+    (item) => item.joinedAt,
+    request.query.get('sortOrder') ?? 'asc',
+  );
+  return ok(paginate(sorted, request.query));
+});
+
+// ---- 대기열 ----
+
+route('GET', '/gatherings/:id/waitlist', (context) => {
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+  return ok(toWaitlistStatus(context.db, gathering.id, user.id));
+});
+
+// 대기 신청 (이미 대기 중이면 순번 유지)
+route('POST', '/gatherings/:id/waitlist', (context) => {
+  const { db, now } = context;
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+
+  const reject = (code: ApiErrorCode, message: string) => {
+    throw new MemoryServerError(HTTP_STATUS.BAD_REQUEST, code, message);
+  };
+  if (gathering.canceledAt) reject(ERROR_CODES.GATHERING_CANCELED, '취소된 모임입니다');
+  if (new Date(gathering.registrationEnd).getTime() < now) {
+    reject(ERROR_CODES.REGISTRATION_CLOSED, '모집이 마감된 모임입니다');
+  }
+  if (isParticipant(db, gathering.id, user.id)) {
+    reject(ERROR_CODES.ALREADY_JOINED, '이미 참여한 모임입니다');
+  }
+  if (gathering.participantCount < gathering.capacity) {
+    reject(ERROR_CODES.VALIDATION_ERROR, '자리가 남아 있는 모임은 바로 참여할 수 있습니다');
+  }
+
+  if (!db.waitlist.some((item) => item.gatheringId === gathering.id && item.userId === user.id)) {
+    db.waitlist.push({
+      gatheringId: gathering.id,
+      userId: user.id,
+      joinedAt: new Date(now).toISOString(),
+    });
+  }
+  return ok(toWaitlistStatus(db, gathering.id, user.id));
+});
+
+// 대기 취소 (대기 중이 아니어도 성공)
+route('DELETE', '/gatherings/:id/waitlist', (context) => {
+  const user = requireUser(context);
+  const gathering = requireGathering(context);
+
+  context.db.waitlist = context.db.waitlist.filter(
+    (item) => !(item.gatheringId === gathering.id && item.userId === user.id),
+  );
+  return ok(toWaitlistStatus(context.db, gathering.id, user.id));
+});
+
+// ---- 리뷰 ----
+
+const findReviewGathering = (db: MemoryDb, gatheringId: number) =>
+  db.gatherings.find((item) => item.id === gatheringId);
+
+route('GET', '/reviews/scores', ({ db, request }) => {
+  const type = request.query.get('type');
+  const gatheringId = readNumber(request.query.get('gatheringId'));
+
+  const scores = db.reviews
+    .filter((review) => {
+      const gathering = findReviewGathering(db, review.gatheringId);
+      return (
+        !!gathering &&
+        matchesType(gathering.type, type) &&
+        (gatheringId === undefined || gathering.id === gatheringId)
+      );
+    })
+    .map((review) => review.score);
+
+  if (scores.length === 0) return ok([]);
+
+  const countOf = (score: number) => scores.filter((item) => item === score).length;
+  const averageScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+  return ok([
+    {
+      teamId: String(MEMORY_TEAM_ID),
+      ...(type && { type }),
+      ...(gatheringId !== undefined && { gatheringId }),
+      averageScore: Math.round(averageScore * 10) / 10,
+      oneStar: countOf(1),
+      twoStars: countOf(2),
+      threeStars: countOf(3),
+      fourStars: countOf(4),
+      fiveStars: countOf(5),
+    },
+  ]);
+});
+
+route('GET', '/reviews', ({ db, request }) => {
+  const { query } = request;
+  const gatheringId = readNumber(query.get('gatheringId'));
+  const userId = readNumber(query.get('userId'));
+  const location = query.get('location');
+  const date = query.get('date');
+
+  const reviews = db.reviews.flatMap((review) => {
+    const gathering = findReviewGathering(db, review.gatheringId);
+    const user = db.users.find((item) => item.id === review.userId);
+    if (!gathering || !user) return [];
+    if (
+      (gatheringId !== undefined && gathering.id !== gatheringId) ||
+      (userId !== undefined && user.id !== userId) ||
+      !matchesType(gathering.type, query.get('type')) ||
+      (location && gathering.location !== location) ||
+      (date && !gathering.dateTime.startsWith(date))
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        teamId: String(MEMORY_TEAM_ID),
+        id: review.id,
+        score: review.score,
+        comment: review.comment,
+        createdAt: review.createdAt,
+        Gathering: {
+          teamId: String(MEMORY_TEAM_ID),
+          id: gathering.id,
+          type: gathering.type,
+          name: gathering.name,
+          dateTime: gathering.dateTime,
+          location: gathering.location,
+          image: gathering.image,
+          participantCount: gathering.participantCount,
+        },
+        User: { teamId: user.teamId, id: user.id, name: user.name, image: user.image },
+      },
+    ];
+  });
+
+  const key = query.get('sortBy') ?? 'createdAt';
+  const sorted = sortBy(
+    reviews,
+    (review) =>
+      key === 'participantCount'
+        ? review.Gathering.participantCount
+        : review[key as 'createdAt' | 'score'],
+    query.get('sortOrder') ?? 'desc',
+  );
+
+  const limit = readNumber(query.get('limit')) ?? 10;
+  const offset = readNumber(query.get('offset')) ?? 0;
+  return ok({
+    data: paginate(sorted, query, 10),
+    totalItemCount: sorted.length,
+    currentPage: Math.floor(offset / limit) + 1,
+    totalPages: Math.ceil(sorted.length / limit),
+  });
+});
+
+route('POST', '/reviews', (context) => {
+  const { db, request, now } = context;
+  const user = requireUser(context);
+  const body = readBody(request);
+  const gatheringId = Number(body.gatheringId);
+  const score = Number(body.score);
+
+  if (!findReviewGathering(db, gatheringId)) {
+    throw new MemoryServerError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_CODES.NOT_FOUND,
+      '모임을 찾을 수 없습니다',
+    );
+  }
+  if (!isParticipant(db, gatheringId, user.id)) {
+    throw new MemoryServerError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_CODES.FORBIDDEN,
+      '참여한 모임에만 리뷰를 작성할 수 있습니다',
+    );
+  }
+  if (!Number.isInteger(score) || score < 1 || score > 5) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      '평점은 1~5 사이여야 합니다',
+    );
+  }
+
+  const review = {
+    id: db.nextIds.review++,
+    userId: user.id,
+    gatheringId,
+    score,
+    comment: requireString(body, 'comment'),
+    createdAt: new Date(now).toISOString(),
+  };
+  db.reviews.push(review);
+  return ok({ teamId: String(MEMORY_TEAM_ID), ...review }, HTTP_STATUS.CREATED);
+});
+
+// ---- 반복 모임 ----
+
+const toGatheringSeriesResponse = ({ id, frequency, gatheringIds }: MemoryGatheringSeries) => ({
+  id,
+  frequency,
+  gatheringIds,
+});
+
+// 반복 모임으로 만든 회차들을 시리즈로 묶음 (각 모임에 seriesId 저장)
+route('POST', '/gathering-series', (context) => {
+  const { db, request, now } = context;
+  const user = requireUser(context);
+  const body = readBody(request);
+  const frequency = requireString(body, 'frequency');
+
+  const gatheringIds = Array.isArray(body.gatheringIds) ? body.gatheringIds.map(Number) : [];
+  const gatherings = gatheringIds.map((id) => db.gatherings.find((item) => item.id === id));
+  if (gatherings.length < 2 || new Set(gatheringIds).size !== gatheringIds.length) {
+    throw new MemoryServerError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_CODES.VALIDATION_ERROR,
+      '서로 다른 모임 2개 이상을 묶어야 합니다',
+    );
+  }
+  if (gatherings.some((gathering) => !gathering || gathering.createdBy !== user.id)) {
+    throw new MemoryServerError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_CODES.FORBIDDEN,
+      '직접 만든 모임만 묶을 수 있습니다',
+    );
+  }
+
+  const series: MemoryGatheringSeries = {
+    id: db.nextIds.gatheringSeries++,
+    frequency,
+    gatheringIds,
+    createdBy: user.id,
+    createdAt: new Date(now).toISOString(),
+  };
+  db.gatheringSeries.push(series);
+  gatherings.forEach((gathering) => {
+    if (gathering) gathering.seriesId = series.id;
+  });
+  return ok(toGatheringSeriesResponse(series), HTTP_STATUS.CREATED);
+});
+
+route('GET', '/gathering-series/:id', ({ db, params }) => {
+  const series = db.gatheringSeries.find((item) => item.id === Number(params.id));
+  if (!series) {
+    throw new MemoryServerError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_CODES.NOT_FOUND,
+      '반복 모임을 찾을 수 없습니다',
+    );
+  }
+  return ok(toGatheringSeriesResponse(series));
+});
+
+// ---- 캘린더 구독 ----
+
+const toCalendarFeedResponse = ({ token, createdAt }: MemoryCalendarFeed) => ({ token, createdAt });
+
+// 현재 구독 토큰 조회 (발급한 적이 없으면 token: null)
+route('GET', '/calendar-feeds', (context) => {
+  const user = requireUser(context);
+  const feed = context.db.calendarFeeds.find((item) => item.userId === user.id);
+  return ok(feed ? toCalendarFeedResponse(feed) : { token: null, createdAt: null });
+});
+
+// 구독 토큰 발급 (이전 토큰은 폐기되어 기존 구독 주소는 더 이상 동작하지 않음)
+route('POST', '/calendar-feeds', (context) => {
+  const { db, now } = context;
+  const user = requireUser(context);
+  const feed: MemoryCalendarFeed = {
+    token: crypto.randomUUID(),
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+  };
+  db.calendarFeeds = [...db.calendarFeeds.filter((item) => item.userId !== user.id), feed];
+  return ok(toCalendarFeedResponse(feed), HTTP_STATUS.CREATED);
+});
+
+// 구독 토큰으로 참여한 모임 조회 (캘린더 앱은 로그인 세션 없이 요청하므로 인증 헤더 대신 토큰 사용)
+route('GET', '/calendar-feeds/:token/gatherings', (context) => {
+  const feed = context.db.calendarFeeds.find((item) => item.token === context.params.token);
+  if (!feed) {
+    throw new MemoryServerError(
+      HTTP_STATUS.UNAUTHORIZED,
+      ERROR_CODES.UNAUTHORIZED,
+      '캘린더 구독 주소가 만료되었거나 올바르지 않습니다',
+    );
+  }
+  return ok(listJoinedGatherings(context, feed.userId));
+});
+
+// 인메모리 서버로 요청 처리
+// 응답은 직렬화/역직렬화를 거쳐 호출 측에서 DB 레코드를 직접 수정하지 못하게 함
+export const handleMemoryRequest = async (
+  request: BackendRequest,
+  { db = getMemoryDb(), now = Date.now() }: { db?: MemoryDb; now?: number } = {},
+): Promise<BackendResponse> => {
+  const method = request.method.toUpperCase();
+
+  try {
+    for (const { method: routeMethod, pattern, keys, handler } of routes) {
+      if (routeMethod !== method) continue;
+      const match = request.path.match(pattern);
+      if (!match) continue;
+
+      const params = Object.fromEntries(keys.map((key, index) => [key, match[index + 1]]));
+      const { status, body } = await handler({ db, request, params, now });
+      return { status, body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)) };
+    }
+
+    return {
+      status: HTTP_STATUS.NOT_FOUND,
+      body: { code: ERROR_CODES.NOT_FOUND, message: `${method} ${request.path} 경로가 없습니다` },
+    };
+  } catch (error) {
+    if (error instanceof MemoryServerError) {
+      return { status: error.status, body: { code: error.code, message: error.message } };
+    }
+    console.error('Memory backend error:', error);
+    return {
+      status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+      body: { code: ERROR_CODES.SERVER_ERROR, message: '서버 오류가 발생했습니다' },
+    };
+  }
+};
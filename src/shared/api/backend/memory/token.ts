@@ -0,0 +1,43 @@
+// 인메모리 서버가 발급하는 JWT 형태의 토큰 (서명 없음, 데모/테스트 전용)
+// 실제 백엔드 토큰처럼 exp를 담아 세션 만료 처리(decodeTokenExpiry)가 동일하게 동작
+
+const TOKEN_ISSUER = 'memory-backend';
+const TOKEN_TTL_MS = 1000 * 60 * 60; // 1시간
+
+interface MemoryTokenPayload {
+  iss: string;
+  userId: number;
+  exp: number; // 초 단위
+}
+
+const encodeBase64Url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+};
+
+export const createMemoryToken = (userId: number, now = Date.now()): string => {
+  const header = encodeBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload: MemoryTokenPayload = {
+    iss: TOKEN_ISSUER,
+    userId,
+    exp: Math.floor((now + TOKEN_TTL_MS) / 1000),
+  };
+  return `${header}.${encodeBase64Url(JSON.stringify(payload))}.memory`;
+};
+
+// 유효한 토큰이면 userId, 형식이 잘못됐거나 만료됐으면 null
+export const verifyMemoryToken = (token: string, now = Date.now()): number | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const { iss, userId, exp } = JSON.parse(decodeBase64Url(payload)) as MemoryTokenPayload;
+    if (iss !== TOKEN_ISSUER || typeof userId !== 'number') return null;
+    return exp * 1000 > now ? userId : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,79 @@
+// 인메모리 서버에 저장되는 레코드 (실제 API 응답 형태를 따름)
+
+export interface MemoryUser {
+  teamId: number;
+  id: number;
+  email: string;
+  password: string;
+  name: string;
+  companyName: string;
+  image: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryGathering {
+  teamId: number;
+  id: number;
+  type: string;
+  name: string;
+  dateTime: string;
+  registrationEnd: string;
+  location: string;
+  participantCount: number;
+  capacity: number;
+  minParticipants?: number; // 주최자가 정한 개설 확정 인원 (시드 모임은 없음)
+  seriesId?: number; // 반복 모임으로 함께 만든 경우 시리즈 id
+  image: string;
+  createdBy: number;
+  canceledAt: string | null;
+}
+
+export interface MemoryParticipant {
+  gatheringId: number;
+  userId: number;
+  joinedAt: string;
+}
+
+export interface MemoryReview {
+  id: number;
+  userId: number;
+  gatheringId: number;
+  score: number;
+  comment: string;
+  createdAt: string;
+}
+
+// 반복 모임으로 함께 만든 모임 묶음
+export interface MemoryGatheringSeries {
+  id: number;
+  frequency: string;
+  gatheringIds: number[]; // 회차 순서
+  createdBy: number;
+  createdAt: string;
+}
+
+// 정원이 찬 모임의 대기열 (신청한 순서대로 자리가 나면 참여자로 옮겨짐)
+export interface MemoryWaitlistEntry {
+  gatheringId: number;
+  userId: number;
+  joinedAt: string;
+}
+
+// 캘린더 앱 구독 주소에 쓰는 토큰 (액세스 토큰과 달리 만료 없이 다시 발급할 때까지 유효)
+export interface MemoryCalendarFeed {
+  token: string;
+  userId: number;
+  createdAt: string;
+}
+
+export interface MemoryDb {
+  users: MemoryUser[];
+  gatherings: MemoryGathering[];
+  participants: MemoryParticipant[];
+  reviews: MemoryReview[];
+  gatheringSeries: MemoryGatheringSeries[];
+  waitlist: MemoryWaitlistEntry[];
+  calendarFeeds: MemoryCalendarFeed[];
+  nextIds: { user: number; gathering: number; review: number; gatheringSeries: number };
+}
@@ -0,0 +1,26 @@
+import type { AxiosAdapter } from 'axios';
+
+export type ApiBackendType = 'remote' | 'memory';
+
+// httpClient가 요청을 보낼 백엔드
+export interface ApiBackend {
+  type: ApiBackendType;
+  baseURL: string;
+  // 요청을 직접 처리하는 axios adapter (없으면 axios 기본 adapter로 네트워크 요청)
+  adapter?: AxiosAdapter;
+}
+
+// 프레임워크와 무관한 백엔드 요청/응답 (axios adapter, Route Handler에서 공통으로 사용)
+export interface BackendRequest {
+  method: string;
+  // baseURL을 제외한 경로 (예: '/gatherings/1/join')
+  path: string;
+  query: URLSearchParams;
+  body?: unknown;
+  authorization?: string | null;
+}
+
+export interface BackendResponse {
+  status: number;
+  body?: unknown;
+}
@@ -0,0 +1,38 @@
+import { decode, encode } from 'next-auth/jwt';
+import { decodeTokenExpiry } from '@/shared/lib/auth/tokenExpiry';
+
+// 캘린더 구독 주소에 넣는 토큰 (서버에서만 사용, 원격 백엔드용)
+// 캘린더 앱은 세션 쿠키를 보내지 않으므로 백엔드 액세스 토큰을 NEXTAUTH_SECRET으로 암호화해 주소에 담음
+// 백엔드 토큰이 만료되면 주소도 만료되므로 화면에 만료 시각을 함께 안내
+// (인메모리 백엔드는 서버에 저장한 구독 토큰을 사용: isCalendarFeedTokenSupported 참고)
+const CALENDAR_FEED_PURPOSE = 'calendar-feed';
+
+// 백엔드 토큰의 만료 시각을 모를 때 사용하는 유효 기간 (30일)
+const DEFAULT_FEED_TOKEN_MAX_AGE = 60 * 60 * 24 * 30;
+
+// 구독 토큰의 만료 시각 (ms, 백엔드 토큰보다 오래 유효하지 않도록 백엔드 토큰의 만료 시각을 따름)
+export const getCalendarFeedTokenExpiry = (accessToken: string, now = Date.now()) =>
+  decodeTokenExpiry(accessToken) ?? now + DEFAULT_FEED_TOKEN_MAX_AGE * 1000;
+
+// 액세스 토큰으로 구독 토큰 생성
+export const createCalendarFeedToken = async (accessToken: string, now = Date.now()) => {
+  const expiresAt = getCalendarFeedTokenExpiry(accessToken, now);
+  const maxAge = Math.max(0, Math.floor((expiresAt - now) / 1000));
+
+  return encode({
+    token: { purpose: CALENDAR_FEED_PURPOSE, accessToken },
+    secret: process.env.NEXTAUTH_SECRET ?? '',
+    maxAge,
+  });
+};
+
+// 구독 토큰에서 액세스 토큰을 꺼냄 (위조/만료/다른 용도의 토큰이면 undefined)
+export const readCalendarFeedToken = async (feedToken: string) => {
+  try {
+    const payload = await decode({ token: feedToken, secret: process.env.NEXTAUTH_SECRET ?? '' });
+    if (payload?.purpose !== CALENDAR_FEED_PURPOSE) return undefined;
+    return payload.accessToken;
+  } catch {
+    return undefined;
+  }
+};
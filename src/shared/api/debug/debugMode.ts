@@ -0,0 +1,47 @@
+const API_DEBUG_KEY = 'api-debug-mode';
+// ?debugApi=1 로 켜고 ?debugApi=0 으로 끔 (고객 지원 시 프로덕션에서도 상세 로그 확인용)
+export const API_DEBUG_QUERY_PARAM = 'debugApi';
+
+type Listener = (enabled: boolean) => void;
+
+const listeners = new Set<Listener>();
+
+// 저장된 설정이 없으면 개발 환경에서만 켜짐
+const isApiDebugEnabledByDefault = () => process.env.NODE_ENV === 'development';
+
+// localStorage 플래그를 우선하고, 플래그가 없으면 환경 기본값으로 API 로그 출력 여부 결정
+export const isApiDebugEnabled = (): boolean => {
+  if (typeof window === 'undefined') return isApiDebugEnabledByDefault();
+  try {
+    const stored = localStorage.getItem(API_DEBUG_KEY);
+    if (stored === null) return isApiDebugEnabledByDefault();
+    return stored === 'true';
+  } catch {
+    return isApiDebugEnabledByDefault();
+  }
+};
+
+export const setApiDebugEnabled = (enabled: boolean): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    // 개발 환경에서도 끌 수 있도록 꺼짐도 명시적으로 저장
+    localStorage.setItem(API_DEBUG_KEY, String(enabled));
+  } catch (error) {
+    console.error('로컬 스토리지에 API 디버그 모드를 저장하는 데 실패했습니다:', error);
+  }
+  listeners.forEach((listener) => listener(isApiDebugEnabled()));
+};
+
+// URL의 debugApi 쿼리 파라미터를 localStorage 플래그에 반영
+export const syncApiDebugModeFromUrl = (search = window.location.search): void => {
+  const value = new URLSearchParams(search).get(API_DEBUG_QUERY_PARAM);
+  if (value === null) return;
+  setApiDebugEnabled(value === '1' || value === 'true');
+};
+
+export const subscribeApiDebugMode = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
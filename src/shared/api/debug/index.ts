@@ -0,0 +1,16 @@
+export {
+  API_DEBUG_QUERY_PARAM,
+  isApiDebugEnabled,
+  setApiDebugEnabled,
+  subscribeApiDebugMode,
+  syncApiDebugModeFromUrl,
+} from './debugMode';
+export {
+  REQUEST_LOG_LIMIT,
+  addRequestLogEntry,
+  clearRequestLog,
+  getRequestLog,
+  subscribeRequestLog,
+} from './requestLog';
+export type { RequestLogEntry } from './requestLog';
+export { useApiDebugEnabled, useRequestLog } from './useApiDebug';
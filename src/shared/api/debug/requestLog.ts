@@ -0,0 +1,42 @@
+// 디버그 패널에 보여줄 최근 API 요청 기록 (메모리에만 보관)
+export const REQUEST_LOG_LIMIT = 50;
+
+export interface RequestLogEntry {
+  id: number;
+  method: string;
+  url: string;
+  status?: number;
+  duration?: number;
+  // 네트워크 에러 등 응답이 없을 때의 메시지
+  error?: string;
+  timestamp: number;
+}
+
+type Listener = (entries: RequestLogEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let entries: RequestLogEntry[] = [];
+let nextId = 1;
+
+export const getRequestLog = (): RequestLogEntry[] => entries;
+
+// 최신 요청이 앞에 오도록 추가하고 REQUEST_LOG_LIMIT개까지만 유지
+export const addRequestLogEntry = (entry: Omit<RequestLogEntry, 'id' | 'timestamp'>): void => {
+  entries = [{ ...entry, id: nextId++, timestamp: Date.now() }, ...entries].slice(
+    0,
+    REQUEST_LOG_LIMIT,
+  );
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const clearRequestLog = (): void => {
+  entries = [];
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const subscribeRequestLog = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,17 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isApiDebugEnabled, subscribeApiDebugMode } from './debugMode';
+import { RequestLogEntry, getRequestLog, subscribeRequestLog } from './requestLog';
+
+const EMPTY_LOG: RequestLogEntry[] = [];
+
+// API 디버그 모드 활성화 여부 구독 훅
+export const useApiDebugEnabled = () => {
+  return useSyncExternalStore(subscribeApiDebugMode, isApiDebugEnabled, () => false);
+};
+
+// 최근 API 요청 기록 구독 훅
+export const useRequestLog = () => {
+  return useSyncExternalStore(subscribeRequestLog, getRequestLog, () => EMPTY_LOG);
+};
@@ -0,0 +1,96 @@
+import { isCancel } from 'axios';
+import { dedupeRequest } from './dedupeRequest';
+
+// 테스트에서 직접 resolve/reject 할 수 있는 요청
+const createDeferredRequest = <T>() => {
+  let resolve!: (value: T) => void;
+  const signals: AbortSignal[] = [];
+  const request = jest.fn((signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<T>((res, rej) => {
+      resolve = res;
+      signal.addEventListener('abort', () => rej(new Error('aborted')));
+    });
+  });
+  return { request, signals, resolve: (value: T) => resolve(value) };
+};
+
+describe('dedupeRequest', () => {
+  it('같은 key의 요청이 진행 중이면 한 번만 보내고 결과를 공유한다', async () => {
+    const { request, resolve } = createDeferredRequest<string>();
+
+    const first = dedupeRequest('/gatherings', request);
+    const second = dedupeRequest('/gatherings', request);
+    resolve('data');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['data', 'data']);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('요청이 끝나면 같은 key로 다시 요청을 보낸다', async () => {
+    const request = jest.fn().mockResolvedValue('data');
+
+    await dedupeRequest('/gatherings', request);
+    await dedupeRequest('/gatherings', request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('key가 다르면 따로 요청한다', async () => {
+    const request = jest.fn().mockResolvedValue('data');
+
+    await Promise.all([
+      dedupeRequest('/gatherings?type=DALLAEMFIT', request),
+      dedupeRequest('/gatherings?type=WORKATION', request),
+    ]);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('한 호출만 취소되면 그 호출만 reject되고 실제 요청은 유지된다', async () => {
+    const { request, signals, resolve } = createDeferredRequest<string>();
+    const controller = new AbortController();
+
+    const canceled = dedupeRequest('/gatherings', request, controller.signal);
+    const kept = dedupeRequest('/gatherings', request, new AbortController().signal);
+    controller.abort();
+    resolve('data');
+
+    const error = await canceled.catch((e) => e);
+    expect(isCancel(error)).toBe(true);
+    await expect(kept).resolves.toBe('data');
+    expect(signals[0].aborted).toBe(false);
+  });
+
+  it('기다리는 호출이 모두 취소되면 실제 요청도 취소된다', async () => {
+    const { request, signals } = createDeferredRequest<string>();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const requests = [
+      dedupeRequest('/gatherings', request, first.signal).catch((e) => e),
+      dedupeRequest('/gatherings', request, second.signal).catch((e) => e),
+    ];
+    first.abort();
+    second.abort();
+
+    const errors = await Promise.all(requests);
+    expect(errors.every(isCancel)).toBe(true);
+    expect(signals[0].aborted).toBe(true);
+
+    // 취소된 요청은 공유되지 않고 새로 보냄
+    dedupeRequest('/gatherings', request).catch(() => {});
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('이미 취소된 signal이면 요청을 보내지 않는다', async () => {
+    const request = jest.fn().mockResolvedValue('data');
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await dedupeRequest('/gatherings', request, controller.signal).catch((e) => e);
+
+    expect(isCancel(error)).toBe(true);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
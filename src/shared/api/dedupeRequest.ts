@@ -0,0 +1,55 @@
+import { CanceledError } from 'axios';
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // 아직 결과를 기다리는 호출 수 (모두 취소되면 실제 요청도 취소)
+  subscribers: number;
+}
+
+const inflightRequests = new Map<string, InflightRequest>();
+
+// 같은 key의 요청이 진행 중이면 새로 보내지 않고 결과를 공유
+// - 각 호출의 signal이 abort되면 해당 호출만 CanceledError로 reject
+// - 요청을 기다리는 호출이 모두 취소되면 실제 요청도 abort
+export const dedupeRequest = <T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(new CanceledError());
+
+  let inflight = inflightRequests.get(key);
+  if (!inflight) {
+    const controller = new AbortController();
+    const created: InflightRequest = {
+      controller,
+      subscribers: 0,
+      promise: request(controller.signal).finally(() => {
+        if (inflightRequests.get(key) === created) inflightRequests.delete(key);
+      }),
+    };
+    inflightRequests.set(key, created);
+    inflight = created;
+  }
+
+  const current = inflight;
+  current.subscribers += 1;
+
+  const promise = current.promise as Promise<T>;
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      current.subscribers -= 1;
+      if (current.subscribers === 0) {
+        current.controller.abort();
+        if (inflightRequests.get(key) === current) inflightRequests.delete(key);
+      }
+      reject(new CanceledError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
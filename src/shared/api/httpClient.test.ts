@@ -0,0 +1,195 @@
+import { getSession } from 'next-auth/react';
+import { redirectToSignin } from '@/shared/lib/auth';
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { NetworkError, OfflineNotQueuedError, OfflineQueuedError } from './apiError';
+import { httpClient } from './httpClient';
+import { getOfflineQueue } from './offline/offlineQueue';
+
+// 실제 네트워크 대신 요청 config를 받아 응답을 정하는 어댑터
+const mockAdapter = jest.fn<Promise<AxiosResponse>, [InternalAxiosRequestConfig]>();
+
+jest.mock('./backend', () => ({
+  getApiBackend: () => ({
+    type: 'remote',
+    baseURL: 'https://api.test',
+    adapter: (config: InternalAxiosRequestConfig) => {
+      sentAuthorizations.push(AxiosHeaders.from(config.headers).get('Authorization'));
+      return mockAdapter(config);
+    },
+  }),
+}));
+
+jest.mock('next-auth/react', () => ({
+  getSession: jest.fn(),
+}));
+
+jest.mock('@/shared/lib/auth', () => ({
+  isTokenExpired: () => false,
+  redirectToSignin: jest.fn(),
+}));
+
+jest.mock('@/shared/lib/sentry/tracking', () => ({
+  trackApiError: jest.fn(),
+  trackApiPerformance: jest.fn(),
+}));
+
+jest.mock('./serverAuth', () => ({
+  getServerAccessToken: jest.fn(),
+}));
+
+const mockGetSession = getSession as jest.Mock;
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}) => {
+  const response = { data, status, statusText: '', headers: {}, config };
+  if (status < 400) return Promise.resolve(response);
+  return Promise.reject(
+    new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, null, response),
+  );
+};
+
+const sessionWith = (accessToken: string) => ({
+  user: { accessToken, accessTokenExpires: Date.now() + 60 * 60 * 1000 },
+});
+
+// 재시도 시 같은 config 객체를 고쳐 쓰므로 요청 시점의 Authorization 헤더를 따로 기록
+let sentAuthorizations: unknown[] = [];
+
+describe('httpClient 인터셉터', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    sentAuthorizations = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('401 응답 후 세션 재조회', () => {
+    it('세션에 새 토큰이 있으면 새 토큰으로 원래 요청을 재시도한다', async () => {
+      mockGetSession
+        .mockResolvedValueOnce(sessionWith('old-token'))
+        .mockResolvedValueOnce(sessionWith('new-token'));
+      mockAdapter
+        .mockImplementationOnce((config) => respond(config, 401))
+        .mockImplementationOnce((config) => respond(config, 200, { ok: true }));
+
+      await expect(httpClient.put('/auths/user', {}, { authRequired: true })).resolves.toEqual({
+        ok: true,
+      });
+
+      expect(sentAuthorizations).toEqual(['Bearer old-token', 'Bearer new-token']);
+      expect(redirectToSignin).not.toHaveBeenCalled();
+    });
+
+    it('세션의 토큰이 그대로면 재시도하지 않고 로그인 페이지로 보낸다', async () => {
+      mockGetSession.mockResolvedValue(sessionWith('old-token'));
+      mockAdapter.mockImplementation((config) => respond(config, 401));
+
+      // 로그인 페이지로 보낸 뒤에는 응답 없이 끝남
+      await httpClient.put('/auths/user', {}, { authRequired: true }).catch(() => undefined);
+
+      expect(mockAdapter).toHaveBeenCalledTimes(1);
+      expect(redirectToSignin).toHaveBeenCalled();
+    });
+
+    it('재시도한 요청이 다시 401이면 더 재시도하지 않는다', async () => {
+      mockGetSession
+        .mockResolvedValueOnce(sessionWith('old-token'))
+        .mockResolvedValue(sessionWith('new-token'));
+      mockAdapter.mockImplementation((config) => respond(config, 401));
+
+      await httpClient.put('/auths/user', {}, { authRequired: true }).catch(() => undefined);
+
+      expect(mockAdapter).toHaveBeenCalledTimes(2);
+      expect(redirectToSignin).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('응답 없이 실패한 요청의 오프라인 큐 저장', () => {
+    const joinConfig = {
+      authRequired: true,
+      offlineQueue: { resourceKey: 'gathering:1', action: 'join', cancels: ['leave'] },
+    };
+
+    const failWith = (code: string) =>
+      mockAdapter.mockImplementation((config) =>
+        Promise.reject(new AxiosError('Request failed', code, config)),
+      );
+
+    const setOnline = (onLine: boolean) =>
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(onLine);
+
+    beforeEach(() => {
+      setOnline(false);
+      mockGetSession.mockResolvedValue({
+        user: { id: '7', accessToken: 'token', accessTokenExpires: Date.now() + 60 * 60 * 1000 },
+      });
+    });
+
+    it('오프라인이면 요청한 사용자와 함께 저장하고 OfflineQueuedError로 알린다', async () => {
+      failWith(AxiosError.ERR_NETWORK);
+
+      await expect(
+        httpClient.post('/gatherings/1/join', { memo: '참여' }, joinConfig),
+      ).rejects.toBeInstanceOf(OfflineQueuedError);
+
+      expect(getOfflineQueue()).toEqual([
+        expect.objectContaining({
+          method: 'post',
+          url: '/gatherings/1/join',
+          data: { memo: '참여' },
+          userId: '7',
+          action: 'join',
+        }),
+      ]);
+    });
+
+    it('타임아웃은 서버가 처리했을 수 있으므로 저장하지 않는다', async () => {
+      failWith(AxiosError.ECONNABORTED);
+
+      await expect(httpClient.post('/gatherings/1/join', {}, joinConfig)).rejects.toThrow(
+        '요청 시간이 초과되었습니다.',
+      );
+
+      expect(getOfflineQueue()).toEqual([]);
+    });
+
+    it('온라인 상태의 네트워크 에러는 서버가 처리했을 수 있으므로 저장하지 않는다', async () => {
+      setOnline(true);
+      failWith(AxiosError.ERR_NETWORK);
+
+      await expect(httpClient.post('/gatherings/1/join', {}, joinConfig)).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+
+      expect(getOfflineQueue()).toEqual([]);
+    });
+
+    it('요청한 사용자를 알 수 없으면 저장하지 않고 OfflineNotQueuedError로 알린다', async () => {
+      // 오프라인이라 세션을 불러오지 못해 기록된 사용자가 없는 상태
+      mockGetSession.mockResolvedValue(null);
+      setOnline(true);
+      failWith(AxiosError.ERR_NETWORK);
+      await httpClient.post('/gatherings/1/join', {}, joinConfig).catch(() => undefined);
+      setOnline(false);
+
+      await expect(httpClient.post('/gatherings/1/join', {}, joinConfig)).rejects.toBeInstanceOf(
+        OfflineNotQueuedError,
+      );
+
+      expect(getOfflineQueue()).toEqual([]);
+    });
+
+    it('오프라인 큐 옵션이 없는 요청은 NetworkError로 알린다', async () => {
+      failWith(AxiosError.ERR_NETWORK);
+
+      await expect(
+        httpClient.post('/gatherings/1/join', {}, { authRequired: true }),
+      ).rejects.toBeInstanceOf(NetworkError);
+
+      expect(getOfflineQueue()).toEqual([]);
+    });
+  });
+});
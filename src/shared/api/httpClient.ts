@@ -1,14 +1,30 @@
-// import { getToken } from 'next-auth/jwt';
-import { getSession, signOut } from 'next-auth/react';
-// import { cookies } from 'next/headers';
+import { getSession } from 'next-auth/react';
 import { API_CONFIG } from '@/shared/config';
+import { isTokenExpired, redirectToSignin } from '@/shared/lib/auth';
 import { trackApiError, trackApiPerformance } from '@/shared/lib/sentry/tracking';
-import axios, { AxiosError, AxiosHeaders, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { ApiError } from './apiError';
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { ApiError, NetworkError, OfflineNotQueuedError, OfflineQueuedError } from './apiError';
+import { getApiBackend } from './backend';
+import { dedupeRequest } from './dedupeRequest';
+import { logError, logRequest, logResponse } from './logger';
+import { OfflineQueueOptions, QueuedMethod, enqueueMutation } from './offline/offlineQueue';
+import { getServerAccessToken } from './serverAuth';
 
 declare module 'axios' {
   interface AxiosRequestConfig {
     authRequired?: boolean;
+    // 같은 GET 요청이 진행 중이면 결과를 공유 (기본값 true, 클라이언트에서만 동작)
+    dedupe?: boolean;
+    // 네트워크 에러 시 오프라인 큐에 저장 후 재연결 시 재전송 (멱등한 mutation에만 사용)
+    offlineQueue?: OfflineQueueOptions;
+    // 401 이후 세션을 다시 불러와 재시도한 요청인지 여부 (무한 재시도 방지)
+    sessionRetried?: boolean;
     metadata?: {
       startTime: Date;
     };
@@ -17,30 +33,66 @@ declare module 'axios' {
 
 const IS_CLIENT = typeof window !== 'undefined';
 
+// 마지막으로 확인한 로그인 사용자 id
+// 오프라인에서는 세션을 불러올 수 없으므로 오프라인 큐에 요청한 사용자를 기록할 때 사용
+let lastSessionUserId: string | undefined;
+
+// 서비스 함수에서 React Query의 signal 등을 전달받기 위한 옵션
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // 세션 쿠키가 없는 요청(캘린더 구독 등)에서 직접 전달하는 백엔드 액세스 토큰
+  accessToken?: string;
+}
+
+// RequestOptions.accessToken을 Authorization 헤더로 변환
+export const toAuthorizationHeaders = (accessToken?: string) =>
+  accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined;
+
+const apiBackend = getApiBackend();
+
 const axiosInstance = axios.create({
-  baseURL: API_CONFIG.BASE_URL(),
+  baseURL: apiBackend.baseURL,
+  adapter: apiBackend.adapter,
   timeout: API_CONFIG.TIMEOUT,
   headers: { 'Content-Type': 'application/json' },
 });
 
+// 로깅 인터셉터 (디버그 모드에서만 출력)
+// 요청 인터셉터는 등록 역순으로 실행되므로 먼저 등록해야 인증 헤더가 붙은 최종 요청을 기록
+// 응답 인터셉터는 등록 순서대로 실행되므로 ApiError로 변환되기 전의 원본 에러를 기록
+axiosInstance.interceptors.request.use((config) => {
+  logRequest(config);
+  return config;
+});
+axiosInstance.interceptors.response.use(
+  (response) => {
+    logResponse(response);
+    return response;
+  },
+  (error: AxiosError) => {
+    if (error.code !== AxiosError.ERR_CANCELED) logError(error);
+    return Promise.reject(error);
+  },
+);
+
 axiosInstance.interceptors.request.use(async (config) => {
   config.metadata = { startTime: new Date() };
 
-  if (config.authRequired) {
+  const headers = AxiosHeaders.from(config.headers);
+  // 호출하는 쪽에서 토큰을 직접 넘긴 경우 세션을 조회하지 않음
+  if (config.authRequired && !headers.has('Authorization')) {
     let token;
-    const headers = AxiosHeaders.from(config.headers);
 
     if (IS_CLIENT) {
       const session = await getSession();
       const accessToken = session?.user?.accessToken;
       token = accessToken;
+      // 온라인인데 세션이 없으면 로그아웃한 것으로 보고 기록을 지움
+      if (session) lastSessionUserId = session.user?.id;
+      else if (navigator.onLine) lastSessionUserId = undefined;
     } else {
-      // const rawToken = await getToken({
-      //   req: { headers: headers } as NextApiRequest,
-      //   secret: process.env.NEXTAUTH_SECRET,
-      //   raw: true, // 원본 JWT 문자열
-      // });
-      // token = rawToken;
+      // 서버 컴포넌트에서는 요청 쿠키의 NextAuth JWT에서 토큰을 꺼냄
+      token = await getServerAccessToken();
     }
     if (token) {
       headers.set('Authorization', `Bearer ${token}`);
@@ -70,6 +122,30 @@ axiosInstance.interceptors.request.use(async (config) => {
   return config;
 });
 
+// 401 발생 시 세션을 다시 불러와 새 토큰이 있으면 원래 요청을 한 번 재시도
+// (다른 탭에서 다시 로그인한 경우 등) 재시도할 수 없으면 null 반환
+const retryWithRefreshedSession = async (config?: InternalAxiosRequestConfig) => {
+  if (!config?.authRequired || config.sessionRetried) return null;
+
+  const session = await getSession();
+  const token = session?.user?.accessToken;
+  const headers = AxiosHeaders.from(config.headers);
+
+  if (
+    !token ||
+    headers.get('Authorization') === `Bearer ${token}` ||
+    isTokenExpired(session.user.accessTokenExpires)
+  ) {
+    return null;
+  }
+
+  // 요청 인터셉터는 Authorization이 이미 있으면 세션을 조회하지 않으므로 새 토큰으로 직접 교체
+  headers.set('Authorization', `Bearer ${token}`);
+  config.headers = headers;
+  config.sessionRetried = true;
+  return axiosInstance(config);
+};
+
 axiosInstance.interceptors.response.use(
   (response: AxiosResponse) => {
     // API 성능 추적
@@ -81,23 +157,49 @@ axiosInstance.interceptors.response.use(
         response.config.method || '',
         duration,
         response.status,
+        response.config.baseURL,
       );
     }
 
     return response;
   },
-  (error: AxiosError) => {
-    if (!error.response) {
-      console.error('Network Error:', error);
-      // 네트워크 에러는 일반 Error로 처리
-      return Promise.reject(new Error('네트워크 연결 상태를 확인해주세요.'));
+  async (error: AxiosError) => {
+    // 취소된 요청은 에러 처리 없이 그대로 전달 (React Query가 취소로 처리)
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return Promise.reject(error);
     }
 
     // Axios 타임아웃 일반 Error로 처리
-    if (error.code === 'ECONNABORTED') {
+    // 응답이 없지만 서버가 이미 처리했을 수 있으므로 오프라인 큐에 넣지 않음
+    if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
       console.error('Timeout Error:', error);
       return Promise.reject(new Error('요청 시간이 초과되었습니다.'));
     }
+
+    if (!error.response) {
+      console.error('Network Error:', error);
+
+      // 오프라인이라 요청이 전송되지 못한 경우에만 저장해두고 재연결 시 재전송
+      // 온라인 상태의 네트워크 에러(CORS, DNS, 서버 다운, 전송 후 연결 끊김)는 서버가 이미 처리했을 수 있으므로 저장하지 않음
+      // 다른 계정으로 재전송되지 않도록 요청한 사용자를 함께 저장
+      const config = error.config;
+      const isOffline = IS_CLIENT && !navigator.onLine;
+      if (isOffline && config?.offlineQueue && config.url) {
+        if (!lastSessionUserId) return Promise.reject(new OfflineNotQueuedError());
+
+        const queueId = enqueueMutation({
+          ...config.offlineQueue,
+          method: config.method as QueuedMethod,
+          url: config.url,
+          data: typeof config.data === 'string' ? JSON.parse(config.data) : config.data,
+          authRequired: config.authRequired,
+          userId: lastSessionUserId,
+        });
+        return Promise.reject(new OfflineQueuedError(queueId));
+      }
+
+      return Promise.reject(new NetworkError());
+    }
     const { status, data } = error.response;
     const { code, message } = (data as { code?: string; message?: string }) || {};
 
@@ -107,25 +209,22 @@ axiosInstance.interceptors.response.use(
       method: error.config?.method,
       status,
       response: data,
-      request: error.config,
+      request: { params: error.config?.params, data: error.config?.data },
     });
 
     const pathname = typeof window !== 'undefined' ? window.location.pathname : '';
     const isAuthPage = pathname.includes('/signin') || pathname.includes('/signup');
 
-    if (status === 401 && !isAuthPage) {
-      // 인증 실패 시 로그아웃 처리 후 로그인 페이지로 이동
-      if (IS_CLIENT) {
-        console.error('401 Unauthorized:', message);
-
-        // 현재 locale을 가져와서 리다이렉트
-        const currentPath = window.location.pathname;
-        const localeMatch = currentPath.match(/^\/([a-z]{2})(\/|$)/);
-        const currentLocale = localeMatch ? localeMatch[1] : 'ko';
-        signOut({ redirect: false }).then(() => {
-          window.location.href = `/${currentLocale}/signin`;
-        });
-      }
+    // 서버에서는 리다이렉트할 수 없으므로 ApiError로 reject (prefetch 실패 시 클라이언트에서 다시 요청)
+    if (status === 401 && !isAuthPage && IS_CLIENT) {
+      console.error('401 Unauthorized:', message);
+
+      // 재시도한 요청이 다시 401이면 그 요청에서 이미 로그인 페이지로 보냈으므로 결과를 그대로 반환
+      const retried = await retryWithRefreshedSession(error.config);
+      if (retried !== null) return retried;
+
+      // 재인증할 수 없으면 로그아웃 후 현재 페이지로 돌아올 수 있도록 callbackUrl과 함께 이동
+      redirectToSignin();
       // global-error 를 안태우기 위해 resolve 반환
       return Promise.resolve(undefined);
     }
@@ -137,9 +236,25 @@ axiosInstance.interceptors.response.use(
   },
 );
 
+// GET 중복 요청 판별 키 (인증 여부에 따라 응답이 다르므로 함께 구분)
+const getDedupeKey = (url: string, config?: AxiosRequestConfig) =>
+  `${config?.authRequired ? 'auth:' : ''}${axiosInstance.getUri({ url, params: config?.params })}`;
+
+// 서버에서는 요청마다 사용자가 다를 수 있으므로 클라이언트에서만 중복 제거
+const get = <T>(url: string, config?: AxiosRequestConfig): Promise<T> => {
+  if (!IS_CLIENT || config?.dedupe === false) {
+    return axiosInstance.get<T>(url, config).then((response) => response.data);
+  }
+
+  return dedupeRequest(
+    getDedupeKey(url, config),
+    (signal) => axiosInstance.get<T>(url, { ...config, signal }).then((response) => response.data),
+    config?.signal as AbortSignal | undefined,
+  );
+};
+
 export const httpClient = {
-  get: <T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> =>
-    axiosInstance.get<T>(url, config).then((response) => response.data),
+  get: <T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> => get<T>(url, config),
 
   post: <T = unknown, D = unknown>(
     url: string,
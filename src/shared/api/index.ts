@@ -1,7 +1,33 @@
-export { httpClient } from './httpClient';
-export { ApiError } from './apiError';
+export { httpClient, toAuthorizationHeaders } from './httpClient';
+export type { RequestOptions } from './httpClient';
+export {
+  ApiError,
+  NetworkError,
+  OfflineNotQueuedError,
+  OfflineQueuedError,
+  ResponseValidationError,
+  isApiErrorWithCode,
+} from './apiError';
+export { validateResponse } from './validateResponse';
 export { QUERY_KEYS } from './query/queryKeys';
+export { flushOfflineQueue, useOfflineQueue } from './offline';
+export {
+  clearRequestLog,
+  setApiDebugEnabled,
+  syncApiDebugModeFromUrl,
+  useApiDebugEnabled,
+  useRequestLog,
+} from './debug';
+export type { RequestLogEntry } from './debug';
+export {
+  GATHERING_LIVE_EVENT,
+  getGatheringLivePath,
+  isGatheringLiveAvailable,
+  parseGatheringLiveEvent,
+} from './live';
+export type { GatheringLiveEvent } from './live';
 
 export { createQueryClient, enableReactQueryDevTools } from './query/client';
+export { createBackoffRefetchInterval } from './query/backoffRefetchInterval';
 export { ReactQueryProvider } from './query/provider';
 export { HydrationProvider } from './query/hydration';
@@ -0,0 +1,36 @@
+import { formatGatheringLiveMessage, parseGatheringLiveEvent } from './gatheringLive';
+import { publishGatheringLiveEvent, subscribeGatheringLive } from './gatheringLivePublisher';
+
+const event = { gatheringId: 1, participantCount: 5, canceledAt: null };
+
+describe('gatheringLive', () => {
+  it('SSE 메시지 형식으로 변환하고 다시 읽을 수 있다', () => {
+    const message = formatGatheringLiveMessage(event);
+    const data = message.match(/^data: (.*)$/m)?.[1] ?? '';
+
+    expect(message.startsWith('event: gathering\n')).toBe(true);
+    expect(message.endsWith('\n\n')).toBe(true);
+    expect(parseGatheringLiveEvent(data)).toEqual(event);
+  });
+
+  it('형식이 맞지 않는 data는 무시한다', () => {
+    expect(parseGatheringLiveEvent('not json')).toBeNull();
+    expect(parseGatheringLiveEvent(JSON.stringify({ gatheringId: 1 }))).toBeNull();
+    expect(parseGatheringLiveEvent(JSON.stringify({ ...event, canceledAt: 123 }))).toBeNull();
+  });
+
+  it('구독한 모임의 변경만 전달하고 구독 해제 후에는 전달하지 않는다', () => {
+    const listener = jest.fn();
+    const otherListener = jest.fn();
+    const unsubscribe = subscribeGatheringLive(1, listener);
+    subscribeGatheringLive(2, otherListener);
+
+    publishGatheringLiveEvent(event);
+    unsubscribe();
+    publishGatheringLiveEvent({ ...event, participantCount: 6 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+// 모임 실시간 업데이트 (Server-Sent Events)
+// 클라이언트는 getGatheringLivePath의 스트림을 구독하고, 서버에서는 publishGatheringLiveEvent로 전송
+import { API_CONFIG } from '@/shared/config/api';
+
+export interface GatheringLiveEvent {
+  gatheringId: number;
+  participantCount: number;
+  canceledAt: string | null;
+}
+
+// SSE event 필드 이름
+export const GATHERING_LIVE_EVENT = 'gathering';
+
+// 변경을 발행하는 로컬 발행자는 인메모리 백엔드에만 있으므로 원격 백엔드에서는 스트림을 열지 않음
+export const isGatheringLiveAvailable = () => API_CONFIG.BACKEND === 'memory';
+
+export const getGatheringLivePath = (gatheringId: number) => `/api/gatherings/${gatheringId}/live`;
+
+// SSE 메시지 형식으로 변환 (빈 줄로 메시지 구분)
+export const formatGatheringLiveMessage = (event: GatheringLiveEvent) =>
+  `event: ${GATHERING_LIVE_EVENT}\ndata: ${JSON.stringify(event)}\n\n`;
+
+// 수신한 data를 검증 (형식이 맞지 않으면 null)
+export const parseGatheringLiveEvent = (data: string): GatheringLiveEvent | null => {
+  try {
+    const event = JSON.parse(data) as Partial<GatheringLiveEvent>;
+    if (
+      typeof event.gatheringId !== 'number' ||
+      typeof event.participantCount !== 'number' ||
+      (event.canceledAt !== null && typeof event.canceledAt !== 'string')
+    ) {
+      return null;
+    }
+    return {
+      gatheringId: event.gatheringId,
+      participantCount: event.participantCount,
+      canceledAt: event.canceledAt,
+    };
+  } catch {
+    return null;
+  }
+};
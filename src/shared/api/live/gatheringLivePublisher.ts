@@ -0,0 +1,37 @@
+import type { GatheringLiveEvent } from './gatheringLive';
+
+// 같은 서버 프로세스 안에서 모임 변경을 SSE Route Handler로 전달하는 로컬 발행자
+// (인메모리 백엔드의 참여/참여 취소/모임 취소에서 발행)
+type GatheringLiveListener = (event: GatheringLiveEvent) => void;
+
+// Route Handler들이 서로 다른 모듈 인스턴스를 쓰더라도(개발 서버 HMR 포함) 같은 구독자 목록을 보도록 globalThis에 저장
+const globalForLive = globalThis as typeof globalThis & {
+  __gatheringLiveListeners?: Map<number, Set<GatheringLiveListener>>;
+};
+
+const getListeners = () => {
+  if (!globalForLive.__gatheringLiveListeners) {
+    globalForLive.__gatheringLiveListeners = new Map();
+  }
+  return globalForLive.__gatheringLiveListeners;
+};
+
+// 모임 변경 구독 (구독 해제 함수 반환)
+export const subscribeGatheringLive = (gatheringId: number, listener: GatheringLiveListener) => {
+  const listeners = getListeners();
+  const gatheringListeners = listeners.get(gatheringId) ?? new Set();
+  gatheringListeners.add(listener);
+  listeners.set(gatheringId, gatheringListeners);
+
+  return () => {
+    gatheringListeners.delete(listener);
+    if (gatheringListeners.size === 0) listeners.delete(gatheringId);
+  };
+};
+
+// 모임 변경 발행 (구독자가 없으면 무시)
+export const publishGatheringLiveEvent = (event: GatheringLiveEvent) => {
+  getListeners()
+    .get(event.gatheringId)
+    ?.forEach((listener) => listener(event));
+};
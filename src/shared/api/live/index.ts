@@ -0,0 +1,9 @@
+export {
+  GATHERING_LIVE_EVENT,
+  formatGatheringLiveMessage,
+  getGatheringLivePath,
+  isGatheringLiveAvailable,
+  parseGatheringLiveEvent,
+} from './gatheringLive';
+export type { GatheringLiveEvent } from './gatheringLive';
+export { publishGatheringLiveEvent, subscribeGatheringLive } from './gatheringLivePublisher';
@@ -0,0 +1,102 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  REQUEST_LOG_LIMIT,
+  clearRequestLog,
+  getRequestLog,
+  setApiDebugEnabled,
+  syncApiDebugModeFromUrl,
+} from './debug';
+import { logError, logRequest, logResponse } from './logger';
+
+const createConfig = (overrides: Partial<InternalAxiosRequestConfig> = {}) =>
+  ({
+    method: 'post',
+    url: '/auths/signin',
+    headers: new AxiosHeaders({ Authorization: 'Bearer secret-token' }),
+    data: { email: 'user@test.com', password: 'password1234' },
+    metadata: { startTime: new Date(Date.now() - 120) },
+    ...overrides,
+  }) as InternalAxiosRequestConfig;
+
+describe('API 로거', () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    clearRequestLog();
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'group').mockImplementation(() => {});
+    jest.spyOn(console, 'groupEnd').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('디버그 모드가 꺼져 있으면 로그를 남기지 않는다', () => {
+    logRequest(createConfig());
+    logResponse({ config: createConfig(), status: 200 } as AxiosResponse);
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(getRequestLog()).toHaveLength(0);
+  });
+
+  it('?debugApi=1 로 디버그 모드를 켜고 ?debugApi=0 으로 끈다', () => {
+    syncApiDebugModeFromUrl('?debugApi=1');
+    logRequest(createConfig());
+    syncApiDebugModeFromUrl('?debugApi=0');
+    logRequest(createConfig());
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('개발 환경에서는 기본으로 켜지고 명시적으로 끄면 꺼진다', () => {
+    jest.replaceProperty(process, 'env', { ...process.env, NODE_ENV: 'development' });
+
+    logRequest(createConfig());
+    setApiDebugEnabled(false);
+    logRequest(createConfig());
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('Authorization 헤더와 비밀번호, 이메일을 가리고 출력한다', () => {
+    setApiDebugEnabled(true);
+
+    logRequest(createConfig());
+
+    const printed = JSON.stringify(logSpy.mock.calls);
+    expect(printed).not.toContain('secret-token');
+    expect(printed).not.toContain('password1234');
+    expect(printed).not.toContain('user@test.com');
+  });
+
+  it('응답과 에러를 최신 순으로 요청 기록에 추가한다', () => {
+    setApiDebugEnabled(true);
+    const config = createConfig({ method: 'get', url: '/gatherings/1' });
+
+    logResponse({ config, status: 200 } as AxiosResponse);
+    logError(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config));
+
+    expect(getRequestLog()).toEqual([
+      expect.objectContaining({ method: 'GET', status: undefined, error: 'Network Error' }),
+      expect.objectContaining({ method: 'GET', url: '/gatherings/1', status: 200 }),
+    ]);
+    expect(getRequestLog()[1].duration).toBeGreaterThanOrEqual(120);
+  });
+
+  it(`요청 기록은 최근 ${REQUEST_LOG_LIMIT}개까지만 유지한다`, () => {
+    setApiDebugEnabled(true);
+
+    for (let i = 0; i < REQUEST_LOG_LIMIT + 5; i++) {
+      logResponse({
+        config: createConfig({ url: `/gatherings/${i}` }),
+        status: 200,
+      } as AxiosResponse);
+    }
+
+    const log = getRequestLog();
+    expect(log).toHaveLength(REQUEST_LOG_LIMIT);
+    expect(log[0].url).toBe(`/gatherings/${REQUEST_LOG_LIMIT + 4}`);
+  });
+});
@@ -1,45 +1,80 @@
-import { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { scrubSensitiveData } from '@/shared/lib/utils/scrubSensitiveData';
+import { AxiosError, AxiosHeaders, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { isApiDebugEnabled } from './debug/debugMode';
+import { addRequestLogEntry } from './debug/requestLog';
+
+// 로그는 개발 환경 또는 디버그 모드(?debugApi=1)에서만 출력
+// Authorization 헤더, 비밀번호 등은 scrubSensitiveData로 가린 뒤 출력
+
+const getDuration = (config?: AxiosRequestConfig) => {
+  const startTime = config?.metadata?.startTime;
+  return startTime ? Date.now() - startTime.getTime() : undefined;
+};
+
+const redactHeaders = (headers: AxiosRequestConfig['headers']) =>
+  scrubSensitiveData(AxiosHeaders.from(headers as AxiosHeaders).toJSON());
 
 // API 요청 로깅
 export const logRequest = (config: AxiosRequestConfig) => {
-  if (process.env.NODE_ENV === 'development') {
-    console.group(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`);
-    console.log('Config:', {
-      method: config.method,
-      url: config.url,
-      headers: config.headers,
-      data: config.data,
-    });
-    console.groupEnd();
-  }
+  if (!isApiDebugEnabled()) return;
+
+  console.group(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`);
+  console.log('Config:', {
+    method: config.method,
+    url: config.url,
+    params: scrubSensitiveData(config.params),
+    headers: redactHeaders(config.headers),
+    data: scrubSensitiveData(config.data),
+  });
+  console.groupEnd();
 };
 
 // API 응답 로깅
 export const logResponse = (response: AxiosResponse) => {
-  if (process.env.NODE_ENV === 'development') {
-    console.group(
-      `✅ API Response: ${response.config.method?.toUpperCase()} ${response.config.url}`,
-    );
-    console.log('Status:', response.status);
-    console.groupEnd();
+  if (!isApiDebugEnabled()) return;
+
+  const { config, status } = response;
+  const duration = getDuration(config);
+
+  console.group(`✅ API Response: ${config.method?.toUpperCase()} ${config.url}`);
+  console.log('Status:', status);
+  console.groupEnd();
+
+  if (duration !== undefined) {
+    const endTime = Date.now();
+    logPerformance(endTime - duration, endTime, config.url ?? '');
   }
+  addRequestLogEntry({
+    method: config.method?.toUpperCase() ?? 'GET',
+    url: config.url ?? '',
+    status,
+    duration,
+  });
 };
 
 // API 에러 로깅
 export const logError = (error: AxiosError) => {
-  if (process.env.NODE_ENV === 'development') {
-    console.group(`❌ API Error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`);
-    console.log('Status:', error.response?.status);
-    console.log('Error:', error.message);
-    console.log('Response Data:', error.response?.data);
-    console.groupEnd();
-  }
+  if (!isApiDebugEnabled()) return;
+
+  console.group(`❌ API Error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`);
+  console.log('Status:', error.response?.status);
+  console.log('Error:', error.message);
+  console.log('Response Data:', scrubSensitiveData(error.response?.data));
+  console.groupEnd();
+
+  addRequestLogEntry({
+    method: error.config?.method?.toUpperCase() ?? 'GET',
+    url: error.config?.url ?? '',
+    status: error.response?.status,
+    duration: getDuration(error.config),
+    error: error.response ? undefined : error.message,
+  });
 };
 
 // 성능 측정을 위한 로깅
 export const logPerformance = (startTime: number, endTime: number, url: string) => {
-  if (process.env.NODE_ENV === 'development') {
-    const duration = endTime - startTime;
-    console.log(`⏱️ API Performance: ${url} - ${duration.toFixed(2)}ms`);
-  }
+  if (!isApiDebugEnabled()) return;
+
+  const duration = endTime - startTime;
+  console.log(`⏱️ API Performance: ${url} - ${duration.toFixed(2)}ms`);
 };
@@ -0,0 +1,109 @@
+import { getSession } from 'next-auth/react';
+import { ApiError, NetworkError } from '../apiError';
+import { httpClient } from '../httpClient';
+import { flushOfflineQueue } from './flushOfflineQueue';
+import { enqueueMutation, getOfflineQueue } from './offlineQueue';
+
+jest.mock('next-auth/react', () => ({
+  getSession: jest.fn(),
+}));
+
+jest.mock('../httpClient', () => ({
+  httpClient: { post: jest.fn(), put: jest.fn(), delete: jest.fn() },
+}));
+
+const mockGetSession = getSession as jest.Mock;
+const mockPost = httpClient.post as jest.Mock;
+const mockDelete = httpClient.delete as jest.Mock;
+
+const queueJoin = (gatheringId: number, userId = '1') =>
+  enqueueMutation({
+    method: 'post',
+    url: `/gatherings/${gatheringId}/join`,
+    data: {},
+    authRequired: true,
+    userId,
+    resourceKey: `gathering:${gatheringId}`,
+    action: 'join',
+    cancels: ['leave'],
+  });
+
+describe('flushOfflineQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    mockGetSession.mockResolvedValue({ user: { id: '1' } });
+  });
+
+  it('저장된 순서대로 재전송하고 성공한 요청을 큐에서 제거한다', async () => {
+    queueJoin(1);
+    enqueueMutation({
+      method: 'delete',
+      url: '/gatherings/2/leave',
+      authRequired: true,
+      userId: '1',
+      resourceKey: 'gathering:2',
+      action: 'leave',
+    });
+    mockPost.mockResolvedValue(undefined);
+    mockDelete.mockResolvedValue(undefined);
+
+    const result = await flushOfflineQueue();
+
+    expect(mockPost).toHaveBeenCalledWith('/gatherings/1/join', {}, { authRequired: true });
+    expect(mockDelete).toHaveBeenCalledWith('/gatherings/2/leave', {
+      authRequired: true,
+      data: undefined,
+    });
+    expect(result.succeeded).toHaveLength(2);
+    expect(result.remaining).toBe(0);
+    expect(getOfflineQueue()).toEqual([]);
+  });
+
+  it('서버가 거절한 요청은 실패로 알리고 큐에서 제거한다', async () => {
+    queueJoin(1);
+    const error = new ApiError('정원이 가득 찼습니다', 'GATHERING_FULL', 400);
+    mockPost.mockRejectedValue(error);
+
+    const result = await flushOfflineQueue();
+
+    expect(result.failed).toEqual([
+      { mutation: expect.objectContaining({ url: '/gatherings/1/join' }), error },
+    ]);
+    expect(getOfflineQueue()).toEqual([]);
+  });
+
+  it('여전히 오프라인이면 남은 요청을 그대로 둔다', async () => {
+    queueJoin(1);
+    queueJoin(2);
+    mockPost.mockRejectedValue(new NetworkError());
+
+    const result = await flushOfflineQueue();
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(result.remaining).toBe(2);
+  });
+
+  it('다른 계정으로 로그인했으면 이전 계정의 요청은 보내지 않고 버린다', async () => {
+    queueJoin(1, '2');
+    queueJoin(2);
+    mockPost.mockResolvedValue(undefined);
+
+    const result = await flushOfflineQueue();
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledWith('/gatherings/2/join', {}, { authRequired: true });
+    expect(result.discarded).toEqual([expect.objectContaining({ userId: '2' })]);
+    expect(getOfflineQueue()).toEqual([]);
+  });
+
+  it('로그인하지 않았으면 보내지 않고 보관한다', async () => {
+    mockGetSession.mockResolvedValue(null);
+    queueJoin(1);
+
+    const result = await flushOfflineQueue();
+
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(result.remaining).toBe(1);
+  });
+});
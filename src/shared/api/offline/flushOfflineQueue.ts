@@ -0,0 +1,80 @@
+import { getSession } from 'next-auth/react';
+import { NetworkError } from '../apiError';
+import { httpClient } from '../httpClient';
+import { QueuedMutation, getOfflineQueue, removeQueuedMutation } from './offlineQueue';
+
+export interface FlushOfflineQueueResult {
+  succeeded: QueuedMutation[];
+  failed: { mutation: QueuedMutation; error: Error }[];
+  // 다른 사용자가 저장한 요청이라 보내지 않고 버린 요청
+  discarded: QueuedMutation[];
+  remaining: number;
+}
+
+let flushing: Promise<FlushOfflineQueueResult> | null = null;
+
+const replay = (mutation: QueuedMutation) => {
+  const config = { authRequired: mutation.authRequired };
+
+  switch (mutation.method) {
+    case 'post':
+      return httpClient.post(mutation.url, mutation.data, config);
+    case 'put':
+      return httpClient.put(mutation.url, mutation.data, config);
+    case 'delete':
+      return httpClient.delete(mutation.url, { ...config, data: mutation.data });
+  }
+};
+
+const runFlush = async (): Promise<FlushOfflineQueueResult> => {
+  const result: FlushOfflineQueueResult = {
+    succeeded: [],
+    failed: [],
+    discarded: [],
+    remaining: 0,
+  };
+
+  // 로그인하지 않았으면 요청한 사용자인지 확인할 수 없으므로 다음 재전송까지 보관
+  const session = await getSession();
+  const userId = session?.user?.id;
+  if (!userId) {
+    result.remaining = getOfflineQueue().length;
+    return result;
+  }
+
+  // 저장된 순서대로 전송
+  for (const mutation of getOfflineQueue()) {
+    // 로그아웃 후 다른 계정으로 로그인했으면 이전 계정의 요청은 보내지 않고 버림
+    if (mutation.userId !== userId) {
+      removeQueuedMutation(mutation.id);
+      result.discarded.push(mutation);
+      continue;
+    }
+
+    try {
+      await replay(mutation);
+      removeQueuedMutation(mutation.id);
+      result.succeeded.push(mutation);
+    } catch (error) {
+      // 여전히 오프라인이면 남은 요청은 그대로 두고 중단
+      if (error instanceof NetworkError) break;
+
+      // 서버가 거절한 요청(정원 초과, 마감 등)은 재시도해도 의미가 없으므로 큐에서 제거
+      removeQueuedMutation(mutation.id);
+      result.failed.push({ mutation, error: error as Error });
+    }
+  }
+
+  result.remaining = getOfflineQueue().length;
+  return result;
+};
+
+// 오프라인 큐 재전송 (동시에 여러 번 호출되어도 한 번만 실행)
+export const flushOfflineQueue = (): Promise<FlushOfflineQueueResult> => {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
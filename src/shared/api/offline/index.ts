@@ -0,0 +1,11 @@
+export {
+  enqueueMutation,
+  getOfflineQueue,
+  removeQueuedMutation,
+  clearOfflineQueue,
+  subscribeOfflineQueue,
+} from './offlineQueue';
+export type { OfflineQueueOptions, QueuedMutation } from './offlineQueue';
+export { flushOfflineQueue } from './flushOfflineQueue';
+export type { FlushOfflineQueueResult } from './flushOfflineQueue';
+export { useOfflineQueue } from './useOfflineQueue';
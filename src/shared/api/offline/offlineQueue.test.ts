@@ -0,0 +1,110 @@
+import {
+  clearOfflineQueue,
+  enqueueMutation,
+  getOfflineQueue,
+  removeQueuedMutation,
+  subscribeOfflineQueue,
+} from './offlineQueue';
+
+const joinMutation = (gatheringId: number) => ({
+  method: 'post' as const,
+  url: `/gatherings/${gatheringId}/join`,
+  data: {},
+  authRequired: true,
+  userId: '1',
+  resourceKey: `gathering:${gatheringId}`,
+  action: 'join',
+  cancels: ['leave'],
+});
+
+const leaveMutation = (gatheringId: number) => ({
+  method: 'delete' as const,
+  url: `/gatherings/${gatheringId}/leave`,
+  authRequired: true,
+  userId: '1',
+  resourceKey: `gathering:${gatheringId}`,
+  action: 'leave',
+  cancels: ['join'],
+});
+
+describe('오프라인 요청 큐', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('요청을 저장하고 id를 반환한다', () => {
+    const id = enqueueMutation(joinMutation(1));
+
+    const queue = getOfflineQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ id, url: '/gatherings/1/join', action: 'join' });
+  });
+
+  it('같은 리소스의 같은 요청은 하나만 남긴다', () => {
+    enqueueMutation(joinMutation(1));
+    const secondId = enqueueMutation(joinMutation(1));
+
+    const queue = getOfflineQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].id).toBe(secondId);
+  });
+
+  it('참여 후 참여 취소는 서로 상쇄되어 큐에서 사라진다', () => {
+    enqueueMutation(joinMutation(1));
+    const id = enqueueMutation(leaveMutation(1));
+
+    expect(id).toBeNull();
+    expect(getOfflineQueue()).toEqual([]);
+  });
+
+  it('다른 모임의 요청은 상쇄하지 않는다', () => {
+    enqueueMutation(joinMutation(1));
+    enqueueMutation(leaveMutation(2));
+
+    expect(getOfflineQueue().map((item) => item.resourceKey)).toEqual([
+      'gathering:1',
+      'gathering:2',
+    ]);
+  });
+
+  it('다른 사용자의 요청과는 상쇄하거나 교체하지 않는다', () => {
+    enqueueMutation(joinMutation(1));
+    enqueueMutation({ ...leaveMutation(1), userId: '2' });
+
+    expect(getOfflineQueue().map((item) => [item.userId, item.action])).toEqual([
+      ['1', 'join'],
+      ['2', 'leave'],
+    ]);
+  });
+
+  it('removeQueuedMutation으로 특정 요청을 제거한다', () => {
+    const id = enqueueMutation(joinMutation(1));
+    enqueueMutation(joinMutation(2));
+
+    removeQueuedMutation(id!);
+
+    expect(getOfflineQueue().map((item) => item.resourceKey)).toEqual(['gathering:2']);
+  });
+
+  it('큐가 바뀌면 구독자에게 알린다', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeOfflineQueue(listener);
+
+    enqueueMutation(joinMutation(1));
+    clearOfflineQueue();
+    unsubscribe();
+    enqueueMutation(joinMutation(2));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith([]);
+  });
+
+  it('저장된 값이 손상되면 콘솔 에러 출력 후 빈 배열을 반환한다', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('offline-mutation-queue', 'not-json');
+
+    expect(getOfflineQueue()).toEqual([]);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
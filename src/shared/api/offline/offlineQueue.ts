@@ -0,0 +1,120 @@
+const OFFLINE_QUEUE_KEY = 'offline-mutation-queue';
+
+export type QueuedMethod = 'post' | 'put' | 'delete';
+
+// httpClient 요청 config에 넘기는 오프라인 큐 옵션
+export interface OfflineQueueOptions {
+  // 같은 리소스에 대한 요청끼리 중복/상쇄를 판단하는 키 (예: 'gathering:1')
+  resourceKey: string;
+  // 요청의 종류 (예: 'join', 'leave')
+  action: string;
+  // 큐에 남아있으면 서로 상쇄되는 action 목록 (예: join ↔ leave)
+  cancels?: string[];
+}
+
+export interface QueuedMutation extends OfflineQueueOptions {
+  id: string;
+  method: QueuedMethod;
+  url: string;
+  data?: unknown;
+  authRequired?: boolean;
+  // 요청한 사용자 id (다른 계정으로 로그인한 뒤에는 재전송하지 않음)
+  userId: string;
+  createdAt: number;
+}
+
+type Listener = (queue: QueuedMutation[]) => void;
+
+const listeners = new Set<Listener>();
+const EMPTY_QUEUE: QueuedMutation[] = [];
+let cachedRaw: string | null = null;
+let cachedQueue: QueuedMutation[] = EMPTY_QUEUE;
+
+const createQueueId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// 불러오기 (useSyncExternalStore에서 쓰이므로 값이 같으면 같은 참조를 반환)
+export const getOfflineQueue = (): QueuedMutation[] => {
+  if (typeof window === 'undefined') return EMPTY_QUEUE;
+  try {
+    const raw = localStorage.getItem(OFFLINE_QUEUE_KEY);
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedQueue = raw ? (JSON.parse(raw) as QueuedMutation[]) : EMPTY_QUEUE;
+    }
+    return cachedQueue;
+  } catch (error) {
+    console.error('로컬 스토리지에서 오프라인 요청 큐를 불러오는 데 실패했습니다:', error);
+    return EMPTY_QUEUE;
+  }
+};
+
+const saveOfflineQueue = (queue: QueuedMutation[]) => {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(OFFLINE_QUEUE_KEY);
+    } else {
+      localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(queue));
+    }
+  } catch (error) {
+    console.error('로컬 스토리지에 오프라인 요청 큐를 저장하는 데 실패했습니다:', error);
+  }
+  const current = getOfflineQueue();
+  listeners.forEach((listener) => listener(current));
+};
+
+// 큐에 추가
+// - 같은 리소스의 같은 action이 이미 있으면 최신 요청으로 교체
+// - 상쇄되는 action(join 후 leave 등)이 있으면 둘 다 제거
+// 큐에 남게 된 요청의 id를 반환 (상쇄된 경우 null)
+export const enqueueMutation = (
+  mutation: Omit<QueuedMutation, 'id' | 'createdAt'>,
+): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const queue = getOfflineQueue();
+  const sameResource = (item: QueuedMutation) =>
+    item.resourceKey === mutation.resourceKey && item.userId === mutation.userId;
+
+  const cancelled = queue.find(
+    (item) =>
+      sameResource(item) &&
+      (mutation.cancels?.includes(item.action) || item.cancels?.includes(mutation.action)),
+  );
+  if (cancelled) {
+    saveOfflineQueue(queue.filter((item) => item.id !== cancelled.id));
+    return null;
+  }
+
+  const id = createQueueId();
+  const rest = queue.filter((item) => !(sameResource(item) && item.action === mutation.action));
+  saveOfflineQueue([...rest, { ...mutation, id, createdAt: Date.now() }]);
+
+  return id;
+};
+
+// 큐에서 제거
+export const removeQueuedMutation = (id: string): void => {
+  if (typeof window === 'undefined') return;
+  saveOfflineQueue(getOfflineQueue().filter((item) => item.id !== id));
+};
+
+// 전체 삭제
+export const clearOfflineQueue = (): void => {
+  if (typeof window === 'undefined') return;
+  saveOfflineQueue([]);
+};
+
+// 큐 변경 구독 (다른 탭에서의 변경도 storage 이벤트로 전달)
+export const subscribeOfflineQueue = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === OFFLINE_QUEUE_KEY) listener(getOfflineQueue());
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
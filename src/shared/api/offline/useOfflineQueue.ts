@@ -0,0 +1,12 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { QueuedMutation, getOfflineQueue, subscribeOfflineQueue } from './offlineQueue';
+
+const EMPTY_QUEUE: QueuedMutation[] = [];
+const getServerSnapshot = () => EMPTY_QUEUE;
+
+// 오프라인 큐 상태 구독 훅
+export const useOfflineQueue = () => {
+  return useSyncExternalStore(subscribeOfflineQueue, getOfflineQueue, getServerSnapshot);
+};
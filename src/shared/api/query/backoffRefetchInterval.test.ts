@@ -0,0 +1,50 @@
+import type { Query } from '@tanstack/react-query';
+import { createBackoffRefetchInterval } from './backoffRefetchInterval';
+
+const createQuery = (data: unknown, dataUpdatedAt: number, errorUpdatedAt = 0) =>
+  ({ state: { data, dataUpdatedAt, errorUpdatedAt } }) as unknown as Query<
+    unknown,
+    Error,
+    unknown,
+    readonly unknown[]
+  >;
+
+describe('createBackoffRefetchInterval', () => {
+  it('데이터가 그대로면 간격을 최대 간격까지 늘린다', () => {
+    const refetchInterval = createBackoffRefetchInterval({
+      initialInterval: 1000,
+      maxInterval: 5000,
+    });
+    const data = { participantCount: 3 };
+
+    expect(refetchInterval(createQuery(data, 1))).toBe(1000);
+    expect(refetchInterval(createQuery(data, 2))).toBe(2000);
+    expect(refetchInterval(createQuery(data, 3))).toBe(4000);
+    expect(refetchInterval(createQuery(data, 4))).toBe(5000);
+  });
+
+  it('데이터가 바뀌면 처음 간격으로 되돌린다', () => {
+    const refetchInterval = createBackoffRefetchInterval({
+      initialInterval: 1000,
+      maxInterval: 10000,
+    });
+    const data = { participantCount: 3 };
+
+    refetchInterval(createQuery(data, 1));
+    refetchInterval(createQuery(data, 2));
+    expect(refetchInterval(createQuery({ participantCount: 4 }, 3))).toBe(1000);
+  });
+
+  it('새 요청 결과가 없으면 간격을 유지하고, 에러가 나면 간격을 늘린다', () => {
+    const refetchInterval = createBackoffRefetchInterval({
+      initialInterval: 1000,
+      maxInterval: 10000,
+      factor: 3,
+    });
+    const data = { participantCount: 3 };
+
+    refetchInterval(createQuery(data, 1));
+    expect(refetchInterval(createQuery(data, 1))).toBe(1000);
+    expect(refetchInterval(createQuery(data, 1, 2))).toBe(3000);
+  });
+});
@@ -0,0 +1,37 @@
+import type { Query } from '@tanstack/react-query';
+
+interface BackoffRefetchIntervalOptions {
+  initialInterval: number; // 데이터가 바뀐 직후의 폴링 간격 (ms)
+  maxInterval: number; // 최대 폴링 간격 (ms)
+  factor?: number; // 변화가 없을 때마다 곱할 배수 (기본값 2)
+}
+
+// 폴링할 때마다 데이터가 그대로면 간격을 늘리고, 바뀌면 처음 간격으로 되돌리는 refetchInterval
+// structural sharing으로 내용이 같으면 data 참조가 유지되므로 참조 비교로 변화를 판단
+// 쿼리마다 상태를 따로 가져야 하므로 쿼리(또는 컴포넌트)마다 새로 만들어 사용
+export const createBackoffRefetchInterval = ({
+  initialInterval,
+  maxInterval,
+  factor = 2,
+}: BackoffRefetchIntervalOptions) => {
+  let interval = initialInterval;
+  let lastData: unknown;
+  let lastSettledAt = 0;
+
+  // TanStack Query는 요청이 끝날 때마다 이 함수를 다시 호출해 다음 간격을 정함
+  return <TData>(query: Query<TData, Error, TData, readonly unknown[]>) => {
+    const { data, dataUpdatedAt, errorUpdatedAt } = query.state;
+    const settledAt = Math.max(dataUpdatedAt, errorUpdatedAt);
+
+    if (settledAt !== lastSettledAt) {
+      const isFirstResult = lastSettledAt === 0;
+      const isChanged = data !== lastData;
+      interval =
+        isFirstResult || isChanged ? initialInterval : Math.min(interval * factor, maxInterval);
+      lastData = data;
+      lastSettledAt = settledAt;
+    }
+
+    return interval;
+  };
+};
@@ -1,4 +1,4 @@
-import { ApiError } from '@/shared/api/apiError';
+import { ApiError, OfflineQueuedError } from '@/shared/api/apiError';
 import { QueryClient } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 
@@ -8,8 +8,11 @@ const GARBAGE_COLLECTION_TIME = 1000 * 60 * 10; // 10분
 const IS_SERVER = typeof window === 'undefined';
 const IS_CLIENT = typeof window !== 'undefined';
 
+// 에러를 사용자에게 보여줄 메시지로 변환하는 함수 (locale별 메시지 매핑)
+export type ErrorMessageResolver = (error: Error) => string;
+
 // SSR을 고려한 QueryClient 팩토리 함수
-export const createQueryClient = () =>
+export const createQueryClient = (resolveErrorMessage?: ErrorMessageResolver) =>
   new QueryClient({
     defaultOptions: {
       queries: {
@@ -42,9 +45,15 @@ export const createQueryClient = () =>
             console.error('Error in SSR:', error);
             return;
           }
-          // 모든 에러에 대해 토스트 메시지 표시 (서버 메시지 사용)
+          const message = resolveErrorMessage?.(error) ?? error.message;
+          // 오프라인 큐에 저장된 요청은 에러가 아닌 안내 메시지로 표시
+          if (error instanceof OfflineQueuedError) {
+            toast(message, { icon: '📡' });
+            return;
+          }
+          // 모든 에러에 대해 토스트 메시지 표시 (에러 코드별 번역 메시지, 없으면 서버 메시지)
           console.error('Error:', error.message);
-          toast.error(error.message);
+          toast.error(message);
           // 개별 mutation에서 onError 설정시 이 전역 설정은 무시됨
         },
       },
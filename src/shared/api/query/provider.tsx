@@ -1,6 +1,8 @@
 'use client';
 
-import { type ReactNode, useState } from 'react';
+import { type ReactNode, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { mapApiErrorToMessage } from '@/shared/lib/utils/apiErrorMapper';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { createQueryClient, enableReactQueryDevTools } from './client';
@@ -10,8 +12,15 @@ interface ReactQueryProviderProps {
 }
 
 export function ReactQueryProvider({ children }: ReactQueryProviderProps) {
+  const t = useTranslations('errors.api');
+  // locale이 바뀌어도 QueryClient는 유지되므로 최신 번역 함수를 ref로 참조
+  const translateRef = useRef(t);
+  translateRef.current = t;
+
   // CSR 환경에서 사용되는 QueryClient 인스턴스 생성
-  const [queryClient] = useState(() => createQueryClient());
+  const [queryClient] = useState(() =>
+    createQueryClient((error) => mapApiErrorToMessage(error, translateRef.current)),
+  );
 
   return (
     <QueryClientProvider client={queryClient}>
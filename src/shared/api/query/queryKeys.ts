@@ -10,7 +10,14 @@ export const QUERY_KEYS = {
       [...QUERY_KEYS.gathering.base, 'list', filters] as const,
     infinite: (filters?: Omit<GatheringFilters, 'limit' | 'offset'>) =>
       [...QUERY_KEYS.gathering.base, 'infinite', filters] as const,
+    calendar: (filters?: Omit<GatheringFilters, 'limit' | 'offset'>, rangeStart?: string) =>
+      [...QUERY_KEYS.gathering.base, 'calendar', filters, rangeStart] as const,
+    map: (filters?: Omit<GatheringFilters, 'limit' | 'offset'>) =>
+      [...QUERY_KEYS.gathering.base, 'map', filters] as const,
     detail: (id: number) => [...QUERY_KEYS.gathering.base, 'detail', id] as const,
+    waitlist: (id: number) => [...QUERY_KEYS.gathering.base, 'waitlist', id] as const,
+    waitlisted: () => [...QUERY_KEYS.gathering.base, 'waitlisted'] as const,
+    series: (seriesId: number) => [...QUERY_KEYS.gathering.base, 'series', seriesId] as const,
     joined: (params?: MyGatheringParams) =>
       [...QUERY_KEYS.gathering.base, 'joined', params] as const,
     reviews: (gatheringId: number, params?: object) =>
@@ -25,6 +32,9 @@ export const QUERY_KEYS = {
     base: ['participant'] as const,
     list: (gatheringId: number, filters?: object) =>
       [...QUERY_KEYS.participant.base, 'list', gatheringId, filters] as const,
+    infinite: (gatheringId: number, filters?: object) =>
+      [...QUERY_KEYS.participant.base, 'infinite', gatheringId, filters] as const,
+    all: (gatheringId: number) => [...QUERY_KEYS.participant.base, 'all', gatheringId] as const,
   },
   favorites: {
     base: ['favorites'] as const,
@@ -0,0 +1,5 @@
+import { cache } from 'react';
+import { createQueryClient } from './client';
+
+// 서버 요청 단위로 QueryClient를 공유 (layout과 page에서 같은 데이터를 중복 요청하지 않도록)
+export const getServerQueryClient = cache(createQueryClient);
@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { isTokenExpired } from '@/shared/lib/auth/tokenExpiry';
+
+// 서버 컴포넌트에서 요청 쿠키의 NextAuth JWT를 읽어 백엔드 액세스 토큰을 반환
+// next/headers는 서버에서만 동작하므로 클라이언트 번들에 포함되지 않도록 동적 import
+export const getServerAccessToken = async (): Promise<string | undefined> => {
+  const [{ cookies }, { getToken }] = await Promise.all([
+    import('next/headers'),
+    import('next-auth/jwt'),
+  ]);
+  // cookies() 호출로 해당 페이지는 동적 렌더링됨 (try/catch로 감싸지 않음)
+  const cookieStore = await cookies();
+
+  try {
+    const token = await getToken({
+      // getToken은 req.cookies(getAll)와 req.headers만 사용
+      req: { cookies: cookieStore, headers: {} } as unknown as NextRequest,
+      secret: process.env.NEXTAUTH_SECRET,
+    });
+
+    if (!token?.accessToken || isTokenExpired(token.accessTokenExpires)) return undefined;
+    return token.accessToken;
+  } catch (error) {
+    console.error('Failed to decode NextAuth token:', error);
+    return undefined;
+  }
+};
@@ -0,0 +1,49 @@
+import { trackResponseValidationError } from '@/shared/lib/sentry/tracking';
+import { z } from 'zod';
+import { ResponseValidationError } from './apiError';
+import { validateResponse } from './validateResponse';
+
+jest.mock('@/shared/lib/sentry/tracking', () => ({
+  trackResponseValidationError: jest.fn(),
+}));
+
+const schema = z.object({
+  id: z.number(),
+  type: z.enum(['OFFICE_STRETCHING', 'WORKATION']),
+});
+
+describe('validateResponse', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('스키마와 일치하면 검증된 데이터를 반환한다', () => {
+    const data = { id: 1, type: 'WORKATION', extra: true };
+
+    expect(validateResponse(schema, data, '/gatherings/1')).toEqual({ id: 1, type: 'WORKATION' });
+  });
+
+  it('개발 환경에서 스키마와 다르면 어떤 필드가 다른지 담은 에러를 던진다', () => {
+    const data = { id: '1', type: 'YOGA' };
+
+    expect(() => validateResponse(schema, data, '/gatherings/1')).toThrow(ResponseValidationError);
+    expect(() => validateResponse(schema, data, '/gatherings/1')).toThrow(/id: .*type: /);
+    expect(trackResponseValidationError).not.toHaveBeenCalled();
+  });
+
+  it('프로덕션에서는 원본 데이터를 반환하고 Sentry로 보고한다', () => {
+    jest.replaceProperty(process, 'env', { ...process.env, NODE_ENV: 'production' });
+    const data = { id: 1, type: 'YOGA' };
+
+    expect(validateResponse(schema, data, '/gatherings/1')).toBe(data);
+    expect(trackResponseValidationError).toHaveBeenCalledWith(
+      expect.any(ResponseValidationError),
+      expect.objectContaining({ endpoint: '/gatherings/1' }),
+    );
+  });
+
+  it('401 리다이렉트로 응답이 없으면 검증하지 않는다', () => {
+    expect(validateResponse(schema, undefined, '/gatherings/1')).toBeUndefined();
+  });
+});
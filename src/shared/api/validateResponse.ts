@@ -0,0 +1,24 @@
+import { trackResponseValidationError } from '@/shared/lib/sentry/tracking';
+import type { z } from 'zod';
+import { ResponseValidationError } from './apiError';
+
+// 서비스 함수에서 백엔드 응답을 스키마로 검증
+// 개발/테스트 환경에서는 바로 에러를 던지고, 프로덕션에서는 화면이 깨지지 않도록
+// 원본 데이터를 그대로 반환하면서 Sentry로 보고
+export const validateResponse = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  endpoint: string,
+): T => {
+  // 401로 로그인 페이지로 이동하는 중에는 httpClient가 undefined로 resolve하므로 검증하지 않음
+  if (data === undefined) return data as T;
+
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const error = new ResponseValidationError(endpoint, result.error.issues);
+  if (process.env.NODE_ENV !== 'production') throw error;
+
+  trackResponseValidationError(error, { endpoint, issues: result.error.issues });
+  return data as T;
+};
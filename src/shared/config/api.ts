@@ -1,6 +1,8 @@
 // API 설정
 
 export const API_CONFIG = {
+  // 요청을 보낼 백엔드 ('memory'면 인메모리 서버 사용, shared/api/backend 참고)
+  BACKEND: process.env.NEXT_PUBLIC_API_BACKEND === 'memory' ? 'memory' : 'remote',
   BASE_URL: () => {
     const baseUrl =
       process.env.NEXT_PUBLIC_API_URL || 'https://fe-adv-project-together-dallaem.vercel.app';
@@ -41,11 +43,15 @@ export const API_ENDPOINTS = {
     LIST: '/gatherings',
     DETAIL: (id: number) => `/gatherings/${id}`,
     CREATE: '/gatherings',
+    UPDATE: (id: number) => `/gatherings/${id}`, // 인메모리 백엔드 전용 (원격 API에는 아직 없음)
     JOIN: (id: number) => `/gatherings/${id}/join`,
     LEAVE: (id: number) => `/gatherings/${id}/leave`,
     CANCEL: (id: number) => `/gatherings/${id}/cancel`,
     PARTICIPANTS: (id: number) => `/gatherings/${id}/participants`,
     JOINED: '/gatherings/joined',
+    // 대기열은 인메모리 백엔드 전용 (원격 API에는 아직 없음)
+    WAITLIST: (id: number) => `/gatherings/${id}/waitlist`,
+    WAITLISTED: '/gatherings/waitlisted',
   },
 
   // 리뷰
@@ -54,6 +60,17 @@ export const API_ENDPOINTS = {
     CREATE: '/reviews',
     SCORES: '/reviews/scores',
   },
+
+  // 캘린더 구독 (인메모리 백엔드 전용, 원격 API에는 아직 없음)
+  // 인메모리 백엔드 전용 (원격 API에는 반복 모임 개념이 없음)
+  GATHERING_SERIES: {
+    CREATE: '/gathering-series',
+    DETAIL: (id: number) => `/gathering-series/${id}`,
+  },
+  CALENDAR_FEEDS: {
+    TOKEN: '/calendar-feeds',
+    GATHERINGS: (token: string) => `/calendar-feeds/${encodeURIComponent(token)}/gatherings`,
+  },
 } as const;
 
 // HTTP 상태 코드
@@ -83,4 +100,7 @@ export const ERROR_CODES = {
   PAST_GATHERING: 'PAST_GATHERING',
   NOT_PARTICIPANT: 'NOT_PARTICIPANT',
   SERVER_ERROR: 'SERVER_ERROR',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
+
+export type ApiErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
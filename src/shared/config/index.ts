@@ -1,2 +1,4 @@
 // 설정 배럴 익스포트
 export { API_CONFIG, API_ENDPOINTS, HTTP_STATUS, ERROR_CODES } from './api';
+export type { ApiErrorCode } from './api';
+export { TELEMETRY_CONFIG } from './telemetry';
@@ -5,6 +5,8 @@ export const ROUTES = {
   FAVORITE: '/favorites',
   REVIEW: '/reviews',
   SIGNIN: '/signin',
+  SIGNIN_WITH_CALLBACK: (callbackUrl: string) =>
+    `/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`,
   SIGNUP: '/signup',
   MY_PAGE: '/my-page',
   MY_PAGE_TAB: (id: string) => `/my-page/${id}`,
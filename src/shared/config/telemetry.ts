@@ -0,0 +1,21 @@
+// API 텔레메트리 설정
+
+const DEFAULT_API_SAMPLE_RATES: Record<string, number> = {
+  production: 0.1,
+  development: 1,
+  test: 0,
+};
+
+export const TELEMETRY_CONFIG = {
+  // API 성능 span 샘플링 비율 (0~1)
+  // NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE로 덮어쓸 수 있고, 없으면 환경별 기본값 사용
+  API_SAMPLE_RATE: () => {
+    const override = Number(process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE);
+    if (process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE && !Number.isNaN(override)) {
+      return Math.min(Math.max(override, 0), 1);
+    }
+    return DEFAULT_API_SAMPLE_RATES[process.env.NODE_ENV] ?? 0;
+  },
+  // p50/p95 계산에 사용하는 엔드포인트별 최근 요청 수
+  TIMING_WINDOW_SIZE: 100,
+} as const;
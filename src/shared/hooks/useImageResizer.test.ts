@@ -83,6 +83,33 @@ describe('useImageResizer', () => {
       expect(result.current.isProcessing).toBe(false);
     });
 
+    it('자를 영역을 리사이저에 함께 전달해야 한다', async () => {
+      const mockFile = createMockFile('portrait.jpg', 'image/jpeg', 1024);
+      const crop = { rotation: 90 as const, area: { x: 0, y: 100, width: 700, height: 400 } };
+
+      mockImageResizer.isCurrentlyProcessing.mockReturnValue(false);
+      mockImageResizer.resizeImage.mockResolvedValue({
+        blob: new Blob(['cropped'], { type: 'image/webp' }),
+        width: 700,
+        height: 400,
+        size: 1024,
+      });
+
+      const { result } = renderHook(() =>
+        useImageResizer({ sizeConfig: 'gathering', onSuccess: jest.fn() }),
+      );
+
+      await act(async () => {
+        await result.current.handleImageChange(mockFile, undefined, crop);
+      });
+
+      expect(mockImageResizer.resizeImage).toHaveBeenCalledWith(
+        mockFile,
+        expect.objectContaining({ format: 'webp', crop }),
+        undefined,
+      );
+    });
+
     it('이미지가 아닌 파일을 거부해야 한다', async () => {
       const onSuccess = jest.fn();
       const onError = jest.fn();
@@ -1,5 +1,6 @@
 import { useCallback, useState } from 'react';
-import { IMAGE_SIZE_CONFIG, imageResizer } from '@/shared/lib/image';
+import { IMAGE_SIZE_CONFIG, type ImageCrop, imageResizer } from '@/shared/lib/image';
+import { validateImageFile } from '@/shared/lib/image/validateImageFile';
 
 interface UseImageResizerOptions {
   sizeConfig: keyof typeof IMAGE_SIZE_CONFIG; // 'gathering' | 'profile'
@@ -12,7 +13,12 @@ interface UseImageResizerReturn {
   isProcessing: boolean;
   fileName: string;
   displayFileName: string; // 자른 파일명
-  handleImageChange: (file: File | null, onProgress?: (progress: number) => void) => Promise<void>;
+  // crop이 있으면 회전 후 자른 영역을 리사이징
+  handleImageChange: (
+    file: File | null,
+    onProgress?: (progress: number) => void,
+    crop?: ImageCrop,
+  ) => Promise<void>;
   reset: () => void;
 }
 
@@ -24,37 +30,6 @@ const truncateFileName = (fileName: string, maxLength: number = 20): string => {
   return `${nameWithoutExt.substring(0, maxLength - 3)}...${extension ? `.${extension}` : ''}`;
 };
 
-// 파일 유효성 검사 함수
-const validateImageFile = (file: File): { isValid: boolean; error?: unknown } => {
-  // 파일 타입 체크
-  if (!file.type.startsWith('image/')) {
-    return {
-      isValid: false,
-      error: { code: 'IMAGE_TYPE', message: '유효한 이미지 파일이 아닙니다.' },
-    };
-  }
-
-  // 파일 크기 제한 (20MB)
-  const MAX_FILE_SIZE = 20 * 1024 * 1024;
-  if (file.size > MAX_FILE_SIZE) {
-    return {
-      isValid: false,
-      error: { code: 'FILE_SIZE', message: '파일 크기가 너무 큽니다. (최대 20MB)' },
-    };
-  }
-
-  // 지원하는 이미지 형식 확인
-  const supportedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
-  if (!supportedTypes.includes(file.type)) {
-    return {
-      isValid: false,
-      error: { code: 'UNSUPPORTED_TYPE', message: '지원하지 않는 이미지 형식입니다.' },
-    };
-  }
-
-  return { isValid: true };
-};
-
 export const useImageResizer = (options: UseImageResizerOptions): UseImageResizerReturn => {
   const { sizeConfig, onSuccess, onError, onProgress } = options;
   const [isProcessing, setIsProcessing] = useState(false);
@@ -62,7 +37,7 @@ export const useImageResizer = (options: UseImageResizerOptions): UseImageResize
   const [displayFileName, setDisplayFileName] = useState('');
 
   const handleImageChange = useCallback(
-    async (file: File | null, customOnProgress?: (progress: number) => void) => {
+    async (file: File | null, customOnProgress?: (progress: number) => void, crop?: ImageCrop) => {
       if (!file) {
         setFileName('');
         setDisplayFileName('');
@@ -90,12 +65,13 @@ export const useImageResizer = (options: UseImageResizerOptions): UseImageResize
       setDisplayFileName(truncateFileName(file.name));
 
       try {
-        // 이미지 리사이징
+        // 이미지 자르기/리사이징
         const result = await imageResizer.resizeImage(
           file,
           {
             ...IMAGE_SIZE_CONFIG[sizeConfig],
             format: 'webp',
+            crop,
           },
           customOnProgress || onProgress,
         );
@@ -0,0 +1,24 @@
+import { getSafeCallbackUrl } from './callbackUrl';
+
+describe('getSafeCallbackUrl', () => {
+  it('사이트 내부 경로는 그대로 반환한다', () => {
+    expect(getSafeCallbackUrl('/ko/gathering/1?tab=info')).toBe('/ko/gathering/1?tab=info');
+  });
+
+  it('외부 주소나 빈 값은 null을 반환한다', () => {
+    expect(getSafeCallbackUrl('https://evil.com')).toBeNull();
+    expect(getSafeCallbackUrl('//evil.com')).toBeNull();
+    expect(getSafeCallbackUrl('')).toBeNull();
+    expect(getSafeCallbackUrl(null)).toBeNull();
+  });
+
+  it('브라우저가 외부 주소로 해석하는 백슬래시 경로는 null을 반환한다', () => {
+    expect(getSafeCallbackUrl('/\\evil.com')).toBeNull();
+    expect(getSafeCallbackUrl('/\\/evil.com')).toBeNull();
+  });
+
+  it('제어 문자가 섞인 경로는 null을 반환한다', () => {
+    expect(getSafeCallbackUrl('/\t/evil.com')).toBeNull();
+    expect(getSafeCallbackUrl('/\n/evil.com')).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+// callbackUrl이 같은 사이트인지 판별할 때 쓰는 임의의 기준 주소
+const BASE_ORIGIN = 'http://callback.local';
+
+// 브라우저가 '/'로 바꾸거나 무시하는 문자 (예: '/\evil.com' → '//evil.com')
+const UNSAFE_CHARACTER_PATTERN = /[\\\u0000-\u001F\u007F]/;
+
+// 같은 사이트 내부 경로만 callbackUrl로 허용 (오픈 리다이렉트 방지)
+export const getSafeCallbackUrl = (value?: string | null): string | null => {
+  if (!value || !value.startsWith('/') || value.startsWith('//')) return null;
+  if (UNSAFE_CHARACTER_PATTERN.test(value)) return null;
+
+  try {
+    return new URL(value, BASE_ORIGIN).origin === BASE_ORIGIN ? value : null;
+  } catch {
+    return null;
+  }
+};
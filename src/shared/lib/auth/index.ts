@@ -0,0 +1,3 @@
+export { SESSION_EXPIRY_WARNING_MS, decodeTokenExpiry, isTokenExpired } from './tokenExpiry';
+export { getSafeCallbackUrl } from './callbackUrl';
+export { redirectToSignin } from './redirectToSignin';
@@ -0,0 +1,17 @@
+import { signOut } from 'next-auth/react';
+import { ROUTES } from '@/shared/config/routes';
+
+let isRedirecting = false;
+
+// 세션 만료 시 로그아웃 후 현재 페이지를 callbackUrl로 담아 로그인 페이지로 이동
+export const redirectToSignin = async () => {
+  if (typeof window === 'undefined' || isRedirecting) return;
+  isRedirecting = true;
+
+  const { pathname, search } = window.location;
+  const localeMatch = pathname.match(/^\/([a-z]{2})(\/|$)/);
+  const currentLocale = localeMatch ? localeMatch[1] : 'ko';
+
+  await signOut({ redirect: false });
+  window.location.href = `/${currentLocale}${ROUTES.SIGNIN_WITH_CALLBACK(`${pathname}${search}`)}`;
+};
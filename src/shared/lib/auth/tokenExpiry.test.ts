@@ -0,0 +1,39 @@
+import { decodeTokenExpiry, isTokenExpired } from './tokenExpiry';
+
+const encode = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createToken = (payload: object) => `${encode({ alg: 'HS256' })}.${encode(payload)}.sig`;
+
+describe('decodeTokenExpiry', () => {
+  it('JWT의 exp(초)를 ms 단위 만료 시각으로 반환한다', () => {
+    const token = createToken({ userId: 1, exp: 1700000000 });
+
+    expect(decodeTokenExpiry(token)).toBe(1700000000 * 1000);
+  });
+
+  it('exp가 없으면 null을 반환한다', () => {
+    expect(decodeTokenExpiry(createToken({ userId: 1 }))).toBeNull();
+  });
+
+  it('JWT 형식이 아니면 null을 반환한다', () => {
+    expect(decodeTokenExpiry('not-a-jwt')).toBeNull();
+    expect(decodeTokenExpiry('a.%%%.c')).toBeNull();
+  });
+});
+
+describe('isTokenExpired', () => {
+  it('만료 시각이 지났으면 true를 반환한다', () => {
+    expect(isTokenExpired(1000, 1000)).toBe(true);
+    expect(isTokenExpired(1000, 2000)).toBe(true);
+  });
+
+  it('만료 시각 전이면 false를 반환한다', () => {
+    expect(isTokenExpired(2000, 1000)).toBe(false);
+  });
+
+  it('만료 시각을 모르면 false를 반환한다', () => {
+    expect(isTokenExpired(undefined)).toBe(false);
+    expect(isTokenExpired(null)).toBe(false);
+  });
+});
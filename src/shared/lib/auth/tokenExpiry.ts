@@ -0,0 +1,28 @@
+// 세션 만료 전 경고를 띄우는 시점 (만료 5분 전)
+export const SESSION_EXPIRY_WARNING_MS = 1000 * 60 * 5;
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return atob(padded);
+};
+
+// 백엔드 JWT의 exp(초)를 읽어 만료 시각(ms)을 반환
+// JWT 형식이 아니거나 exp가 없으면 null
+export const decodeTokenExpiry = (token: string): number | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const { exp } = JSON.parse(decodeBase64Url(payload)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// 만료 시각이 지났는지 확인 (만료 시각을 모르면 만료되지 않은 것으로 간주)
+export const isTokenExpired = (expiresAt?: number | null, now = Date.now()): boolean => {
+  if (!expiresAt) return false;
+  return now >= expiresAt;
+};
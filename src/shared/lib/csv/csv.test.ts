@@ -0,0 +1,38 @@
+import { escapeCsvCell, toCsv } from './csv';
+
+describe('csv', () => {
+  it('특수문자가 있는 값만 따옴표로 감싼다', () => {
+    expect(escapeCsvCell('홍길동')).toBe('홍길동');
+    expect(escapeCsvCell('코드잇, 주식회사')).toBe('"코드잇, 주식회사"');
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvCell('a\nb')).toBe('"a\nb"');
+    expect(escapeCsvCell(null)).toBe('');
+    expect(escapeCsvCell(3)).toBe('3');
+  });
+
+  it("수식으로 해석되는 문자열은 앞에 '를 붙이고 따옴표로 감싼다", () => {
+    expect(escapeCsvCell('=HYPERLINK("http://evil.test","클릭")')).toBe(
+      '"\'=HYPERLINK(""http://evil.test"",""클릭"")"',
+    );
+    expect(escapeCsvCell('+1')).toBe('"\'+1"');
+    expect(escapeCsvCell('-2+3')).toBe('"\'-2+3"');
+    expect(escapeCsvCell('@SUM(A1)')).toBe('"\'@SUM(A1)"');
+    expect(escapeCsvCell('\t=1')).toBe('"\'\t=1"');
+    expect(escapeCsvCell('\r=1')).toBe('"\'\r=1"');
+    // 숫자 값과 중간에 기호가 있는 문자열은 그대로 둠
+    expect(escapeCsvCell(-3)).toBe('-3');
+    expect(escapeCsvCell('a=b')).toBe('a=b');
+  });
+
+  it('헤더와 행을 CRLF로 이어 붙인다', () => {
+    expect(
+      toCsv(
+        ['이름', '회사'],
+        [
+          ['홍길동', '코드잇'],
+          ['김철수', undefined],
+        ],
+      ),
+    ).toBe('이름,회사\r\n홍길동,코드잇\r\n김철수,');
+  });
+});
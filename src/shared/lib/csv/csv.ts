@@ -0,0 +1,28 @@
+import { downloadTextFile } from '@/shared/lib/download';
+
+export type CsvCell = string | number | null | undefined;
+
+// 엑셀이 수식으로 해석하는 시작 문자 (CSV 수식 주입)
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+// 쉼표, 따옴표, 줄바꿈이 있으면 따옴표로 감싸고 따옴표는 두 번 씀 (RFC 4180)
+// 다른 사용자가 입력한 문자열이 수식으로 실행되지 않도록 수식 시작 문자 앞에 '를 붙이고 따옴표로 감쌈
+export const escapeCsvCell = (cell: CsvCell) => {
+  if (cell == null) return '';
+  if (typeof cell === 'number') return String(cell);
+
+  const value = FORMULA_PREFIX_PATTERN.test(cell) ? `'${cell}` : cell;
+  return value !== cell || /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// 헤더와 행 목록을 CSV 문자열로 변환
+export const toCsv = (header: CsvCell[], rows: CsvCell[][]) =>
+  [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// 엑셀에서 한글이 깨지지 않도록 BOM을 붙여 .csv 파일로 내려받기
+export const downloadCsvFile = (content: string, fileName: string) =>
+  downloadTextFile(
+    `\uFEFF${content}`,
+    fileName.endsWith('.csv') ? fileName : `${fileName}.csv`,
+    'text/csv;charset=utf-8',
+  );
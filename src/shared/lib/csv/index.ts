@@ -0,0 +1,2 @@
+export { downloadCsvFile, escapeCsvCell, toCsv } from './csv';
+export type { CsvCell } from './csv';
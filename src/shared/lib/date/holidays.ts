@@ -0,0 +1,79 @@
+import { formatDateTypeYYYYMMDD } from './dateFormatter';
+
+// 대한민국 공휴일 (대체공휴일, 임시공휴일 포함)
+// 음력 공휴일은 해마다 날짜가 달라 고정 목록으로 관리하므로 매년 다음 해 목록을 추가해야 함
+const KOREAN_PUBLIC_HOLIDAYS = new Set([
+  // 2025
+  '2025-01-01',
+  '2025-01-28',
+  '2025-01-29',
+  '2025-01-30',
+  '2025-03-01',
+  '2025-03-03',
+  '2025-05-05',
+  '2025-05-06',
+  '2025-06-03',
+  '2025-06-06',
+  '2025-08-15',
+  '2025-10-03',
+  '2025-10-05',
+  '2025-10-06',
+  '2025-10-07',
+  '2025-10-08',
+  '2025-10-09',
+  '2025-12-25',
+  // 2026
+  '2026-01-01',
+  '2026-02-16',
+  '2026-02-17',
+  '2026-02-18',
+  '2026-03-01',
+  '2026-03-02',
+  '2026-05-05',
+  '2026-05-24',
+  '2026-05-25',
+  '2026-06-03',
+  '2026-06-06',
+  '2026-08-15',
+  '2026-08-17',
+  '2026-09-24',
+  '2026-09-25',
+  '2026-09-26',
+  '2026-10-03',
+  '2026-10-05',
+  '2026-10-09',
+  '2026-12-25',
+  // 2027
+  '2027-01-01',
+  '2027-02-06',
+  '2027-02-07',
+  '2027-02-08',
+  '2027-02-09',
+  '2027-03-01',
+  '2027-05-05',
+  '2027-05-13',
+  '2027-06-06',
+  '2027-08-15',
+  '2027-08-16',
+  '2027-09-14',
+  '2027-09-15',
+  '2027-09-16',
+  '2027-10-03',
+  '2027-10-04',
+  '2027-10-09',
+  '2027-10-11',
+  '2027-12-25',
+  '2027-12-27',
+]);
+
+// 공휴일 목록이 있는 마지막 해 (이후 날짜는 공휴일인지 알 수 없음)
+export const LAST_PUBLIC_HOLIDAY_YEAR = Math.max(
+  ...Array.from(KOREAN_PUBLIC_HOLIDAYS, (date) => Number(date.slice(0, 4))),
+);
+
+// 공휴일 여부 (로컬 날짜 기준)
+export const isPublicHoliday = (date: Date) =>
+  KOREAN_PUBLIC_HOLIDAYS.has(formatDateTypeYYYYMMDD(date));
+
+// 공휴일 목록으로 판단할 수 있는 날짜인지 (목록이 끝난 해 이후면 false)
+export const isPublicHolidayKnown = (date: Date) => date.getFullYear() <= LAST_PUBLIC_HOLIDAY_YEAR;
@@ -1,3 +1,4 @@
 export { formatDateAndTime } from './formatDateAndTime';
 export { formatDateToYYYYMMDD } from './dateFormatter';
 export { formatDateTypeYYYYMMDD } from './dateFormatter';
+export { LAST_PUBLIC_HOLIDAY_YEAR, isPublicHoliday, isPublicHolidayKnown } from './holidays';
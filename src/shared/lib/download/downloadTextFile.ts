@@ -0,0 +1,10 @@
+// 문자열을 파일로 만들어 브라우저에서 내려받기
+export const downloadTextFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
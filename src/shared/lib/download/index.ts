@@ -0,0 +1 @@
+export { downloadTextFile } from './downloadTextFile';
@@ -0,0 +1,44 @@
+import { CONFIRMATION_STATUS } from '@/shared/types/confirmationStatus';
+import {
+  DEFAULT_MIN_PARTICIPANTS,
+  getConfirmationStatus,
+  getMinParticipants,
+  isRegistrationClosed,
+} from './confirmation';
+
+const NOW = new Date('2025-03-01T09:00:00.000Z');
+
+describe('confirmation', () => {
+  it('개설 확정 인원을 정하지 않은 모임은 기본값을 사용한다', () => {
+    expect(getMinParticipants({})).toBe(DEFAULT_MIN_PARTICIPANTS);
+    expect(getMinParticipants({ minParticipants: 3 })).toBe(3);
+  });
+
+  it('마감 시각이 지나면 모집이 마감된다', () => {
+    expect(isRegistrationClosed('2025-03-01T09:00:00.000Z', NOW)).toBe(true);
+    expect(isRegistrationClosed('2025-03-01T10:00:00.000Z', NOW)).toBe(false);
+    expect(isRegistrationClosed(undefined, NOW)).toBe(false);
+  });
+
+  it('최소 인원을 채우면 마감 여부와 관계없이 개설 확정이다', () => {
+    expect(
+      getConfirmationStatus({
+        participantCount: 3,
+        minParticipants: 3,
+        registrationEnd: '2025-02-28T09:00:00.000Z',
+        now: NOW,
+      }),
+    ).toBe(CONFIRMATION_STATUS.CONFIRMED);
+  });
+
+  it('최소 인원 미만이면 마감 전에는 대기, 마감 후에는 미달이다', () => {
+    const base = { participantCount: 2, minParticipants: 3, now: NOW };
+
+    expect(getConfirmationStatus({ ...base, registrationEnd: '2025-03-02T09:00:00.000Z' })).toBe(
+      CONFIRMATION_STATUS.PENDING,
+    );
+    expect(getConfirmationStatus({ ...base, registrationEnd: '2025-02-28T09:00:00.000Z' })).toBe(
+      CONFIRMATION_STATUS.UNCONFIRMED,
+    );
+  });
+});
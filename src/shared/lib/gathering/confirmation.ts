@@ -0,0 +1,31 @@
+import { CONFIRMATION_STATUS, ConfirmationStatus } from '@/shared/types/confirmationStatus';
+
+// 주최자가 개설 확정 인원을 정하지 않은 모임(원격 API 모임 포함)의 기준
+export const DEFAULT_MIN_PARTICIPANTS = 5;
+// 주최자 외에 최소 1명은 더 참여해야 개설 확정
+export const MIN_PARTICIPANTS_LOWER_BOUND = 2;
+
+export const getMinParticipants = (gathering: { minParticipants?: number }) =>
+  gathering.minParticipants ?? DEFAULT_MIN_PARTICIPANTS;
+
+// 모집 마감이 지났는지 (마감일이 없으면 아직 모집 중)
+export const isRegistrationClosed = (registrationEnd?: Date | string, now = new Date()) =>
+  !!registrationEnd && new Date(registrationEnd) <= now;
+
+// 개설 확정 여부 (최소 인원을 못 채운 채 모집이 마감되면 미달로 확정)
+export const getConfirmationStatus = ({
+  participantCount,
+  minParticipants,
+  registrationEnd,
+  now = new Date(),
+}: {
+  participantCount: number;
+  minParticipants: number;
+  registrationEnd?: Date | string;
+  now?: Date;
+}): ConfirmationStatus => {
+  if (participantCount >= minParticipants) return CONFIRMATION_STATUS.CONFIRMED;
+  return isRegistrationClosed(registrationEnd, now)
+    ? CONFIRMATION_STATUS.UNCONFIRMED
+    : CONFIRMATION_STATUS.PENDING;
+};
@@ -46,4 +46,26 @@ describe('진행 상태 판단 로직', () => {
     });
     expect(result).toBe(PROGRESS_STATE.OPEN);
   });
+
+  it('모집이 마감되었는데 개설 확정 인원 미만이면 UNCONFIRMED 상태를 반환해야 한다', () => {
+    const result = determineProgressStatus({
+      current: 3,
+      total: 10,
+      minToConfirm: 5,
+      registrationEnd: '2025-03-01T09:00:00.000Z',
+      now: new Date('2025-03-01T10:00:00.000Z'),
+    });
+    expect(result).toBe(PROGRESS_STATE.UNCONFIRMED);
+  });
+
+  it('모집 마감 전이면 개설 확정 인원 미만이어도 OPEN 상태를 반환해야 한다', () => {
+    const result = determineProgressStatus({
+      current: 3,
+      total: 10,
+      minToConfirm: 5,
+      registrationEnd: '2025-03-01T09:00:00.000Z',
+      now: new Date('2025-03-01T08:00:00.000Z'),
+    });
+    expect(result).toBe(PROGRESS_STATE.OPEN);
+  });
 });
@@ -1,19 +1,33 @@
+import { CONFIRMATION_STATUS } from '@/shared/types/confirmationStatus';
 import { PROGRESS_STATE, ProgressState } from '@/shared/types/progressStatus';
+import { getConfirmationStatus } from './confirmation';
 
 export default function determineProgressStatus({
   current,
   total,
   minToConfirm,
+  registrationEnd,
+  now,
 }: {
   current: number;
   total: number;
   minToConfirm: number;
+  registrationEnd?: Date | string; // 있으면 마감 후 최소 인원 미달을 UNCONFIRMED로 표시
+  now?: Date;
 }) {
   let state: ProgressState = PROGRESS_STATE.OPEN;
+  const confirmation = getConfirmationStatus({
+    participantCount: current,
+    minParticipants: minToConfirm,
+    registrationEnd,
+    now,
+  });
   if (current >= total) {
     state = PROGRESS_STATE.FULL;
-  } else if (current >= minToConfirm) {
+  } else if (confirmation === CONFIRMATION_STATUS.CONFIRMED) {
     state = PROGRESS_STATE.CONFIRMED;
+  } else if (confirmation === CONFIRMATION_STATUS.UNCONFIRMED) {
+    state = PROGRESS_STATE.UNCONFIRMED;
   } else {
     state = PROGRESS_STATE.OPEN;
   }
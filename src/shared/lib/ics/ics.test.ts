@@ -0,0 +1,67 @@
+import { createIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from './ics';
+
+const NOW = new Date('2025-03-01T00:00:00Z');
+
+const event = {
+  uid: 'gathering-1@dallaem',
+  title: '아침 요가, 스트레칭',
+  start: new Date('2025-03-10T01:00:00Z'),
+  end: new Date('2025-03-10T03:00:00Z'),
+  location: '을지로3가',
+  url: 'https://example.com/ko/gathering/1',
+  alarmAt: new Date('2025-03-09T01:00:00Z'),
+  alarmDescription: '모집 마감',
+};
+
+describe('ics', () => {
+  it('날짜를 UTC 기본 형식으로 변환한다', () => {
+    expect(formatIcsDate(new Date('2025-03-10T01:02:03.456Z'))).toBe('20250310T010203Z');
+  });
+
+  it('텍스트의 특수문자를 이스케이프한다', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('75옥텟이 넘는 줄은 한글이 잘리지 않게 접는다', () => {
+    const line = `SUMMARY:${'가'.repeat(40)}`;
+    const folded = foldIcsLine(line);
+    const encoder = new TextEncoder();
+
+    expect(folded.split('\r\n ').join('')).toBe(line);
+    folded.split('\r\n').forEach((part) => {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    });
+  });
+
+  it('VEVENT와 마감 알림을 포함한 캘린더를 만든다', () => {
+    const ics = createIcsCalendar([event], { name: '내 모임', now: NOW });
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'X-WR-CALNAME:내 모임',
+        'UID:gathering-1@dallaem',
+        'DTSTAMP:20250301T000000Z',
+        'DTSTART:20250310T010000Z',
+        'DTEND:20250310T030000Z',
+        'SUMMARY:아침 요가\\, 스트레칭',
+        'LOCATION:을지로3가',
+        'URL:https://example.com/ko/gathering/1',
+        'BEGIN:VALARM',
+        'TRIGGER;VALUE=DATE-TIME:20250309T010000Z',
+        'DESCRIPTION:모집 마감',
+      ]),
+    );
+  });
+
+  it('이미 지난 알림과 취소된 일정의 알림은 넣지 않는다', () => {
+    const past = createIcsCalendar([event], { now: new Date('2025-03-09T12:00:00Z') });
+    const cancelled = createIcsCalendar([{ ...event, cancelled: true }], { now: NOW });
+
+    expect(past).not.toContain('BEGIN:VALARM');
+    expect(cancelled).not.toContain('BEGIN:VALARM');
+    expect(cancelled).toContain('STATUS:CANCELLED');
+  });
+});
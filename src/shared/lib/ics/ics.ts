@@ -0,0 +1,110 @@
+import { downloadTextFile } from '@/shared/lib/download';
+
+// iCalendar(RFC 5545) 형식의 일정 파일 생성
+
+export interface IcsEvent {
+  uid: string; // 캘린더 앱이 같은 일정을 구분하는 고유 값 (다시 가져와도 중복 생성되지 않음)
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  location?: string;
+  url?: string;
+  alarmAt?: Date; // 이 시각에 알림 (이미 지났으면 생략)
+  alarmDescription?: string;
+  cancelled?: boolean;
+}
+
+export interface IcsCalendarOptions {
+  name?: string; // 구독 시 캘린더 앱에 표시되는 이름
+  now?: Date; // DTSTAMP 및 알림 생략 기준 시각
+}
+
+const PRODUCT_ID = '-//Dallaem//Gatherings//KO';
+const MAX_LINE_OCTETS = 75;
+
+// 20250310T010000Z 형식 (UTC)
+export const formatIcsDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+// 텍스트 값의 특수문자 이스케이프
+export const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// 한 줄이 75옥텟을 넘으면 CRLF + 공백으로 접음 (한글이 중간에 잘리지 않도록 문자 단위로 셈)
+export const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 이어지는 줄은 맨 앞 공백 1옥텟을 포함
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const createEventLines = (event: IcsEvent, now: Date) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.cancelled) lines.push('STATUS:CANCELLED');
+
+  if (event.alarmAt && event.alarmAt > now && !event.cancelled) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER;VALUE=DATE-TIME:${formatIcsDate(event.alarmAt)}`,
+      `DESCRIPTION:${escapeIcsText(event.alarmDescription ?? event.title)}`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// 일정 목록을 하나의 .ics 파일 내용으로 변환
+export const createIcsCalendar = (
+  events: IcsEvent[],
+  { name, now = new Date() }: IcsCalendarOptions = {},
+) => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  if (name) lines.push(`X-WR-CALNAME:${escapeIcsText(name)}`);
+
+  events.forEach((event) => lines.push(...createEventLines(event, now)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// 브라우저에서 .ics 파일로 내려받기
+export const downloadIcsFile = (content: string, fileName: string) =>
+  downloadTextFile(
+    content,
+    fileName.endsWith('.ics') ? fileName : `${fileName}.ics`,
+    'text/calendar;charset=utf-8',
+  );
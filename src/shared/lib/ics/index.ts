@@ -0,0 +1,8 @@
+export {
+  createIcsCalendar,
+  downloadIcsFile,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from './ics';
+export type { IcsCalendarOptions, IcsEvent } from './ics';
@@ -0,0 +1,94 @@
+import { drawImageWithCrop, fitWithin, getCropArea, getRotatedSize } from './crop';
+
+describe('crop', () => {
+  const imageSize = { width: 1200, height: 1600 }; // 세로 사진
+
+  it('90°/270° 회전하면 가로와 세로가 바뀐다', () => {
+    expect(getRotatedSize(imageSize, 0)).toEqual(imageSize);
+    expect(getRotatedSize(imageSize, 90)).toEqual({ width: 1600, height: 1200 });
+    expect(getRotatedSize(imageSize, 270)).toEqual({ width: 1600, height: 1200 });
+  });
+
+  describe('getCropArea', () => {
+    it('기본값은 이미지에 들어가는 가장 큰 영역을 가운데에 둔다', () => {
+      expect(getCropArea({ imageSize, rotation: 0, aspect: 2, zoom: 1 })).toEqual({
+        x: 0,
+        y: 500,
+        width: 1200,
+        height: 600,
+      });
+    });
+
+    it('확대하면 영역이 줄어들고 회전하면 회전한 이미지 기준으로 계산한다', () => {
+      expect(getCropArea({ imageSize, rotation: 90, aspect: 1, zoom: 2 })).toEqual({
+        x: 500,
+        y: 300,
+        width: 600,
+        height: 600,
+      });
+    });
+
+    it('영역이 이미지 밖으로 나가지 않도록 위치를 제한한다', () => {
+      const area = getCropArea({
+        imageSize,
+        rotation: 0,
+        aspect: 1,
+        zoom: 2,
+        center: { x: -100, y: 5000 },
+      });
+
+      expect(area).toEqual({ x: 0, y: 1000, width: 600, height: 600 });
+    });
+
+    it('확대 배율은 허용 범위로 제한한다', () => {
+      expect(getCropArea({ imageSize, rotation: 0, aspect: 1, zoom: 10 }).width).toBe(400);
+      expect(getCropArea({ imageSize, rotation: 0, aspect: 1, zoom: 0.5 }).width).toBe(1200);
+    });
+  });
+
+  it('비율을 유지하면서 최대 크기 안에 맞춘다', () => {
+    expect(fitWithin({ width: 1600, height: 1200 }, 800, 600)).toEqual({ width: 800, height: 600 });
+    expect(fitWithin({ width: 1200, height: 1600 }, 800, 600)).toEqual({ width: 450, height: 600 });
+    expect(fitWithin({ width: 300, height: 200 }, 800, 600)).toEqual({ width: 300, height: 200 });
+  });
+
+  describe('drawImageWithCrop', () => {
+    const createContext = () =>
+      ({
+        save: jest.fn(),
+        restore: jest.fn(),
+        scale: jest.fn(),
+        translate: jest.fn(),
+        rotate: jest.fn(),
+        drawImage: jest.fn(),
+      }) as unknown as CanvasRenderingContext2D;
+    const image = { width: 1200, height: 1600 } as ImageBitmap;
+
+    it('crop이 없으면 이미지 전체를 output 크기로 그린다', () => {
+      const ctx = createContext();
+
+      drawImageWithCrop(ctx, image, { width: 450, height: 600 });
+
+      expect(ctx.drawImage).toHaveBeenCalledWith(image, 0, 0, 450, 600);
+      expect(ctx.rotate).not.toHaveBeenCalled();
+    });
+
+    it('회전한 이미지에서 자를 영역만 output 크기로 그린다', () => {
+      const ctx = createContext();
+
+      drawImageWithCrop(
+        ctx,
+        image,
+        { width: 300, height: 300 },
+        { rotation: 90, area: { x: 500, y: 300, width: 600, height: 600 } },
+      );
+
+      expect(ctx.scale).toHaveBeenCalledWith(0.5, 0.5);
+      expect(ctx.translate).toHaveBeenNthCalledWith(1, -500, -300);
+      expect(ctx.translate).toHaveBeenNthCalledWith(2, 800, 600);
+      expect(ctx.rotate).toHaveBeenCalledWith(Math.PI / 2);
+      expect(ctx.drawImage).toHaveBeenCalledWith(image, -600, -800);
+      expect(ctx.restore).toHaveBeenCalled();
+    });
+  });
+});
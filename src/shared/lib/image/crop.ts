@@ -0,0 +1,94 @@
+import type { CropArea, ImageCrop, ImageRotation } from './types';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const MIN_CROP_ZOOM = 1;
+export const MAX_CROP_ZOOM = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// 90°/270° 회전하면 가로와 세로가 바뀜
+export const getRotatedSize = ({ width, height }: Size, rotation: ImageRotation): Size =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+// 회전한 이미지에 들어가는 가장 큰 aspect 비율 영역을 zoom만큼 줄이고
+// center(회전한 이미지 기준 px, 없으면 가운데)에 맞춰 이미지 밖으로 나가지 않게 배치
+export const getCropArea = ({
+  imageSize,
+  rotation,
+  aspect,
+  zoom,
+  center,
+}: {
+  imageSize: Size;
+  rotation: ImageRotation;
+  aspect: number;
+  zoom: number;
+  center?: Point;
+}): CropArea => {
+  const rotated = getRotatedSize(imageSize, rotation);
+  const width =
+    Math.min(rotated.width, rotated.height * aspect) / clamp(zoom, MIN_CROP_ZOOM, MAX_CROP_ZOOM);
+  const height = width / aspect;
+  const { x, y } = center ?? { x: rotated.width / 2, y: rotated.height / 2 };
+
+  return {
+    x: clamp(x - width / 2, 0, rotated.width - width),
+    y: clamp(y - height / 2, 0, rotated.height - height),
+    width,
+    height,
+  };
+};
+
+// 비율을 유지하면서 최대 크기 안에 맞춤 (정수로 반올림)
+export const fitWithin = ({ width, height }: Size, maxWidth: number, maxHeight: number): Size => {
+  const aspectRatio = width / height;
+  let newWidth = width;
+  let newHeight = height;
+
+  if (newWidth > maxWidth) {
+    newWidth = maxWidth;
+    newHeight = newWidth / aspectRatio;
+  }
+
+  if (newHeight > maxHeight) {
+    newHeight = maxHeight;
+    newWidth = newHeight * aspectRatio;
+  }
+
+  return { width: Math.round(newWidth), height: Math.round(newHeight) };
+};
+
+// 이미지를 output 크기 캔버스에 그림 (crop이 있으면 회전한 뒤 자를 영역만)
+// Worker의 OffscreenCanvas와 메인 스레드 폴백 canvas에서 함께 사용
+export const drawImageWithCrop = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: ImageBitmap,
+  output: Size,
+  crop?: ImageCrop,
+) => {
+  if (!crop) {
+    ctx.drawImage(image, 0, 0, output.width, output.height);
+    return;
+  }
+
+  const { rotation, area } = crop;
+  const rotated = getRotatedSize(image, rotation);
+
+  ctx.save();
+  ctx.scale(output.width / area.width, output.height / area.height);
+  ctx.translate(-area.x, -area.y);
+  // 회전한 이미지의 가운데를 기준으로 원본을 돌려서 그림
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.restore();
+};
@@ -1,3 +1,4 @@
+import { drawImageWithCrop, fitWithin } from './crop';
 import { ResizeOptions, ResizeResult, WorkerMessage } from './types';
 
 export class ImageResizer {
@@ -51,26 +52,13 @@ export class ImageResizer {
         throw { code: 'CANVAS_CONTEXT', message: 'Canvas context를 생성할 수 없습니다.' };
       }
 
-      // 크기 계산
-      const { maxWidth, maxHeight, quality, format } = options;
-      const { width: originalWidth, height: originalHeight } = imageBitmap;
-
-      const aspectRatio = originalWidth / originalHeight;
-      let newWidth = originalWidth;
-      let newHeight = originalHeight;
-
-      if (newWidth > maxWidth) {
-        newWidth = maxWidth;
-        newHeight = newWidth / aspectRatio;
-      }
-
-      if (newHeight > maxHeight) {
-        newHeight = maxHeight;
-        newWidth = newHeight * aspectRatio;
-      }
-
-      newWidth = Math.round(newWidth);
-      newHeight = Math.round(newHeight);
+      // 크기 계산 (crop이 있으면 자른 영역 기준)
+      const { maxWidth, maxHeight, quality, format, crop } = options;
+      const { width: newWidth, height: newHeight } = fitWithin(
+        crop ? crop.area : imageBitmap,
+        maxWidth,
+        maxHeight,
+      );
 
       onProgress?.(50);
 
@@ -79,7 +67,7 @@ export class ImageResizer {
       canvas.height = newHeight;
 
       // 이미지 그리기
-      ctx.drawImage(imageBitmap, 0, 0, newWidth, newHeight);
+      drawImageWithCrop(ctx, imageBitmap, { width: newWidth, height: newHeight }, crop);
       onProgress?.(80);
 
       // Blob 변환
@@ -1,3 +1,4 @@
+import { drawImageWithCrop, fitWithin } from './crop';
 import { ResizeOptions, ResizeResult, WorkerMessage } from './types';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -6,7 +7,7 @@ const ctx: Worker = self as any;
 // 진행률 단계 정의
 const PROGRESS_STAGES = {
   LOADING: 10, // ImageBitmap 생성
-  RESIZING: 50, // 리사이징 처리
+  RESIZING: 50, // 자르기/리사이징 처리
   CONVERTING: 80, // WebP 변환
   COMPLETE: 100, // 완료
 } as const;
@@ -16,34 +17,19 @@ const updateProgress = (progress: number) => {
   ctx.postMessage({ type: 'progress', progress } as WorkerMessage);
 };
 
-// 이미지 리사이징 함수
+// 이미지 리사이징 함수 (crop이 있으면 회전 후 자른 영역을 리사이징)
 const resizeImage = async (
   imageBitmap: ImageBitmap,
   options: ResizeOptions,
 ): Promise<ResizeResult> => {
-  const { maxWidth, maxHeight, quality, format } = options;
+  const { maxWidth, maxHeight, quality, format, crop } = options;
 
-  // 원본 크기
-  const { width: originalWidth, height: originalHeight } = imageBitmap;
-
-  // 비율 유지하면서 크기 계산
-  const aspectRatio = originalWidth / originalHeight;
-  let newWidth = originalWidth;
-  let newHeight = originalHeight;
-
-  if (newWidth > maxWidth) {
-    newWidth = maxWidth;
-    newHeight = newWidth / aspectRatio;
-  }
-
-  if (newHeight > maxHeight) {
-    newHeight = maxHeight;
-    newWidth = newHeight * aspectRatio;
-  }
-
-  // 정수로 반올림
-  newWidth = Math.round(newWidth);
-  newHeight = Math.round(newHeight);
+  // 자른 영역 또는 원본 크기를 비율 유지하면서 최대 크기에 맞춤
+  const { width: newWidth, height: newHeight } = fitWithin(
+    crop ? crop.area : imageBitmap,
+    maxWidth,
+    maxHeight,
+  );
 
   updateProgress(PROGRESS_STAGES.RESIZING);
 
@@ -57,7 +43,7 @@ const resizeImage = async (
   }
 
   // 이미지 그리기
-  ctx.drawImage(imageBitmap, 0, 0, newWidth, newHeight);
+  drawImageWithCrop(ctx, imageBitmap, { width: newWidth, height: newHeight }, crop);
 
   updateProgress(PROGRESS_STAGES.CONVERTING);
 
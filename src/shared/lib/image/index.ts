@@ -1,3 +1,20 @@
 export { imageResizer, ImageResizer } from './imageResizer';
-export type { ResizeOptions, ResizeResult, WorkerMessage, ImageSizeConfig } from './types';
-export { IMAGE_SIZE_CONFIG } from './types';
+export type {
+  ResizeOptions,
+  ResizeResult,
+  WorkerMessage,
+  ImageSizeConfig,
+  ImageRotation,
+  CropArea,
+  ImageCrop,
+} from './types';
+export { IMAGE_SIZE_CONFIG, IMAGE_CROP_ASPECT } from './types';
+export {
+  MIN_CROP_ZOOM,
+  MAX_CROP_ZOOM,
+  getRotatedSize,
+  getCropArea,
+  fitWithin,
+  drawImageWithCrop,
+} from './crop';
+export { validateImageFile } from './validateImageFile';
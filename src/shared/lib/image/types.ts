@@ -1,8 +1,24 @@
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// 회전한 이미지 기준 자를 영역 (px)
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageCrop {
+  rotation: ImageRotation;
+  area: CropArea;
+}
+
 export interface ResizeOptions {
   maxWidth: number;
   maxHeight: number;
   quality: number;
   format: 'webp' | 'jpeg';
+  crop?: ImageCrop; // 있으면 회전 후 이 영역만 잘라서 리사이즈
 }
 
 export interface ResizeResult {
@@ -44,3 +60,9 @@ export const IMAGE_SIZE_CONFIG: ImageSizeConfig = {
     quality: 0.8,
   },
 } as const;
+
+// 이미지가 표시되는 자리의 비율 (모임 카드 280×160, 프로필은 원형)
+export const IMAGE_CROP_ASPECT: Record<keyof ImageSizeConfig, number> = {
+  gathering: 280 / 160,
+  profile: 1,
+};
@@ -0,0 +1,30 @@
+// 이미지 처리 전 파일 유효성 검사 (자르기 화면을 열기 전과 리사이징 전에 사용)
+export const validateImageFile = (file: File): { isValid: boolean; error?: unknown } => {
+  // 파일 타입 체크
+  if (!file.type.startsWith('image/')) {
+    return {
+      isValid: false,
+      error: { code: 'IMAGE_TYPE', message: '유효한 이미지 파일이 아닙니다.' },
+    };
+  }
+
+  // 파일 크기 제한 (20MB)
+  const MAX_FILE_SIZE = 20 * 1024 * 1024;
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: { code: 'FILE_SIZE', message: '파일 크기가 너무 큽니다. (최대 20MB)' },
+    };
+  }
+
+  // 지원하는 이미지 형식 확인
+  const supportedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
+  if (!supportedTypes.includes(file.type)) {
+    return {
+      isValid: false,
+      error: { code: 'UNSUPPORTED_TYPE', message: '지원하지 않는 이미지 형식입니다.' },
+    };
+  }
+
+  return { isValid: true };
+};
@@ -0,0 +1 @@
+export { isIndexedDbAvailable, openIndexedDb, promisifyRequest } from './indexedDb';
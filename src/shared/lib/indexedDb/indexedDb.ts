@@ -0,0 +1,36 @@
+// IndexedDB 요청을 Promise로 다루기 위한 최소한의 헬퍼
+// localStorage에 담기 어려운 Blob(이미지 등)을 브라우저에 저장할 때 사용
+
+// SSR이나 IndexedDB를 막아둔 브라우저(일부 사생활 보호 모드)에서는 사용할 수 없음
+export const isIndexedDbAvailable = () =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+// 데이터베이스 열기 (버전이 오르면 upgrade에서 object store를 만듦)
+// 같은 이름은 한 번만 열고 연결을 재사용
+export const openIndexedDb = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void,
+): Promise<IDBDatabase> => {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // 실패하면 다음 호출에서 다시 열 수 있도록 캐시에서 제거
+  connection.catch(() => connections.delete(name));
+  connections.set(name, connection);
+  return connection;
+};
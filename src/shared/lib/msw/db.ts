@@ -0,0 +1,133 @@
+import {
+  MEMORY_TEAM_ID,
+  type MemoryDb,
+  type MemoryGathering,
+  type MemoryReview,
+  type MemoryUser,
+  createMemoryToken,
+} from '@/shared/api/backend/memory';
+
+// MSW 핸들러가 사용하는 가짜 DB
+// 인메모리 백엔드와 같은 구조라서 요청 처리는 인메모리 서버(handleMemoryRequest)를 그대로 사용
+let mockDb: MemoryDb;
+
+const HOUR = 1000 * 60 * 60;
+const DAY = HOUR * 24;
+
+export const MOCK_PASSWORD = 'password1234';
+
+export const getMockDb = (): MemoryDb => mockDb;
+
+// ---- 팩토리 (생성한 레코드를 DB에 추가하고 반환) ----
+
+export const createMockUser = (overrides: Partial<MemoryUser> = {}): MemoryUser => {
+  const id = overrides.id ?? mockDb.nextIds.user++;
+  const now = new Date().toISOString();
+  const user: MemoryUser = {
+    teamId: MEMORY_TEAM_ID,
+    id,
+    email: `user${id}@test.com`,
+    password: MOCK_PASSWORD,
+    name: `사용자${id}`,
+    companyName: '테스트 회사',
+    image: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  mockDb.users.push(user);
+  return user;
+};
+
+// participantIds를 넘기면 참여자도 함께 추가하고 participantCount를 맞춤
+export const createMockGathering = (
+  overrides: Partial<MemoryGathering> = {},
+  participantIds: number[] = [],
+): MemoryGathering => {
+  const id = overrides.id ?? mockDb.nextIds.gathering++;
+  const dateTime = Date.now() + 7 * DAY;
+  const gathering: MemoryGathering = {
+    teamId: MEMORY_TEAM_ID,
+    id,
+    type: 'OFFICE_STRETCHING',
+    name: `테스트 모임 ${id}`,
+    dateTime: new Date(dateTime).toISOString(),
+    registrationEnd: new Date(dateTime - DAY).toISOString(),
+    location: '건대입구',
+    participantCount: 0,
+    capacity: 10,
+    image: '/gathering-default-image.png',
+    createdBy: 1,
+    canceledAt: null,
+    ...overrides,
+  };
+  mockDb.gatherings.push(gathering);
+  participantIds.forEach((userId) => addMockParticipant(gathering.id, userId));
+  return gathering;
+};
+
+export const addMockParticipant = (gatheringId: number, userId: number) => {
+  mockDb.participants.push({ gatheringId, userId, joinedAt: new Date().toISOString() });
+  const gathering = mockDb.gatherings.find((item) => item.id === gatheringId);
+  if (gathering) gathering.participantCount += 1;
+};
+
+export const createMockReview = (
+  overrides: Partial<MemoryReview> & Pick<MemoryReview, 'gatheringId' | 'userId'>,
+): MemoryReview => {
+  const review: MemoryReview = {
+    id: overrides.id ?? mockDb.nextIds.review++,
+    score: 5,
+    comment: '좋은 모임이었어요',
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+  mockDb.reviews.push(review);
+  return review;
+};
+
+// 로그인한 사용자로 요청하기 위한 토큰 (Authorization 헤더/세션 mock에 사용)
+export const getMockToken = (userId: number) => createMemoryToken(userId);
+
+// ---- 기본 데이터 ----
+
+// 사용자 2명, 다가오는 모임 2개(1개는 정원 마감), 지난 모임 1개와 리뷰
+const seedMockDb = () => {
+  const host = createMockUser({ email: 'host@test.com', name: '호스트' });
+  const member = createMockUser({ email: 'member@test.com', name: '멤버' });
+
+  createMockGathering({ createdBy: host.id }, [host.id]);
+  createMockGathering(
+    { type: 'MINDFULNESS', location: '을지로3가', capacity: 2, createdBy: host.id },
+    [host.id, member.id],
+  );
+  const past = createMockGathering(
+    {
+      type: 'WORKATION',
+      location: '홍대입구',
+      dateTime: new Date(Date.now() - 3 * DAY).toISOString(),
+      registrationEnd: new Date(Date.now() - 4 * DAY).toISOString(),
+      createdBy: host.id,
+    },
+    [host.id, member.id],
+  );
+  createMockReview({ gatheringId: past.id, userId: member.id, score: 4 });
+};
+
+// 기본 데이터로 초기화 (seed를 넘기면 빈 DB에서 seed만 실행)
+export const resetMockDb = (seed: () => void = seedMockDb): MemoryDb => {
+  mockDb = {
+    users: [],
+    gatherings: [],
+    participants: [],
+    reviews: [],
+    gatheringSeries: [],
+    waitlist: [],
+    calendarFeeds: [],
+    nextIds: { user: 1, gathering: 1, review: 1, gatheringSeries: 1 },
+  };
+  seed();
+  return mockDb;
+};
+
+resetMockDb();
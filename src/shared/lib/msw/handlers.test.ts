@@ -0,0 +1,111 @@
+import { getSession } from 'next-auth/react';
+import { ApiError, httpClient } from '@/shared/api';
+import { API_CONFIG, API_ENDPOINTS } from '@/shared/config';
+import { createMockGathering, getMockDb, getMockToken } from './db';
+import { setMockErrorScenario } from './scenarios';
+
+jest.mock('next-auth/react', () => ({
+  getSession: jest.fn(),
+}));
+
+const mockGetSession = getSession as jest.Mock;
+
+// 기본 데이터: 1번 호스트, 2번 멤버 / 1번 모임(참여 가능), 2번 모임(정원 마감), 3번 지난 모임
+const signinAs = (userId: number) => {
+  mockGetSession.mockResolvedValue({ user: { accessToken: getMockToken(userId) } });
+};
+
+describe('MSW 핸들러', () => {
+  beforeEach(() => {
+    mockGetSession.mockResolvedValue(null);
+  });
+
+  it('모임 목록을 필터와 함께 조회한다', async () => {
+    const gatherings = await httpClient.get<{ type: string }[]>(API_ENDPOINTS.GATHERINGS.LIST, {
+      params: { type: 'WORKATION' },
+    });
+
+    expect(gatherings).toHaveLength(1);
+    expect(gatherings[0].type).toBe('WORKATION');
+  });
+
+  it('팩토리로 추가한 모임을 상세 조회한다', async () => {
+    const { id } = createMockGathering({ name: '팩토리 모임' });
+
+    const gathering = await httpClient.get(API_ENDPOINTS.GATHERINGS.DETAIL(id));
+
+    expect(gathering).toMatchObject({ id, name: '팩토리 모임' });
+  });
+
+  it('없는 모임은 NOT_FOUND ApiError로 실패한다', async () => {
+    const error = await httpClient.get(API_ENDPOINTS.GATHERINGS.DETAIL(999)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', status: 404 });
+  });
+
+  it('모임에 참여하면 가짜 DB의 참여자 수가 바뀐다', async () => {
+    signinAs(2);
+
+    await httpClient.post(API_ENDPOINTS.GATHERINGS.JOIN(1), {}, { authRequired: true });
+
+    expect(getMockDb().gatherings[0].participantCount).toBe(2);
+  });
+
+  it('정원이 찬 모임에 참여하면 GATHERING_FULL ApiError로 실패한다', async () => {
+    signinAs(2);
+    createMockGathering({ capacity: 0 });
+
+    const error = await httpClient
+      .post(API_ENDPOINTS.GATHERINGS.JOIN(4), {}, { authRequired: true })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'GATHERING_FULL', status: 400 });
+  });
+
+  it.each(['GATHERING_FULL', 'REGISTRATION_CLOSED'] as const)(
+    '%s 시나리오를 켜면 참여 요청이 해당 에러로 실패한다',
+    async (scenario) => {
+      signinAs(2);
+      setMockErrorScenario(scenario);
+
+      const error = await httpClient
+        .post(API_ENDPOINTS.GATHERINGS.JOIN(1), {}, { authRequired: true })
+        .catch((e) => e);
+
+      expect(error).toMatchObject({ code: scenario, status: 400 });
+      expect(getMockDb().gatherings[0].participantCount).toBe(1);
+    },
+  );
+
+  it('UNAUTHORIZED 시나리오를 켜면 인증이 필요한 요청이 401로 실패한다', async () => {
+    setMockErrorScenario('UNAUTHORIZED');
+
+    const response = await fetch(`${API_CONFIG.BASE_URL()}${API_ENDPOINTS.AUTH.USER}`, {
+      headers: { Authorization: `Bearer ${getMockToken(1)}` },
+    });
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('리뷰 목록과 평점 통계를 조회한다', async () => {
+    const reviews = await httpClient.get(API_ENDPOINTS.REVIEWS.LIST);
+    const scores = await httpClient.get(API_ENDPOINTS.REVIEWS.SCORES, {
+      params: { type: 'WORKATION' },
+    });
+
+    expect(reviews).toMatchObject({ totalItemCount: 1, currentPage: 1 });
+    expect(scores).toEqual([expect.objectContaining({ averageScore: 4, fourStars: 1 })]);
+  });
+
+  it('로그인한 사용자가 참여한 모임을 조회한다', async () => {
+    signinAs(2);
+
+    const joined = await httpClient.get<{ id: number }[]>(API_ENDPOINTS.GATHERINGS.JOINED, {
+      authRequired: true,
+    });
+
+    expect(joined.map((gathering) => gathering.id).sort()).toEqual([2, 3]);
+  });
+});
@@ -1,34 +1,76 @@
-import { HttpResponse, http } from 'msw';
+import type { BackendRequest } from '@/shared/api/backend';
+import { handleMemoryRequest } from '@/shared/api/backend/memory';
+import { API_CONFIG, API_ENDPOINTS } from '@/shared/config/api';
+import { HttpResponse, type HttpResponseResolver, http } from 'msw';
+import { getMockDb } from './db';
+import { applyMockErrorScenario } from './scenarios';
 
-// 기본 핸들러들
+const API_BASE_URL = API_CONFIG.BASE_URL();
+const API_BASE_PATH = new URL(API_BASE_URL).pathname.replace(/\/$/, '');
+
+const apiUrl = (path: string) => `${API_BASE_URL}${path}`;
+
+const readRequestBody = async (request: Request) => {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (contentType.includes('multipart/form-data')) return request.formData();
+  if (contentType.includes('application/json')) return request.json().catch(() => undefined);
+  return undefined;
+};
+
+// MSW 요청을 가짜 DB 기반의 인메모리 서버로 처리
+const resolveWithMockDb: HttpResponseResolver = async ({ request }) => {
+  const url = new URL(request.url);
+  const backendRequest: BackendRequest = {
+    method: request.method,
+    path: url.pathname.slice(API_BASE_PATH.length),
+    query: url.searchParams,
+    body: await readRequestBody(request),
+    authorization: request.headers.get('authorization'),
+  };
+
+  const scenario = applyMockErrorScenario(backendRequest);
+  const { status, body } =
+    scenario.response ?? (await handleMemoryRequest(scenario.request, { db: getMockDb() }));
+
+  if (body === undefined) return new HttpResponse(null, { status });
+  return HttpResponse.json(body as Record<string, unknown>, { status });
+};
+
+// API_ENDPOINTS의 모든 경로에 대한 핸들러 (jest 서버, 브라우저 워커, 스토리북에서 공통으로 사용)
 export const handlers = [
-  // GET 요청 예시
-  http.get('http://localhost:3000/api/example', () => {
-    return HttpResponse.json({
-      message: 'This is a mocked response',
-      data: {
-        id: 1,
-        name: 'Example Data',
-      },
-    });
-  }),
-
-  // POST 요청 예시
-  http.post('http://localhost:3000/api/example', async ({ request }) => {
-    const body = await request.json();
-    // body가 문자열인 경우 파싱
-    const parsedBody = typeof body === 'string' ? JSON.parse(body) : body;
-    return HttpResponse.json({
-      message: 'Data created successfully',
-      data: parsedBody,
-    });
-  }),
-
-  // 에러 응답 예시
-  http.get('http://localhost:3000/api/error', () => {
-    return new HttpResponse(null, {
-      status: 500,
-      statusText: 'Internal Server Error',
-    });
-  }),
+  // 인증
+  http.post(apiUrl(API_ENDPOINTS.AUTH.SIGNUP), resolveWithMockDb),
+  http.post(apiUrl(API_ENDPOINTS.AUTH.SIGNIN), resolveWithMockDb),
+  http.post(apiUrl(API_ENDPOINTS.AUTH.SIGNOUT), resolveWithMockDb),
+  http.get(apiUrl(API_ENDPOINTS.AUTH.USER), resolveWithMockDb),
+  http.put(apiUrl(API_ENDPOINTS.AUTH.USER), resolveWithMockDb),
+
+  // 모임 (joined, waitlisted가 /gatherings/:id에 걸리지 않도록 먼저 등록)
+  http.get(apiUrl(API_ENDPOINTS.GATHERINGS.JOINED), resolveWithMockDb),
+  http.get(apiUrl(API_ENDPOINTS.GATHERINGS.WAITLISTED), resolveWithMockDb),
+  http.get(apiUrl(API_ENDPOINTS.GATHERINGS.LIST), resolveWithMockDb),
+  http.post(apiUrl(API_ENDPOINTS.GATHERINGS.CREATE), resolveWithMockDb),
+  http.get(apiUrl('/gatherings/:id'), resolveWithMockDb),
+  http.put(apiUrl('/gatherings/:id'), resolveWithMockDb),
+  http.post(apiUrl('/gatherings/:id/join'), resolveWithMockDb),
+  http.delete(apiUrl('/gatherings/:id/leave'), resolveWithMockDb),
+  http.put(apiUrl('/gatherings/:id/cancel'), resolveWithMockDb),
+  http.get(apiUrl('/gatherings/:id/participants'), resolveWithMockDb),
+  http.get(apiUrl('/gatherings/:id/waitlist'), resolveWithMockDb),
+  http.post(apiUrl('/gatherings/:id/waitlist'), resolveWithMockDb),
+  http.delete(apiUrl('/gatherings/:id/waitlist'), resolveWithMockDb),
+
+  // 리뷰
+  http.get(apiUrl(API_ENDPOINTS.REVIEWS.SCORES), resolveWithMockDb),
+  http.get(apiUrl(API_ENDPOINTS.REVIEWS.LIST), resolveWithMockDb),
+  http.post(apiUrl(API_ENDPOINTS.REVIEWS.CREATE), resolveWithMockDb),
+
+  // 반복 모임
+  http.post(apiUrl(API_ENDPOINTS.GATHERING_SERIES.CREATE), resolveWithMockDb),
+  http.get(apiUrl('/gathering-series/:id'), resolveWithMockDb),
+
+  // 캘린더 구독
+  http.get(apiUrl(API_ENDPOINTS.CALENDAR_FEEDS.TOKEN), resolveWithMockDb),
+  http.post(apiUrl(API_ENDPOINTS.CALENDAR_FEEDS.TOKEN), resolveWithMockDb),
+  http.get(apiUrl('/calendar-feeds/:token/gatherings'), resolveWithMockDb),
 ];
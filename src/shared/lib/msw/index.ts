@@ -1,3 +1,15 @@
 export { handlers } from './handlers';
 export { worker } from './browser';
 export { server } from './server';
+export {
+  MOCK_PASSWORD,
+  addMockParticipant,
+  createMockGathering,
+  createMockReview,
+  createMockUser,
+  getMockDb,
+  getMockToken,
+  resetMockDb,
+} from './db';
+export { getMockErrorScenario, setMockErrorScenario } from './scenarios';
+export type { MockErrorScenario } from './scenarios';
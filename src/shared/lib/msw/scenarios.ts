@@ -0,0 +1,48 @@
+import type { BackendRequest, BackendResponse } from '@/shared/api/backend';
+import { ERROR_CODES, HTTP_STATUS } from '@/shared/config/api';
+
+// 테스트/스토리에서 켜고 끌 수 있는 에러 상황
+// - GATHERING_FULL, REGISTRATION_CLOSED: 모임 참여 요청이 해당 에러로 실패
+// - UNAUTHORIZED: 모든 토큰을 만료된 것으로 처리 (인증이 필요한 요청이 401로 실패)
+export type MockErrorScenario = 'GATHERING_FULL' | 'REGISTRATION_CLOSED' | 'UNAUTHORIZED';
+
+let currentScenario: MockErrorScenario | null = null;
+
+export const setMockErrorScenario = (scenario: MockErrorScenario | null) => {
+  currentScenario = scenario;
+};
+
+export const getMockErrorScenario = () => currentScenario;
+
+const JOIN_PATH = /^\/gatherings\/[^/]+\/join$/;
+
+const JOIN_ERRORS = {
+  GATHERING_FULL: '모임 정원이 가득 찼습니다',
+  REGISTRATION_CLOSED: '모집이 마감된 모임입니다',
+} as const;
+
+// 현재 시나리오를 요청에 적용
+// 에러 응답을 바로 돌려줘야 하면 response, 아니면 (필요 시 수정된) request를 반환
+export const applyMockErrorScenario = (
+  request: BackendRequest,
+): { request: BackendRequest; response?: BackendResponse } => {
+  if (currentScenario === 'UNAUTHORIZED') {
+    return { request: { ...request, authorization: null } };
+  }
+
+  if (
+    (currentScenario === 'GATHERING_FULL' || currentScenario === 'REGISTRATION_CLOSED') &&
+    request.method.toUpperCase() === 'POST' &&
+    JOIN_PATH.test(request.path)
+  ) {
+    return {
+      request,
+      response: {
+        status: HTTP_STATUS.BAD_REQUEST,
+        body: { code: ERROR_CODES[currentScenario], message: JOIN_ERRORS[currentScenario] },
+      },
+    };
+  }
+
+  return { request };
+};
@@ -0,0 +1,2 @@
+export { findMatchRanges, getChoseong, matchesSearchQuery } from './koreanSearch';
+export type { MatchRange } from './koreanSearch';
@@ -0,0 +1,54 @@
+import { findMatchRanges, getChoseong, matchesSearchQuery } from './koreanSearch';
+
+describe('getChoseong', () => {
+  it.each([
+    ['달', 'ㄷ'],
+    ['램', 'ㄹ'],
+    ['핏', 'ㅍ'],
+    ['까', 'ㄲ'],
+  ])('%s의 초성은 %s이다', (char, expected) => {
+    expect(getChoseong(char)).toBe(expected);
+  });
+
+  it('한글 음절이 아니면 undefined를 반환한다', () => {
+    expect(getChoseong('a')).toBeUndefined();
+    expect(getChoseong('ㄷ')).toBeUndefined();
+  });
+});
+
+describe('findMatchRanges', () => {
+  it('일반 검색어와 일치하는 구간을 찾는다', () => {
+    expect(findMatchRanges('오피스 스트레칭 스트레칭', '스트레칭')).toEqual([
+      [4, 8],
+      [9, 13],
+    ]);
+  });
+
+  it('초성으로 검색할 수 있다', () => {
+    expect(findMatchRanges('달램핏 모임', 'ㄷㄹㅍ')).toEqual([[0, 3]]);
+  });
+
+  it('초성과 완성형 글자를 섞어 검색할 수 있다', () => {
+    expect(findMatchRanges('함께하는 달램핏', '달ㄹ핏')).toEqual([[5, 8]]);
+  });
+
+  it('영문은 대소문자를 구분하지 않고 앞뒤 공백은 무시한다', () => {
+    expect(findMatchRanges('React 스터디', ' react ')).toEqual([[0, 5]]);
+  });
+
+  it('일치하지 않거나 검색어가 비어 있으면 빈 배열을 반환한다', () => {
+    expect(findMatchRanges('달램핏', 'ㅁㅇ')).toEqual([]);
+    expect(findMatchRanges('달램핏', '  ')).toEqual([]);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('검색어가 비어 있으면 항상 일치한다', () => {
+    expect(matchesSearchQuery('달램핏', '')).toBe(true);
+  });
+
+  it('초성 검색 결과를 반환한다', () => {
+    expect(matchesSearchQuery('마인드풀니스', 'ㅁㅇㄷ')).toBe(true);
+    expect(matchesSearchQuery('워케이션', 'ㅁㅇㄷ')).toBe(false);
+  });
+});
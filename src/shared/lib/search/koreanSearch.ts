@@ -0,0 +1,73 @@
+// 한글 초성 검색 ("ㄷㄹㅍ" → "달램핏")과 검색어 하이라이트에 사용하는 유틸
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+// 한 초성에 속한 음절 수 (중성 21 × 종성 28)
+const SYLLABLES_PER_CHOSEONG = 21 * 28;
+
+const CHOSEONG = [
+  'ㄱ',
+  'ㄲ',
+  'ㄴ',
+  'ㄷ',
+  'ㄸ',
+  'ㄹ',
+  'ㅁ',
+  'ㅂ',
+  'ㅃ',
+  'ㅅ',
+  'ㅆ',
+  'ㅇ',
+  'ㅈ',
+  'ㅉ',
+  'ㅊ',
+  'ㅋ',
+  'ㅌ',
+  'ㅍ',
+  'ㅎ',
+];
+const CHOSEONG_SET = new Set(CHOSEONG);
+
+export type MatchRange = [start: number, end: number];
+
+// 완성형 한글 음절의 초성 (한글 음절이 아니면 undefined)
+export const getChoseong = (char: string): string | undefined => {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_START || code > HANGUL_END) return undefined;
+  return CHOSEONG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_CHOSEONG)];
+};
+
+const normalize = (text: string) => text.toLocaleLowerCase();
+
+// 검색어 글자가 초성이면 대상 음절의 초성과, 아니면 같은 글자인지 비교
+const matchesChar = (targetChar: string, queryChar: string) =>
+  targetChar === queryChar ||
+  (CHOSEONG_SET.has(queryChar) && getChoseong(targetChar) === queryChar);
+
+// text에서 query와 일치하는 구간들 (겹치지 않게 앞에서부터)
+// 초성과 완성형 글자를 섞어 검색할 수 있음 ("달ㄹㅍ" → "달램핏")
+export const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const target = normalize(text);
+  const keyword = normalize(query.trim());
+  if (!keyword) return [];
+
+  const ranges: MatchRange[] = [];
+  let start = 0;
+  while (start <= target.length - keyword.length) {
+    let length = 0;
+    while (length < keyword.length && matchesChar(target[start + length], keyword[length])) {
+      length++;
+    }
+    if (length === keyword.length) {
+      ranges.push([start, start + length]);
+      start += length;
+    } else {
+      start++;
+    }
+  }
+  return ranges;
+};
+
+// 검색어가 비어 있으면 모두 일치하는 것으로 봄
+export const matchesSearchQuery = (text: string, query: string): boolean =>
+  !query.trim() || findMatchRanges(text, query).length > 0;
@@ -0,0 +1,82 @@
+import {
+  getApiTimingStats,
+  recordApiTiming,
+  resetApiTimingStats,
+  shouldSampleApiSpan,
+  templateEndpoint,
+} from './apiTelemetry';
+
+describe('templateEndpoint', () => {
+  it.each([
+    ['/gatherings/123', '/gatherings/:id'],
+    ['/gatherings/123/join', '/gatherings/:id/join'],
+    ['/gatherings?type=WORKATION&limit=10', '/gatherings'],
+    ['https://api.example.com/gatherings/5/participants', '/gatherings/:id/participants'],
+    ['/users/550e8400-e29b-41d4-a716-446655440000', '/users/:id'],
+    ['gatherings/joined', '/gatherings/joined'],
+  ])('%s → %s', (url, expected) => {
+    expect(templateEndpoint(url)).toBe(expected);
+  });
+
+  it('baseURL을 제거한다', () => {
+    expect(
+      templateEndpoint('https://api.example.com/1/reviews/3', 'https://api.example.com/1'),
+    ).toBe('/reviews/:id');
+  });
+});
+
+describe('API 응답 시간 집계', () => {
+  beforeEach(() => {
+    resetApiTimingStats();
+  });
+
+  it('엔드포인트별 p50/p95를 계산한다', () => {
+    for (let duration = 1; duration <= 100; duration++) {
+      recordApiTiming('GET /gatherings', duration);
+    }
+
+    expect(getApiTimingStats()).toEqual([{ key: 'GET /gatherings', count: 100, p50: 50, p95: 95 }]);
+  });
+
+  it('최근 요청만 집계에 사용한다', () => {
+    for (let i = 0; i < 100; i++) recordApiTiming('GET /gatherings', 1000);
+    for (let i = 0; i < 100; i++) recordApiTiming('GET /gatherings', 10);
+
+    expect(getApiTimingStats()[0]).toMatchObject({ count: 100, p50: 10, p95: 10 });
+  });
+
+  it('p95가 느린 엔드포인트부터 정렬한다', () => {
+    recordApiTiming('GET /reviews', 10);
+    recordApiTiming('GET /gatherings/:id', 300);
+
+    expect(getApiTimingStats().map((stats) => stats.key)).toEqual([
+      'GET /gatherings/:id',
+      'GET /reviews',
+    ]);
+  });
+});
+
+describe('shouldSampleApiSpan', () => {
+  const originalRate = process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE;
+
+  afterEach(() => {
+    if (originalRate === undefined) {
+      delete process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE;
+    } else {
+      process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE = originalRate;
+    }
+  });
+
+  it('테스트 환경 기본값은 샘플링하지 않는다', () => {
+    delete process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE;
+
+    expect(shouldSampleApiSpan(0)).toBe(false);
+  });
+
+  it('환경변수로 샘플링 비율을 지정할 수 있다', () => {
+    process.env.NEXT_PUBLIC_API_TELEMETRY_SAMPLE_RATE = '0.5';
+
+    expect(shouldSampleApiSpan(0.4)).toBe(true);
+    expect(shouldSampleApiSpan(0.6)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { TELEMETRY_CONFIG } from '@/shared/config/telemetry';
+
+export interface ApiTimingStats {
+  // 'GET /gatherings/:id' 형태
+  key: string;
+  count: number;
+  p50: number;
+  p95: number;
+}
+
+// 숫자 id, UUID, 긴 hex 문자열 경로 조각은 :id로 치환
+const DYNAMIC_SEGMENT_PATTERN =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,})$/i;
+
+// 요청 URL을 엔드포인트 템플릿으로 변환 (쿼리 스트링, origin 제거)
+// 예: 'https://api.example.com/1/gatherings/123/join?x=1' → '/gatherings/:id/join'
+export const templateEndpoint = (url: string, baseURL?: string): string => {
+  let path = url;
+  if (baseURL && path.startsWith(baseURL)) path = path.slice(baseURL.length);
+  path = path.replace(/^[a-z]+:\/\/[^/]+/i, '').split(/[?#]/)[0];
+
+  const template = path
+    .split('/')
+    .map((segment) => (DYNAMIC_SEGMENT_PATTERN.test(segment) ? ':id' : segment))
+    .join('/');
+
+  return template.startsWith('/') ? template : `/${template}`;
+};
+
+export const getApiTimingKey = (method: string, endpoint: string) =>
+  `${method.toUpperCase()} ${endpoint}`;
+
+// 엔드포인트별 최근 응답 시간 (TIMING_WINDOW_SIZE개까지)
+const timings = new Map<string, number[]>();
+
+// 정렬된 값에서 nearest-rank 방식으로 백분위수 계산
+const percentile = (sorted: number[], ratio: number) =>
+  sorted[Math.max(Math.ceil(ratio * sorted.length) - 1, 0)] ?? 0;
+
+const getApiTimingStatsByKey = (key: string): ApiTimingStats | null => {
+  const samples = timings.get(key);
+  if (!samples?.length) return null;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    key,
+    count: sorted.length,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+  };
+};
+
+export const recordApiTiming = (key: string, duration: number): ApiTimingStats => {
+  const samples = timings.get(key) ?? [];
+  samples.push(duration);
+  if (samples.length > TELEMETRY_CONFIG.TIMING_WINDOW_SIZE) samples.shift();
+  timings.set(key, samples);
+
+  return getApiTimingStatsByKey(key)!;
+};
+
+// 전체 엔드포인트의 p50/p95 (p95가 느린 순)
+export const getApiTimingStats = (): ApiTimingStats[] =>
+  [...timings.keys()].map((key) => getApiTimingStatsByKey(key)!).sort((a, b) => b.p95 - a.p95);
+
+export const resetApiTimingStats = () => {
+  timings.clear();
+};
+
+// 환경별 샘플링 비율에 따라 span 기록 여부 결정
+export const shouldSampleApiSpan = (random = Math.random()) =>
+  random < TELEMETRY_CONFIG.API_SAMPLE_RATE();
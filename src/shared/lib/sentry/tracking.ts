@@ -1,25 +1,45 @@
+import { scrubSensitiveData } from '@/shared/lib/utils/scrubSensitiveData';
 import * as Sentry from '@sentry/nextjs';
+import {
+  getApiTimingKey,
+  recordApiTiming,
+  shouldSampleApiSpan,
+  templateEndpoint,
+} from './apiTelemetry';
 
 // API 성능 추적
+// 요청마다 Sentry 메시지를 보내지 않고 엔드포인트 템플릿별로 응답 시간을 집계하고,
+// 샘플링된 요청만 http.client span으로 기록 (p50/p95는 span 속성으로 함께 전송)
 export const trackApiPerformance = (
-  endpoint: string,
+  url: string,
   method: string,
   duration: number,
   status: number,
+  baseURL?: string,
 ) => {
-  Sentry.captureMessage('API 성능', {
-    level: 'info',
-    tags: {
-      metricType: 'api_performance',
-      endpoint,
-      method,
-      status: status.toString(),
-    },
-    extra: {
-      duration,
-      timestamp: new Date().toISOString(),
+  const endpoint = templateEndpoint(url, baseURL);
+  const key = getApiTimingKey(method, endpoint);
+  const stats = recordApiTiming(key, duration);
+
+  if (!shouldSampleApiSpan()) return;
+
+  const endTime = Date.now();
+  const span = Sentry.startInactiveSpan({
+    name: key,
+    op: 'http.client',
+    startTime: new Date(endTime - duration),
+    attributes: {
+      'http.request.method': method.toUpperCase(),
+      'http.response.status_code': status,
+      'url.template': endpoint,
+      'api.duration_ms': duration,
+      'api.p50_ms': stats.p50,
+      'api.p95_ms': stats.p95,
+      'api.sample_count': stats.count,
     },
   });
+  Sentry.setHttpStatus(span, status);
+  span.end(new Date(endTime));
 };
 
 // 폼 검증 에러 추적
@@ -43,6 +63,7 @@ export const trackFormValidationError = (
 };
 
 // API 에러 추적
+// endpoint는 템플릿(/gatherings/:id)으로 묶고, 요청/응답 데이터는 개인정보를 제거한 뒤 전송
 export const trackApiError = (
   error: Error,
   context?: {
@@ -54,19 +75,47 @@ export const trackApiError = (
   },
 ) => {
   const isServerError = context?.status && context.status >= 500;
+  const endpoint = context?.endpoint ? templateEndpoint(context.endpoint) : undefined;
 
   Sentry.captureException(error, {
     tags: {
-      endpoint: context?.endpoint,
+      endpoint,
       method: context?.method,
       status: context?.status?.toString(),
       errorType: isServerError ? 'server_error' : 'client_error',
     },
+    fingerprint: [
+      'api-error',
+      context?.method ?? '',
+      endpoint ?? '',
+      String(context?.status ?? ''),
+    ],
     extra: {
-      response: context?.response,
-      request: context?.request,
+      response: scrubSensitiveData(context?.response),
+      request: scrubSensitiveData(context?.request),
       userAgent: typeof window !== 'undefined' ? window.navigator.userAgent : undefined,
     },
     level: isServerError ? 'error' : 'warning',
   });
 };
+
+// API 응답 스키마 불일치 추적
+// 같은 엔드포인트의 계약 변경은 하나의 이슈로 묶음
+export const trackResponseValidationError = (
+  error: Error,
+  context: { endpoint: string; issues: unknown },
+) => {
+  const endpoint = templateEndpoint(context.endpoint);
+
+  Sentry.captureException(error, {
+    tags: {
+      endpoint,
+      errorType: 'response_validation',
+    },
+    fingerprint: ['response-validation', endpoint],
+    extra: {
+      issues: scrubSensitiveData(context.issues),
+    },
+    level: 'error',
+  });
+};
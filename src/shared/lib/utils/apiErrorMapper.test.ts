@@ -0,0 +1,73 @@
+import en from '@/messages/en.json';
+import ko from '@/messages/ko.json';
+import {
+  ApiError,
+  NetworkError,
+  OfflineNotQueuedError,
+  OfflineQueuedError,
+} from '@/shared/api/apiError';
+import { API_ERROR_MESSAGE_KEYS, mapApiErrorToMessage } from './apiErrorMapper';
+
+describe('mapApiErrorToMessage', () => {
+  const t = jest.fn((key: string) => `translated.${key}`);
+
+  beforeEach(() => {
+    t.mockClear();
+  });
+
+  it('에러 코드에 해당하는 메시지 키로 번역한다', () => {
+    const error = new ApiError('정원이 가득 찼습니다', 'GATHERING_FULL', 400);
+
+    expect(mapApiErrorToMessage(error, t)).toBe('translated.gatheringFull');
+    expect(t).toHaveBeenCalledWith('gatheringFull');
+  });
+
+  it('정의되지 않은 서버 코드는 서버 메시지를 그대로 사용한다', () => {
+    const error = new ApiError('새로운 제한에 걸렸습니다', 'SOMETHING_NEW', 400);
+
+    expect(error.code).toBe('UNKNOWN_ERROR');
+    expect(mapApiErrorToMessage(error, t)).toBe('새로운 제한에 걸렸습니다');
+  });
+
+  it('오프라인 큐에 저장된 요청은 offlineQueued 메시지를 사용한다', () => {
+    expect(mapApiErrorToMessage(new OfflineQueuedError('1'), t)).toBe('translated.offlineQueued');
+  });
+
+  it('사용자를 몰라 오프라인 큐에 저장하지 못한 요청은 offlineNotQueued 메시지를 사용한다', () => {
+    expect(mapApiErrorToMessage(new OfflineNotQueuedError(), t)).toBe(
+      'translated.offlineNotQueued',
+    );
+  });
+
+  it('네트워크 에러는 network 메시지를 사용한다', () => {
+    expect(mapApiErrorToMessage(new NetworkError(), t)).toBe('translated.network');
+  });
+
+  it('그 외 에러는 에러 메시지를 그대로 사용한다', () => {
+    expect(mapApiErrorToMessage(new Error('요청 시간이 초과되었습니다.'), t)).toBe(
+      '요청 시간이 초과되었습니다.',
+    );
+  });
+
+  it('메시지가 없는 에러나 에러가 아닌 값은 unknown 메시지를 사용한다', () => {
+    expect(mapApiErrorToMessage(new Error(''), t)).toBe('translated.unknown');
+    expect(mapApiErrorToMessage(null, t)).toBe('translated.unknown');
+    expect(mapApiErrorToMessage('timeout', t)).toBe('translated.unknown');
+  });
+
+  it('모든 에러 코드에 대한 메시지 키가 ko/en 메시지에 존재한다', () => {
+    const koMessages: Record<string, string> = ko.errors.api;
+    const enMessages: Record<string, string> = en.errors.api;
+    const keys = [
+      ...Object.values(API_ERROR_MESSAGE_KEYS),
+      'network',
+      'offlineQueued',
+      'offlineNotQueued',
+    ];
+
+    keys.forEach((key) => {
+      expect(koMessages[key]).toEqual(expect.any(String));
+      expect(enMessages[key]).toEqual(expect.any(String));
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  ApiError,
+  NetworkError,
+  OfflineNotQueuedError,
+  OfflineQueuedError,
+} from '@/shared/api/apiError';
+import { type ApiErrorCode, ERROR_CODES } from '@/shared/config/api';
+
+// 에러 코드 → messages의 errors.api 하위 키
+export const API_ERROR_MESSAGE_KEYS: Record<ApiErrorCode, string> = {
+  VALIDATION_ERROR: 'validation',
+  EMAIL_EXISTS: 'emailExists',
+  INVALID_CREDENTIALS: 'invalidCredentials',
+  USER_NOT_FOUND: 'userNotFound',
+  UNAUTHORIZED: 'unauthorized',
+  FORBIDDEN: 'forbidden',
+  NOT_FOUND: 'notFound',
+  GATHERING_CANCELED: 'gatheringCanceled',
+  GATHERING_FULL: 'gatheringFull',
+  REGISTRATION_CLOSED: 'registrationClosed',
+  ALREADY_JOINED: 'alreadyJoined',
+  PAST_GATHERING: 'pastGathering',
+  NOT_PARTICIPANT: 'notParticipant',
+  SERVER_ERROR: 'serverError',
+  UNKNOWN_ERROR: 'unknown',
+};
+
+// API 에러를 현재 locale의 메시지로 변환 (t는 'errors.api' 네임스페이스)
+// 번역할 에러 코드가 없으면 서버 메시지나 에러 메시지(타임아웃 등)를 그대로 사용
+export const mapApiErrorToMessage = (error: unknown, t: (key: string) => string): string => {
+  if (error instanceof OfflineQueuedError) return t('offlineQueued');
+  if (error instanceof OfflineNotQueuedError) return t('offlineNotQueued');
+  if (error instanceof NetworkError) return t('network');
+  if (error instanceof ApiError && error.code !== ERROR_CODES.UNKNOWN_ERROR) {
+    return t(API_ERROR_MESSAGE_KEYS[error.code]);
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return t('unknown');
+};
@@ -0,0 +1,57 @@
+import { REDACTED, scrubSensitiveData } from './scrubSensitiveData';
+
+describe('scrubSensitiveData', () => {
+  it('민감한 키의 값을 가린다', () => {
+    expect(
+      scrubSensitiveData({
+        email: 'user@test.com',
+        password: 'secret',
+        accessToken: 'abc',
+        companyName: '회사',
+      }),
+    ).toEqual({ email: REDACTED, password: REDACTED, accessToken: REDACTED, companyName: '회사' });
+  });
+
+  it('중첩된 객체와 배열도 가린다', () => {
+    expect(
+      scrubSensitiveData({ headers: { Authorization: 'Bearer abc' }, users: [{ email: 'a@b.c' }] }),
+    ).toEqual({ headers: { Authorization: REDACTED }, users: [{ email: REDACTED }] });
+  });
+
+  it('문자열에 포함된 토큰과 이메일을 가린다', () => {
+    expect(scrubSensitiveData('Bearer abc.def 요청자 user@test.com')).toBe(
+      `Bearer ${REDACTED} 요청자 ${REDACTED}`,
+    );
+  });
+
+  it('axios가 직렬화한 JSON 요청 본문도 파싱해서 가린다', () => {
+    const body = JSON.stringify({ email: 'user@test.com', password: 'secret', name: '홍길동' });
+
+    expect(scrubSensitiveData({ data: body })).toEqual({
+      data: { email: REDACTED, password: REDACTED, name: '홍길동' },
+    });
+  });
+
+  it('파싱할 수 없는 JSON 문자열도 민감한 키의 값을 가린다', () => {
+    const truncated = '{"email":"user@test.com","password":"se\\"cret","name":"홍길';
+
+    expect(scrubSensitiveData(truncated)).toBe(
+      `{"email":"${REDACTED}","password":"${REDACTED}","name":"홍길`,
+    );
+  });
+
+  it('파일은 타입 이름만 남기고 FormData는 객체로 바꿔 가린다', () => {
+    const formData = new FormData();
+    formData.append('companyName', '회사');
+    formData.append('image', new File([''], 'profile.png'));
+
+    expect(scrubSensitiveData(formData)).toEqual({ companyName: '회사', image: '[File]' });
+  });
+
+  it('순환 참조는 [Circular]로 바꾼다', () => {
+    const value: Record<string, unknown> = { id: 1 };
+    value.self = value;
+
+    expect(scrubSensitiveData(value)).toEqual({ id: 1, self: '[Circular]' });
+  });
+});
@@ -0,0 +1,66 @@
+export const REDACTED = '[Filtered]';
+
+// 값을 가릴 키 (대소문자 무시, 부분 일치)
+const SENSITIVE_KEY_PATTERN = /password|token|authorization|cookie|secret|email|phone/i;
+
+// 문자열 안에 섞인 토큰/이메일도 가림
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+
+// JSON 문자열 안의 "키": "값" 쌍 (파싱할 수 없는 잘린 본문에서 민감한 키의 값을 가리기 위함)
+const JSON_STRING_ENTRY_PATTERN = /"([^"\\]+)"(\s*:\s*)"(?:[^"\\]|\\.)*"/g;
+
+const MAX_DEPTH = 5;
+
+const scrubString = (value: string) =>
+  value
+    .replace(JSON_STRING_ENTRY_PATTERN, (entry, key: string, separator: string) =>
+      SENSITIVE_KEY_PATTERN.test(key) ? `"${key}"${separator}"${REDACTED}"` : entry,
+    )
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED);
+
+// axios가 직렬화한 요청 본문처럼 객체/배열을 담은 JSON 문자열이면 파싱한 값, 아니면 undefined
+const parseJsonBody = (value: string): object | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    return parsed !== null && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Sentry/로그로 보내기 전에 요청·응답 데이터에서 개인정보와 인증 정보를 제거
+// - 민감한 키의 값은 REDACTED로 교체 (JSON 문자열은 객체로 파싱해 같은 방식으로 가림)
+// - File/Blob/FormData 등 바이너리는 타입 이름만 남김
+// - 순환 참조나 너무 깊은 객체는 잘라냄
+export const scrubSensitiveData = (value: unknown, depth = 0, seen = new WeakSet()): unknown => {
+  if (typeof value === 'string') {
+    const body = parseJsonBody(value);
+    return body ? scrubSensitiveData(body, depth, seen) : scrubString(value);
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return `[${value.constructor.name}]`;
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    return scrubSensitiveData(Object.fromEntries(value.entries()), depth, seen);
+  }
+  if (value instanceof Date) return value.toISOString();
+
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubSensitiveData(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : scrubSensitiveData(item, depth + 1, seen),
+    ]),
+  );
+};
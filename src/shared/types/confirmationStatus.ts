@@ -0,0 +1,7 @@
+export const CONFIRMATION_STATUS = {
+  PENDING: 'pending', // 개설 대기
+  CONFIRMED: 'confirmed', // 개설 확정
+  UNCONFIRMED: 'unconfirmed', // 모집 마감까지 최소 인원 미달
+} as const;
+
+export type ConfirmationStatus = (typeof CONFIRMATION_STATUS)[keyof typeof CONFIRMATION_STATUS];
@@ -2,6 +2,7 @@ export const PROGRESS_STATE = {
   OPEN: 'open',
   CONFIRMED: 'confirmed',
   FULL: 'full',
+  UNCONFIRMED: 'unconfirmed', // 최소 인원을 못 채운 채 모집 마감
 } as const;
 
 export type ProgressState = (typeof PROGRESS_STATE)[keyof typeof PROGRESS_STATE];
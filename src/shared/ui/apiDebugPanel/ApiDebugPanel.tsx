@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  clearRequestLog,
+  setApiDebugEnabled,
+  syncApiDebugModeFromUrl,
+  useApiDebugEnabled,
+  useRequestLog,
+} from '@/shared/api';
+import { cn } from '@/shared/lib';
+
+const getStatusColor = (status?: number) => {
+  if (!status) return 'text-gray-400';
+  if (status >= 400) return 'text-red-400';
+  return 'text-green-400';
+};
+
+// 디버그 모드(개발 환경 또는 ?debugApi=1)에서 최근 API 요청 기록을 보여주는 플로팅 패널
+export const ApiDebugPanel = () => {
+  const t = useTranslations('common.apiDebugPanel');
+  const isEnabled = useApiDebugEnabled();
+  const entries = useRequestLog();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    syncApiDebugModeFromUrl();
+  }, []);
+
+  if (!isEnabled) return null;
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        aria-label={t('open')}
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-[1000] cursor-pointer rounded-full bg-gray-900 px-3 py-2 font-mono text-xs text-white shadow-lg"
+      >
+        API {entries.length}
+      </button>
+    );
+  }
+
+  return (
+    <section
+      aria-label={t('title')}
+      className="fixed bottom-4 left-4 z-[1000] flex max-h-[60vh] w-[min(28rem,calc(100vw-2rem))] flex-col rounded-lg bg-gray-900 text-xs text-white shadow-lg"
+    >
+      <header className="flex items-center justify-between gap-2 border-b border-gray-700 px-3 py-2">
+        <h2 className="font-semibold">{t('title')}</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={clearRequestLog}
+            className="cursor-pointer text-gray-300"
+          >
+            {t('clear')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setApiDebugEnabled(false)}
+            className="cursor-pointer text-gray-300"
+          >
+            {t('disable')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsOpen(false)}
+            className="cursor-pointer font-semibold text-orange-400"
+          >
+            {t('close')}
+          </button>
+        </div>
+      </header>
+      {entries.length === 0 ? (
+        <p className="px-3 py-4 text-center text-gray-400">{t('empty')}</p>
+      ) : (
+        <ul className="overflow-y-auto font-mono">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center gap-2 border-b border-gray-800 px-3 py-1.5 last:border-b-0"
+            >
+              <span className="w-12 shrink-0 font-semibold">{entry.method}</span>
+              <span
+                className="flex-1 truncate"
+                title={entry.url}
+              >
+                {entry.url}
+              </span>
+              <span className={cn('shrink-0', getStatusColor(entry.status))}>
+                {entry.status ?? t('networkError')}
+              </span>
+              {entry.duration !== undefined && (
+                <span className="w-14 shrink-0 text-right text-gray-400">{entry.duration}ms</span>
+              )}
+              <time
+                dateTime={new Date(entry.timestamp).toISOString()}
+                className="shrink-0 text-gray-500"
+              >
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </time>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1 @@
+export { ApiDebugPanel } from './ApiDebugPanel';
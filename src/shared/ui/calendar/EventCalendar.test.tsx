@@ -0,0 +1,48 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { EventCalendar } from './EventCalendar';
+
+describe('EventCalendar', () => {
+  const focusDate = new Date('2025-03-12T00:00:00');
+
+  it('날짜마다 renderDay 내용을 함께 표시한다', () => {
+    render(
+      <EventCalendar
+        focusDate={focusDate}
+        onSelect={jest.fn()}
+        renderDay={(date) => (date.getDate() === 10 ? <span>모임 2개</span> : null)}
+      />,
+    );
+
+    expect(screen.getByText('모임 2개')).toBeInTheDocument();
+    expect(screen.getAllByRole('row').length).toBeGreaterThan(2);
+  });
+
+  it('날짜를 누르면 onSelect가 호출된다', () => {
+    const onSelect = jest.fn();
+    render(
+      <EventCalendar
+        focusDate={focusDate}
+        onSelect={onSelect}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /March 20th/ }));
+
+    expect(onSelect.mock.calls[0][0]).toEqual(new Date('2025-03-20T00:00:00'));
+  });
+
+  it('주간 보기에서는 focusDate가 속한 주만 보여준다', () => {
+    render(
+      <EventCalendar
+        mode="week"
+        focusDate={focusDate}
+        onSelect={jest.fn()}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: /March 9th/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /March 15th/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /March 16th/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Previous/ })).not.toBeInTheDocument();
+  });
+});
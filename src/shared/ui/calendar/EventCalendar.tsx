@@ -0,0 +1,84 @@
+import { type ReactNode, useMemo } from 'react';
+import { DayButton, type DayButtonProps, DayPicker, type WeekProps } from 'react-day-picker';
+import { calendarModifiersClassNames, getCalendarClassNames } from './calendarStyles';
+
+export type EventCalendarMode = 'month' | 'week';
+
+export interface EventCalendarProps {
+  mode?: EventCalendarMode; // 월간 또는 주간 보기 (기본값: month)
+  focusDate: Date; // 보여줄 월(월간) 또는 이 날짜가 포함된 주(주간)
+  onFocusDateChange?: (date: Date) => void; // 월간 보기에서 이전/다음 달로 이동할 때 호출
+  selected?: Date; // 선택된 날짜
+  onSelect: (date: Date | undefined) => void; // 날짜 선택 핸들러 (같은 날짜를 다시 누르면 undefined)
+  renderDay?: (date: Date) => ReactNode; // 날짜 숫자 아래에 표시할 내용 (일정 개수 등)
+  startMonth?: Date; // 달력이 시작되는 월 (기본값: 2025-01-01)
+  className?: string; // 추가 CSS 클래스
+}
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+// 날짜마다 일정 정보를 함께 보여주는 큰 달력 (주간 보기는 focusDate가 속한 주만 표시)
+export const EventCalendar = ({
+  mode = 'month',
+  focusDate,
+  onFocusDateChange,
+  selected,
+  onSelect,
+  renderDay,
+  startMonth = new Date('2025-01-01'),
+  className = '',
+}: EventCalendarProps) => {
+  const isWeekMode = mode === 'week';
+
+  // 컴포넌트가 매 렌더마다 새로 만들어지면 날짜 버튼이 다시 마운트되므로 메모이제이션
+  const components = useMemo(
+    () => ({
+      DayButton: ({ children, ...props }: DayButtonProps) => (
+        <DayButton {...props}>
+          <span>{children}</span>
+          {renderDay?.(props.day.date)}
+        </DayButton>
+      ),
+      // 주간 보기에서는 focusDate가 포함된 주만 렌더링
+      ...(isWeekMode && {
+        Week: ({ week, ...props }: WeekProps) =>
+          week.days.some((day) => isSameDay(day.date, focusDate)) ? (
+            <tr {...props} />
+          ) : (
+            <tr hidden />
+          ),
+      }),
+    }),
+    [focusDate, isWeekMode, renderDay],
+  );
+
+  return (
+    <DayPicker
+      mode="single"
+      selected={selected}
+      onSelect={onSelect}
+      month={focusDate}
+      onMonthChange={onFocusDateChange}
+      startMonth={startMonth}
+      showOutsideDays
+      hideNavigation={isWeekMode} // 주간 이동은 사용하는 쪽에서 처리
+      classNames={{
+        ...getCalendarClassNames(className),
+        root: `w-full rounded-xl border border-gray-200 bg-white p-4 relative ${className}`,
+        day: 'flex-1 p-0.5 text-gray-700',
+        // 주간 보기는 한 줄만 보여주므로 날짜 칸을 더 크게 표시
+        day_button: `flex w-full cursor-pointer flex-col items-center justify-start gap-1 rounded-md p-1 text-sm transition-colors hover:bg-orange-50 ${isWeekMode ? 'h-40' : 'h-20'}`,
+        today: 'font-semibold text-orange-600',
+      }}
+      modifiersClassNames={{
+        ...calendarModifiersClassNames,
+        selected: 'rounded-md bg-orange-100 ring-2 ring-orange-500',
+        outside: 'text-gray-300',
+      }}
+      components={components}
+    />
+  );
+};
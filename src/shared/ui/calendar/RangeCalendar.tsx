@@ -0,0 +1,36 @@
+import { type DateRange, DayPicker } from 'react-day-picker';
+import { calendarModifiersClassNames, getCalendarClassNames } from './calendarStyles';
+
+export type { DateRange };
+
+export interface RangeCalendarProps {
+  value?: DateRange; // 선택된 기간 (from ~ to)
+  onChange: (range: DateRange | undefined) => void; // 기간 변경 핸들러
+  footer?: React.ReactNode; // 하단 푸터 컴포넌트
+  startMonth?: Date; // 달력이 시작되는 월 (기본값: 2025-01-01)
+  className?: string; // 추가 CSS 클래스
+}
+
+export const RangeCalendar = ({
+  value,
+  onChange,
+  footer,
+  startMonth = new Date('2025-01-01'),
+  className = '',
+}: RangeCalendarProps) => {
+  return (
+    <DayPicker
+      mode="range" // 기간 선택 모드
+      selected={value}
+      onSelect={onChange}
+      startMonth={startMonth}
+      classNames={getCalendarClassNames(className)}
+      modifiersClassNames={{
+        ...calendarModifiersClassNames,
+        // 기간 중간 날짜는 옅은 색으로 표시
+        range_middle: 'bg-orange-100 text-gray-900 rounded-none',
+      }}
+      footer={footer}
+    />
+  );
+};
@@ -1 +1,5 @@
 export { Calendar } from './Calendar';
+export { RangeCalendar } from './RangeCalendar';
+export type { DateRange } from './RangeCalendar';
+export { EventCalendar } from './EventCalendar';
+export type { EventCalendarMode } from './EventCalendar';
@@ -9,7 +9,7 @@ const meta: Meta<typeof StateChip> = {
   argTypes: {
     variant: {
       control: 'select',
-      options: ['scheduled', 'completed', 'confirmed', 'pending'],
+      options: ['scheduled', 'completed', 'confirmed', 'pending', 'unconfirmed'],
     },
     children: {
       control: 'text',
@@ -56,6 +56,13 @@ export const Pending: Story = {
   },
 };
 
+export const Unconfirmed: Story = {
+  args: {
+    variant: 'unconfirmed',
+    children: '개설미달',
+  },
+};
+
 export const AllStates: Story = {
   render: () => (
     <div className="flex flex-col items-start gap-4">
@@ -63,6 +70,7 @@ export const AllStates: Story = {
       <StateChip variant="completed">이용 완료</StateChip>
       <StateChip variant="confirmed">개설확정</StateChip>
       <StateChip variant="pending">개설대기</StateChip>
+      <StateChip variant="unconfirmed">개설미달</StateChip>
     </div>
   ),
 };
@@ -57,6 +57,11 @@ describe('StateChip 컴포넌트', () => {
       text: '개설 대기',
       expectedClasses: ['bg-white', 'text-gray-500', 'border', 'border-gray-200'],
     },
+    {
+      variant: 'unconfirmed' as const,
+      text: '개설 미달',
+      expectedClasses: ['bg-gray-100', 'text-gray-400', 'border', 'border-gray-200'],
+    },
   ])('variant가 "$variant"일 때', ({ variant, text, expectedClasses }) => {
     it(`올바른 스타일을 적용한다.`, () => {
       render(<StateChip variant={variant}>{text}</StateChip>);
@@ -12,6 +12,7 @@ const stateChipVariants = cva(
         completed: 'bg-gray-200 text-gray-500', // 이용 완료
         confirmed: 'bg-white text-orange-500 border border-orange-100', // 개설확정
         pending: 'bg-white text-gray-500 border border-gray-200', // 개설대기
+        unconfirmed: 'bg-gray-100 text-gray-400 border border-gray-200', // 개설미달
       },
     },
 
@@ -0,0 +1,79 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MultiSelectFilter } from './MultiSelectFilter';
+
+const mockOptions = [
+  { label: '전체보기', value: 'all' },
+  { label: '건대입구', value: '건대입구' },
+  { label: '을지로3가', value: '을지로3가' },
+  { label: '신림', value: '신림' },
+];
+
+const defaultProps = {
+  options: mockOptions,
+  selected: [] as string[],
+  onChange: jest.fn(),
+  allValue: 'all',
+};
+
+describe('MultiSelectFilter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('선택이 없으면 전체보기 라벨과 흰색 배경으로 표시되어야 한다', () => {
+    render(<MultiSelectFilter {...defaultProps} />);
+
+    const button = screen.getByRole('button', { name: '전체보기' });
+    expect(button).toHaveClass('bg-white');
+  });
+
+  it('여러 개를 선택하면 첫 옵션과 나머지 개수를 표시해야 한다', () => {
+    render(
+      <MultiSelectFilter
+        {...defaultProps}
+        selected={['건대입구', '신림']}
+      />,
+    );
+
+    const button = screen.getByRole('button', { name: '건대입구 +1' });
+    expect(button).toHaveClass('bg-black');
+  });
+
+  it('옵션을 누르면 옵션 순서대로 선택을 추가하고 드롭다운은 열린 채로 유지해야 한다', () => {
+    const onChange = jest.fn();
+    render(
+      <MultiSelectFilter
+        {...defaultProps}
+        selected={['신림']}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '신림' }));
+    fireEvent.click(screen.getByRole('menuitemcheckbox', { name: '건대입구' }));
+
+    expect(onChange).toHaveBeenCalledWith(['건대입구', '신림']);
+    expect(screen.getByRole('menuitemcheckbox', { name: '신림' })).toHaveAttribute(
+      'aria-checked',
+      'true',
+    );
+  });
+
+  it('선택된 옵션을 다시 누르면 해제하고, 전체보기를 누르면 모두 해제해야 한다', () => {
+    const onChange = jest.fn();
+    render(
+      <MultiSelectFilter
+        {...defaultProps}
+        selected={['건대입구', '신림']}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '건대입구 +1' }));
+    fireEvent.click(screen.getByRole('menuitemcheckbox', { name: '신림' }));
+    fireEvent.click(screen.getByRole('menuitemcheckbox', { name: '전체보기' }));
+
+    expect(onChange).toHaveBeenNthCalledWith(1, ['건대입구']);
+    expect(onChange).toHaveBeenNthCalledWith(2, []);
+  });
+});
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { HTMLAttributes } from 'react';
+import { ArrowDownIcon, ArrowUpIcon, WhiteArrowDownIcon } from '@/shared/ui/icon';
+import {
+  type FilterButtonVariants,
+  type FilterOptionVariants,
+  filterButtonVariants,
+  filterOptionVariants,
+} from './variants';
+
+interface FilterOption {
+  label: string;
+  value: string;
+}
+
+export interface MultiSelectFilterProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onChange'> {
+  options: FilterOption[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+  allValue?: string; // 전체보기 값 (선택하면 모든 선택 해제, 기본값: 'all')
+  buttonProps?: FilterButtonVariants;
+  optionProps?: FilterOptionVariants;
+}
+
+// 여러 옵션을 함께 선택할 수 있는 필터 (선택해도 드롭다운이 닫히지 않음)
+export const MultiSelectFilter = ({
+  options,
+  selected,
+  onChange,
+  className,
+  allValue = 'all',
+  buttonProps,
+  optionProps,
+  ...props
+}: MultiSelectFilterProps) => {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const selectedOptions = options.filter(
+    (option) => option.value !== allValue && selected.includes(option.value),
+  );
+  const isAllSelected = selectedOptions.length === 0;
+
+  // 선택이 없으면 전체보기, 하나면 해당 옵션, 여러 개면 "첫 옵션 +나머지 개수"
+  const label = isAllSelected
+    ? options.find((option) => option.value === allValue)?.label
+    : selectedOptions.length === 1
+      ? selectedOptions[0].label
+      : `${selectedOptions[0].label} +${selectedOptions.length - 1}`;
+
+  const handleToggle = (value: string) => {
+    if (value === allValue) {
+      onChange([]);
+      return;
+    }
+    // 옵션 순서를 유지한 채로 선택/해제
+    const nextSelected = selected.includes(value)
+      ? selected.filter((item) => item !== value)
+      : [...selected, value];
+    onChange(
+      options
+        .map((option) => option.value)
+        .filter((optionValue) => optionValue !== allValue && nextSelected.includes(optionValue)),
+    );
+  };
+
+  // 바깥 클릭 시 드롭다운 닫기
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div
+      ref={rootRef}
+      className="relative"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setOpen(false);
+      }}
+      {...props}
+    >
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={open}
+        className={filterButtonVariants({
+          variant: isAllSelected ? 'all' : 'selected',
+          className,
+          ...buttonProps,
+        })}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        <span className="font-medium whitespace-nowrap">{label}</span>
+        {open ? (
+          isAllSelected ? (
+            <ArrowUpIcon />
+          ) : (
+            <WhiteArrowDownIcon className="rotate-180" />
+          )
+        ) : isAllSelected ? (
+          <ArrowDownIcon />
+        ) : (
+          <WhiteArrowDownIcon />
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-[var(--z-dropdown)] mt-2 min-w-32 rounded-lg border border-gray-200 bg-white">
+          {options.map((option) => {
+            const isSelected =
+              option.value === allValue ? isAllSelected : selected.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                role="menuitemcheckbox"
+                aria-checked={isSelected}
+                className={filterOptionVariants({
+                  selected: isSelected,
+                  ...optionProps,
+                })}
+                onClick={() => handleToggle(option.value)}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 export { Filter } from './Filter';
+export { MultiSelectFilter } from './MultiSelectFilter';
 export {
   filterButtonVariants,
   filterOptionVariants,
@@ -7,3 +8,4 @@ export {
 } from './variants';
 
 export type { FilterProps } from './Filter';
+export type { MultiSelectFilterProps } from './MultiSelectFilter';
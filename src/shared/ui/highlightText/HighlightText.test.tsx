@@ -0,0 +1,25 @@
+import { render } from '@testing-library/react';
+import { HighlightText } from './HighlightText';
+
+describe('HighlightText', () => {
+  it('검색어와 일치하는 부분을 mark로 감싼다', () => {
+    const { container } = render(
+      <HighlightText
+        text="달램핏 오피스 스트레칭"
+        query="ㄷㄹㅍ"
+      />,
+    );
+
+    const marks = container.querySelectorAll('mark');
+    expect(marks).toHaveLength(1);
+    expect(marks[0]).toHaveTextContent('달램핏');
+    expect(container).toHaveTextContent('달램핏 오피스 스트레칭');
+  });
+
+  it('검색어가 없으면 텍스트만 렌더링한다', () => {
+    const { container } = render(<HighlightText text="달램핏" />);
+
+    expect(container.querySelector('mark')).toBeNull();
+    expect(container).toHaveTextContent('달램핏');
+  });
+});
@@ -0,0 +1,30 @@
+import { Fragment } from 'react';
+import { findMatchRanges } from '@/shared/lib/search';
+
+interface HighlightTextProps {
+  text: string;
+  query?: string; // 강조할 검색어 (초성 검색 포함)
+}
+
+// 검색어와 일치하는 부분을 <mark>로 강조해서 보여줌
+export const HighlightText = ({ text, query }: HighlightTextProps) => {
+  const ranges = query ? findMatchRanges(text, query) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  let cursor = 0;
+  return (
+    <>
+      {ranges.map(([start, end]) => {
+        const before = text.slice(cursor, start);
+        cursor = end;
+        return (
+          <Fragment key={start}>
+            {before}
+            <mark className="rounded-sm bg-orange-100 text-inherit">{text.slice(start, end)}</mark>
+          </Fragment>
+        );
+      })}
+      {text.slice(cursor)}
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { HighlightText } from './HighlightText';
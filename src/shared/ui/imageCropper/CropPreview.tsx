@@ -0,0 +1,66 @@
+import { cn } from '@/shared/lib/cn';
+import { type ImageCrop, getRotatedSize } from '@/shared/lib/image';
+
+interface CropPreviewProps {
+  src: string;
+  imageSize: { width: number; height: number }; // 원본 이미지 크기
+  crop: ImageCrop;
+  width: number;
+  height: number;
+  rounded?: boolean; // 원형 자리 (프로필)
+  className?: string;
+}
+
+// 자른 영역이 width×height 자리에 어떻게 보일지 표시
+// 자리 비율이 자른 영역과 다르면 실제 화면의 object-cover처럼 가운데를 기준으로 채움
+export const CropPreview = ({
+  src,
+  imageSize,
+  crop,
+  width,
+  height,
+  rounded = false,
+  className,
+}: CropPreviewProps) => {
+  const { rotation, area } = crop;
+  const rotated = getRotatedSize(imageSize, rotation);
+  const scale = Math.max(width / area.width, height / area.height);
+  const centerX = area.x + area.width / 2;
+  const centerY = area.y + area.height / 2;
+
+  return (
+    <div
+      className={cn(
+        'relative shrink-0 overflow-hidden bg-gray-100',
+        rounded ? 'rounded-full' : 'rounded-lg',
+        className,
+      )}
+      style={{ width, height }}
+    >
+      {/* 회전한 이미지 전체를 자리 기준으로 배치 */}
+      <div
+        className="absolute"
+        style={{
+          width: rotated.width * scale,
+          height: rotated.height * scale,
+          left: width / 2 - centerX * scale,
+          top: height / 2 - centerY * scale,
+        }}
+      >
+        {/* blob URL을 그대로 변형해서 보여주므로 next/image 대신 img 사용 */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src}
+          alt=""
+          draggable={false}
+          className="absolute top-1/2 left-1/2 max-w-none select-none"
+          style={{
+            width: imageSize.width * scale,
+            height: imageSize.height * scale,
+            transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { ChangeEvent, useState } from 'react';
+import { IMAGE_CROP_ASPECT, type ImageCrop } from '@/shared/lib/image';
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { type CropPreviewSlot, ImageCropper } from './ImageCropper';
+
+const meta = {
+  title: 'shared/ImageCropper',
+  component: ImageCropper,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+} satisfies Meta<typeof ImageCropper>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// 파일을 직접 골라 자르기 화면을 확인하는 템플릿
+const CropperTemplate = ({
+  aspect,
+  rounded,
+  previews,
+}: {
+  aspect: number;
+  rounded?: boolean;
+  previews: CropPreviewSlot[];
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [crop, setCrop] = useState<ImageCrop | null>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setCrop(null);
+  };
+
+  return (
+    <div className="flex w-96 flex-col gap-4">
+      <input
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+      />
+      {file && (
+        <ImageCropper
+          file={file}
+          aspect={aspect}
+          rounded={rounded}
+          previews={previews}
+          onConfirm={(value) => {
+            setCrop(value);
+            setFile(null);
+          }}
+          onCancel={() => setFile(null)}
+        />
+      )}
+      {crop && (
+        <pre className="rounded-lg bg-gray-100 p-3 text-xs">{JSON.stringify(crop, null, 2)}</pre>
+      )}
+    </div>
+  );
+};
+
+// 모임 카드(280x160) 비율
+export const Gathering: Story = {
+  args: {
+    file: new File([], 'placeholder'),
+    aspect: IMAGE_CROP_ASPECT.gathering,
+    onConfirm: () => {},
+    onCancel: () => {},
+  },
+  render: () => (
+    <CropperTemplate
+      aspect={IMAGE_CROP_ASPECT.gathering}
+      previews={[{ label: '모임 카드', width: 140, height: 80 }]}
+    />
+  ),
+};
+
+// 원형 프로필 이미지
+export const Profile: Story = {
+  args: {
+    file: new File([], 'placeholder'),
+    aspect: IMAGE_CROP_ASPECT.profile,
+    rounded: true,
+    onConfirm: () => {},
+    onCancel: () => {},
+  },
+  render: () => (
+    <CropperTemplate
+      aspect={IMAGE_CROP_ASPECT.profile}
+      rounded
+      previews={[
+        { label: '마이페이지', width: 56, height: 56, rounded: true },
+        { label: '상단 메뉴', width: 40, height: 40, rounded: true },
+      ]}
+    />
+  ),
+};
@@ -0,0 +1,116 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ImageCropper } from './ImageCropper';
+
+const file = new File(['image'], 'portrait.jpg', { type: 'image/jpeg' });
+
+// 원본 이미지 로드 (jsdom은 이미지를 불러오지 않으므로 크기를 직접 지정)
+const loadImage = (width: number, height: number) => {
+  const source = screen.getByTestId('image-cropper-source');
+  Object.defineProperty(source, 'naturalWidth', { value: width, configurable: true });
+  Object.defineProperty(source, 'naturalHeight', { value: height, configurable: true });
+  fireEvent.load(source);
+};
+
+describe('ImageCropper', () => {
+  const onConfirm = jest.fn();
+  const onCancel = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    URL.createObjectURL = jest.fn(() => 'blob:portrait');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  const renderCropper = () =>
+    render(
+      <ImageCropper
+        file={file}
+        aspect={2}
+        previews={[
+          { label: '카드', width: 140, height: 70 },
+          { label: '배너', width: 160, height: 90 },
+        ]}
+        onConfirm={onConfirm}
+        onCancel={onCancel}
+      />,
+    );
+
+  it('이미지를 불러오기 전에는 적용할 수 없다', () => {
+    renderCropper();
+
+    expect(screen.getByText('confirm')).toBeDisabled();
+    expect(screen.queryByText('preview')).not.toBeInTheDocument();
+  });
+
+  it('기본으로 이미지 가운데의 가장 큰 영역을 자르고 자리별 미리보기를 보여준다', async () => {
+    const user = userEvent.setup();
+    renderCropper();
+    loadImage(1200, 1600);
+
+    expect(screen.getByText('카드')).toBeInTheDocument();
+    expect(screen.getByText('배너')).toBeInTheDocument();
+
+    await user.click(screen.getByText('confirm'));
+
+    expect(onConfirm).toHaveBeenCalledWith({
+      rotation: 0,
+      area: { x: 0, y: 500, width: 1200, height: 600 },
+    });
+  });
+
+  it('확대, 회전, 방향키 이동을 자를 영역에 반영한다', async () => {
+    const user = userEvent.setup();
+    renderCropper();
+    loadImage(1200, 1600);
+
+    await user.click(screen.getByText('rotate'));
+    fireEvent.change(screen.getByLabelText('zoom'), { target: { value: '2' } });
+    // 편집 화면 320px에 영역 800px이 보이므로 방향키 10px은 원본 25px
+    fireEvent.keyDown(screen.getByRole('group', { name: 'area' }), { key: 'ArrowLeft' });
+    await user.click(screen.getByText('confirm'));
+
+    expect(onConfirm).toHaveBeenCalledWith({
+      rotation: 90,
+      area: { x: 425, y: 400, width: 800, height: 400 },
+    });
+  });
+
+  it('휠로 확대하면 페이지는 스크롤되지 않는다', () => {
+    renderCropper();
+    loadImage(1200, 1600);
+
+    const wheel = new WheelEvent('wheel', { deltaY: -500, bubbles: true, cancelable: true });
+    fireEvent(screen.getByRole('group', { name: 'area' }), wheel);
+
+    expect(wheel.defaultPrevented).toBe(true);
+    expect(screen.getByLabelText('zoom')).toHaveValue('1.5');
+  });
+
+  it('초기화하면 처음 영역으로 돌아간다', async () => {
+    const user = userEvent.setup();
+    renderCropper();
+    loadImage(1200, 1600);
+
+    await user.click(screen.getByText('rotate'));
+    fireEvent.change(screen.getByLabelText('zoom'), { target: { value: '3' } });
+    await user.click(screen.getByText('reset'));
+    await user.click(screen.getByText('confirm'));
+
+    expect(onConfirm).toHaveBeenCalledWith({
+      rotation: 0,
+      area: { x: 0, y: 500, width: 1200, height: 600 },
+    });
+  });
+
+  it('이미지를 불러오지 못하면 안내하고 취소할 수 있다', async () => {
+    const user = userEvent.setup();
+    renderCropper();
+
+    fireEvent.error(screen.getByTestId('image-cropper-source'));
+    await user.click(screen.getByText('cancel'));
+
+    expect(screen.getByText('loadError')).toBeInTheDocument();
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
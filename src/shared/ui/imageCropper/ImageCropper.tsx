@@ -0,0 +1,277 @@
+'use client';
+
+import { type KeyboardEvent, type PointerEvent, useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  type ImageCrop,
+  type ImageRotation,
+  MAX_CROP_ZOOM,
+  MIN_CROP_ZOOM,
+  getCropArea,
+} from '@/shared/lib/image';
+import { CropPreview } from './CropPreview';
+
+// 잘린 이미지가 실제로 표시될 자리 (미리보기용)
+export interface CropPreviewSlot {
+  label: string;
+  width: number;
+  height: number;
+  rounded?: boolean;
+}
+
+interface ImageCropperProps {
+  file: File;
+  aspect: number; // 자를 영역의 가로/세로 비율
+  rounded?: boolean; // 원형 자리(프로필)면 편집 화면도 원형으로 표시
+  previews?: CropPreviewSlot[];
+  onConfirm: (crop: ImageCrop) => void;
+  onCancel: () => void;
+}
+
+const EDITOR_MAX_WIDTH = 320;
+const EDITOR_MAX_HEIGHT = 240;
+const KEYBOARD_STEP = 10; // 방향키 한 번에 움직일 편집 화면 px
+const WHEEL_ZOOM_STEP = 0.001;
+
+const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_CROP_ZOOM), MAX_CROP_ZOOM);
+
+const ARROW_KEY_DELTAS: Record<string, [number, number]> = {
+  ArrowLeft: [-KEYBOARD_STEP, 0],
+  ArrowRight: [KEYBOARD_STEP, 0],
+  ArrowUp: [0, -KEYBOARD_STEP],
+  ArrowDown: [0, KEYBOARD_STEP],
+};
+
+// 이미지를 올리기 전에 자리 비율에 맞게 자르고 확대/회전하는 편집 화면
+// 드래그(또는 방향키)로 위치를, 슬라이더(또는 휠)로 확대 배율을 조정
+export const ImageCropper = ({
+  file,
+  aspect,
+  rounded = false,
+  previews = [],
+  onConfirm,
+  onCancel,
+}: ImageCropperProps) => {
+  const t = useTranslations('ui.imageCropper');
+  const [src, setSrc] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isLoadFailed, setIsLoadFailed] = useState(false);
+  const [rotation, setRotation] = useState<ImageRotation>(0);
+  const [zoom, setZoom] = useState(MIN_CROP_ZOOM);
+  // 자를 영역의 가운데 (회전한 이미지 기준 px, 없으면 이미지 가운데)
+  const [center, setCenter] = useState<{ x: number; y: number }>();
+  const dragPointRef = useRef<{ x: number; y: number } | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    setImageSize(null);
+    setIsLoadFailed(false);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const editorWidth = Math.round(Math.min(EDITOR_MAX_WIDTH, EDITOR_MAX_HEIGHT * aspect));
+  const editorHeight = Math.round(editorWidth / aspect);
+
+  const area = imageSize ? getCropArea({ imageSize, rotation, aspect, zoom, center }) : null;
+  const crop: ImageCrop | null = area ? { rotation, area } : null;
+  const areaCenter = area ? { x: area.x + area.width / 2, y: area.y + area.height / 2 } : undefined;
+
+  // 이미지를 편집 화면 기준 (dx, dy)만큼 움직임 = 자를 영역은 반대로 이동
+  const moveImageBy = (dx: number, dy: number) => {
+    if (!area || !areaCenter) return;
+    const scale = editorWidth / area.width;
+    setCenter({ x: areaCenter.x - dx / scale, y: areaCenter.y - dy / scale });
+  };
+
+  // 지금 보고 있는 곳을 기준으로 확대/축소
+  const changeZoom = (value: number) => {
+    setCenter(areaCenter);
+    setZoom(clampZoom(value));
+  };
+
+  const rotate = () => {
+    setRotation((prev) => ((prev + 90) % 360) as ImageRotation);
+    setCenter(undefined);
+  };
+
+  const reset = () => {
+    setRotation(0);
+    setZoom(MIN_CROP_ZOOM);
+    setCenter(undefined);
+  };
+
+  // 휠 확대 중 페이지가 스크롤되지 않도록 passive가 아닌 리스너로 등록 (React의 onWheel은 passive라 preventDefault 불가)
+  const zoomByWheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  zoomByWheelRef.current = (e) => {
+    e.preventDefault();
+    changeZoom(zoom - e.deltaY * WHEEL_ZOOM_STEP);
+  };
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const handleWheel = (e: WheelEvent) => zoomByWheelRef.current(e);
+    editor.addEventListener('wheel', handleWheel, { passive: false });
+    return () => editor.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    dragPointRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const last = dragPointRef.current;
+    if (!last) return;
+    moveImageBy(e.clientX - last.x, e.clientY - last.y);
+    dragPointRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerEnd = () => {
+    dragPointRef.current = null;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const delta = ARROW_KEY_DELTAS[e.key];
+    if (!delta) return;
+    e.preventDefault();
+    moveImageBy(...delta);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex flex-col items-center gap-3">
+        <div
+          ref={editorRef}
+          role="group"
+          aria-label={t('area')}
+          tabIndex={0}
+          className="cursor-move touch-none rounded-lg focus:outline-2 focus:outline-orange-500"
+          style={{ width: editorWidth, height: editorHeight }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerEnd}
+          onPointerCancel={handlePointerEnd}
+          onKeyDown={handleKeyDown}
+        >
+          {src && imageSize && crop ? (
+            <CropPreview
+              src={src}
+              imageSize={imageSize}
+              crop={crop}
+              width={editorWidth}
+              height={editorHeight}
+              rounded={rounded}
+            />
+          ) : (
+            <div
+              className={`h-full w-full animate-pulse bg-gray-100 ${rounded ? 'rounded-full' : 'rounded-lg'}`}
+            />
+          )}
+        </div>
+        {/* 원본 크기를 알아내기 위한 이미지 */}
+        {src && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={src}
+            alt=""
+            className="hidden"
+            data-testid="image-cropper-source"
+            onLoad={(e) =>
+              setImageSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })
+            }
+            onError={() => setIsLoadFailed(true)}
+          />
+        )}
+        {isLoadFailed ? (
+          <p className="text-xs text-red-500">{t('loadError')}</p>
+        ) : (
+          <p className="text-xs text-gray-500">{t('hint')}</p>
+        )}
+
+        <div className="flex w-full items-center gap-3">
+          <label
+            htmlFor="image-cropper-zoom"
+            className="shrink-0 text-sm font-medium text-gray-700"
+          >
+            {t('zoom')}
+          </label>
+          <input
+            id="image-cropper-zoom"
+            type="range"
+            min={MIN_CROP_ZOOM}
+            max={MAX_CROP_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => changeZoom(Number(e.target.value))}
+            disabled={!crop}
+            className="flex-1 accent-orange-500"
+          />
+          <button
+            type="button"
+            onClick={rotate}
+            disabled={!crop}
+            className="shrink-0 rounded-lg border border-gray-200 px-3 py-1 text-sm text-gray-700 transition hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t('rotate')}
+          </button>
+          <button
+            type="button"
+            onClick={reset}
+            disabled={!crop}
+            className="shrink-0 rounded-lg border border-gray-200 px-3 py-1 text-sm text-gray-700 transition hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t('reset')}
+          </button>
+        </div>
+
+        {src && imageSize && crop && previews.length > 0 && (
+          <div className="w-full">
+            <p className="mb-2 text-xs font-semibold text-gray-500">{t('preview')}</p>
+            <div className="flex flex-wrap items-end gap-4">
+              {previews.map((preview) => (
+                <figure
+                  key={preview.label}
+                  className="flex flex-col items-center gap-1"
+                >
+                  <CropPreview
+                    src={src}
+                    imageSize={imageSize}
+                    crop={crop}
+                    width={preview.width}
+                    height={preview.height}
+                    rounded={preview.rounded}
+                  />
+                  <figcaption className="text-xs text-gray-500">{preview.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex w-full gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 rounded-xl border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => crop && onConfirm(crop)}
+            disabled={!crop}
+            className="flex-1 rounded-xl bg-orange-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-orange-600 disabled:opacity-50"
+          >
+            {t('confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,3 @@
+export { ImageCropper } from './ImageCropper';
+export type { CropPreviewSlot } from './ImageCropper';
+export { CropPreview } from './CropPreview';
@@ -0,0 +1,66 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { flushOfflineQueue, useOfflineQueue } from '@/shared/api';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+
+// 오프라인 상태에서 보관된 요청 수를 보여주고, 재연결 시 자동으로 재전송
+export const OfflineQueueIndicator = () => {
+  const t = useTranslations('common.offlineQueue');
+  const queryClient = useQueryClient();
+  const queue = useOfflineQueue();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const { succeeded, failed } = await flushOfflineQueue();
+
+      if (succeeded.length > 0) {
+        toast.success(t('synced', { count: succeeded.length }));
+      }
+      failed.forEach(({ error }) => toast.error(t('failed', { message: error.message })));
+
+      if (succeeded.length > 0 || failed.length > 0) {
+        // 서버 상태가 바뀌었으므로 캐시된 데이터를 모두 갱신
+        queryClient.invalidateQueries();
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient, t]);
+
+  const hasQueue = queue.length > 0;
+
+  useEffect(() => {
+    if (!hasQueue) return;
+
+    // 페이지 진입 시 이미 온라인이면 바로 재전송
+    if (navigator.onLine) sync();
+
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [hasQueue, sync]);
+
+  if (!hasQueue) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-20 left-1/2 z-[1000] flex -translate-x-1/2 items-center gap-3 rounded-full bg-gray-900 px-4 py-2 text-sm whitespace-nowrap text-white shadow-lg"
+    >
+      <span>{isSyncing ? t('syncing') : t('pending', { count: queue.length })}</span>
+      {!isSyncing && (
+        <button
+          type="button"
+          onClick={sync}
+          className="cursor-pointer font-semibold text-orange-400"
+        >
+          {t('retry')}
+        </button>
+      )}
+    </div>
+  );
+};
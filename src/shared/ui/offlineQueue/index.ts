@@ -0,0 +1 @@
+export { OfflineQueueIndicator } from './OfflineQueueIndicator';
@@ -9,6 +9,7 @@ interface ProgressBarProps {
   current: number;
   total: number;
   minToConfirm: number;
+  registrationEnd?: Date | string; // 있으면 마감 후 최소 인원 미달 상태를 표시
   'aria-label'?: string;
 }
 
@@ -16,12 +17,18 @@ export const ProgressBar = ({
   current,
   total,
   minToConfirm,
+  registrationEnd,
   'aria-label': ariaLabel,
 }: ProgressBarProps) => {
   const t = useTranslations('ui.progressBar');
   const ratio = total > 0 ? Math.min(current / total, 1) : 0;
 
-  const state: ProgressState = determineProgressStatus({ current, total, minToConfirm });
+  const state: ProgressState = determineProgressStatus({
+    current,
+    total,
+    minToConfirm,
+    registrationEnd,
+  });
 
   // 기본 라벨이 없으면 자동 생성 (다국어 지원)
   const defaultLabel = t('defaultLabel', { current, total });
@@ -34,7 +41,11 @@ export const ProgressBar = ({
         aria-valuemin={0}
         aria-valuemax={100}
         aria-label={ariaLabel || defaultLabel}
-        className={['absolute top-0 left-0 h-full', progressFill({ state })].join(' ')}
+        // 참여 인원이 실시간으로 바뀌면 너비가 부드럽게 변하도록 transition 적용
+        className={[
+          'absolute top-0 left-0 h-full transition-[width] duration-500 ease-out',
+          progressFill({ state }),
+        ].join(' ')}
         style={{ width: `${ratio * 100}%` }}
       />
     </div>
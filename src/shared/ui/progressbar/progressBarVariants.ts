@@ -7,6 +7,7 @@ export const progressFill = cva('h-full transition-all duration-500 rounded-md',
       [PROGRESS_STATE.OPEN]: 'bg-orange-600',
       [PROGRESS_STATE.CONFIRMED]: 'bg-primary', // orange-500
       [PROGRESS_STATE.FULL]: 'bg-orange-400',
+      [PROGRESS_STATE.UNCONFIRMED]: 'bg-gray-400',
     },
   },
 });
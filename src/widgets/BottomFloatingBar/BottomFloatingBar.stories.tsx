@@ -37,6 +37,29 @@ export const GuestFull: Story = {
   },
 };
 
+export const GuestWaitlist: Story = {
+  args: {
+    role: GatheringRole.GUEST,
+    title: '모임에 참여할 수 없어요',
+    content: '대기 신청하면 자리가 날 때 자동으로 참여해요.',
+    isFull: true,
+    onJoinWaitlist: () => alert('대기 신청 클릭'),
+  },
+};
+
+export const GuestWaitlisted: Story = {
+  args: {
+    role: GatheringRole.GUEST,
+    title: '모임에 참여할 수 없어요',
+    content: '대기 신청하면 자리가 날 때 자동으로 참여해요.',
+    isFull: true,
+    isWaitlisted: true,
+    waitlistPosition: 2,
+    onJoinWaitlist: () => alert('대기 신청 클릭'),
+    onLeaveWaitlist: () => alert('대기 취소 클릭'),
+  },
+};
+
 export const Member: Story = {
   args: {
     role: GatheringRole.MEMBER,
@@ -55,3 +78,10 @@ export const Host: Story = {
     onShare: () => alert('공유하기 클릭'),
   },
 };
+
+export const HostEditable: Story = {
+  args: {
+    ...Host.args,
+    onEdit: () => alert('수정하기 클릭'),
+  },
+};
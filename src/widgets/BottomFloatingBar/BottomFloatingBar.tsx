@@ -8,9 +8,19 @@ export type BottomFloatingBarProps = {
   title: string;
   content: string;
   isFull?: boolean;
+  // 참여 요청이 거절된 경우(마감 등) 정원과 관계없이 참여 버튼 비활성화
+  isJoinDisabled?: boolean;
+  isWaitlisted?: boolean;
+  // 서버가 매긴 대기 순번 (이 브라우저에만 저장한 대기 신청이면 null)
+  waitlistPosition?: number | null;
+  // 정원이 찬 모임에서 참여 대신 대기 신청 버튼 표시 (대기 신청할 수 없으면 전달하지 않음)
+  onJoinWaitlist?: () => void;
+  onLeaveWaitlist?: () => void;
   onJoin?: () => void;
   onCancelJoin?: () => void;
   onCancelProject?: () => void;
+  // 주최자의 모임 수정 버튼 (수정할 수 없으면 전달하지 않음)
+  onEdit?: () => void;
   onShare?: () => void;
 };
 
@@ -19,13 +29,21 @@ export const BottomFloatingBar = ({
   title,
   content,
   isFull = false,
+  isJoinDisabled = false,
+  isWaitlisted = false,
+  waitlistPosition = null,
+  onJoinWaitlist,
+  onLeaveWaitlist,
   onJoin,
   onCancelJoin,
   onCancelProject,
+  onEdit,
   onShare,
 }: BottomFloatingBarProps) => {
   const t = useTranslations('pages.gathering.detail');
   const isHost = role === GatheringRole.HOST;
+  const isJoinUnavailable = isFull || isJoinDisabled;
+  const isWaitlistAvailable = isFull && !!onJoinWaitlist;
   const commonButtonClass = 'h-[44px] min-w-[115px] font-semibold whitespace-nowrap';
   return (
     <div className="fixed bottom-0 left-0 w-full border-t-2 border-gray-900 bg-white px-4">
@@ -42,12 +60,40 @@ export const BottomFloatingBar = ({
           <span className="text-xs font-medium text-gray-700">{content}</span>
         </div>
         <div className={`flex gap-2 ${isHost ? 'w-full justify-center md:w-auto' : ''} `}>
-          {role === GatheringRole.GUEST && (
+          {role === GatheringRole.GUEST && isWaitlistAvailable && isWaitlisted && (
+            <>
+              <span className="flex items-center text-sm font-semibold whitespace-nowrap text-orange-600">
+                {waitlistPosition !== null
+                  ? t('waitlist.position', { position: waitlistPosition })
+                  : t('waitlist.waiting')}
+              </span>
+              <Button
+                variant={'outline'}
+                onClick={onLeaveWaitlist}
+                className={commonButtonClass}
+              >
+                {t('waitlist.leave')}
+              </Button>
+            </>
+          )}
+          {role === GatheringRole.GUEST && isWaitlistAvailable && !isWaitlisted && (
+            <Button
+              variant={'primary'}
+              onClick={onJoinWaitlist}
+              className={commonButtonClass}
+            >
+              {t('waitlist.join')}
+            </Button>
+          )}
+          {role === GatheringRole.GUEST && !isWaitlistAvailable && (
             <Button
               variant={'primary'}
               onClick={onJoin}
-              disabled={isFull}
-              className={twMerge(commonButtonClass, isFull && 'bg-gray-400 text-white opacity-50')}
+              disabled={isJoinUnavailable}
+              className={twMerge(
+                commonButtonClass,
+                isJoinUnavailable && 'bg-gray-400 text-white opacity-50',
+              )}
             >
               {t('joinButton')}
             </Button>
@@ -70,6 +116,15 @@ export const BottomFloatingBar = ({
               >
                 {t('cancelButton')}
               </Button>
+              {onEdit && (
+                <Button
+                  variant={'outline'}
+                  onClick={onEdit}
+                  className={commonButtonClass}
+                >
+                  {t('editButton')}
+                </Button>
+              )}
               <Button
                 variant={'primary'}
                 onClick={onShare}
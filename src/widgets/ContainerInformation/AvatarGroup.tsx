@@ -4,11 +4,26 @@ import clsx from 'clsx';
 type AvatarGroupProps = {
   avatars: string[];
   extraCount?: number;
+  onClick?: () => void; // 전달하면 버튼으로 렌더링 (참여자 목록 열기)
+  'aria-label'?: string;
 };
 
-export const AvatarGroup = ({ avatars, extraCount = 0 }: AvatarGroupProps) => {
+export const AvatarGroup = ({
+  avatars,
+  extraCount = 0,
+  onClick,
+  'aria-label': ariaLabel,
+}: AvatarGroupProps) => {
+  const Wrapper = onClick ? 'button' : 'div';
+
   return (
-    <div className="flex items-center">
+    <Wrapper
+      {...(onClick && { type: 'button' as const, onClick, 'aria-label': ariaLabel })}
+      className={clsx(
+        'flex items-center',
+        onClick && 'cursor-pointer rounded-full transition-opacity hover:opacity-80',
+      )}
+    >
       {avatars.map((src, idx) => (
         <div
           key={idx}
@@ -36,6 +51,6 @@ export const AvatarGroup = ({ avatars, extraCount = 0 }: AvatarGroupProps) => {
           +{extraCount}
         </div>
       )}
-    </div>
+    </Wrapper>
   );
 };
@@ -13,6 +13,7 @@ const meta: Meta<typeof ContainerInformation> = {
     participants: { control: 'object', description: '참여자 목록' },
     maxParticipants: { control: 'number', description: '최대 참여 인원' },
     minParticipants: { control: 'number', description: '최소 참여 인원' },
+    registrationEnd: { control: 'date', description: '모집 마감일' },
   },
 };
 
@@ -85,3 +86,13 @@ export const NotConfirmed: Story = {
     participants: mockParticipants.slice(0, 3),
   },
 };
+
+/**
+ * 최소 인원을 채우지 못한 채 모집이 마감되어 '개설미달' 상태가 된 경우
+ */
+export const Unconfirmed: Story = {
+  args: {
+    ...NotConfirmed.args,
+    registrationEnd: '2025-01-06T09:00:00.000Z',
+  },
+};
@@ -2,6 +2,7 @@
 
 import { useTranslations } from 'next-intl';
 import { useFavoritesAction } from '@/features/favorites/model/usefavorites';
+import { getConfirmationStatus } from '@/shared/lib/gathering/confirmation';
 import { InfoChip, StateChip } from '@/shared/ui/chip';
 import { LikeIcon, UnlikeIcon } from '@/shared/ui/icon';
 import { ProgressBar } from '@/shared/ui/progressbar';
@@ -15,8 +16,11 @@ type ContainerInformationProps = {
   date: string; // e.g. '1월 7일'
   time: string; // e.g. '17:30'
   participants: Array<{ id: string; image: string }>;
+  participantCount?: number; // 실시간으로 갱신되는 참여 인원 (없으면 participants 수)
   maxParticipants: number;
   minParticipants: number;
+  registrationEnd?: string | Date; // 있으면 마감 후 최소 인원 미달을 개설미달로 표시
+  onParticipantsClick?: () => void; // 아바타를 누르면 참여자 목록 열기
 };
 
 export const containerInformationVariants = cva(
@@ -32,12 +36,20 @@ export const ContainerInformation = ({
   participants,
   maxParticipants,
   minParticipants,
+  registrationEnd,
+  participantCount = participants.length,
+  onParticipantsClick,
   id,
 }: ContainerInformationProps) => {
   const { isLiked, handleFavoritesStorage } = useFavoritesAction(id);
-  const isConfirmed = participants.length >= minParticipants;
+  const confirmationStatus = getConfirmationStatus({
+    participantCount,
+    minParticipants,
+    registrationEnd,
+  });
   const visibleAvatars = participants.slice(0, 4).map((p) => p.image);
-  const extraCount = participants.length > 4 ? participants.length - 4 : 0;
+  // 참여자 목록보다 인원이 먼저 갱신될 수 있으므로 인원 기준으로 나머지 수 계산
+  const extraCount = Math.max(participantCount - visibleAvatars.length, 0);
   const t = useTranslations('pages.gathering.detail');
 
   return (
@@ -71,26 +83,29 @@ export const ContainerInformation = ({
         <div className="flex w-full flex-wrap items-center justify-between gap-2">
           <div className="flex items-center gap-2">
             <span className="text-sm font-semibold whitespace-nowrap text-gray-900">
-              {t('participantStatus', { count: participants.length })}
+              {t('participantStatus', { count: participantCount })}
             </span>
             <AvatarGroup
               avatars={visibleAvatars}
               extraCount={extraCount}
+              onClick={onParticipantsClick}
+              aria-label={t('participants.open')}
             />
           </div>
-          {isConfirmed && (
-            <StateChip
-              variant="confirmed"
-              className="whitespace-nowrap"
-            >
-              {t('confirmed')}
-            </StateChip>
-          )}
+          {/* key가 바뀌면 다시 마운트되어 개설확정/개설미달로 바뀔 때 애니메이션 재생 */}
+          <StateChip
+            key={confirmationStatus}
+            variant={confirmationStatus}
+            className="animate-chip-flip whitespace-nowrap"
+          >
+            {t(confirmationStatus)}
+          </StateChip>
         </div>
         <ProgressBar
           minToConfirm={minParticipants}
-          current={participants.length}
+          current={participantCount}
           total={maxParticipants}
+          registrationEnd={registrationEnd}
         />
 
         <div className="flex w-full justify-between text-xs text-gray-500">
@@ -48,6 +48,8 @@ export const FavoritesList = ({ type }: FavoritesListProps) => {
                 gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
                 gatheringParticipantCount={gathering.participantCount}
                 gatheringCapacity={gathering.capacity}
+                gatheringMinParticipants={gathering.minParticipants}
+                gatheringSeriesId={gathering.seriesId}
                 gatheringImage={gathering.image}
                 isCanceled={!!gathering.canceledAt}
                 isEnded={new Date(gathering.dateTime) < new Date()}
@@ -0,0 +1,2 @@
+export { GatheringCalendar, GatheringViewToggle } from './ui';
+export { parseGatheringViewMode, type GatheringViewMode } from './model/calendar';
@@ -0,0 +1,64 @@
+import type { Gathering } from '@/entities/gathering/model/types';
+import {
+  getVisibleRangeStart,
+  getWeekRange,
+  groupGatheringsByDate,
+  parseGatheringViewMode,
+} from './calendar';
+
+const createGathering = (id: number, dateTime: string, registrationEnd: string) =>
+  ({ id, dateTime, registrationEnd }) as Gathering;
+
+describe('parseGatheringViewMode', () => {
+  it('알 수 없는 값이면 목록 보기를 반환한다', () => {
+    expect(parseGatheringViewMode('month')).toBe('month');
+    expect(parseGatheringViewMode('week')).toBe('week');
+    expect(parseGatheringViewMode('map')).toBe('map');
+    expect(parseGatheringViewMode('grid')).toBe('list');
+    expect(parseGatheringViewMode(undefined)).toBe('list');
+  });
+});
+
+describe('groupGatheringsByDate', () => {
+  const gatherings = [
+    createGathering(1, '2025-03-10T10:00:00', '2025-03-09T10:00:00'),
+    createGathering(2, '2025-03-10T19:00:00', '2025-03-08T10:00:00'),
+    createGathering(3, '2025-03-11T10:00:00', '2025-03-09T18:00:00'),
+  ];
+
+  it('모임 날짜별로 묶는다', () => {
+    const groups = groupGatheringsByDate(gatherings);
+
+    expect(Object.keys(groups)).toEqual(['2025-03-10', '2025-03-11']);
+    expect(groups['2025-03-10'].map((gathering) => gathering.id)).toEqual([1, 2]);
+  });
+
+  it('마감 날짜 기준으로도 묶을 수 있다', () => {
+    const groups = groupGatheringsByDate(gatherings, (gathering) => gathering.registrationEnd);
+
+    expect(groups['2025-03-09'].map((gathering) => gathering.id)).toEqual([1, 3]);
+  });
+});
+
+describe('getWeekRange', () => {
+  it('일요일부터 토요일까지의 주를 반환한다', () => {
+    const { start, end } = getWeekRange(new Date('2025-03-12T09:00:00'));
+
+    expect(start.getDate()).toBe(9);
+    expect(start.getDay()).toBe(0);
+    expect(end.getDate()).toBe(15);
+  });
+});
+
+describe('getVisibleRangeStart', () => {
+  it('월간 보기는 그달 1일이 속한 주의 일요일, 주간 보기는 그 주의 일요일을 반환한다', () => {
+    const focusDate = new Date('2025-03-12T09:00:00');
+
+    expect(getVisibleRangeStart(focusDate, 'month').toDateString()).toBe(
+      new Date('2025-02-23T00:00:00').toDateString(),
+    );
+    expect(getVisibleRangeStart(focusDate, 'week').toDateString()).toBe(
+      new Date('2025-03-09T00:00:00').toDateString(),
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import type { Gathering } from '@/entities/gathering/model/types';
+import { formatDateTypeYYYYMMDD } from '@/shared/lib/date';
+
+// 모임 목록 보기 방식 (URL의 view 파라미터, 기본값: list)
+export const GATHERING_VIEW_MODES = ['list', 'month', 'week', 'map'] as const;
+export type GatheringViewMode = (typeof GATHERING_VIEW_MODES)[number];
+
+export const parseGatheringViewMode = (value: string | string[] | null | undefined) =>
+  GATHERING_VIEW_MODES.find((mode) => mode === value) ?? 'list';
+
+// 모임을 로컬 시간대 기준 YYYY-MM-DD 날짜별로 묶음
+export const groupGatheringsByDate = (
+  gatherings: Gathering[],
+  getDate: (gathering: Gathering) => string = (gathering) => gathering.dateTime,
+): Record<string, Gathering[]> =>
+  gatherings.reduce<Record<string, Gathering[]>>((groups, gathering) => {
+    const key = formatDateTypeYYYYMMDD(new Date(getDate(gathering)));
+    (groups[key] ??= []).push(gathering);
+    return groups;
+  }, {});
+
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// date가 속한 주의 일요일 ~ 토요일 (캘린더와 같은 주 시작 요일)
+export const getWeekRange = (date: Date) => {
+  const start = addDays(date, -date.getDay());
+  return { start, end: addDays(start, 6) };
+};
+
+// 캘린더에 보이는 첫 날 (월간 보기는 그달 1일이 속한 주의 일요일부터 보여줌)
+export const getVisibleRangeStart = (focusDate: Date, mode: 'month' | 'week') =>
+  mode === 'month'
+    ? getWeekRange(new Date(focusDate.getFullYear(), focusDate.getMonth(), 1)).start
+    : getWeekRange(focusDate).start;
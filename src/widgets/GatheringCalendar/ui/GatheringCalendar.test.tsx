@@ -0,0 +1,114 @@
+import { createMockGathering, resetMockDb } from '@/shared/lib/msw/db';
+import { TestWrapper } from '@/shared/lib/test/testUtils';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { GatheringCalendar } from './GatheringCalendar';
+
+const mockPush = jest.fn();
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams('view=month&dateFrom=2025-03-01&dateTo=2025-03-31'),
+}));
+
+jest.mock('@/i18n', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+jest.mock('next-intl', () => ({
+  useLocale: () => 'ko',
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+jest.mock('@/widgets/GatheringCard/ui', () => ({
+  GatheringCard: ({ gatheringName }: { gatheringName: string }) => (
+    <div data-testid="gathering-card">{gatheringName}</div>
+  ),
+}));
+
+describe('GatheringCalendar', () => {
+  beforeEach(() => {
+    mockPush.mockClear();
+    resetMockDb(() => {
+      createMockGathering({
+        name: '아침 요가',
+        dateTime: new Date('2025-03-10T09:00:00').toISOString(),
+        registrationEnd: new Date('2025-03-08T09:00:00').toISOString(),
+      });
+      createMockGathering({
+        name: '저녁 명상',
+        dateTime: new Date('2025-03-10T19:00:00').toISOString(),
+        registrationEnd: new Date('2025-03-08T19:00:00').toISOString(),
+      });
+    });
+  });
+
+  it('모임 날짜에 모임 수를, 마감 날짜에 마감 수를 표시한다', async () => {
+    render(
+      <GatheringCalendar
+        filters={{ date: '2025-03-10' }}
+        mode="month"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    expect(await screen.findByText('calendar.count:2')).toBeInTheDocument();
+    expect(screen.getByText('calendar.deadline:2')).toBeInTheDocument();
+  });
+
+  it('선택한 날짜의 모임 목록을 보여준다', async () => {
+    render(
+      <GatheringCalendar
+        filters={{ date: '2025-03-10' }}
+        mode="month"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    const cards = await screen.findAllByTestId('gathering-card');
+    expect(cards.map((card) => card.textContent)).toEqual(
+      expect.arrayContaining(['아침 요가', '저녁 명상']),
+    );
+  });
+
+  it('날짜를 누르면 기간 필터를 지우고 date 필터로 이동한다', async () => {
+    render(
+      <GatheringCalendar
+        filters={{ date: '2025-03-10' }}
+        mode="week"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    await screen.findByText('calendar.count:2');
+    // 주간 보기에서는 모임 이름도 날짜 칸에 표시
+    expect(screen.getByText(/아침 요가/, { selector: 'span' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /March 12th/ }));
+
+    expect(mockPush).toHaveBeenCalledWith(
+      { pathname: '/gathering', query: { view: 'month', date: '2025-03-12' } },
+      { scroll: false },
+    );
+  });
+
+  it('보이는 달보다 뒤의 모임이 많아도 보이는 달의 모임까지 이어 받는다', async () => {
+    Array.from({ length: 150 }, (_, index) =>
+      createMockGathering({
+        name: `먼 미래 모임 ${index}`,
+        dateTime: new Date(2030, 0, 1 + index, 9).toISOString(),
+        registrationEnd: new Date(2030, 0, 1 + index, 8).toISOString(),
+      }),
+    );
+
+    render(
+      <GatheringCalendar
+        filters={{ date: '2025-03-10' }}
+        mode="month"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    expect(await screen.findByText('calendar.count:2')).toBeInTheDocument();
+    expect(screen.queryByText(/^calendar\.capped/)).not.toBeInTheDocument();
+  });
+});
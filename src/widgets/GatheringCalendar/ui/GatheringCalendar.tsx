@@ -0,0 +1,197 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
+import { OVERVIEW_GATHERING_LIMIT, useGetGatheringsForCalendar } from '@/entities/gathering/api';
+import type { GatheringFilters } from '@/entities/gathering/model/types';
+import { useRouter } from '@/i18n';
+import { formatDateTypeYYYYMMDD } from '@/shared/lib/date';
+import { EventCalendar, type EventCalendarMode } from '@/shared/ui/calendar';
+import { GatheringCard } from '@/widgets/GatheringCard/ui';
+import {
+  addDays,
+  getVisibleRangeStart,
+  getWeekRange,
+  groupGatheringsByDate,
+} from '../model/calendar';
+
+// 주간 보기에서 날짜 칸에 이름까지 보여줄 최대 모임 수
+const WEEK_VISIBLE_GATHERINGS = 3;
+
+interface GatheringCalendarProps {
+  filters: GatheringFilters;
+  mode: EventCalendarMode;
+}
+
+// 모임을 dateTime 날짜에 배치하는 월간/주간 캘린더 (날짜를 누르면 date 필터로 해당 날짜 모임만 표시)
+export const GatheringCalendar = ({ filters, mode }: GatheringCalendarProps) => {
+  const t = useTranslations('pages.gatherings');
+  const locale = useLocale();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const selectedDate = filters.date ? new Date(filters.date + 'T00:00:00') : undefined;
+  const [focusDate, setFocusDate] = useState(() => selectedDate ?? new Date());
+
+  const { data, isLoading, isError } = useGetGatheringsForCalendar(
+    filters,
+    formatDateTypeYYYYMMDD(getVisibleRangeStart(focusDate, mode)),
+  );
+  const gatherings = data?.gatherings;
+
+  const gatheringsByDate = useMemo(() => groupGatheringsByDate(gatherings ?? []), [gatherings]);
+  const deadlinesByDate = useMemo(
+    () => groupGatheringsByDate(gatherings ?? [], (gathering) => gathering.registrationEnd),
+    [gatherings],
+  );
+
+  // 날짜 칸: 모임 수, 모집 마감 수 (주간 보기는 모임 이름과 시간까지)
+  const renderDay = useCallback(
+    (date: Date) => {
+      const key = formatDateTypeYYYYMMDD(date);
+      const dayGatherings = gatheringsByDate[key] ?? [];
+      const deadlineCount = deadlinesByDate[key]?.length ?? 0;
+
+      return (
+        <>
+          {dayGatherings.length > 0 && (
+            <span className="rounded-full bg-orange-500 px-1.5 text-xs font-semibold text-white">
+              {t('calendar.count', { count: dayGatherings.length })}
+            </span>
+          )}
+          {deadlineCount > 0 && (
+            <span className="text-[10px] leading-3 text-red-500">
+              {t('calendar.deadline', { count: deadlineCount })}
+            </span>
+          )}
+          {mode === 'week' &&
+            dayGatherings.slice(0, WEEK_VISIBLE_GATHERINGS).map((gathering) => (
+              <span
+                key={gathering.id}
+                className="w-full truncate text-left text-xs text-gray-700"
+              >
+                {new Date(gathering.dateTime).toLocaleTimeString(locale, {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}{' '}
+                {gathering.name}
+              </span>
+            ))}
+        </>
+      );
+    },
+    [deadlinesByDate, gatheringsByDate, locale, mode, t],
+  );
+
+  // 같은 날짜를 다시 누르면 날짜 필터 해제
+  const handleSelect = (date: Date | undefined) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('dateFrom');
+    params.delete('dateTo');
+    if (date) {
+      params.set('date', formatDateTypeYYYYMMDD(date));
+    } else {
+      params.delete('date');
+    }
+    router.push(
+      {
+        pathname: '/gathering',
+        query: Object.fromEntries(params.entries()),
+      },
+      { scroll: false },
+    );
+  };
+
+  const formatMonthDay = (date: Date) =>
+    date.toLocaleDateString(locale, { month: 'long', day: 'numeric' });
+  const week = getWeekRange(focusDate);
+  const selectedGatherings = filters.date ? (gatheringsByDate[filters.date] ?? []) : [];
+
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <p className="text-red-500">{t('error')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {mode === 'week' && (
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setFocusDate((prev) => addDays(prev, -7))}
+            className="cursor-pointer rounded-md px-2 py-1 text-orange-500 hover:bg-orange-100"
+          >
+            {t('calendar.previousWeek')}
+          </button>
+          <p className="font-semibold">
+            {formatMonthDay(week.start)} ~ {formatMonthDay(week.end)}
+          </p>
+          <button
+            type="button"
+            onClick={() => setFocusDate((prev) => addDays(prev, 7))}
+            className="cursor-pointer rounded-md px-2 py-1 text-orange-500 hover:bg-orange-100"
+          >
+            {t('calendar.nextWeek')}
+          </button>
+        </div>
+      )}
+
+      {data?.isCapped && (
+        <p
+          role="status"
+          className="rounded-md bg-orange-50 px-3 py-2 text-sm text-orange-700"
+        >
+          {t('calendar.capped', { count: OVERVIEW_GATHERING_LIMIT })}
+        </p>
+      )}
+
+      <EventCalendar
+        mode={mode}
+        focusDate={focusDate}
+        onFocusDateChange={setFocusDate}
+        selected={selectedDate}
+        onSelect={handleSelect}
+        renderDay={renderDay}
+      />
+
+      {isLoading ? (
+        <p className="py-4 text-center text-gray-500">{t('loading')}</p>
+      ) : selectedDate ? (
+        <section className="flex flex-col gap-4">
+          <h3 className="font-semibold">
+            {t('calendar.selectedDay', { date: formatMonthDay(selectedDate) })}
+          </h3>
+          {selectedGatherings.length > 0 ? (
+            selectedGatherings.map((gathering) => (
+              <GatheringCard
+                key={gathering.id}
+                gatheringId={gathering.id}
+                gatheringType={gathering.type}
+                gatheringName={gathering.name}
+                gatheringLocation={gathering.location}
+                gatheringDateTime={new Date(gathering.dateTime)}
+                gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
+                gatheringParticipantCount={gathering.participantCount}
+                gatheringCapacity={gathering.capacity}
+                gatheringMinParticipants={gathering.minParticipants}
+                gatheringSeriesId={gathering.seriesId}
+                gatheringImage={gathering.image}
+                isCanceled={!!gathering.canceledAt}
+                isEnded={new Date(gathering.dateTime) < new Date()}
+                highlightQuery={filters.keyword}
+              />
+            ))
+          ) : (
+            <p className="py-4 text-center text-gray-500">{t('noGatherings')}</p>
+          )}
+        </section>
+      ) : (
+        <p className="py-4 text-center text-sm text-gray-500">{t('calendar.selectHint')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
+import { useRouter } from '@/i18n';
+import { cn } from '@/shared/lib';
+import { GATHERING_VIEW_MODES, type GatheringViewMode } from '../model/calendar';
+
+interface GatheringViewToggleProps {
+  viewMode: GatheringViewMode;
+}
+
+// 목록/월간/주간/지도 보기 전환 (선택한 보기는 URL의 view 파라미터에 저장)
+export const GatheringViewToggle = ({ viewMode }: GatheringViewToggleProps) => {
+  const t = useTranslations('pages.gatherings.viewMode');
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const handleChange = (mode: GatheringViewMode) => {
+    const params = new URLSearchParams(searchParams);
+    // 기본값인 목록 보기일 때는 view 파라미터 제거
+    if (mode === 'list') {
+      params.delete('view');
+    } else {
+      params.set('view', mode);
+    }
+    router.push({
+      pathname: '/gathering',
+      query: Object.fromEntries(params.entries()),
+    });
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={t('label')}
+      className="flex self-end rounded-xl bg-gray-100 p-1"
+    >
+      {GATHERING_VIEW_MODES.map((mode) => (
+        <button
+          key={mode}
+          type="button"
+          aria-pressed={viewMode === mode}
+          onClick={() => handleChange(mode)}
+          className={cn(
+            'cursor-pointer rounded-lg px-3 py-1.5 text-sm font-medium transition-colors',
+            viewMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500',
+          )}
+        >
+          {t(mode)}
+        </button>
+      ))}
+    </div>
+  );
+};
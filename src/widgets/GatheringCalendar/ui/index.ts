@@ -0,0 +1,2 @@
+export { GatheringCalendar } from './GatheringCalendar';
+export { GatheringViewToggle } from './GatheringViewToggle';
@@ -1,10 +1,17 @@
 import { useTranslations } from 'next-intl';
 import Image from 'next/image';
 import { GatheringDateTimeDisplay, GatheringDeadlineTag } from '@/entities/gathering/ui';
-import { GatheringDetailButton, GatheringLikeButton } from '@/features/gathering/ui';
+import {
+  GatheringDetailButton,
+  GatheringLikeButton,
+  GatheringSeriesBadge,
+} from '@/features/gathering/ui';
 import { Link } from '@/i18n';
 import { ROUTES } from '@/shared/config/routes';
+import { getConfirmationStatus, getMinParticipants } from '@/shared/lib/gathering/confirmation';
+import { CONFIRMATION_STATUS } from '@/shared/types/confirmationStatus';
 import { StateChip } from '@/shared/ui/chip';
+import { HighlightText } from '@/shared/ui/highlightText';
 import { PersonIcon } from '@/shared/ui/icon';
 import { ProgressBar } from '@/shared/ui/progressbar';
 
@@ -17,15 +24,16 @@ interface GatheringCardProps {
   gatheringRegistrationEnd: Date;
   gatheringParticipantCount: number;
   gatheringCapacity: number;
+  gatheringMinParticipants?: number; // 개설 확정 인원 (없으면 기본값)
+  gatheringSeriesId?: number; // 반복 모임 시리즈 id (인메모리 백엔드에서만 내려옴)
   gatheringImage: string;
   isCanceled: boolean;
   isEnded: boolean;
   isFirstCard?: boolean;
   onToggle?: () => void;
+  highlightQuery?: string; // 모임 이름에서 강조할 검색어
 }
 
-const participantCountToConfirm = 5;
-
 export const GatheringCard = ({
   gatheringId,
   gatheringType,
@@ -35,15 +43,23 @@ export const GatheringCard = ({
   gatheringRegistrationEnd,
   gatheringParticipantCount,
   gatheringCapacity,
+  gatheringMinParticipants,
+  gatheringSeriesId,
   gatheringImage,
   isCanceled,
   isEnded,
   isFirstCard = false,
   onToggle,
+  highlightQuery,
 }: GatheringCardProps) => {
   const t = useTranslations('ui.gatheringCard');
-  // 모임 참여자 수가 5명 이상이면 개설확정 칩 표시
-  const isConfirmed = gatheringParticipantCount >= participantCountToConfirm;
+  const minParticipants = getMinParticipants({ minParticipants: gatheringMinParticipants });
+  // 개설 확정 인원을 채우면 개설확정, 못 채운 채 모집이 마감되면 개설미달 칩 표시
+  const confirmationStatus = getConfirmationStatus({
+    participantCount: gatheringParticipantCount,
+    minParticipants,
+    registrationEnd: gatheringRegistrationEnd,
+  });
 
   return (
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -73,8 +89,16 @@ export const GatheringCard = ({
               {/* 모임 타입, 장소 */}
               <div className="flex items-center gap-2">
                 <h3 className="max-w-[200px] truncate text-base font-semibold text-black">
-                  {gatheringName}
+                  <HighlightText
+                    text={gatheringName}
+                    query={highlightQuery}
+                  />
                 </h3>
+                {/* 반복 모임 회차 */}
+                <GatheringSeriesBadge
+                  gatheringId={gatheringId}
+                  seriesId={gatheringSeriesId}
+                />
                 <div className="tablet:flex tablet:items-center tablet:gap-2 hidden">
                   <span>|</span>
                   <span className="text-sm font-medium text-gray-700">{gatheringLocation}</span>
@@ -101,12 +125,17 @@ export const GatheringCard = ({
                 <span className="text-sm text-black">
                   {gatheringParticipantCount}/{gatheringCapacity}
                 </span>
-                {isConfirmed && <StateChip variant="confirmed">{t('status.confirmed')}</StateChip>}
+                {confirmationStatus !== CONFIRMATION_STATUS.PENDING && (
+                  <StateChip variant={confirmationStatus}>
+                    {t(`status.${confirmationStatus}`)}
+                  </StateChip>
+                )}
               </div>
               <ProgressBar
                 current={gatheringParticipantCount}
                 total={gatheringCapacity}
-                minToConfirm={participantCountToConfirm}
+                minToConfirm={minParticipants}
+                registrationEnd={gatheringRegistrationEnd}
               />
             </div>
 
@@ -1,5 +1,6 @@
 'use client';
 
+import type { ReactNode } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
 import Image from 'next/image';
 import { GatheringDateTimeDisplay, GatheringStatusChip } from '@/entities/gathering/ui';
@@ -14,14 +15,17 @@ export interface MyPageGatheringCardProps {
   gatheringName: string;
   gatheringLocation: string;
   gatheringDateTime: Date;
+  gatheringRegistrationEnd?: Date;
   gatheringParticipantCount: number;
   gatheringCapacity: number;
+  gatheringMinParticipants?: number;
   gatheringImage: string;
   isCanceled: boolean;
   joinedAt?: Date;
   isCompleted?: boolean;
   isReviewed?: boolean;
   isActionButtonVisible?: boolean;
+  actions?: ReactNode; // 참여자용 액션 버튼 대신 보여줄 버튼 (주최자 관리 등)
 }
 
 export const MyPageGatheringCard = ({
@@ -30,13 +34,16 @@ export const MyPageGatheringCard = ({
   gatheringName,
   gatheringLocation,
   gatheringDateTime,
+  gatheringRegistrationEnd,
   gatheringParticipantCount,
   gatheringCapacity,
+  gatheringMinParticipants,
   gatheringImage,
   isCanceled,
   isCompleted,
   isReviewed,
   isActionButtonVisible = true,
+  actions,
 }: MyPageGatheringCardProps) => {
   const t = useTranslations('ui.gatheringCard');
   const locale = useLocale();
@@ -73,6 +80,8 @@ export const MyPageGatheringCard = ({
                 <GatheringStatusChip
                   gatheringDateTime={gatheringDateTime}
                   participantCount={gatheringParticipantCount}
+                  minParticipants={gatheringMinParticipants}
+                  registrationEnd={gatheringRegistrationEnd}
                 />
 
                 {/* 모임 타입과 장소 */}
@@ -113,6 +122,7 @@ export const MyPageGatheringCard = ({
                 isReviewed={isReviewed}
               />
             )}
+            {!isCanceled && actions}
           </div>
         </div>
       </div>
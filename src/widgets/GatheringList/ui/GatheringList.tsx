@@ -3,6 +3,7 @@
 import { useEffect, useRef } from 'react';
 import { useTranslations } from 'next-intl';
 import { useGetGatheringsInfinite } from '@/entities/gathering/api/queries';
+import { applyClientGatheringFilters } from '@/entities/gathering/model/filters';
 import { GatheringFilters } from '@/entities/gathering/model/types';
 import { Gathering } from '@/entities/gathering/model/types';
 import { GatheringCard } from '@/widgets/GatheringCard/ui';
@@ -42,7 +43,9 @@ export function GatheringList({ initialGatherings, initialFilters }: GatheringLi
   }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   // 모든 페이지의 데이터를 평면화
-  const allGatherings = data?.pages.flatMap((page) => page) ?? initialGatherings;
+  const allGatherings =
+    data?.pages.flatMap((page) => page) ??
+    applyClientGatheringFilters(initialGatherings, initialFilters);
 
   if (isLoading && !data) {
     return (
@@ -75,29 +78,35 @@ export function GatheringList({ initialGatherings, initialFilters }: GatheringLi
               gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
               gatheringParticipantCount={gathering.participantCount}
               gatheringCapacity={gathering.capacity}
+              gatheringMinParticipants={gathering.minParticipants}
+              gatheringSeriesId={gathering.seriesId}
               gatheringImage={gathering.image}
               isCanceled={!!gathering.canceledAt}
               isEnded={new Date(gathering.dateTime) < new Date()}
               isFirstCard={index === 0}
+              highlightQuery={initialFilters.keyword}
             />
           ))}
-
-          {/* 무한스크롤 트리거 */}
-          <div
-            ref={observerRef}
-            className="h-4"
-          />
-
-          {/* 로딩 상태 표시 */}
-          {isFetchingNextPage && (
-            <div className="flex items-center justify-center py-4">
-              <p className="text-gray-500">{t('loadingMore')}</p>
-            </div>
-          )}
         </>
       ) : (
-        <div className="flex items-center justify-center py-8">
-          <p className="text-gray-500">{t('noGatherings')}</p>
+        !hasNextPage &&
+        !isFetchingNextPage && (
+          <div className="flex items-center justify-center py-8">
+            <p className="text-gray-500">{t('noGatherings')}</p>
+          </div>
+        )
+      )}
+
+      {/* 무한스크롤 트리거 (클라이언트 필터로 현재 페이지가 비어도 다음 페이지를 불러옴) */}
+      <div
+        ref={observerRef}
+        className="h-4"
+      />
+
+      {/* 로딩 상태 표시 */}
+      {isFetchingNextPage && (
+        <div className="flex items-center justify-center py-4">
+          <p className="text-gray-500">{t('loadingMore')}</p>
         </div>
       )}
     </div>
@@ -0,0 +1 @@
+export { GatheringMap } from './ui';
@@ -0,0 +1,22 @@
+import type { Gathering, GatheringLocation } from '@/entities/gathering/model/types';
+
+// 지도 위 역 핀 위치 (SeoulMap viewBox 기준 백분율)
+export interface StationPin {
+  location: GatheringLocation;
+  labelKey: 'konkuk' | 'euljiro' | 'sinrim' | 'hongdae'; // filters.regions 번역 키
+  x: number;
+  y: number;
+}
+
+export const STATION_PINS: StationPin[] = [
+  { location: '홍대입구', labelKey: 'hongdae', x: 36, y: 44 },
+  { location: '을지로3가', labelKey: 'euljiro', x: 54, y: 38 },
+  { location: '건대입구', labelKey: 'konkuk', x: 72, y: 52 },
+  { location: '신림', labelKey: 'sinrim', x: 40, y: 76 },
+];
+
+export const countGatheringsByLocation = (gatherings: Gathering[]) =>
+  gatherings.reduce<Partial<Record<GatheringLocation, number>>>((counts, gathering) => {
+    counts[gathering.location] = (counts[gathering.location] ?? 0) + 1;
+    return counts;
+  }, {});
@@ -0,0 +1,83 @@
+import { createMockGathering, resetMockDb } from '@/shared/lib/msw/db';
+import { TestWrapper } from '@/shared/lib/test/testUtils';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { GatheringMap } from './GatheringMap';
+
+const mockPush = jest.fn();
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams('view=map&location=신림'),
+}));
+
+jest.mock('@/i18n', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+jest.mock('next-intl', () => ({
+  useTranslations: () => (key: string, values?: Record<string, unknown>) =>
+    values ? `${key}:${Object.values(values).join(',')}` : key,
+}));
+
+jest.mock('@/widgets/GatheringCard/ui', () => ({
+  GatheringCard: ({ gatheringName }: { gatheringName: string }) => (
+    <div data-testid="gathering-card">{gatheringName}</div>
+  ),
+}));
+
+describe('GatheringMap', () => {
+  beforeEach(() => {
+    mockPush.mockClear();
+    resetMockDb(() => {
+      createMockGathering({ name: '신림 요가', location: '신림' });
+      createMockGathering({ name: '신림 명상', location: '신림' });
+      createMockGathering({ name: '홍대 스트레칭', location: '홍대입구' });
+    });
+  });
+
+  it('역마다 모임 수를 핀에 표시하고 선택한 지역의 모임만 목록에 보여준다', async () => {
+    render(<GatheringMap filters={{ location: '신림' }} />, { wrapper: TestWrapper });
+
+    const cards = await screen.findAllByTestId('gathering-card');
+    expect(cards.map((card) => card.textContent)).toEqual(
+      expect.arrayContaining(['신림 요가', '신림 명상']),
+    );
+    expect(cards).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'map.pin:sinrim,2' })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+    expect(screen.getByRole('button', { name: 'map.pin:hongdae,1' })).toHaveAttribute(
+      'aria-pressed',
+      'false',
+    );
+    expect(screen.getByRole('button', { name: 'map.pin:konkuk,0' })).toBeInTheDocument();
+  });
+
+  it('핀을 누르면 location 필터를 적용하고, 선택된 핀을 다시 누르면 해제한다', async () => {
+    render(<GatheringMap filters={{ location: '신림' }} />, { wrapper: TestWrapper });
+    await screen.findAllByTestId('gathering-card');
+
+    fireEvent.click(screen.getByRole('button', { name: 'map.pin:hongdae,1' }));
+    expect(mockPush).toHaveBeenLastCalledWith(
+      { pathname: '/gathering', query: { view: 'map', location: '홍대입구' } },
+      { scroll: false },
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'map.pin:sinrim,2' }));
+    expect(mockPush).toHaveBeenLastCalledWith(
+      { pathname: '/gathering', query: { view: 'map' } },
+      { scroll: false },
+    );
+  });
+
+  it('한 번에 받을 수 있는 수보다 많은 모임도 모두 핀에 센다', async () => {
+    Array.from({ length: 120 }, (_, index) =>
+      createMockGathering({ name: `홍대 모임 ${index}`, location: '홍대입구' }),
+    );
+
+    render(<GatheringMap filters={{}} />, { wrapper: TestWrapper });
+
+    expect(await screen.findByRole('button', { name: 'map.pin:hongdae,121' })).toBeInTheDocument();
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,146 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
+import { OVERVIEW_GATHERING_LIMIT, useGetGatheringsForMap } from '@/entities/gathering/api';
+import type { GatheringFilters, GatheringLocation } from '@/entities/gathering/model/types';
+import { useRouter } from '@/i18n';
+import { cn } from '@/shared/lib';
+import { GatheringCard } from '@/widgets/GatheringCard/ui';
+import { STATION_PINS, countGatheringsByLocation } from '../model/stations';
+import { SeoulMap } from './SeoulMap';
+
+interface GatheringMapProps {
+  filters: GatheringFilters;
+}
+
+// 역별 모임 수를 지도 핀으로 보여주고, 핀을 누르면 FilterSection과 같은 location 필터를 적용
+export const GatheringMap = ({ filters }: GatheringMapProps) => {
+  const t = useTranslations('pages.gatherings');
+  const tRegions = useTranslations('filters.regions');
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const { data, isLoading, isError } = useGetGatheringsForMap(filters);
+  const gatherings = data?.gatherings;
+
+  const selectedLocations: GatheringLocation[] =
+    filters.locations ?? (filters.location ? [filters.location] : []);
+  const counts = useMemo(() => countGatheringsByLocation(gatherings ?? []), [gatherings]);
+  const visibleGatherings = (gatherings ?? []).filter(
+    (gathering) => selectedLocations.length === 0 || selectedLocations.includes(gathering.location),
+  );
+
+  // 이미 선택된 핀만 선택되어 있으면 해제, 아니면 그 지역 하나만 선택
+  const handlePinClick = (location: GatheringLocation) => {
+    const params = new URLSearchParams(searchParams);
+    if (selectedLocations.length === 1 && selectedLocations[0] === location) {
+      params.delete('location');
+    } else {
+      params.set('location', location);
+    }
+    router.push(
+      {
+        pathname: '/gathering',
+        query: Object.fromEntries(params.entries()),
+      },
+      { scroll: false },
+    );
+  };
+
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <p className="text-red-500">{t('error')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="tablet:flex-row flex flex-col gap-4">
+      <div className="tablet:w-1/2 tablet:self-start tablet:sticky tablet:top-4 w-full">
+        <SeoulMap title={t('map.title')}>
+          {STATION_PINS.map((pin) => {
+            const count = counts[pin.location] ?? 0;
+            const isSelected = selectedLocations.includes(pin.location);
+            return (
+              <button
+                key={pin.location}
+                type="button"
+                aria-pressed={isSelected}
+                aria-label={t('map.pin', { location: tRegions(pin.labelKey), count })}
+                onClick={() => handlePinClick(pin.location)}
+                style={{ left: `${pin.x}%`, top: `${pin.y}%` }}
+                className="absolute flex -translate-x-1/2 -translate-y-full cursor-pointer flex-col items-center"
+              >
+                <span
+                  className={cn(
+                    'flex items-center gap-1 rounded-full px-2 py-1 text-xs font-semibold whitespace-nowrap shadow-md transition-colors',
+                    isSelected ? 'bg-black text-white' : 'bg-white text-gray-900',
+                  )}
+                >
+                  {tRegions(pin.labelKey)}
+                  <span
+                    className={cn(
+                      'rounded-full px-1.5',
+                      count > 0 ? 'bg-orange-500 text-white' : 'bg-gray-200 text-gray-500',
+                    )}
+                  >
+                    {count}
+                  </span>
+                </span>
+                {/* 핀 끝 */}
+                <span
+                  className={cn(
+                    'h-2 w-2 -translate-y-1 rotate-45',
+                    isSelected ? 'bg-black' : 'bg-white',
+                  )}
+                />
+              </button>
+            );
+          })}
+        </SeoulMap>
+        {data?.isCapped && (
+          <p
+            role="status"
+            className="mt-2 rounded-md bg-orange-50 px-3 py-2 text-sm text-orange-700"
+          >
+            {t('map.capped', { count: OVERVIEW_GATHERING_LIMIT })}
+          </p>
+        )}
+      </div>
+
+      <section
+        aria-label={t('map.listLabel')}
+        className="tablet:w-1/2 flex w-full flex-col gap-4"
+      >
+        {isLoading ? (
+          <p className="py-4 text-center text-gray-500">{t('loading')}</p>
+        ) : visibleGatherings.length > 0 ? (
+          visibleGatherings.map((gathering) => (
+            <GatheringCard
+              key={gathering.id}
+              gatheringId={gathering.id}
+              gatheringType={gathering.type}
+              gatheringName={gathering.name}
+              gatheringLocation={gathering.location}
+              gatheringDateTime={new Date(gathering.dateTime)}
+              gatheringRegistrationEnd={new Date(gathering.registrationEnd)}
+              gatheringParticipantCount={gathering.participantCount}
+              gatheringCapacity={gathering.capacity}
+              gatheringMinParticipants={gathering.minParticipants}
+              gatheringSeriesId={gathering.seriesId}
+              gatheringImage={gathering.image}
+              isCanceled={!!gathering.canceledAt}
+              isEnded={new Date(gathering.dateTime) < new Date()}
+              highlightQuery={filters.keyword}
+            />
+          ))
+        ) : (
+          <p className="py-4 text-center text-gray-500">{t('noGatherings')}</p>
+        )}
+      </section>
+    </div>
+  );
+};
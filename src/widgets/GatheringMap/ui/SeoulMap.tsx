@@ -0,0 +1,36 @@
+import type { ReactNode } from 'react';
+
+interface SeoulMapProps {
+  title: string; // 지도 대체 텍스트
+  children?: ReactNode; // 지도 위에 올릴 핀 (STATION_PINS의 백분율 좌표로 배치)
+}
+
+// 외부 지도 타일 없이 번들에 포함된 단순화한 서울 지도 (한강 기준 위치만 표현)
+export const SeoulMap = ({ title, children }: SeoulMapProps) => (
+  <div className="relative aspect-[4/3] w-full overflow-hidden rounded-xl border border-gray-200 bg-orange-50">
+    <svg
+      viewBox="0 0 400 300"
+      role="img"
+      aria-label={title}
+      className="absolute inset-0 h-full w-full"
+    >
+      {/* 서울 경계 */}
+      <path
+        d="M60 60 L120 30 L200 20 L280 35 L340 70 L370 130 L360 200 L320 260 L240 285 L160 280 L90 250 L45 190 L35 120 Z"
+        fill="#fff"
+        stroke="#fdba74"
+        strokeWidth="2"
+        strokeLinejoin="round"
+      />
+      {/* 한강 */}
+      <path
+        d="M0 150 C80 160 120 175 170 178 S260 170 300 178 S360 190 400 170"
+        fill="none"
+        stroke="#bfdbfe"
+        strokeWidth="14"
+        strokeLinecap="round"
+      />
+    </svg>
+    {children}
+  </div>
+);
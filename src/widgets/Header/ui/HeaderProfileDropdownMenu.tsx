@@ -34,7 +34,7 @@ const HeaderProfileDropdownMenu = ({ status }: Props) => {
             className="flex w-fit items-center justify-center rounded-full px-0 py-0 transition-colors hover:border-gray-300 hover:bg-gray-50"
           >
             <ProfileImage
-              url={user?.image}
+              url={user?.image ?? undefined}
               size={40}
               aria-hidden="true"
             />
@@ -23,7 +23,8 @@ export const ReviewList = ({ filters }: ReviewListProps) => {
     return data.pages.flatMap((page) => page.data);
   }, [data.pages]);
 
-  if (allReviews.length === 0) {
+  // 검색어로 현재 페이지가 모두 걸러져도 다음 페이지가 있으면 계속 불러옴
+  if (allReviews.length === 0 && !hasNextPage) {
     return (
       <div className="flex items-center justify-center py-8">
         <p className="text-gray-500">{t('noReview')}</p>
@@ -41,11 +42,12 @@ export const ReviewList = ({ filters }: ReviewListProps) => {
                 comment={review.comment}
                 dateTime={review.Gathering?.dateTime}
                 userName={review.User?.name}
-                userImg={review.User?.image}
+                userImg={review.User?.image ?? undefined}
                 reviewImg={review.Gathering?.image}
                 gatheringName={review.Gathering?.name}
                 location={review.Gathering?.location}
                 idx={idx}
+                highlightQuery={filters.keyword}
               />
             </li>
           ))}